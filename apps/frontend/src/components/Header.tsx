@@ -1,13 +1,19 @@
 import { Link, useNavigate } from '@tanstack/react-router'
 
-import { LayoutDashboard, LogOut, X } from 'lucide-react'
+import { LayoutDashboard, LogOut, Receipt, Settings, ShoppingCart, X } from 'lucide-react'
 import { useState } from 'react'
 import { useAuth } from '../contexts/AuthContext'
+import { canUseDashboard } from '../lib/api'
+import { useCart } from '../lib/hooks'
 
 export default function Header() {
   const [isOpen, setIsOpen] = useState(false)
+  const [cartOpen, setCartOpen] = useState(false)
   const { user, logout } = useAuth()
   const navigate = useNavigate()
+  const { data: cart } = useCart(!!user)
+
+  const cartCount = cart?.items.reduce((sum, item) => sum + item.quantity, 0) ?? 0
 
   const handleLogout = async () => {
     await logout()
@@ -29,16 +35,42 @@ export default function Header() {
         {user && (
           <div className="flex items-center gap-4">
             <span className="text-sm font-medium">{user.name}</span>
-            {user.role === 'ADMIN' && (
+            {canUseDashboard(user) && (
               <Link
                 to="/dashboard"
                 className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
-                title="Admin Dashboard"
+                title="Dashboard"
               >
                 <LayoutDashboard size={20} />
                 
               </Link>
             )}
+            <button
+              onClick={() => setCartOpen(true)}
+              className="relative p-2 hover:bg-gray-700 rounded-lg transition-colors"
+              title="Cart"
+            >
+              <ShoppingCart size={20} />
+              {cartCount > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-blue-600 text-xs leading-5 text-center">
+                  {cartCount}
+                </span>
+              )}
+            </button>
+            <Link
+              to="/orders"
+              className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+              title="Orders"
+            >
+              <Receipt size={20} />
+            </Link>
+            <Link
+              to="/settings"
+              className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+              title="Settings"
+            >
+              <Settings size={20} />
+            </Link>
             <button
               onClick={handleLogout}
               className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
@@ -69,7 +101,7 @@ export default function Header() {
 
         <nav className="flex-1 p-4 overflow-y-auto">
 
-          {user?.role === 'ADMIN' && (
+          {canUseDashboard(user) && (
             <Link
               to="/dashboard"
               onClick={() => setIsOpen(false)}
@@ -98,6 +130,62 @@ export default function Header() {
           </div>
         )}
       </aside>
+
+      <aside
+        className={`fixed top-0 right-0 h-full w-80 bg-white shadow-2xl z-50 transform transition-transform duration-300 ease-in-out flex flex-col ${
+          cartOpen ? 'translate-x-0' : 'translate-x-full'
+        }`}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900">Cart</h2>
+          <button
+            onClick={() => setCartOpen(false)}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close cart"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 p-4 overflow-y-auto space-y-3">
+          {!cart || cart.items.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">Your cart is empty.</p>
+          ) : (
+            cart.items.map((item) => (
+              <div key={item.id} className="flex justify-between text-sm">
+                <div>
+                  <div className="font-medium text-gray-900">{item.name}</div>
+                  <div className="text-gray-500">
+                    {item.quantity} × ${item.unitPrice.toFixed(2)}
+                  </div>
+                  {item.status !== 'available' && (
+                    <div className="text-red-600">
+                      {item.status === 'out_of_stock' ? 'Out of stock' : `Only ${item.stock} left`}
+                    </div>
+                  )}
+                </div>
+                <div className="text-gray-900">${(item.unitPrice * item.quantity).toFixed(2)}</div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {cart && cart.items.length > 0 && (
+          <div className="border-t border-gray-200 p-4 space-y-3">
+            <div className="flex justify-between font-semibold text-gray-900">
+              <span>Total</span>
+              <span>${cart.total.toFixed(2)}</span>
+            </div>
+            <Link
+              to="/cart"
+              onClick={() => setCartOpen(false)}
+              className="block w-full text-center rounded-md bg-blue-600 px-4 py-2 text-white font-medium hover:bg-blue-700 transition-colors"
+            >
+              View cart and check out
+            </Link>
+          </div>
+        )}
+      </aside>
     </>
   )
 }
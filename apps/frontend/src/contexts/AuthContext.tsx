@@ -12,6 +12,8 @@ interface AuthContextType {
   isLoading: boolean
   isAuthenticated: boolean
   logout: () => Promise<void>
+  // Replace the stored user, e.g. after a profile update
+  setUser: (user: User | null) => void
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -55,6 +57,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         isAuthenticated: !!user,
         logout,
+        setUser,
       }}
     >
       {children}
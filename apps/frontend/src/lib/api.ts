@@ -5,7 +5,7 @@
  * with the backend API. All API requests should be made through functions
  * exported from this module.
  */
-import axios from "axios";
+import axios, { type InternalAxiosRequestConfig } from "axios";
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || "/api";
 
@@ -15,20 +15,173 @@ const API_BASE_URL = import.meta.env.VITE_API_URL || "/api";
 export const apiClient = axios.create({
   baseURL: API_BASE_URL,
   withCredentials: true, // Include cookies for auth
+  // Echo the CSRF cookie in a header on every request (double-submit)
+  xsrfCookieName: "csrf-token",
+  xsrfHeaderName: "X-CSRF-Token",
+});
+
+// Auth endpoints whose 401s must not trigger a token refresh
+// (`/auth/login` also covers the `/auth/login/2fa` step)
+const NO_REFRESH_PATHS = ["/auth/login", "/auth/otp", "/auth/register", "/auth/refresh"];
+
+let refreshPromise: Promise<unknown> | null = null;
+
+/**
+ * Access tokens are short-lived. When a request fails with 401, ask the
+ * server to rotate the refresh token once (shared across concurrent
+ * requests) and replay the original request.
+ */
+apiClient.interceptors.response.use(undefined, async (error) => {
+  const original = error.config as
+    | (InternalAxiosRequestConfig & { _retried?: boolean })
+    | undefined;
+
+  // The server rejected a missing or stale CSRF token and set a fresh
+  // cookie on the error response; replay once so it is picked up.
+  if (
+    error.response?.status === 403 &&
+    error.response.data?.code === "CSRF_TOKEN_INVALID" &&
+    original &&
+    !original._retried
+  ) {
+    original._retried = true;
+    return apiClient(original);
+  }
+
+  if (
+    error.response?.status !== 401 ||
+    !original ||
+    original._retried ||
+    NO_REFRESH_PATHS.some((path) => original.url?.startsWith(path))
+  ) {
+    return Promise.reject(error);
+  }
+
+  original._retried = true;
+
+  refreshPromise ??= apiClient.post("/auth/refresh").finally(() => {
+    refreshPromise = null;
+  });
+
+  try {
+    await refreshPromise;
+  } catch {
+    return Promise.reject(error);
+  }
+
+  return apiClient(original);
 });
 
 /**
- * Sweet data type
+ * What a sweet is sold by. Its stock and quantities are in this unit and
+ * its price is per piece, per 100 g or per kg
+ */
+export type SaleUnit = "PIECE" | "GRAM" | "KILOGRAM";
+
+/**
+ * How each unit is shown and entered. `basis` is how much of the unit the
+ * price is for; `grams` is set for units of mass, which convert
+ */
+export const SALE_UNITS: Record<
+  SaleUnit,
+  { label: string; symbol: string; step: number; basis: number; grams?: number }
+> = {
+  PIECE: { label: "piece", symbol: "pcs", step: 1, basis: 1 },
+  GRAM: { label: "100 g", symbol: "g", step: 1, basis: 100, grams: 1 },
+  KILOGRAM: { label: "kg", symbol: "kg", step: 0.001, basis: 1, grams: 1000 },
+};
+
+/**
+ * A quantity with its unit, e.g. "250 g"
+ */
+export function formatQuantity(quantity: number | string, unit: SaleUnit = "PIECE"): string {
+  return `${Number(quantity)} ${SALE_UNITS[unit].symbol}`;
+}
+
+/**
+ * Convert `quantity` of `from` into `to`, or `null` when they are different
+ * kinds of unit or the result is finer than `to` allows
+ */
+export function convertQuantity(quantity: number, from: SaleUnit, to: SaleUnit): number | null {
+  let converted = quantity;
+  if (from !== to) {
+    const fromGrams = SALE_UNITS[from].grams;
+    const toGrams = SALE_UNITS[to].grams;
+    if (!fromGrams || !toGrams) return null;
+    converted = (quantity * fromGrams) / toGrams;
+  }
+
+  // Whole steps of `to` (a piece, a gram), within float error
+  const perStep = 1 / SALE_UNITS[to].step;
+  const steps = converted * perStep;
+  return Math.abs(steps - Math.round(steps)) < 1e-6 ? Math.round(steps) / perStep : null;
+}
+
+/**
+ * Price of `quantity` of a sweet sold in `unit` at `price`
+ */
+export function linePrice(
+  price: number | string,
+  quantity: number | string,
+  unit: SaleUnit = "PIECE",
+): number {
+  return (Number(price) * Number(quantity)) / SALE_UNITS[unit].basis;
+}
+
+/**
+ * Allergens a sweet can contain
+ */
+export type Allergen = "NUTS" | "DAIRY" | "GLUTEN";
+
+/**
+ * Dietary needs a sweet can meet
+ */
+export type DietaryTag = "SUGAR_FREE" | "VEGAN" | "JAIN";
+
+/**
+ * How each allergen is shown on a sweet (`label`) and as a filter for
+ * sweets without it (`freeLabel`)
+ */
+export const ALLERGENS: Record<Allergen, { label: string; freeLabel: string }> = {
+  NUTS: { label: "Contains nuts", freeLabel: "Nut-free" },
+  DAIRY: { label: "Contains dairy", freeLabel: "Dairy-free" },
+  GLUTEN: { label: "Contains gluten", freeLabel: "Gluten-free" },
+};
+
+/**
+ * How each dietary tag is shown
+ */
+export const DIETARY_TAGS: Record<DietaryTag, string> = {
+  SUGAR_FREE: "Sugar-free",
+  VEGAN: "Vegan",
+  JAIN: "Jain",
+};
+
+/**
+ * Sweet data type. Stock and low-stock levels may arrive as decimal
+ * strings, like the price
  */
 export interface Sweet {
   id: string;
   name: string;
+  unit: SaleUnit;
   price: number;
   stock: number;
+  lowStockThreshold?: number | null;
+  reorderQuantity?: number | null;
+  ingredients?: string | null;
+  allergens?: Allergen[];
+  dietaryTags?: DietaryTag[];
   categoryId: string;
   userId: string;
+  deletedAt?: string | null;
   createdAt: Date;
   updatedAt: Date;
+  primaryImage?: SweetImage | null;
+  /** Pack sizes on sale, smallest first (listings only) */
+  variants?: SweetVariant[];
+  /** Lowest price of its variants, or its own price without any (listings only) */
+  fromPrice?: number;
   category?: {
     id: string;
     name: string;
@@ -41,6 +194,20 @@ export interface Sweet {
   };
 }
 
+/**
+ * A pack size of a sweet (a 250 g box, a 1 kg box, ...) with its own price,
+ * SKU and stock of whole packs. `size` is in the sweet's unit.
+ */
+export interface SweetVariant {
+  id: string;
+  sweetId: string;
+  label: string;
+  size: number;
+  price: number;
+  sku: string;
+  stock: number;
+}
+
 /**
  * Fetch all sweets
  */
@@ -50,22 +217,462 @@ export async function fetchSweets(): Promise<Sweet[]> {
 }
 
 /**
- * Search sweets by name, categoryId, or price range
+ * URL for a path returned by the API (such as an image URL), which is
+ * relative to the server root
+ */
+export function assetUrl(path: string): string {
+  return path.startsWith("/api/") ? `${API_BASE_URL}${path.slice("/api".length)}` : path;
+}
+
+/**
+ * An uploaded picture of a sweet; the first by `position` is the primary
+ */
+export interface SweetImage {
+  id: string;
+  position: number;
+  url: string;
+  thumbnailUrl: string;
+  contentType: string;
+  size: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A sweet's images, primary first
+ */
+export async function fetchSweetImages(sweetId: string): Promise<SweetImage[]> {
+  const response = await apiClient.get<{ images: SweetImage[] }>(`/sweets/${sweetId}/images`);
+  return response.data.images;
+}
+
+/**
+ * Upload JPEG, PNG or WebP images, added after the existing ones
+ */
+export async function uploadSweetImages(sweetId: string, files: File[]): Promise<SweetImage[]> {
+  const form = new FormData();
+  files.forEach((file) => form.append("images", file));
+  const response = await apiClient.post<{ images: SweetImage[] }>(`/sweets/${sweetId}/images`, form);
+  return response.data.images;
+}
+
+/**
+ * Put a sweet's images in the order of `imageIds`
+ */
+export async function reorderSweetImages(sweetId: string, imageIds: string[]): Promise<SweetImage[]> {
+  const response = await apiClient.put<{ images: SweetImage[] }>(`/sweets/${sweetId}/images/order`, {
+    imageIds,
+  });
+  return response.data.images;
+}
+
+/**
+ * Remove one of a sweet's images
+ */
+export async function deleteSweetImage(sweetId: string, imageId: string): Promise<SweetImage[]> {
+  const response = await apiClient.delete<{ images: SweetImage[] }>(
+    `/sweets/${sweetId}/images/${imageId}`,
+  );
+  return response.data.images;
+}
+
+/**
+ * Add a pack size to a sweet, with its opening stock of packs
+ */
+export async function createVariant(
+  sweetId: string,
+  data: { label: string; size: number; price: number; sku: string; stock?: number },
+): Promise<SweetVariant> {
+  const response = await apiClient.post<{ variant: SweetVariant }>(`/sweets/${sweetId}/variants`, data);
+  return response.data.variant;
+}
+
+/**
+ * Change a pack size's label, size, price or SKU (its stock changes by
+ * restocking)
+ */
+export async function updateVariant(
+  sweetId: string,
+  variantId: string,
+  data: Partial<Pick<SweetVariant, "label" | "size" | "price" | "sku">>,
+): Promise<SweetVariant> {
+  const response = await apiClient.put<{ variant: SweetVariant }>(
+    `/sweets/${sweetId}/variants/${variantId}`,
+    data,
+  );
+  return response.data.variant;
+}
+
+/**
+ * Stop selling a pack size; it also leaves customers' carts
+ */
+export async function archiveVariant(sweetId: string, variantId: string): Promise<void> {
+  await apiClient.delete(`/sweets/${sweetId}/variants/${variantId}`);
+}
+
+/**
+ * Archived sweets, most recently archived first (`sweet.delete` only)
+ */
+export async function fetchArchivedSweets(): Promise<Sweet[]> {
+  const response = await apiClient.get<{ sweets: Sweet[] }>("/sweets/archived");
+  return response.data.sweets;
+}
+
+/**
+ * Bring an archived sweet back
+ */
+export async function restoreSweet(id: string): Promise<Sweet> {
+  const response = await apiClient.post<{ sweet: Sweet }>(`/sweets/${id}/restore`);
+  return response.data.sweet;
+}
+
+/**
+ * Search sweets by name, categoryId, or price range, and by the dietary
+ * tags and allergens they must have or must not have
  */
 export interface SearchParams {
   name?: string;
   categoryId?: string;
   priceMin?: number;
   priceMax?: number;
+  tags?: DietaryTag[];
+  excludeTags?: DietaryTag[];
+  allergens?: Allergen[];
+  excludeAllergens?: Allergen[];
 }
 
 export async function searchSweets(params: SearchParams): Promise<Sweet[]> {
+  // Lists are sent comma-separated
+  const list = (values?: string[]) => values?.join(",") || undefined;
   const response = await apiClient.get<{ sweets: Sweet[] }>("/sweets/search", {
+    params: {
+      ...params,
+      tags: list(params.tags),
+      excludeTags: list(params.excludeTags),
+      allergens: list(params.allergens),
+      excludeAllergens: list(params.excludeAllergens),
+    },
+  });
+  return response.data.sweets;
+}
+
+/**
+ * Why a sweet's stock changed
+ */
+export type StockMovementType = "SALE" | "RESTOCK" | "ADJUSTMENT" | "WASTE" | "RETURN";
+
+/**
+ * Entry in a sweet's stock ledger. `balance` is the stock right after it.
+ */
+export interface StockMovement {
+  id: string;
+  sweetId: string;
+  /** Set when the movement was of one of the sweet's variants' packs */
+  variantId: string | null;
+  type: StockMovementType;
+  delta: number;
+  balance: number;
+  reason: string | null;
+  reference: string | null;
+  createdAt: string;
+  user: Pick<User, "id" | "name" | "email"> | null;
+  variant?: Pick<SweetVariant, "id" | "label"> | null;
+}
+
+/**
+ * A page of movements from `GET /sweets/:id/movements`
+ */
+export interface StockMovementPage {
+  movements: StockMovement[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * A sweet's stock history, newest first (`stock.restock` only)
+ */
+export async function fetchStockMovements(
+  sweetId: string,
+  params: { type?: StockMovementType; page?: number; pageSize?: number },
+): Promise<StockMovementPage> {
+  const response = await apiClient.get<StockMovementPage>(`/sweets/${sweetId}/movements`, {
     params,
   });
+  return response.data;
+}
+
+/**
+ * Whether a sweet is at or below its low-stock threshold
+ */
+export function isLowStock(sweet: Pick<Sweet, "stock" | "lowStockThreshold">): boolean {
+  return sweet.lowStockThreshold != null && Number(sweet.stock) <= Number(sweet.lowStockThreshold);
+}
+
+/**
+ * A low sweet with how much to restock it by
+ */
+export interface LowStockSweet extends Sweet {
+  suggestedQuantity: number;
+}
+
+/**
+ * Sweets at or below their low-stock threshold, lowest first
+ */
+export async function fetchLowStock(): Promise<LowStockSweet[]> {
+  const response = await apiClient.get<{ sweets: LowStockSweet[] }>("/inventory/low-stock");
   return response.data.sweets;
 }
 
+/**
+ * Raised when a sweet's stock drops to its low-stock threshold
+ */
+export interface StockAlert {
+  id: string;
+  sweetId: string;
+  stock: number;
+  threshold: number;
+  createdAt: string;
+  sweet: Pick<Sweet, "id" | "name" | "unit" | "stock" | "lowStockThreshold" | "reorderQuantity">;
+}
+
+/**
+ * Open low-stock alerts, newest first
+ */
+export async function fetchStockAlerts(): Promise<StockAlert[]> {
+  const response = await apiClient.get<{ alerts: StockAlert[] }>("/inventory/alerts");
+  return response.data.alerts;
+}
+
+/**
+ * Resolve a low-stock alert without restocking
+ */
+export async function dismissStockAlert(id: string): Promise<void> {
+  await apiClient.post(`/inventory/alerts/${id}/dismiss`);
+}
+
+/**
+ * Stock added by one restock, with its dates. `quantity` is what is left of
+ * it: sales take from the batch that expires first, and never from expired
+ * ones.
+ */
+export interface StockBatch {
+  id: string;
+  sweetId: string;
+  variantId: string | null;
+  received: number;
+  quantity: number;
+  producedAt: string | null;
+  bestBefore: string | null;
+  createdAt: string;
+  expired: boolean;
+  sweet?: Pick<Sweet, "id" | "name" | "unit">;
+  variant?: Pick<SweetVariant, "id" | "label"> | null;
+}
+
+/**
+ * Batches that have expired or expire within `days` days, earliest first
+ */
+export async function fetchExpiringBatches(days = 7): Promise<StockBatch[]> {
+  const response = await apiClient.get<{ batches: StockBatch[] }>("/inventory/expiring", {
+    params: { days },
+  });
+  return response.data.batches;
+}
+
+/**
+ * Write what is left of every expired batch off as waste
+ */
+export async function writeOffExpired(): Promise<{ batch: StockBatch; movement: StockMovement }[]> {
+  const response = await apiClient.post<{
+    writtenOff: { batch: StockBatch; movement: StockMovement }[];
+  }>("/inventory/expired/write-off");
+  return response.data.writtenOff;
+}
+
+/**
+ * One sweet in an order, with the name and unit price at the time of
+ * purchase
+ */
+export interface OrderItem {
+  id: string;
+  sweetId: string | null;
+  variantId: string | null;
+  name: string;
+  unit: SaleUnit;
+  unitPrice: number;
+  quantity: number;
+}
+
+/**
+ * Order data type
+ */
+export interface Order {
+  id: string;
+  userId: string;
+  total: number;
+  createdAt: string;
+  items: OrderItem[];
+  user?: {
+    id: string;
+    name: string;
+    email: string;
+  };
+}
+
+/**
+ * A page of orders from `GET /orders` or `GET /orders/all`
+ */
+export interface OrderPage {
+  orders: Order[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Check out several sweets at once. Send the same `idempotencyKey` when
+ * retrying so the order is only placed once.
+ */
+export async function checkout(
+  items: { sweetId: string; variantId?: string; quantity: number; unit?: SaleUnit }[],
+  idempotencyKey: string,
+): Promise<Order> {
+  const response = await apiClient.post<{ order: Order }>(
+    "/orders",
+    { items },
+    { headers: { "Idempotency-Key": idempotencyKey } },
+  );
+  return response.data.order;
+}
+
+/**
+ * The current user's orders, newest first
+ */
+export async function fetchOrders(params: {
+  page?: number;
+  pageSize?: number;
+}): Promise<OrderPage> {
+  const response = await apiClient.get<OrderPage>("/orders", { params });
+  return response.data;
+}
+
+/**
+ * Every customer's orders, newest first (`order.read` only)
+ */
+export async function fetchAllOrders(params: {
+  userId?: string;
+  page?: number;
+  pageSize?: number;
+}): Promise<OrderPage> {
+  const response = await apiClient.get<OrderPage>("/orders/all", { params });
+  return response.data;
+}
+
+/**
+ * Whether a cart item can be bought as it is
+ */
+export type CartItemStatus = "available" | "insufficient_stock" | "out_of_stock";
+
+/**
+ * A cart item with the sweet's (or, for packs, the variant's) current price
+ * and stock
+ */
+export interface CartItem {
+  id: string;
+  sweetId: string;
+  variantId: string | null;
+  name: string;
+  unit: SaleUnit;
+  quantity: number;
+  unitPrice: number;
+  addedPrice: number;
+  priceChanged: boolean;
+  stock: number;
+  status: CartItemStatus;
+}
+
+/**
+ * The current user's cart
+ */
+export interface Cart {
+  items: CartItem[];
+  total: number;
+  checkoutReady: boolean;
+}
+
+/**
+ * Fetch the current user's cart
+ */
+export async function fetchCart(): Promise<Cart> {
+  const response = await apiClient.get<{ cart: Cart }>("/cart");
+  return response.data.cart;
+}
+
+/**
+ * Add a quantity of a sweet to the cart, in `unit` when it is not the
+ * sweet's own, or whole packs of one of its variants
+ */
+export async function addToCart(
+  sweetId: string,
+  quantity: number,
+  unit?: SaleUnit,
+  variantId?: string,
+): Promise<Cart> {
+  const response = await apiClient.post<{ cart: Cart }>("/cart/items", {
+    sweetId,
+    variantId,
+    quantity,
+    unit,
+  });
+  return response.data.cart;
+}
+
+/**
+ * Set the quantity of a sweet (or of one of its variants) in the cart
+ */
+export async function setCartItem(
+  sweetId: string,
+  quantity: number,
+  variantId?: string | null,
+): Promise<Cart> {
+  const response = await apiClient.put<{ cart: Cart }>(
+    `/cart/items/${sweetId}`,
+    { quantity },
+    { params: { variantId: variantId ?? undefined } },
+  );
+  return response.data.cart;
+}
+
+/**
+ * Remove a sweet (or one of its variants) from the cart
+ */
+export async function removeCartItem(sweetId: string, variantId?: string | null): Promise<Cart> {
+  const response = await apiClient.delete<{ cart: Cart }>(`/cart/items/${sweetId}`, {
+    params: { variantId: variantId ?? undefined },
+  });
+  return response.data.cart;
+}
+
+/**
+ * Empty the cart
+ */
+export async function clearCart(): Promise<Cart> {
+  const response = await apiClient.delete<{ cart: Cart }>("/cart");
+  return response.data.cart;
+}
+
+/**
+ * Order everything in the cart. Send the same `idempotencyKey` when
+ * retrying so the order is only placed once.
+ */
+export async function checkoutCart(idempotencyKey: string): Promise<Order> {
+  const response = await apiClient.post<{ order: Order }>("/cart/checkout", undefined, {
+    headers: { "Idempotency-Key": idempotencyKey },
+  });
+  return response.data.order;
+}
+
 /**
  * Category data type
  */
@@ -73,6 +680,7 @@ export interface Category {
   id: string;
   name: string;
   description?: string;
+  deletedAt?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -85,18 +693,74 @@ export async function fetchCategories(): Promise<Category[]> {
   return response.data.categories;
 }
 
+/**
+ * Archived categories, most recently archived first (`category.manage` only)
+ */
+export async function fetchArchivedCategories(): Promise<Category[]> {
+  const response = await apiClient.get<{ categories: Category[] }>("/category/archived");
+  return response.data.categories;
+}
+
+/**
+ * Archive a category; refused while it still has sweets
+ */
+export async function archiveCategory(id: string): Promise<void> {
+  await apiClient.delete(`/category/${id}`);
+}
+
+/**
+ * Bring an archived category back
+ */
+export async function restoreCategory(id: string): Promise<Category> {
+  const response = await apiClient.post<{ category: Category }>(`/category/${id}/restore`);
+  return response.data.category;
+}
+
+/**
+ * Named permission granted by a role
+ */
+export type Permission =
+  | "sweet.create"
+  | "sweet.update"
+  | "sweet.price.update"
+  | "sweet.delete"
+  | "stock.restock"
+  | "category.manage"
+  | "user.manage"
+  | "audit.read"
+  | "order.read"
+  | "apiKey.manage";
+
 /**
  * User data type
  */
 export interface User {
   id: string;
   email: string;
+  phone: string | null;
   name: string;
-  role: "USER" | "ADMIN";
+  role: "USER" | "STAFF" | "MANAGER" | "ADMIN";
+  permissions: Permission[];
+  twoFactorEnabled: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Whether `user` has `permission` (hides actions the server would refuse)
+ */
+export function hasPermission(user: User | null | undefined, permission: Permission): boolean {
+  return !!user?.permissions?.includes(permission);
+}
+
+/**
+ * Whether `user` has any management permission, i.e. something to do on
+ * the dashboard
+ */
+export function canUseDashboard(user: User | null | undefined): boolean {
+  return !!user?.permissions?.length;
+}
+
 /**
  * Register a new user
  */
@@ -104,23 +768,148 @@ export async function register(data: {
   email: string;
   name: string;
   password: string;
-  role?: "USER" | "ADMIN";
 }): Promise<{ user: User }> {
   const response = await apiClient.post<{ user: User }>("/auth/register", data);
   return response.data;
 }
 
+/**
+ * Result of the password step of a login. Accounts with two-factor
+ * authentication get a challenge to complete with `loginTwoFactor`.
+ */
+export type LoginResult =
+  | { user: User }
+  | { twoFactorRequired: true; challenge: string };
+
 /**
  * Login user
  */
 export async function login(data: {
   email: string;
   password: string;
+}): Promise<LoginResult> {
+  const response = await apiClient.post<LoginResult>("/auth/login", data);
+  return response.data;
+}
+
+/**
+ * Text a login code to the account registered with `phone`
+ */
+export async function requestLoginCode(phone: string): Promise<{ message: string }> {
+  const response = await apiClient.post<{ message: string }>("/auth/otp/request", { phone });
+  return response.data;
+}
+
+/**
+ * Login with a phone number and the code sent to it. Like `login`, accounts
+ * with two-factor authentication get a challenge instead.
+ */
+export async function loginWithCode(data: {
+  phone: string;
+  code: string;
+}): Promise<LoginResult> {
+  const response = await apiClient.post<LoginResult>("/auth/otp/verify", data);
+  return response.data;
+}
+
+/**
+ * OpenID Connect provider offered on the login page
+ */
+export interface OidcProvider {
+  id: string;
+  label: string;
+}
+
+/**
+ * List the configured OpenID Connect providers
+ */
+export async function fetchOidcProviders(): Promise<OidcProvider[]> {
+  const response = await apiClient.get<{ providers: OidcProvider[] }>("/auth/oidc/providers");
+  return response.data.providers;
+}
+
+/**
+ * URL that starts a provider login. The browser navigates there; the
+ * server redirects back to the app when the login completes.
+ */
+export function oidcLoginUrl(providerId: string): string {
+  return `${API_BASE_URL}/auth/oidc/${encodeURIComponent(providerId)}/start`;
+}
+
+/**
+ * Complete a two-factor login with a TOTP code or a recovery code
+ */
+export async function loginTwoFactor(data: {
+  challenge: string;
+  code?: string;
+  recoveryCode?: string;
 }): Promise<{ user: User }> {
-  const response = await apiClient.post<{ user: User }>("/auth/login", data);
+  const response = await apiClient.post<{ user: User }>("/auth/login/2fa", data);
   return response.data;
 }
 
+/**
+ * Two-factor authentication status of the current user
+ */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Get the current user's two-factor status
+ */
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+  const response = await apiClient.get<TwoFactorStatus>("/auth/2fa");
+  return response.data;
+}
+
+/**
+ * Start two-factor enrollment. Returns the secret and a QR code to scan.
+ */
+export async function setupTwoFactor(): Promise<{
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}> {
+  const response = await apiClient.post("/auth/2fa/setup");
+  return response.data;
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ */
+export async function enableTwoFactor(code: string): Promise<{ recoveryCodes: string[] }> {
+  const response = await apiClient.post<{ recoveryCodes: string[] }>("/auth/2fa/enable", {
+    code,
+  });
+  return response.data;
+}
+
+/**
+ * Replace the recovery codes (requires a current code)
+ */
+export async function regenerateRecoveryCodes(
+  code: string,
+): Promise<{ recoveryCodes: string[] }> {
+  const response = await apiClient.post<{ recoveryCodes: string[] }>(
+    "/auth/2fa/recovery-codes",
+    { code },
+  );
+  return response.data;
+}
+
+/**
+ * Turn off two-factor authentication
+ */
+export async function disableTwoFactor(data: {
+  password: string;
+  code: string;
+}): Promise<void> {
+  await apiClient.post("/auth/2fa/disable", data);
+}
+
 /**
  * Get current user (requires auth)
  */
@@ -129,9 +918,250 @@ export async function getCurrentUser(): Promise<User> {
   return response.data.user;
 }
 
+/**
+ * Update the current user's name, email and/or phone number. Changing the
+ * email or phone number needs the current password; `phone: null` removes
+ * the number.
+ */
+export async function updateProfile(data: {
+  name?: string;
+  email?: string;
+  phone?: string | null;
+  currentPassword?: string;
+}): Promise<User> {
+  const response = await apiClient.patch<{ user: User }>("/auth/me", data);
+  return response.data.user;
+}
+
+/**
+ * Change the current user's password. Other sessions are signed out.
+ */
+export async function changePassword(data: {
+  currentPassword: string;
+  newPassword: string;
+}): Promise<{ message: string; revokedSessions: number }> {
+  const response = await apiClient.post<{ message: string; revokedSessions: number }>(
+    "/auth/change-password",
+    data,
+  );
+  return response.data;
+}
+
+/**
+ * Delete (anonymize) the current user's account
+ */
+export async function deleteAccount(password: string): Promise<void> {
+  await apiClient.delete("/auth/me", { data: { password } });
+}
+
+/**
+ * Entry in the authentication audit log
+ */
+export interface AuthEvent {
+  id: string;
+  type:
+    | "REGISTER"
+    | "LOGIN"
+    | "LOGIN_FAILED"
+    | "LOGOUT"
+    | "PASSWORD_RESET_REQUESTED"
+    | "LOGIN_CODE_REQUESTED"
+    | "PASSWORD_RESET"
+    | "PASSWORD_CHANGED"
+    | "EMAIL_CHANGED"
+    | "PHONE_CHANGED"
+    | "IDENTITY_LINKED"
+    | "TWO_FACTOR_ENABLED"
+    | "TWO_FACTOR_DISABLED"
+    | "ACCOUNT_DELETED";
+  userId: string | null;
+  email: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+/**
+ * The current user's recent authentication events, newest first
+ */
+export async function getAuthActivity(): Promise<AuthEvent[]> {
+  const response = await apiClient.get<{ events: AuthEvent[] }>("/auth/activity");
+  return response.data.events;
+}
+
 /**
  * Logout user
  */
 export async function logout(): Promise<void> {
   await apiClient.post("/auth/logout");
 }
+
+/**
+ * Request a password reset email
+ */
+export async function forgotPassword(email: string): Promise<{ message: string }> {
+  const response = await apiClient.post<{ message: string }>("/auth/forgot-password", {
+    email,
+  });
+  return response.data;
+}
+
+/**
+ * Set a new password using the token from a reset email
+ */
+export async function resetPassword(data: {
+  token: string;
+  password: string;
+}): Promise<{ message: string }> {
+  const response = await apiClient.post<{ message: string }>("/auth/reset-password", data);
+  return response.data;
+}
+
+/**
+ * Pending invitation as seen by the invitee
+ */
+export interface InvitationPreview {
+  email: string;
+  role: User["role"];
+}
+
+/**
+ * Look up a pending invitation by its token
+ */
+export async function getInvitation(token: string): Promise<InvitationPreview> {
+  const response = await apiClient.get<{ invitation: InvitationPreview }>(
+    "/auth/register/invite",
+    { params: { token } },
+  );
+  return response.data.invitation;
+}
+
+/**
+ * Create an account from an invitation
+ */
+export async function registerWithInvite(data: {
+  token: string;
+  name: string;
+  password: string;
+}): Promise<{ user: User }> {
+  const response = await apiClient.post<{ user: User }>("/auth/register/invite", data);
+  return response.data;
+}
+
+/**
+ * Invite someone to create an account with a given role (admin only)
+ */
+export async function createInvitation(data: {
+  email: string;
+  role: User["role"];
+}): Promise<{ inviteUrl: string }> {
+  const response = await apiClient.post<{ inviteUrl: string }>("/invitations", data);
+  return response.data;
+}
+
+/**
+ * User as listed to admins
+ */
+export interface AdminUser extends User {
+  lastLoginAt: string | null;
+  disabledAt: string | null;
+}
+
+/**
+ * A page of users from `GET /users`
+ */
+export interface UserPage {
+  users: AdminUser[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * List users, optionally filtered by name or email (admin only)
+ */
+export async function fetchUsers(params: {
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}): Promise<UserPage> {
+  const response = await apiClient.get<UserPage>("/users", { params });
+  return response.data;
+}
+
+/**
+ * Change a user's role or disable/re-enable them (admin only)
+ */
+export async function updateUser(
+  id: string,
+  data: { role?: User["role"]; disabled?: boolean },
+): Promise<AdminUser> {
+  const response = await apiClient.patch<{ user: AdminUser }>(`/users/${id}`, data);
+  return response.data.user;
+}
+
+/**
+ * Sign a user out of every session (admin only)
+ */
+export async function forceLogout(id: string): Promise<{ revokedSessions: number }> {
+  const response = await apiClient.post<{ revokedSessions: number }>(`/users/${id}/force-logout`);
+  return response.data;
+}
+
+/**
+ * Scopes that can be granted to an API key
+ */
+export const API_KEY_SCOPES = [
+  "sweet.read",
+  "sweet.purchase",
+  "sweet.create",
+  "sweet.update",
+  "sweet.delete",
+  "stock.restock",
+  "category.read",
+  "category.manage",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * API key as listed to admins (the secret itself is never returned again)
+ */
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+  createdBy?: Pick<User, "id" | "name" | "email">;
+}
+
+/**
+ * List API keys (admin only)
+ */
+export async function fetchApiKeys(): Promise<ApiKey[]> {
+  const response = await apiClient.get<{ apiKeys: ApiKey[] }>("/api-keys");
+  return response.data.apiKeys;
+}
+
+/**
+ * Mint an API key (admin only). The returned `key` is only shown once.
+ */
+export async function createApiKey(data: {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresInDays?: number;
+}): Promise<{ apiKey: ApiKey; key: string }> {
+  const response = await apiClient.post<{ apiKey: ApiKey; key: string }>("/api-keys", data);
+  return response.data;
+}
+
+/**
+ * Revoke an API key (admin only)
+ */
+export async function revokeApiKey(id: string): Promise<void> {
+  await apiClient.delete(`/api-keys/${id}`);
+}
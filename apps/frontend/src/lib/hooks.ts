@@ -1,12 +1,13 @@
 /**
  * TanStack Query hooks for data fetching
  *
- * Custom hooks that wrap TanStack Query to fetch sweets and categories data
- * from the backend API. These hooks handle caching, refetching, and state
- * management automatically.
+ * Custom hooks that wrap TanStack Query to fetch sweets, categories and
+ * cart data from the backend API. These hooks handle caching, refetching,
+ * and state management automatically.
  */
 import { useQuery } from "@tanstack/react-query";
 import {
+  fetchCart,
   fetchSweets,
   searchSweets,
   fetchCategories,
@@ -49,3 +50,15 @@ export function useCategories() {
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 }
+
+/**
+ * Hook to fetch the current user's cart. Mutations put the returned cart
+ * into the cache with `queryClient.setQueryData(["cart"], cart)`.
+ */
+export function useCart(enabled = true) {
+  return useQuery({
+    queryKey: ["cart"],
+    queryFn: fetchCart,
+    enabled,
+  });
+}
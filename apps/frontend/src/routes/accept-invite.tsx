@@ -0,0 +1,159 @@
+/**
+ * Accept invitation page
+ *
+ * Reached from the link in an invitation email. The invitation decides the
+ * account's email and role; the invitee only chooses a name and password.
+ */
+import { useState } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { createFileRoute } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
+import { getInvitation, registerWithInvite } from '../lib/api'
+import { Card, CardHeader, CardTitle, CardContent, Button, Alert, Spinner } from '../components/ui'
+
+export const Route = createFileRoute('/accept-invite')({
+  validateSearch: (search: Record<string, unknown>): { token?: string } => ({
+    token: typeof search.token === 'string' ? search.token : undefined,
+  }),
+  component: AcceptInvitePage,
+})
+
+function AcceptInvitePage() {
+  const navigate = useNavigate()
+  const { token } = Route.useSearch()
+  const [name, setName] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+
+  const invitationQuery = useQuery({
+    queryKey: ['invitation', token],
+    queryFn: () => getInvitation(token ?? ''),
+    enabled: Boolean(token),
+    retry: false,
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters')
+      return
+    }
+
+    setIsLoading(true)
+
+    try {
+      await registerWithInvite({ token: token ?? '', name, password })
+      // Backend sets auth-token cookie, so navigate to home and let AuthContext pick it up
+      window.location.href = '/'
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Registration failed. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center px-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl">Accept Invitation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!token || invitationQuery.isError ? (
+              <Alert variant="destructive">
+                This invitation link is invalid or has expired. Ask an admin for a new one.
+              </Alert>
+            ) : invitationQuery.isLoading ? (
+              <div className="flex justify-center py-6">
+                <Spinner />
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    {error}
+                  </Alert>
+                )}
+
+                <Alert>
+                  You've been invited to join as <strong>{invitationQuery.data?.role}</strong> with{' '}
+                  <strong>{invitationQuery.data?.email}</strong>.
+                </Alert>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    placeholder="John Doe"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Password
+                  </label>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    placeholder="••••••••"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Confirm Password
+                  </label>
+                  <input
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    placeholder="••••••••"
+                    required
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Creating account...' : 'Create Account'}
+                </Button>
+              </form>
+            )}
+
+            <div className="mt-4 text-center text-sm text-gray-600">
+              Already have an account?{' '}
+              <button
+                onClick={() => navigate({ to: '/login' })}
+                className="font-medium text-blue-600 hover:text-blue-700"
+              >
+                Login here
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
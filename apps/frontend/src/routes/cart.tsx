@@ -0,0 +1,201 @@
+/**
+ * Cart page
+ *
+ * Shows the cart revalidated against current prices and stock, lets the
+ * user change quantities or remove sweets, and checks the cart out into an
+ * order.
+ */
+import { useState } from 'react'
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '../contexts/AuthContext'
+import { useCart } from '../lib/hooks'
+import {
+  SALE_UNITS,
+  type Cart,
+  type CartItem,
+  checkoutCart,
+  clearCart,
+  formatQuantity,
+  linePrice,
+  removeCartItem,
+  setCartItem,
+} from '../lib/api'
+import { Card, CardHeader, CardTitle, CardContent, Alert, Button, Spinner } from '../components/ui'
+
+export const Route = createFileRoute('/cart')({
+  component: CartPage,
+})
+
+const STATUS_LABELS: Record<CartItem['status'], string> = {
+  available: '',
+  insufficient_stock: 'Not enough stock',
+  out_of_stock: 'Out of stock',
+}
+
+function CartPage() {
+  const { user, isLoading } = useAuth()
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const { data: cart, isLoading: cartLoading } = useCart(!!user)
+
+  const [error, setError] = useState('')
+  const [busy, setBusy] = useState(false)
+  // Sent as Idempotency-Key so retrying a checkout never orders twice;
+  // renewed whenever the cart changes
+  const [checkoutKey, setCheckoutKey] = useState(() => crypto.randomUUID())
+
+  // Run a cart change and put the returned cart in the cache
+  const update = async (action: () => Promise<Cart>) => {
+    setError('')
+    setBusy(true)
+    try {
+      queryClient.setQueryData(['cart'], await action())
+      setCheckoutKey(crypto.randomUUID())
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to update cart')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCheckout = async () => {
+    setError('')
+    setBusy(true)
+    try {
+      await checkoutCart(checkoutKey)
+      queryClient.invalidateQueries({ queryKey: ['cart'] })
+      queryClient.invalidateQueries({ queryKey: ['sweets'] })
+      queryClient.invalidateQueries({ queryKey: ['orders'] })
+      navigate({ to: '/orders' })
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Checkout failed. Please try again.')
+      queryClient.invalidateQueries({ queryKey: ['cart'] })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    navigate({ to: '/login' })
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white px-4 py-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Cart</h1>
+            <p className="text-gray-600 mt-2">Prices and stock are checked again before you pay</p>
+          </div>
+          <Button variant="outline" onClick={() => navigate({ to: '/' })}>
+            Continue shopping
+          </Button>
+        </div>
+
+        {error && <Alert variant="destructive">{error}</Alert>}
+
+        {cartLoading ? (
+          <div className="flex justify-center py-8">
+            <Spinner />
+          </div>
+        ) : !cart || cart.items.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-500">Your cart is empty.</CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>{cart.items.length} item(s)</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <table className="min-w-full text-sm">
+                <tbody className="divide-y divide-gray-100">
+                  {cart.items.map((item) => (
+                    <tr key={item.id} className={item.status === 'available' ? '' : 'bg-red-50'}>
+                      <td className="py-3">
+                        <div className="font-medium text-gray-900">{item.name}</div>
+                        <div className="text-gray-500">
+                          ${item.unitPrice.toFixed(2)} per {SALE_UNITS[item.unit].label}
+                          {item.priceChanged && (
+                            <span className="ml-2 text-amber-600">
+                              (was ${item.addedPrice.toFixed(2)})
+                            </span>
+                          )}
+                        </div>
+                        {item.status !== 'available' && (
+                          <div className="text-red-600">
+                            {STATUS_LABELS[item.status]}
+                            {item.status === 'insufficient_stock' &&
+                              ` (${formatQuantity(item.stock, item.unit)} left)`}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3">
+                        <input
+                          type="number"
+                          min={SALE_UNITS[item.unit].step}
+                          step={SALE_UNITS[item.unit].step}
+                          max={Math.max(item.stock, SALE_UNITS[item.unit].step)}
+                          value={item.quantity}
+                          disabled={busy || item.status === 'out_of_stock'}
+                          onChange={(e) => {
+                            const quantity = parseFloat(e.target.value)
+                            if (quantity > 0) update(() => setCartItem(item.sweetId, quantity, item.variantId))
+                          }}
+                          className="w-20 rounded-md border border-gray-300 px-2 py-1 focus:border-blue-500 focus:outline-none"
+                        />
+                        <span className="ml-1 text-gray-500">{SALE_UNITS[item.unit].symbol}</span>
+                      </td>
+                      <td className="py-3 text-right text-gray-900">
+                        ${linePrice(item.unitPrice, item.quantity, item.unit).toFixed(2)}
+                      </td>
+                      <td className="py-3 text-right">
+                        <Button
+                          variant="outline"
+                          onClick={() => update(() => removeCartItem(item.sweetId, item.variantId))}
+                          disabled={busy}
+                        >
+                          Remove
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex justify-between items-center border-t border-gray-200 pt-4">
+                <Button variant="outline" onClick={() => update(clearCart)} disabled={busy}>
+                  Empty cart
+                </Button>
+                <div className="flex items-center gap-4">
+                  <span className="text-lg font-semibold text-gray-900">
+                    Total ${cart.total.toFixed(2)}
+                  </span>
+                  <Button onClick={handleCheckout} disabled={busy || !cart.checkoutReady}>
+                    {busy ? 'Processing...' : 'Check out'}
+                  </Button>
+                </div>
+              </div>
+
+              {!cart.checkoutReady && (
+                <p className="text-sm text-red-600">
+                  Remove or reduce the items marked above before checking out.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
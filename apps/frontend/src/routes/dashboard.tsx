@@ -3,9 +3,52 @@
  */
 import { useState } from 'react'
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { useAuth } from '../contexts/AuthContext'
 import { useSweets, useCategories } from '../lib/hooks'
-import { apiClient } from '../lib/api'
+import {
+  apiClient,
+  createInvitation,
+  getTwoFactorStatus,
+  fetchApiKeys,
+  fetchStockMovements,
+  fetchLowStock,
+  fetchStockAlerts,
+  dismissStockAlert,
+  fetchExpiringBatches,
+  writeOffExpired,
+  isLowStock,
+  SALE_UNITS,
+  formatQuantity,
+  fetchArchivedSweets,
+  restoreSweet,
+  fetchArchivedCategories,
+  archiveCategory,
+  restoreCategory,
+  assetUrl,
+  fetchSweetImages,
+  uploadSweetImages,
+  reorderSweetImages,
+  deleteSweetImage,
+  createVariant,
+  updateVariant,
+  archiveVariant,
+  createApiKey,
+  revokeApiKey,
+  API_KEY_SCOPES,
+  ALLERGENS,
+  DIETARY_TAGS,
+  hasPermission,
+  canUseDashboard,
+  type Allergen,
+  type ApiKeyScope,
+  type DietaryTag,
+  type SaleUnit,
+  type StockMovementType,
+  type SweetImage,
+  type SweetVariant,
+  type User,
+} from '../lib/api'
 import { Card, CardHeader, CardTitle, CardContent, Alert, Button, Spinner } from '../components/ui'
 
 export const Route = createFileRoute('/dashboard')({
@@ -17,35 +60,85 @@ function DashboardPage() {
   const navigate = useNavigate()
   const { data: sweets, isLoading: sweetsLoading, refetch: refetchSweets } = useSweets()
   const { data: categories } = useCategories()
+  const queryClient = useQueryClient()
+  const { data: twoFactorStatus } = useQuery({
+    queryKey: ['two-factor-status'],
+    queryFn: getTwoFactorStatus,
+    enabled: !!user,
+  })
   
-  // Filter sweets to only show those created by current user
-  const userSweets = sweets?.filter((sweet: any) => sweet.userId === user?.id) || []
+  // Sweets belong to the shop; the owner filter narrows by creator
+  const [ownerFilter, setOwnerFilter] = useState('')
+  const owners = Array.from(
+    new Map((sweets || []).filter((sweet) => sweet.user).map((sweet) => [sweet.userId, sweet.user!])).values(),
+  )
+  const shownSweets = sweets?.filter((sweet: any) => !ownerFilter || sweet.userId === ownerFilter) || []
   
+  const [tab, setTab] = useState<'active' | 'archived'>('active')
   const [createDialog, setCreateDialog] = useState(false)
   const [updateDialog, setUpdateDialog] = useState<{ open: boolean; sweet: any | null }>({ open: false, sweet: null })
   const [restockDialog, setRestockDialog] = useState<{ open: boolean; sweet: any | null }>({ open: false, sweet: null })
   const [deleteDialog, setDeleteDialog] = useState<{ open: boolean; sweet: any | null }>({ open: false, sweet: null })
+  const [historySweet, setHistorySweet] = useState<any | null>(null)
   const [createCategoryDialog, setCreateCategoryDialog] = useState(false)
+  const [inviteDialog, setInviteDialog] = useState(false)
+  const [transferDialog, setTransferDialog] = useState<{ open: boolean; sweet: any | null }>({ open: false, sweet: null })
+  const [transferEmail, setTransferEmail] = useState('')
   
-  const [formData, setFormData] = useState({ name: '', price: '', stock: '', categoryId: '' })
+  const emptyForm = {
+    name: '',
+    unit: 'PIECE' as SaleUnit,
+    price: '',
+    stock: '',
+    categoryId: '',
+    lowStockThreshold: '',
+    reorderQuantity: '',
+    ingredients: '',
+    allergens: [] as Allergen[],
+    dietaryTags: [] as DietaryTag[],
+  }
+  const [formData, setFormData] = useState(emptyForm)
   const [categoryFormData, setCategoryFormData] = useState({ name: '', description: '' })
+  const [inviteFormData, setInviteFormData] = useState<{ email: string; role: User['role'] }>({ email: '', role: 'ADMIN' })
+  const [inviteUrl, setInviteUrl] = useState('')
   const [restockAmount, setRestockAmount] = useState(0)
+  // Pack size being restocked, or '' for the loose stock
+  const [restockVariantId, setRestockVariantId] = useState('')
+  // Dates of the batch being restocked, blank when unknown
+  const [restockDates, setRestockDates] = useState({ producedAt: '', bestBefore: '' })
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
 
+  // Blank low-stock fields clear the setting
+  const optionalQuantity = (value: string) => (value === '' ? null : parseFloat(value))
+
+  // Stock changes can open or resolve low-stock alerts and use up batches
+  const refreshStock = () => {
+    refetchSweets()
+    queryClient.invalidateQueries({ queryKey: ['low-stock'] })
+    queryClient.invalidateQueries({ queryKey: ['stock-alerts'] })
+    queryClient.invalidateQueries({ queryKey: ['expiring-batches'] })
+  }
+
   const handleCreateSweet = async () => {
     setError('')
     setLoading(true)
     try {
       await apiClient.post('/sweets', {
         name: formData.name,
+        unit: formData.unit,
         price: parseFloat(formData.price),
-        stock: parseInt(formData.stock),
-        categoryId: formData.categoryId
+        stock: parseFloat(formData.stock),
+        categoryId: formData.categoryId,
+        lowStockThreshold: optionalQuantity(formData.lowStockThreshold),
+        reorderQuantity: optionalQuantity(formData.reorderQuantity),
+        ingredients: formData.ingredients || null,
+        allergens: formData.allergens,
+        dietaryTags: formData.dietaryTags,
       })
-      refetchSweets()
+      refreshStock()
       setCreateDialog(false)
-      setFormData({ name: '', price: '', stock: '', categoryId: '' })
+      setFormData(emptyForm)
     } catch (err: any) {
       setError(err.response?.data?.error || 'Failed to create sweet')
     } finally {
@@ -61,10 +154,15 @@ function DashboardPage() {
       await apiClient.put(`/sweets/${updateDialog.sweet.id}`, {
         name: formData.name,
         price: parseFloat(formData.price),
-        stock: parseInt(formData.stock),
-        categoryId: formData.categoryId
+        stock: parseFloat(formData.stock),
+        categoryId: formData.categoryId,
+        lowStockThreshold: optionalQuantity(formData.lowStockThreshold),
+        reorderQuantity: optionalQuantity(formData.reorderQuantity),
+        ingredients: formData.ingredients || null,
+        allergens: formData.allergens,
+        dietaryTags: formData.dietaryTags,
       })
-      refetchSweets()
+      refreshStock()
       setUpdateDialog({ open: false, sweet: null })
     } catch (err: any) {
       setError(err.response?.data?.error || 'Failed to update sweet')
@@ -78,8 +176,13 @@ function DashboardPage() {
     setError('')
     setLoading(true)
     try {
-      await apiClient.post(`/sweets/${restockDialog.sweet.id}/restock`, { quantity: restockAmount })
-      refetchSweets()
+      await apiClient.post(`/sweets/${restockDialog.sweet.id}/restock`, {
+        quantity: restockAmount,
+        variantId: restockVariantId || undefined,
+        producedAt: restockDates.producedAt || undefined,
+        bestBefore: restockDates.bestBefore || undefined,
+      })
+      refreshStock()
       setRestockDialog({ open: false, sweet: null })
       setRestockAmount(0)
     } catch (err: any) {
@@ -94,10 +197,11 @@ function DashboardPage() {
     setLoading(true)
     try {
       await apiClient.delete(`/sweets/${deleteDialog.sweet.id}`)
-      refetchSweets()
+      refreshStock()
+      queryClient.invalidateQueries({ queryKey: ['archived-sweets'] })
       setDeleteDialog({ open: false, sweet: null })
     } catch (err: any) {
-      setError(err.response?.data?.error || 'Failed to delete sweet')
+      setError(err.response?.data?.error || 'Failed to archive sweet')
     } finally {
       setLoading(false)
     }
@@ -106,16 +210,30 @@ function DashboardPage() {
   const openUpdateDialog = (sweet: any) => {
     setFormData({
       name: sweet.name,
+      unit: sweet.unit,
       price: sweet.price.toString(),
-      stock: sweet.stock.toString(),
-      categoryId: sweet.categoryId
+      stock: Number(sweet.stock).toString(),
+      categoryId: sweet.categoryId,
+      lowStockThreshold: sweet.lowStockThreshold != null ? Number(sweet.lowStockThreshold).toString() : '',
+      reorderQuantity: sweet.reorderQuantity != null ? Number(sweet.reorderQuantity).toString() : '',
+      ingredients: sweet.ingredients ?? '',
+      allergens: sweet.allergens ?? [],
+      dietaryTags: sweet.dietaryTags ?? [],
     })
     setUpdateDialog({ open: true, sweet })
     setError('')
   }
 
+  const openRestockDialog = (sweet: any, quantity = 0) => {
+    setRestockDialog({ open: true, sweet })
+    setRestockAmount(quantity)
+    setRestockVariantId('')
+    setRestockDates({ producedAt: '', bestBefore: '' })
+    setError('')
+  }
+
   const openCreateDialog = () => {
-    setFormData({ name: '', price: '', stock: '', categoryId: categories?.[0]?.id || '' })
+    setFormData({ ...emptyForm, categoryId: categories?.[0]?.id || '' })
     setCreateDialog(true)
     setError('')
   }
@@ -137,6 +255,35 @@ function DashboardPage() {
     }
   }
 
+  const handleTransfer = async () => {
+    if (!transferDialog.sweet) return
+    setError('')
+    setLoading(true)
+    try {
+      await apiClient.post(`/sweets/${transferDialog.sweet.id}/transfer`, { email: transferEmail })
+      refetchSweets()
+      setTransferDialog({ open: false, sweet: null })
+    } catch (err: any) {
+      const errors = err.response?.data?.errors
+      setError(err.response?.data?.error || (errors && Object.values(errors).flat()[0]) || 'Failed to transfer sweet')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleInvite = async () => {
+    setError('')
+    setLoading(true)
+    try {
+      const result = await createInvitation(inviteFormData)
+      setInviteUrl(result.inviteUrl)
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to send invitation')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   // Check if user is loading
   if (isLoading) {
     return (
@@ -152,8 +299,8 @@ function DashboardPage() {
     return null
   }
 
-  // Check if user is not admin
-  if (user.role !== 'ADMIN') {
+  // Check if user has nothing to manage
+  if (!canUseDashboard(user)) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white px-4 py-8">
         <div className="max-w-4xl mx-auto">
@@ -170,69 +317,176 @@ function DashboardPage() {
       <div className="max-w-7xl mx-auto">
         <div className="mb-8 flex justify-between items-center">
           <div>
-            <h1 className="text-3xl font-bold text-gray-900">Admin Dashboard</h1>
+            <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
             <p className="text-gray-600 mt-2">Manage your sweets shop inventory</p>
           </div>
           <div className="flex gap-3">
-            <Button onClick={() => { setCategoryFormData({ name: '', description: '' }); setCreateCategoryDialog(true); setError('') }} variant="outline">
-              Create Category
-            </Button>
-            <Button onClick={openCreateDialog} disabled={!categories || categories.length === 0}>
-              Create New Sweet
-            </Button>
+            {hasPermission(user, 'user.manage') && (
+              <Button onClick={() => navigate({ to: '/dashboard/users' })} variant="outline">
+                Users
+              </Button>
+            )}
+            {hasPermission(user, 'user.manage') && (
+              <Button onClick={() => { setInviteFormData({ email: '', role: 'ADMIN' }); setInviteUrl(''); setInviteDialog(true); setError('') }} variant="outline">
+                Invite User
+              </Button>
+            )}
+            {hasPermission(user, 'category.manage') && (
+              <Button onClick={() => { setCategoryFormData({ name: '', description: '' }); setCreateCategoryDialog(true); setError('') }} variant="outline">
+                Create Category
+              </Button>
+            )}
+            {hasPermission(user, 'sweet.create') && (
+              <Button onClick={openCreateDialog} disabled={!categories || categories.length === 0}>
+                Create New Sweet
+              </Button>
+            )}
           </div>
         </div>
 
+        {twoFactorStatus?.required && !twoFactorStatus.enabled && (
+          <Alert variant="destructive" className="mb-6">
+            Two-factor authentication is required for admin accounts.{' '}
+            <button onClick={() => navigate({ to: '/settings' })} className="font-medium underline">
+              Set it up in Settings
+            </button>{' '}
+            to manage the shop.
+          </Alert>
+        )}
+
         {(!categories || categories.length === 0) && (
           <Alert className="mb-6">
             No categories available. Please create a category first before adding sweets.
           </Alert>
         )}
 
-        {sweetsLoading ? (
-          <div className="flex justify-center py-12">
-            <Spinner />
+        {hasPermission(user, 'stock.restock') && <RestockSuggestions onRestock={openRestockDialog} />}
+        {hasPermission(user, 'stock.restock') && <ExpiringBatches onWriteOff={refreshStock} />}
+
+        {(hasPermission(user, 'sweet.delete') || hasPermission(user, 'category.manage')) && (
+          <div className="mb-4 flex gap-2 border-b border-gray-200">
+            {(['active', 'archived'] as const).map((value) => (
+              <button
+                key={value}
+                onClick={() => setTab(value)}
+                className={`-mb-px border-b-2 px-4 py-2 text-sm font-medium ${
+                  tab === value
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {value === 'active' ? 'Sweets' : 'Archived'}
+              </button>
+            ))}
           </div>
+        )}
+
+        {tab === 'archived' ? (
+          <ArchivedSection user={user} />
         ) : (
-          <div className="bg-white rounded-lg shadow overflow-hidden">
-            <table className="min-w-full divide-y divide-gray-200">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stock</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
-                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {userSweets.length === 0 ? (
-                  <tr>
-                    <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
-                      No sweets created yet. Click "Create New Sweet" to add one.
-                    </td>
-                  </tr>
-                ) : (
-                  userSweets.map((sweet: any) => (
-                    <tr key={sweet.id}>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{sweet.name}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">${Number(sweet.price).toFixed(2)}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{sweet.stock}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{sweet.category?.name || 'N/A'}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                        <div className="flex justify-end gap-2">
-                          <Button variant="outline" onClick={() => openUpdateDialog(sweet)}>Update</Button>
-                          <Button variant="outline" onClick={() => { setRestockDialog({ open: true, sweet }); setRestockAmount(0); setError('') }}>Restock</Button>
-                          <Button variant="outline" onClick={() => { setDeleteDialog({ open: true, sweet }); setError('') }}>Delete</Button>
+          <>
+            {owners.length > 0 && (
+              <div className="mb-4 flex items-center gap-3">
+                <label className="text-sm font-medium text-gray-700">Owner</label>
+                <select
+                  value={ownerFilter}
+                  onChange={(e) => setOwnerFilter(e.target.value)}
+                  className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="">All owners</option>
+                  {owners.map((owner) => (
+                    <option key={owner.id} value={owner.id}>
+                      {owner.id === user.id ? `${owner.name} (you)` : owner.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {sweetsLoading ? (
+              <div className="flex justify-center py-12">
+                <Spinner />
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg shadow overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stock</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Owner</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {shownSweets.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                          {ownerFilter ? 'No sweets for this owner.' : 'No sweets created yet. Click "Create New Sweet" to add one.'}
+                        </td>
+                      </tr>
+                    ) : (
+                      shownSweets.map((sweet: any) => (
+                        <tr key={sweet.id}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        <div className="flex items-center gap-3">
+                          {sweet.primaryImage ? (
+                            <img
+                              src={assetUrl(sweet.primaryImage.thumbnailUrl)}
+                              alt=""
+                              className="h-10 w-10 rounded object-cover"
+                            />
+                          ) : (
+                            <div className="h-10 w-10 rounded bg-gray-100" />
+                          )}
+                          {sweet.name}
                         </div>
                       </td>
-                    </tr>
-                  ))
-                )}
-              </tbody>
-            </table>
-          </div>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            ${Number(sweet.price).toFixed(2)} / {SALE_UNITS[sweet.unit as SaleUnit].label}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {formatQuantity(sweet.stock, sweet.unit)}
+                            {isLowStock(sweet) && (
+                              <span className="ml-2 inline-flex items-center rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-700">
+                                Low stock
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{sweet.category?.name || 'N/A'}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{sweet.user?.name || 'N/A'}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <div className="flex justify-end gap-2">
+                              {hasPermission(user, 'sweet.update') && (
+                                <Button variant="outline" onClick={() => openUpdateDialog(sweet)}>Update</Button>
+                              )}
+                              {hasPermission(user, 'stock.restock') && (
+                                <Button variant="outline" onClick={() => openRestockDialog(sweet)}>Restock</Button>
+                              )}
+                              {hasPermission(user, 'stock.restock') && (
+                                <Button variant="outline" onClick={() => setHistorySweet(sweet)}>History</Button>
+                              )}
+                              {hasPermission(user, 'sweet.update') && (
+                                <Button variant="outline" onClick={() => { setTransferDialog({ open: true, sweet }); setTransferEmail(''); setError('') }}>Transfer</Button>
+                              )}
+                              {hasPermission(user, 'sweet.delete') && (
+                                <Button variant="outline" onClick={() => { setDeleteDialog({ open: true, sweet }); setError('') }}>Archive</Button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
         )}
+
+        {hasPermission(user, 'apiKey.manage') && <ApiKeysSection />}
       </div>
 
       {/* Create Dialog */}
@@ -250,7 +504,22 @@ function DashboardPage() {
               />
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Price</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sold by</label>
+              <select
+                value={formData.unit}
+                onChange={(e) => setFormData({ ...formData, unit: e.target.value as SaleUnit })}
+                className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+              >
+                <option value="PIECE">Piece</option>
+                <option value="GRAM">Gram (priced per 100 g)</option>
+                <option value="KILOGRAM">Kilogram</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Cannot be changed later</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Price per {SALE_UNITS[formData.unit].label}
+              </label>
               <input
                 type="number"
                 step="0.01"
@@ -260,14 +529,43 @@ function DashboardPage() {
               />
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Stock</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Stock ({SALE_UNITS[formData.unit].symbol})
+              </label>
               <input
                 type="number"
+                step={SALE_UNITS[formData.unit].step}
                 value={formData.stock}
                 onChange={(e) => setFormData({ ...formData, stock: e.target.value })}
                 className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
               />
             </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Low-stock threshold</label>
+                <input
+                  type="number"
+                  min="0"
+                  step={SALE_UNITS[formData.unit].step}
+                  placeholder="None"
+                  value={formData.lowStockThreshold}
+                  onChange={(e) => setFormData({ ...formData, lowStockThreshold: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reorder quantity</label>
+                <input
+                  type="number"
+                  min={SALE_UNITS[formData.unit].step}
+                  step={SALE_UNITS[formData.unit].step}
+                  placeholder="Auto"
+                  value={formData.reorderQuantity}
+                  onChange={(e) => setFormData({ ...formData, reorderQuantity: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+            </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
               <select
@@ -280,6 +578,7 @@ function DashboardPage() {
                 ))}
               </select>
             </div>
+            <DietaryFields value={formData} onChange={(dietary) => setFormData({ ...formData, ...dietary })} />
             <div className="flex gap-3 pt-4">
               <Button onClick={() => setCreateDialog(false)} variant="outline" className="flex-1" disabled={loading}>Cancel</Button>
               <Button onClick={handleCreateSweet} className="flex-1" disabled={loading}>
@@ -291,7 +590,7 @@ function DashboardPage() {
       )}
 
       {/* Update Dialog */}
-      {updateDialog.open && (
+      {updateDialog.open && updateDialog.sweet && (
         <Dialog title="Update Sweet" onClose={() => setUpdateDialog({ open: false, sweet: null })}>
           <div className="space-y-4">
             {error && <Alert variant="destructive">{error}</Alert>}
@@ -305,24 +604,56 @@ function DashboardPage() {
               />
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Price</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Price per {SALE_UNITS[formData.unit].label}
+              </label>
               <input
                 type="number"
                 step="0.01"
                 value={formData.price}
                 onChange={(e) => setFormData({ ...formData, price: e.target.value })}
-                className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                disabled={!hasPermission(user, 'sweet.price.update')}
+                className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none disabled:bg-gray-100"
               />
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Stock</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Stock ({SALE_UNITS[formData.unit].symbol})
+              </label>
               <input
                 type="number"
+                step={SALE_UNITS[formData.unit].step}
                 value={formData.stock}
                 onChange={(e) => setFormData({ ...formData, stock: e.target.value })}
                 className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
               />
             </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Low-stock threshold</label>
+                <input
+                  type="number"
+                  min="0"
+                  step={SALE_UNITS[formData.unit].step}
+                  placeholder="None"
+                  value={formData.lowStockThreshold}
+                  onChange={(e) => setFormData({ ...formData, lowStockThreshold: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reorder quantity</label>
+                <input
+                  type="number"
+                  min={SALE_UNITS[formData.unit].step}
+                  step={SALE_UNITS[formData.unit].step}
+                  placeholder="Auto"
+                  value={formData.reorderQuantity}
+                  onChange={(e) => setFormData({ ...formData, reorderQuantity: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+            </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
               <select
@@ -335,6 +666,13 @@ function DashboardPage() {
                 ))}
               </select>
             </div>
+            <DietaryFields value={formData} onChange={(dietary) => setFormData({ ...formData, ...dietary })} />
+            <SweetImagesEditor sweetId={updateDialog.sweet.id} onChange={refetchSweets} />
+            <SweetVariantsEditor
+              sweet={sweets?.find((sweet) => sweet.id === updateDialog.sweet.id) ?? updateDialog.sweet}
+              canUpdatePrice={hasPermission(user, 'sweet.price.update')}
+              onChange={refetchSweets}
+            />
             <div className="flex gap-3 pt-4">
               <Button onClick={() => setUpdateDialog({ open: false, sweet: null })} variant="outline" className="flex-1" disabled={loading}>Cancel</Button>
               <Button onClick={handleUpdateSweet} className="flex-1" disabled={loading}>
@@ -350,17 +688,68 @@ function DashboardPage() {
         <Dialog title={`Restock ${restockDialog.sweet.name}`} onClose={() => setRestockDialog({ open: false, sweet: null })}>
           <div className="space-y-4">
             {error && <Alert variant="destructive">{error}</Alert>}
-            <div>
-              <p className="text-sm text-gray-600 mb-2">Current Stock: {restockDialog.sweet.stock}</p>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Add Quantity</label>
-              <input
-                type="number"
-                min="1"
-                value={restockAmount}
-                onChange={(e) => setRestockAmount(parseInt(e.target.value) || 0)}
-                className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
-              />
-              <p className="text-sm text-gray-600 mt-2">New Stock: {restockDialog.sweet.stock + restockAmount}</p>
+            {restockDialog.sweet.variants?.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Stock of</label>
+                <select
+                  value={restockVariantId}
+                  onChange={(e) => setRestockVariantId(e.target.value)}
+                  className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="">Loose</option>
+                  {restockDialog.sweet.variants.map((variant: SweetVariant) => (
+                    <option key={variant.id} value={variant.id}>{variant.label} ({variant.sku})</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {(() => {
+              // Packs are restocked whole
+              const variant = restockDialog.sweet.variants?.find((v: SweetVariant) => v.id === restockVariantId)
+              const unit: SaleUnit = variant ? 'PIECE' : restockDialog.sweet.unit
+              const stock = Number(variant ? variant.stock : restockDialog.sweet.stock)
+              const format = (quantity: number) =>
+                variant ? `${quantity} packs` : formatQuantity(quantity, unit)
+              return (
+                <div>
+                  <p className="text-sm text-gray-600 mb-2">Current Stock: {format(stock)}</p>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Add Quantity ({variant ? 'packs' : SALE_UNITS[unit].symbol})
+                  </label>
+                  <input
+                    type="number"
+                    min={SALE_UNITS[unit].step}
+                    step={SALE_UNITS[unit].step}
+                    value={restockAmount}
+                    onChange={(e) => setRestockAmount(parseFloat(e.target.value) || 0)}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                  />
+                  <p className="text-sm text-gray-600 mt-2">
+                    New Stock: {format(Math.round((stock + restockAmount) * 1000) / 1000)}
+                  </p>
+                </div>
+              )
+            })()}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Produced on</label>
+                <input
+                  type="date"
+                  value={restockDates.producedAt}
+                  onChange={(e) => setRestockDates({ ...restockDates, producedAt: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Best before</label>
+                <input
+                  type="date"
+                  min={restockDates.producedAt || undefined}
+                  value={restockDates.bestBefore}
+                  onChange={(e) => setRestockDates({ ...restockDates, bestBefore: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                />
+              </div>
             </div>
             <div className="flex gap-3 pt-4">
               <Button onClick={() => setRestockDialog({ open: false, sweet: null })} variant="outline" className="flex-1" disabled={loading}>Cancel</Button>
@@ -374,16 +763,45 @@ function DashboardPage() {
 
       {/* Delete Dialog */}
       {deleteDialog.open && deleteDialog.sweet && (
-        <Dialog title="Delete Sweet" onClose={() => setDeleteDialog({ open: false, sweet: null })}>
+        <Dialog title="Archive Sweet" onClose={() => setDeleteDialog({ open: false, sweet: null })}>
           <div className="space-y-4">
             {error && <Alert variant="destructive">{error}</Alert>}
             <p className="text-gray-700">
-              Are you sure you want to delete <strong>{deleteDialog.sweet.name}</strong>? This action cannot be undone.
+              Archive <strong>{deleteDialog.sweet.name}</strong>? It will be hidden from the shop and removed from carts.
+              You can restore it from the Archived tab.
             </p>
             <div className="flex gap-3 pt-4">
               <Button onClick={() => setDeleteDialog({ open: false, sweet: null })} variant="outline" className="flex-1" disabled={loading}>Cancel</Button>
               <Button onClick={handleDelete} className="flex-1 bg-red-600 hover:bg-red-700" disabled={loading}>
-                {loading ? 'Deleting...' : 'Confirm Delete'}
+                {loading ? 'Archiving...' : 'Archive'}
+              </Button>
+            </div>
+          </div>
+        </Dialog>
+      )}
+
+      {/* Transfer Dialog */}
+      {transferDialog.open && transferDialog.sweet && (
+        <Dialog title={`Transfer ${transferDialog.sweet.name}`} onClose={() => setTransferDialog({ open: false, sweet: null })}>
+          <div className="space-y-4">
+            {error && <Alert variant="destructive">{error}</Alert>}
+            <p className="text-sm text-gray-600">
+              Currently owned by <strong>{transferDialog.sweet.user?.name || 'N/A'}</strong>. Sweets belong to the shop; the owner is who answers for them.
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">New owner's email</label>
+              <input
+                type="email"
+                value={transferEmail}
+                onChange={(e) => setTransferEmail(e.target.value)}
+                className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                placeholder="colleague@example.com"
+              />
+            </div>
+            <div className="flex gap-3 pt-4">
+              <Button onClick={() => setTransferDialog({ open: false, sweet: null })} variant="outline" className="flex-1" disabled={loading}>Cancel</Button>
+              <Button onClick={handleTransfer} className="flex-1" disabled={loading || !transferEmail}>
+                {loading ? 'Transferring...' : 'Transfer'}
               </Button>
             </div>
           </div>
@@ -424,6 +842,911 @@ function DashboardPage() {
           </div>
         </Dialog>
       )}
+
+      {/* Invite Dialog */}
+      {inviteDialog && (
+        <Dialog title="Invite User" onClose={() => setInviteDialog(false)}>
+          <div className="space-y-4">
+            {error && <Alert variant="destructive">{error}</Alert>}
+            {inviteUrl ? (
+              <>
+                <Alert>
+                  Invitation sent to <strong>{inviteFormData.email}</strong>. You can also share this link directly:
+                </Alert>
+                <input
+                  type="text"
+                  readOnly
+                  value={inviteUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="w-full rounded-md border border-gray-300 px-4 py-2 text-sm"
+                />
+                <div className="flex gap-3 pt-4">
+                  <Button onClick={() => setInviteDialog(false)} className="flex-1">Done</Button>
+                </div>
+              </>
+            ) : (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                  <input
+                    type="email"
+                    value={inviteFormData.email}
+                    onChange={(e) => setInviteFormData({ ...inviteFormData, email: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    placeholder="colleague@example.com"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                  <select
+                    value={inviteFormData.role}
+                    onChange={(e) => setInviteFormData({ ...inviteFormData, role: e.target.value as User['role'] })}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                  >
+                    <option value="ADMIN">Admin</option>
+                    <option value="MANAGER">Manager</option>
+                    <option value="STAFF">Staff</option>
+                    <option value="USER">User</option>
+                  </select>
+                </div>
+                <div className="flex gap-3 pt-4">
+                  <Button onClick={() => setInviteDialog(false)} variant="outline" className="flex-1" disabled={loading}>Cancel</Button>
+                  <Button onClick={handleInvite} className="flex-1" disabled={loading}>
+                    {loading ? 'Sending...' : 'Send Invitation'}
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </Dialog>
+      )}
+
+      {historySweet && (
+        <StockHistoryPanel sweet={historySweet} onClose={() => setHistorySweet(null)} />
+      )}
+    </div>
+  )
+}
+
+/**
+ * A sweet's images: upload, reorder (the first is the primary image) and
+ * remove. Changes are saved straight away.
+ */
+function SweetImagesEditor({ sweetId, onChange }: { sweetId: string; onChange: () => void }) {
+  const queryClient = useQueryClient()
+  const { data: images } = useQuery({
+    queryKey: ['sweet-images', sweetId],
+    queryFn: () => fetchSweetImages(sweetId),
+  })
+  const [error, setError] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  // Run an image change and put the returned images in the cache
+  const update = async (action: () => Promise<SweetImage[]>) => {
+    setError('')
+    setBusy(true)
+    try {
+      queryClient.setQueryData(['sweet-images', sweetId], await action())
+      onChange()
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to update images')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const move = (index: number, by: number) => {
+    if (!images) return
+    const ids = images.map((image) => image.id)
+    ;[ids[index], ids[index + by]] = [ids[index + by], ids[index]]
+    update(() => reorderSweetImages(sweetId, ids))
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">Images</label>
+      {error && <Alert variant="destructive" className="mb-2">{error}</Alert>}
+      <div className="flex flex-wrap gap-2">
+        {images?.map((image, index) => (
+          <div key={image.id} className="w-20 text-center">
+            <img
+              src={assetUrl(image.thumbnailUrl)}
+              alt=""
+              className={`h-20 w-20 rounded object-cover ${index === 0 ? 'ring-2 ring-blue-500' : ''}`}
+            />
+            <div className="mt-1 flex justify-center gap-1 text-xs">
+              <button onClick={() => move(index, -1)} disabled={busy || index === 0} className="px-1 disabled:text-gray-300">
+                ←
+              </button>
+              <button onClick={() => update(() => deleteSweetImage(sweetId, image.id))} disabled={busy} className="px-1 text-red-600">
+                Remove
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={busy || index === images.length - 1}
+                className="px-1 disabled:text-gray-300"
+              >
+                →
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <input
+        type="file"
+        accept="image/jpeg,image/png,image/webp"
+        multiple
+        disabled={busy}
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? [])
+          e.target.value = ''
+          if (files.length) update(() => uploadSweetImages(sweetId, files))
+        }}
+        className="mt-2 block w-full text-sm text-gray-600"
+      />
+      <p className="mt-1 text-xs text-gray-500">JPEG, PNG or WebP. The first image is shown on the shop page.</p>
+    </div>
+  )
+}
+
+interface Dietary {
+  ingredients: string
+  allergens: Allergen[]
+  dietaryTags: DietaryTag[]
+}
+
+/**
+ * Ingredients, allergens and dietary tags of the sweet being created or
+ * updated. Saved with the rest of the form.
+ */
+function DietaryFields({ value, onChange }: { value: Dietary; onChange: (dietary: Partial<Dietary>) => void }) {
+  // Add `item` to a list, or take it out if it is there
+  const toggle = <T,>(list: T[], item: T) =>
+    list.includes(item) ? list.filter((other) => other !== item) : [...list, item]
+
+  return (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Ingredients (Optional)</label>
+        <textarea
+          value={value.ingredients}
+          onChange={(e) => onChange({ ingredients: e.target.value })}
+          className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+          rows={2}
+          placeholder="e.g., Cashews, sugar, ghee"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Allergens</label>
+          {(Object.keys(ALLERGENS) as Allergen[]).map((allergen) => (
+            <label key={allergen} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={value.allergens.includes(allergen)}
+                onChange={() => onChange({ allergens: toggle(value.allergens, allergen) })}
+              />
+              {ALLERGENS[allergen].label}
+            </label>
+          ))}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Dietary</label>
+          {(Object.keys(DIETARY_TAGS) as DietaryTag[]).map((tag) => (
+            <label key={tag} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={value.dietaryTags.includes(tag)}
+                onChange={() => onChange({ dietaryTags: toggle(value.dietaryTags, tag) })}
+              />
+              {DIETARY_TAGS[tag]}
+            </label>
+          ))}
+        </div>
+      </div>
+    </>
+  )
+}
+
+/**
+ * A sweet's pack sizes: add, edit and archive. Changes are saved straight
+ * away; stock of packs changes by restocking.
+ */
+function SweetVariantsEditor({
+  sweet,
+  canUpdatePrice,
+  onChange,
+}: {
+  sweet: any
+  canUpdatePrice: boolean
+  onChange: () => void
+}) {
+  const emptyVariant = { label: '', size: '', price: '', sku: '', stock: '' }
+  const [form, setForm] = useState(emptyVariant)
+  // The variant being edited, or null when adding one
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [busy, setBusy] = useState(false)
+  const unit = SALE_UNITS[sweet.unit as SaleUnit]
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('')
+    setBusy(true)
+    try {
+      await action()
+      setForm(emptyVariant)
+      setEditingId(null)
+      onChange()
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to update pack sizes')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const edit = (variant: SweetVariant) => {
+    setEditingId(variant.id)
+    setForm({
+      label: variant.label,
+      size: String(Number(variant.size)),
+      price: String(Number(variant.price)),
+      sku: variant.sku,
+      stock: '',
+    })
+  }
+
+  const save = () => {
+    const data = {
+      label: form.label,
+      size: parseFloat(form.size),
+      price: parseFloat(form.price),
+      sku: form.sku,
+    }
+    run(() =>
+      editingId
+        ? updateVariant(sweet.id, editingId, data)
+        : createVariant(sweet.id, { ...data, stock: form.stock ? parseInt(form.stock) : 0 }),
+    )
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">Pack sizes</label>
+      {error && <Alert variant="destructive" className="mb-2">{error}</Alert>}
+      {sweet.variants?.length > 0 && (
+        <table className="mb-2 min-w-full text-sm">
+          <tbody className="divide-y divide-gray-100">
+            {sweet.variants.map((variant: SweetVariant) => (
+              <tr key={variant.id}>
+                <td className="py-1 text-gray-900">{variant.label}</td>
+                <td className="py-1 text-gray-500">{formatQuantity(variant.size, sweet.unit)}</td>
+                <td className="py-1 text-gray-900">${Number(variant.price).toFixed(2)}</td>
+                <td className="py-1 text-gray-500">{variant.sku}</td>
+                <td className="py-1 text-gray-500">{Number(variant.stock)} packs</td>
+                <td className="py-1 text-right whitespace-nowrap">
+                  <button onClick={() => edit(variant)} disabled={busy} className="px-1 text-blue-600">
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => run(() => archiveVariant(sweet.id, variant.id))}
+                    disabled={busy}
+                    className="px-1 text-red-600"
+                  >
+                    Archive
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="text"
+          placeholder="Label, e.g. 500 g box"
+          value={form.label}
+          onChange={(e) => setForm({ ...form, label: e.target.value })}
+          className="rounded-md border border-gray-300 px-3 py-1 text-sm focus:border-blue-500 focus:outline-none"
+        />
+        <input
+          type="number"
+          min={unit.step}
+          step={unit.step}
+          placeholder={`Size (${unit.symbol})`}
+          value={form.size}
+          onChange={(e) => setForm({ ...form, size: e.target.value })}
+          className="rounded-md border border-gray-300 px-3 py-1 text-sm focus:border-blue-500 focus:outline-none"
+        />
+        <input
+          type="number"
+          step="0.01"
+          placeholder="Price per pack"
+          value={form.price}
+          onChange={(e) => setForm({ ...form, price: e.target.value })}
+          disabled={Boolean(editingId) && !canUpdatePrice}
+          className="rounded-md border border-gray-300 px-3 py-1 text-sm focus:border-blue-500 focus:outline-none disabled:bg-gray-100"
+        />
+        <input
+          type="text"
+          placeholder="SKU"
+          value={form.sku}
+          onChange={(e) => setForm({ ...form, sku: e.target.value })}
+          className="rounded-md border border-gray-300 px-3 py-1 text-sm focus:border-blue-500 focus:outline-none"
+        />
+        {!editingId && (
+          <input
+            type="number"
+            min="0"
+            step="1"
+            placeholder="Opening stock (packs)"
+            value={form.stock}
+            onChange={(e) => setForm({ ...form, stock: e.target.value })}
+            className="rounded-md border border-gray-300 px-3 py-1 text-sm focus:border-blue-500 focus:outline-none"
+          />
+        )}
+      </div>
+      <div className="mt-2 flex gap-2">
+        <Button variant="outline" onClick={save} disabled={busy || !form.label || !form.size || !form.price || !form.sku}>
+          {editingId ? 'Save pack size' : 'Add pack size'}
+        </Button>
+        {editingId && (
+          <Button variant="outline" onClick={() => { setEditingId(null); setForm(emptyVariant) }} disabled={busy}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Archived sweets and categories, with restore; categories are archived
+ * from here too
+ */
+function ArchivedSection({ user }: { user: User }) {
+  const queryClient = useQueryClient()
+  const canManageSweets = hasPermission(user, 'sweet.delete')
+  const canManageCategories = hasPermission(user, 'category.manage')
+
+  const { data: sweets, isLoading: sweetsLoading } = useQuery({
+    queryKey: ['archived-sweets'],
+    queryFn: fetchArchivedSweets,
+    enabled: canManageSweets,
+  })
+  const { data: categories } = useCategories()
+  const { data: archivedCategories } = useQuery({
+    queryKey: ['archived-categories'],
+    queryFn: fetchArchivedCategories,
+    enabled: canManageCategories,
+  })
+  const [error, setError] = useState('')
+
+  // Run an archive or restore and refresh every list it can affect
+  const run = async (action: () => Promise<unknown>) => {
+    setError('')
+    try {
+      await action()
+      for (const key of ['sweets', 'archived-sweets', 'categories', 'archived-categories'])
+        queryClient.invalidateQueries({ queryKey: [key] })
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Something went wrong')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <Alert variant="destructive">{error}</Alert>}
+
+      {canManageSweets && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Archived sweets</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sweetsLoading ? (
+              <div className="flex justify-center py-8">
+                <Spinner />
+              </div>
+            ) : !sweets?.length ? (
+              <p className="text-gray-500">No archived sweets.</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <tbody className="divide-y divide-gray-100">
+                  {sweets.map((sweet) => (
+                    <tr key={sweet.id}>
+                      <td className="py-2 font-medium text-gray-900">{sweet.name}</td>
+                      <td className="py-2 text-gray-500">{sweet.category?.name || 'N/A'}</td>
+                      <td className="py-2 text-gray-500">
+                        Archived {sweet.deletedAt && new Date(sweet.deletedAt).toLocaleString()}
+                      </td>
+                      <td className="py-2 text-right">
+                        <Button variant="outline" onClick={() => run(() => restoreSweet(sweet.id))}>
+                          Restore
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {canManageCategories && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Categories</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-600 mb-4">
+              A category can be archived once all of its sweets are archived.
+            </p>
+            <table className="min-w-full text-sm">
+              <tbody className="divide-y divide-gray-100">
+                {categories?.map((category) => (
+                  <tr key={category.id}>
+                    <td className="py-2 font-medium text-gray-900">{category.name}</td>
+                    <td className="py-2 text-gray-500">Active</td>
+                    <td className="py-2 text-right">
+                      <Button variant="outline" onClick={() => run(() => archiveCategory(category.id))}>
+                        Archive
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+                {archivedCategories?.map((category) => (
+                  <tr key={category.id}>
+                    <td className="py-2 font-medium text-gray-900">{category.name}</td>
+                    <td className="py-2 text-gray-500">
+                      Archived {category.deletedAt && new Date(category.deletedAt).toLocaleString()}
+                    </td>
+                    <td className="py-2 text-right">
+                      <Button variant="outline" onClick={() => run(() => restoreCategory(category.id))}>
+                        Restore
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Open low-stock alerts and the sweets to restock, with their suggested
+ * quantities
+ */
+function RestockSuggestions({ onRestock }: { onRestock: (sweet: any, quantity: number) => void }) {
+  const queryClient = useQueryClient()
+  const { data: lowStock } = useQuery({ queryKey: ['low-stock'], queryFn: fetchLowStock })
+  const { data: alerts } = useQuery({ queryKey: ['stock-alerts'], queryFn: fetchStockAlerts })
+
+  const handleDismiss = async (id: string) => {
+    await dismissStockAlert(id)
+    queryClient.invalidateQueries({ queryKey: ['stock-alerts'] })
+  }
+
+  if (!lowStock?.length && !alerts?.length) return null
+
+  return (
+    <div className="mb-6 space-y-4">
+      {alerts?.map((alert) => (
+        <Alert key={alert.id} variant="destructive">
+          <div className="flex items-center justify-between gap-4">
+            <span>
+              {alert.sweet.name} dropped to {formatQuantity(alert.stock, alert.sweet.unit)} (threshold{' '}
+              {formatQuantity(alert.threshold, alert.sweet.unit)}) on{' '}
+              {new Date(alert.createdAt).toLocaleString()}.
+            </span>
+            <button onClick={() => handleDismiss(alert.id)} className="font-medium underline">
+              Dismiss
+            </button>
+          </div>
+        </Alert>
+      ))}
+
+      {!!lowStock?.length && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Restock suggested</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="min-w-full text-sm">
+              <tbody className="divide-y divide-gray-100">
+                {lowStock.map((sweet) => (
+                  <tr key={sweet.id}>
+                    <td className="py-2 font-medium text-gray-900">{sweet.name}</td>
+                    <td className="py-2 text-gray-500">
+                      {formatQuantity(sweet.stock, sweet.unit)} left (threshold{' '}
+                      {formatQuantity(sweet.lowStockThreshold ?? 0, sweet.unit)})
+                    </td>
+                    <td className="py-2 text-right">
+                      <Button variant="outline" onClick={() => onRestock(sweet, sweet.suggestedQuantity)}>
+                        Restock {formatQuantity(sweet.suggestedQuantity, sweet.unit)}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Batches that have expired or expire within a week, with a button to
+ * write the expired ones off as waste
+ */
+function ExpiringBatches({ onWriteOff }: { onWriteOff: () => void }) {
+  const { data: batches } = useQuery({ queryKey: ['expiring-batches'], queryFn: () => fetchExpiringBatches() })
+  const [error, setError] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const handleWriteOff = async () => {
+    setError('')
+    setBusy(true)
+    try {
+      await writeOffExpired()
+      onWriteOff()
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to write off expired stock')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (!batches?.length) return null
+
+  // Packs are counted whole; loose stock is in the sweet's unit
+  const left = (batch: (typeof batches)[number]) =>
+    batch.variant ? `${Number(batch.quantity)} packs` : formatQuantity(batch.quantity, batch.sweet?.unit)
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle>Expiring soon</CardTitle>
+          {batches.some((batch) => batch.expired) && (
+            <Button variant="outline" onClick={handleWriteOff} disabled={busy}>
+              {busy ? 'Writing off...' : 'Write off expired'}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <Alert variant="destructive" className="mb-2">{error}</Alert>}
+        <table className="min-w-full text-sm">
+          <tbody className="divide-y divide-gray-100">
+            {batches.map((batch) => (
+              <tr key={batch.id} className={batch.expired ? 'bg-red-50' : ''}>
+                <td className="py-2 font-medium text-gray-900">
+                  {batch.sweet?.name}
+                  {batch.variant && ` (${batch.variant.label})`}
+                </td>
+                <td className="py-2 text-gray-500">{left(batch)} left</td>
+                <td className={`py-2 text-right ${batch.expired ? 'font-medium text-red-600' : 'text-gray-500'}`}>
+                  {batch.expired ? 'Expired' : 'Best before'} {new Date(batch.bestBefore!).toLocaleDateString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  )
+}
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  SALE: 'Sale',
+  RESTOCK: 'Restock',
+  ADJUSTMENT: 'Adjustment',
+  WASTE: 'Waste',
+  RETURN: 'Return',
+}
+
+const HISTORY_PAGE_SIZE = 20
+
+/**
+ * A sweet's stock movement history, newest first
+ */
+function StockHistoryPanel({ sweet, onClose }: { sweet: any; onClose: () => void }) {
+  const [type, setType] = useState<StockMovementType | ''>('')
+  const [page, setPage] = useState(1)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['stock-movements', sweet.id, type, page],
+    queryFn: () =>
+      fetchStockMovements(sweet.id, { type: type || undefined, page, pageSize: HISTORY_PAGE_SIZE }),
+  })
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 px-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">{sweet.name} stock history</h2>
+            <p className="text-sm text-gray-600">Current stock: {formatQuantity(sweet.stock, sweet.unit)}</p>
+          </div>
+          <select
+            value={type}
+            onChange={(e) => { setType(e.target.value as StockMovementType | ''); setPage(1) }}
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+          >
+            <option value="">All movements</option>
+            {Object.entries(MOVEMENT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Spinner />
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {data?.movements.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-3 py-8 text-center text-gray-500">No movements recorded.</td>
+                  </tr>
+                ) : (
+                  data?.movements.map((movement) => (
+                    <tr key={movement.id}>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-500">{new Date(movement.createdAt).toLocaleString()}</td>
+                      <td className="px-3 py-2 text-gray-900">{MOVEMENT_LABELS[movement.type]}</td>
+                      <td className={`px-3 py-2 text-right font-medium ${Number(movement.delta) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {Number(movement.delta) > 0 && '+'}
+                        {movement.variantId ? `${Number(movement.delta)} packs` : formatQuantity(movement.delta, sweet.unit)}
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-900">
+                        {movement.variantId ? `${Number(movement.balance)} packs` : formatQuantity(movement.balance, sweet.unit)}
+                      </td>
+                      <td className="px-3 py-2 text-gray-500">{movement.user?.name ?? '—'}</td>
+                      <td className="px-3 py-2 text-gray-500">
+                        {[movement.variant?.label, movement.reason, movement.reference].filter(Boolean).join(' · ') || '—'}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between pt-4">
+          <Button variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+            Previous
+          </Button>
+          <span className="text-sm text-gray-600">
+            Page {page} of {totalPages}
+          </span>
+          <Button variant="outline" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+            Next
+          </Button>
+        </div>
+        <Button variant="outline" className="mt-4" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * API keys for POS terminals and scripts
+ */
+function ApiKeysSection() {
+  const { data: apiKeys, isLoading, refetch } = useQuery({
+    queryKey: ['api-keys'],
+    queryFn: fetchApiKeys,
+  })
+
+  const [createDialog, setCreateDialog] = useState(false)
+  const [formData, setFormData] = useState<{ name: string; scopes: ApiKeyScope[]; expiresInDays: string }>({
+    name: '',
+    scopes: [],
+    expiresInDays: '',
+  })
+  const [createdKey, setCreatedKey] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setFormData({
+      ...formData,
+      scopes: formData.scopes.includes(scope)
+        ? formData.scopes.filter((s) => s !== scope)
+        : [...formData.scopes, scope],
+    })
+  }
+
+  const openCreateDialog = () => {
+    setFormData({ name: '', scopes: [], expiresInDays: '' })
+    setCreatedKey('')
+    setError('')
+    setCreateDialog(true)
+  }
+
+  const handleCreate = async () => {
+    setError('')
+    setLoading(true)
+    try {
+      const result = await createApiKey({
+        name: formData.name,
+        scopes: formData.scopes,
+        expiresInDays: formData.expiresInDays ? parseInt(formData.expiresInDays) : undefined,
+      })
+      setCreatedKey(result.key)
+      refetch()
+    } catch (err: any) {
+      const errors = err.response?.data?.errors
+      setError(err.response?.data?.error || (errors && Object.values(errors).flat()[0]) || 'Failed to create API key')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRevoke = async (id: string) => {
+    setError('')
+    try {
+      await revokeApiKey(id)
+      refetch()
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to revoke API key')
+    }
+  }
+
+  const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '—')
+
+  return (
+    <div className="mt-10">
+      <div className="mb-4 flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">API Keys</h2>
+          <p className="text-gray-600 mt-1">Keys for counter terminals and scripts</p>
+        </div>
+        <Button onClick={openCreateDialog} variant="outline">
+          Create API Key
+        </Button>
+      </div>
+
+      {error && !createDialog && <Alert variant="destructive" className="mb-4">{error}</Alert>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Spinner />
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Key</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scopes</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Used</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {!apiKeys || apiKeys.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    No API keys yet.
+                  </td>
+                </tr>
+              ) : (
+                apiKeys.map((apiKey) => (
+                  <tr key={apiKey.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{apiKey.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500">{apiKey.prefix}…</td>
+                    <td className="px-6 py-4 text-sm text-gray-500">{apiKey.scopes.join(', ')}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(apiKey.expiresAt)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(apiKey.lastUsedAt)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <Button variant="outline" onClick={() => handleRevoke(apiKey.id)}>Revoke</Button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Create API Key Dialog */}
+      {createDialog && (
+        <Dialog title="Create API Key" onClose={() => setCreateDialog(false)}>
+          <div className="space-y-4">
+            {error && <Alert variant="destructive">{error}</Alert>}
+            {createdKey ? (
+              <>
+                <Alert>
+                  Copy this key now. It will not be shown again.
+                </Alert>
+                <input
+                  type="text"
+                  readOnly
+                  value={createdKey}
+                  onFocus={(e) => e.target.select()}
+                  className="w-full rounded-md border border-gray-300 px-4 py-2 text-sm font-mono"
+                />
+                <div className="flex gap-3 pt-4">
+                  <Button onClick={() => setCreateDialog(false)} className="flex-1">Done</Button>
+                </div>
+              </>
+            ) : (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    placeholder="e.g., Counter terminal 1"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Scopes</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {API_KEY_SCOPES.map((scope) => (
+                      <label key={scope} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={formData.scopes.includes(scope)}
+                          onChange={() => toggleScope(scope)}
+                        />
+                        {scope}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Expires in days (Optional)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.expiresInDays}
+                    onChange={(e) => setFormData({ ...formData, expiresInDays: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    placeholder="Never expires"
+                  />
+                </div>
+                <div className="flex gap-3 pt-4">
+                  <Button onClick={() => setCreateDialog(false)} variant="outline" className="flex-1" disabled={loading}>Cancel</Button>
+                  <Button onClick={handleCreate} className="flex-1" disabled={loading}>
+                    {loading ? 'Creating...' : 'Create Key'}
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </Dialog>
+      )}
     </div>
   )
 }
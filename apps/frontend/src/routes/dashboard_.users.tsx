@@ -0,0 +1,224 @@
+/**
+ * User administration page
+ *
+ * Lists accounts with their role, creation date and last login, and lets
+ * admins change roles, disable accounts and sign users out everywhere.
+ */
+import { useState } from 'react'
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  type AdminUser,
+  type User,
+  fetchUsers,
+  updateUser,
+  forceLogout,
+  hasPermission,
+} from '../lib/api'
+import { Card, CardHeader, CardTitle, CardContent, Alert, Button, Spinner } from '../components/ui'
+
+export const Route = createFileRoute('/dashboard_/users')({
+  component: UsersPage,
+})
+
+const PAGE_SIZE = 20
+
+const ROLES: User['role'][] = ['USER', 'STAFF', 'MANAGER', 'ADMIN']
+
+const formatDate = (value: string | Date | null) =>
+  value ? new Date(value).toLocaleString() : 'Never'
+
+function UsersPage() {
+  const { user, isLoading } = useAuth()
+  const navigate = useNavigate()
+
+  const [search, setSearch] = useState('')
+  const [page, setPage] = useState(1)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const canManage = hasPermission(user, 'user.manage')
+
+  const { data, isLoading: usersLoading, refetch } = useQuery({
+    queryKey: ['users', search, page],
+    queryFn: () => fetchUsers({ search: search || undefined, page, pageSize: PAGE_SIZE }),
+    enabled: canManage,
+  })
+
+  // Run an action on one user with shared busy/error handling
+  const run = async (target: AdminUser, action: () => Promise<string>) => {
+    setError('')
+    setMessage('')
+    setBusyId(target.id)
+    try {
+      setMessage(await action())
+      refetch()
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to update user')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRole = (target: AdminUser, role: User['role']) =>
+    run(target, async () => {
+      await updateUser(target.id, { role })
+      return `${target.name} is now ${role}.`
+    })
+
+  const handleToggleDisabled = (target: AdminUser) =>
+    run(target, async () => {
+      await updateUser(target.id, { disabled: !target.disabledAt })
+      return target.disabledAt ? `${target.name} was re-enabled.` : `${target.name} was disabled and signed out.`
+    })
+
+  const handleForceLogout = (target: AdminUser) =>
+    run(target, async () => {
+      const result = await forceLogout(target.id)
+      return `Signed ${target.name} out of ${result.revokedSessions} session(s).`
+    })
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    navigate({ to: '/login' })
+    return null
+  }
+
+  if (!canManage) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          <Alert variant="destructive">
+            You do not have permission to access this page.
+          </Alert>
+        </div>
+      </div>
+    )
+  }
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white px-4 py-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Users</h1>
+            <p className="text-gray-600 mt-2">Manage accounts, roles and access</p>
+          </div>
+          <Button variant="outline" onClick={() => navigate({ to: '/dashboard' })}>
+            Back to dashboard
+          </Button>
+        </div>
+
+        {error && <Alert variant="destructive">{error}</Alert>}
+        {message && <Alert>{message}</Alert>}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{data ? `${data.total} users` : 'Users'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => { setSearch(e.target.value); setPage(1) }}
+              className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+              placeholder="Search by name or email"
+            />
+
+            {usersLoading ? (
+              <div className="flex justify-center py-8">
+                <Spinner />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last login</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {data?.users.length === 0 ? (
+                      <tr>
+                        <td colSpan={5} className="px-4 py-8 text-center text-gray-500">No users found.</td>
+                      </tr>
+                    ) : (
+                      data?.users.map((target) => {
+                        const isSelf = target.id === user.id
+                        const busy = busyId === target.id
+                        return (
+                          <tr key={target.id} className={target.disabledAt ? 'bg-gray-50 text-gray-400' : ''}>
+                            <td className="px-4 py-3 text-sm">
+                              <div className="font-medium text-gray-900">
+                                {target.name}
+                                {target.disabledAt && <span className="ml-2 text-xs text-red-600">Disabled</span>}
+                              </div>
+                              <div className="text-gray-500">{target.email}</div>
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                              <select
+                                value={target.role}
+                                onChange={(e) => handleRole(target, e.target.value as User['role'])}
+                                disabled={isSelf || busy}
+                                className="rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none"
+                              >
+                                {ROLES.map((role) => (
+                                  <option key={role} value={role}>{role}</option>
+                                ))}
+                              </select>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">{formatDate(target.createdAt)}</td>
+                            <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">{formatDate(target.lastLoginAt)}</td>
+                            <td className="px-4 py-3 text-right text-sm">
+                              <div className="flex justify-end gap-2">
+                                <Button variant="outline" onClick={() => handleForceLogout(target)} disabled={busy}>
+                                  Sign out
+                                </Button>
+                                {!isSelf && (
+                                  <Button variant="outline" onClick={() => handleToggleDisabled(target)} disabled={busy}>
+                                    {target.disabledAt ? 'Enable' : 'Disable'}
+                                  </Button>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        )
+                      })
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Button variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                Previous
+              </Button>
+              <span className="text-sm text-gray-600">
+                Page {page} of {totalPages}
+              </span>
+              <Button variant="outline" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                Next
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
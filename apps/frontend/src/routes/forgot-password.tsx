@@ -0,0 +1,99 @@
+/**
+ * Forgot password page
+ */
+import { useState } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { createFileRoute } from '@tanstack/react-router'
+import { forgotPassword } from '../lib/api'
+import { Card, CardHeader, CardTitle, CardContent, Button, Alert } from '../components/ui'
+
+export const Route = createFileRoute('/forgot-password')({
+  component: ForgotPasswordPage,
+})
+
+function ForgotPasswordPage() {
+  const navigate = useNavigate()
+  const [email, setEmail] = useState('')
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setMessage('')
+    setIsLoading(true)
+
+    try {
+      const result = await forgotPassword(email)
+      setMessage(result.message)
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Could not send reset link. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center px-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl">Forgot Password</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  {error}
+                </Alert>
+              )}
+
+              {message && (
+                <Alert>
+                  {message}
+                </Alert>
+              )}
+
+              <p className="text-sm text-gray-600">
+                Enter the email you registered with and we'll send you a link to reset your password.
+              </p>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Email
+                </label>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                  placeholder="you@example.com"
+                  required
+                />
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading}
+              >
+                {isLoading ? 'Sending...' : 'Send Reset Link'}
+              </Button>
+            </form>
+
+            <div className="mt-4 text-center text-sm text-gray-600">
+              Remembered it?{' '}
+              <button
+                onClick={() => navigate({ to: '/login' })}
+                className="font-medium text-blue-600 hover:text-blue-700"
+              >
+                Back to login
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -7,9 +7,24 @@
  */
 import { useState } from 'react'
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useQueryClient } from '@tanstack/react-query'
 import { useSweets, useCategories, useSearchSweets } from '../lib/hooks'
 import { useAuth } from '../contexts/AuthContext'
-import { apiClient } from '../lib/api'
+import {
+  ALLERGENS,
+  DIETARY_TAGS,
+  SALE_UNITS,
+  addToCart,
+  apiClient,
+  assetUrl,
+  convertQuantity,
+  formatQuantity,
+  linePrice,
+  type Allergen,
+  type DietaryTag,
+  type SaleUnit,
+  type Sweet,
+} from '../lib/api'
 import {
   Card,
   CardHeader,
@@ -28,20 +43,31 @@ export const Route = createFileRoute('/')({
 
 function Home() {
   const navigate = useNavigate()
+  const queryClient = useQueryClient()
   const { user, isLoading: authLoading } = useAuth()
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedCategory, setSelectedCategory] = useState<string>('')
   const [priceMin, setPriceMin] = useState('')
   const [priceMax, setPriceMax] = useState('')
   const [showFilters, setShowFilters] = useState(false)
+  // Dietary tags sweets must have, and allergens they must be free of
+  const [tags, setTags] = useState<DietaryTag[]>([])
+  const [freeFrom, setFreeFrom] = useState<Allergen[]>([])
   const [purchaseDialog, setPurchaseDialog] = useState<{ open: boolean; sweet: any | null }>({ open: false, sweet: null })
   const [quantity, setQuantity] = useState(1)
+  // Sweets sold by weight can be bought in grams or kilograms
+  const [quantityUnit, setQuantityUnit] = useState<SaleUnit>('PIECE')
+  // The pack size being bought, or '' to buy the sweet loose
+  const [variantId, setVariantId] = useState('')
   const [purchaseError, setPurchaseError] = useState('')
   const [purchaseLoading, setPurchaseLoading] = useState(false)
+  // Sent as Idempotency-Key so retrying the same purchase never buys twice;
+  // renewed whenever the purchase itself changes
+  const [purchaseKey, setPurchaseKey] = useState('')
 
   // Determine if we should search
   const hasFilters = Boolean(
-    searchQuery || selectedCategory || priceMin || priceMax
+    searchQuery || selectedCategory || priceMin || priceMax || tags.length || freeFrom.length
   )
 
   // Fetch data (hooks must be called before any conditional returns)
@@ -53,6 +79,8 @@ function Home() {
       categoryId: selectedCategory,
       priceMin: priceMin ? parseFloat(priceMin) : undefined,
       priceMax: priceMax ? parseFloat(priceMax) : undefined,
+      tags,
+      excludeAllergens: freeFrom,
     },
     hasFilters
   )
@@ -81,14 +109,35 @@ function Home() {
     setSelectedCategory('')
     setPriceMin('')
     setPriceMax('')
+    setTags([])
+    setFreeFrom([])
   }
 
+  // Add `value` to a chip list, or take it out if it is there
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((item) => item !== value) : [...list, value]
+
   const handleOpenPurchaseDialog = (sweet: any) => {
     setPurchaseDialog({ open: true, sweet })
-    setQuantity(1)
+    // Start with the smallest pack in stock when the sweet is out loose,
+    // else with the amount the price is for: a piece, 100 g or a kg
+    const pack = Number(sweet.stock) > 0
+      ? undefined
+      : sweet.variants?.find((variant: any) => Number(variant.stock) > 0)
+    setVariantId(pack?.id ?? '')
+    setQuantity(pack ? 1 : SALE_UNITS[sweet.unit as SaleUnit].basis)
+    setQuantityUnit(sweet.unit)
+    setPurchaseKey(crypto.randomUUID())
     setPurchaseError('')
   }
 
+  const handleSelectVariant = (id: string) => {
+    setVariantId(id)
+    setQuantity(id ? 1 : SALE_UNITS[purchaseDialog.sweet.unit as SaleUnit].basis)
+    setQuantityUnit(purchaseDialog.sweet.unit)
+    setPurchaseKey(crypto.randomUUID())
+  }
+
   const handleClosePurchaseDialog = () => {
     setPurchaseDialog({ open: false, sweet: null })
     setQuantity(1)
@@ -96,11 +145,26 @@ function Home() {
     setPurchaseLoading(false)
   }
 
+  const variant = purchaseDialog.sweet?.variants?.find((v: any) => v.id === variantId)
+  // Packs are bought whole, at the pack's price and from its own stock
+  const purchaseUnit: SaleUnit = variant ? 'PIECE' : purchaseDialog.sweet?.unit
+  const purchasePrice = variant ? variant.price : purchaseDialog.sweet?.price
+  const purchaseStock = variant ? variant.stock : purchaseDialog.sweet?.stock
+  const purchaseStockLabel = variant
+    ? `${Number(variant.stock)} packs`
+    : purchaseDialog.sweet && formatQuantity(purchaseDialog.sweet.stock, purchaseDialog.sweet.unit)
+
+  // The quantity in the sweet's own unit (or in packs), or null when it does
+  // not fit it
+  const purchaseAmount = purchaseDialog.sweet
+    ? convertQuantity(quantity, variant ? 'PIECE' : quantityUnit, purchaseUnit)
+    : null
+
   const handlePurchase = async () => {
     if (!purchaseDialog.sweet) return
     
-    if (quantity < 1 || quantity > purchaseDialog.sweet.stock) {
-      setPurchaseError(`Please enter a quantity between 1 and ${purchaseDialog.sweet.stock}`)
+    if (!purchaseAmount || purchaseAmount > Number(purchaseStock)) {
+      setPurchaseError(`Please enter a quantity up to ${purchaseStockLabel}`)
       return
     }
 
@@ -108,7 +172,11 @@ function Home() {
     setPurchaseError('')
 
     try {
-      await apiClient.post(`/sweets/${purchaseDialog.sweet.id}/purchase`, { quantity })
+      await apiClient.post(
+        `/sweets/${purchaseDialog.sweet.id}/purchase`,
+        variant ? { quantity, variantId } : { quantity, unit: quantityUnit },
+        { headers: { 'Idempotency-Key': purchaseKey } },
+      )
       // Refetch sweets to update stock
       sweetsQuery.refetch()
       if (hasFilters) searchQuery_result.refetch()
@@ -120,6 +188,27 @@ function Home() {
     }
   }
 
+  const handleAddToCart = async () => {
+    if (!purchaseDialog.sweet) return
+
+    setPurchaseLoading(true)
+    setPurchaseError('')
+
+    try {
+      queryClient.setQueryData(
+        ['cart'],
+        variant
+          ? await addToCart(purchaseDialog.sweet.id, quantity, undefined, variantId)
+          : await addToCart(purchaseDialog.sweet.id, quantity, quantityUnit),
+      )
+      handleClosePurchaseDialog()
+    } catch (err: any) {
+      setPurchaseError(err.response?.data?.error || 'Could not add to cart. Please try again.')
+    } finally {
+      setPurchaseLoading(false)
+    }
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white">
       <div className="mx-auto max-w-6xl px-4 py-8 sm:px-6 lg:px-8">
@@ -149,6 +238,24 @@ function Home() {
                 />
               </div>
 
+              {/* Dietary Filter Chips */}
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(DIETARY_TAGS) as DietaryTag[]).map((tag) => (
+                  <FilterChip key={tag} active={tags.includes(tag)} onClick={() => setTags(toggle(tags, tag))}>
+                    {DIETARY_TAGS[tag]}
+                  </FilterChip>
+                ))}
+                {(Object.keys(ALLERGENS) as Allergen[]).map((allergen) => (
+                  <FilterChip
+                    key={allergen}
+                    active={freeFrom.includes(allergen)}
+                    onClick={() => setFreeFrom(toggle(freeFrom, allergen))}
+                  >
+                    {ALLERGENS[allergen].freeLabel}
+                  </FilterChip>
+                ))}
+              </div>
+
               {/* Filter Toggle */}
               <button
                 onClick={() => setShowFilters(!showFilters)}
@@ -253,16 +360,28 @@ function Home() {
             </p>
             <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
               {sweets.map((sweet) => (
-                <Card key={sweet.id} className="hover:shadow-lg transition-shadow">
+                <Card key={sweet.id} className="hover:shadow-lg transition-shadow overflow-hidden">
+                  {sweet.primaryImage ? (
+                    <img
+                      src={assetUrl(sweet.primaryImage.thumbnailUrl)}
+                      alt={sweet.name}
+                      loading="lazy"
+                      className="h-48 w-full object-cover"
+                    />
+                  ) : (
+                    <div className="flex h-48 w-full items-center justify-center bg-gray-100 text-sm text-gray-400">
+                      No image
+                    </div>
+                  )}
                   <CardHeader>
                     <div className="flex items-start justify-between gap-2">
                       <CardTitle className="flex-1 text-lg">
                         {sweet.name}
                       </CardTitle>
-                      {sweet.stock <= 5 && sweet.stock > 0 && (
+                      {Number(sweet.stock) <= 5 && Number(sweet.stock) > 0 && (
                         <Badge variant="secondary">Low Stock</Badge>
                       )}
-                      {sweet.stock === 0 && (
+                      {!inStock(sweet) && (
                         <Badge variant="outline" className="bg-red-100 text-red-800">Out of Stock</Badge>
                       )}
                     </div>
@@ -271,22 +390,36 @@ function Home() {
                         {sweet.category.name}
                       </Badge>
                     )}
+                    <DietaryBadges sweet={sweet} />
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
                       {/* Price */}
                       <div className="border-t border-gray-200 pt-4">
                         <p className="text-sm text-gray-600">Price</p>
-                        <p className="text-2xl font-bold text-blue-600">
-                          ${Number(sweet.price).toFixed(2)}
-                        </p>
+                        {sweet.variants?.length ? (
+                          <p className="text-2xl font-bold text-blue-600">
+                            <span className="mr-1 text-sm font-normal text-gray-500">from</span>
+                            ${Number(sweet.fromPrice).toFixed(2)}
+                            <span className="ml-1 text-sm font-normal text-gray-500">
+                              ({sweet.variants.length} pack size{sweet.variants.length !== 1 ? 's' : ''})
+                            </span>
+                          </p>
+                        ) : (
+                          <p className="text-2xl font-bold text-blue-600">
+                            ${Number(sweet.price).toFixed(2)}
+                            <span className="ml-1 text-sm font-normal text-gray-500">
+                              / {SALE_UNITS[sweet.unit].label}
+                            </span>
+                          </p>
+                        )}
                       </div>
 
                       {/* Stock */}
                       <div>
                         <p className="text-sm text-gray-600">Stock</p>
                         <p className="text-lg font-semibold text-gray-900 mt-1">
-                          {sweet.stock} units
+                          {formatQuantity(sweet.stock, sweet.unit)}
                         </p>
                       </div>
 
@@ -303,10 +436,10 @@ function Home() {
                       <div className="border-t border-gray-200 pt-4">
                         <Button
                           className="w-full"
-                          disabled={sweet.stock === 0}
+                          disabled={!inStock(sweet)}
                           onClick={() => handleOpenPurchaseDialog(sweet)}
                         >
-                          {sweet.stock === 0 ? 'Out of Stock' : 'Purchase'}
+                          {inStock(sweet) ? 'Purchase' : 'Out of Stock'}
                         </Button>
                       </div>
                     </div>
@@ -327,32 +460,85 @@ function Home() {
             </h2>
             
             <div className="space-y-4">
+              <DietaryBadges sweet={purchaseDialog.sweet} />
+              {purchaseDialog.sweet.ingredients && (
+                <p className="text-sm text-gray-600">
+                  <span className="font-medium text-gray-700">Ingredients:</span> {purchaseDialog.sweet.ingredients}
+                </p>
+              )}
+
+              {purchaseDialog.sweet.variants?.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Pack Size
+                  </label>
+                  <select
+                    value={variantId}
+                    onChange={(e) => handleSelectVariant(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                  >
+                    <option value="">Loose (${Number(purchaseDialog.sweet.price).toFixed(2)} / {SALE_UNITS[purchaseDialog.sweet.unit as SaleUnit].label})</option>
+                    {purchaseDialog.sweet.variants.map((v: any) => (
+                      <option key={v.id} value={v.id} disabled={Number(v.stock) === 0}>
+                        {v.label} (${Number(v.price).toFixed(2)}){Number(v.stock) === 0 ? ' - out of stock' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
-                <p className="text-sm text-gray-600">Price per unit</p>
+                <p className="text-sm text-gray-600">
+                  Price per {variant ? 'pack' : SALE_UNITS[purchaseDialog.sweet.unit as SaleUnit].label}
+                </p>
                 <p className="text-xl font-bold text-blue-600">
-                  ${Number(purchaseDialog.sweet.price).toFixed(2)}
+                  ${Number(purchasePrice).toFixed(2)}
                 </p>
               </div>
 
               <div>
-                <p className="text-sm text-gray-600 mb-1">Available Stock: {purchaseDialog.sweet.stock}</p>
+                <p className="text-sm text-gray-600 mb-1">
+                  Available Stock: {purchaseStockLabel}
+                </p>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Quantity
                 </label>
-                <input
-                  type="number"
-                  min="1"
-                  max={purchaseDialog.sweet.stock}
-                  value={quantity}
-                  onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
-                  className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min={SALE_UNITS[variant ? 'PIECE' : quantityUnit].step}
+                    step={SALE_UNITS[variant ? 'PIECE' : quantityUnit].step}
+                    value={quantity}
+                    onChange={(e) => {
+                      setQuantity(parseFloat(e.target.value) || 0)
+                      setPurchaseKey(crypto.randomUUID())
+                    }}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                  />
+                  {variant ? (
+                    <span className="self-center text-sm text-gray-600">packs</span>
+                  ) : purchaseDialog.sweet.unit === 'PIECE' ? (
+                    <span className="self-center text-sm text-gray-600">pcs</span>
+                  ) : (
+                    <select
+                      value={quantityUnit}
+                      onChange={(e) => {
+                        setQuantityUnit(e.target.value as SaleUnit)
+                        setPurchaseKey(crypto.randomUUID())
+                      }}
+                      className="rounded-md border border-gray-300 px-2 py-2 focus:border-blue-500 focus:outline-none"
+                    >
+                      <option value="GRAM">g</option>
+                      <option value="KILOGRAM">kg</option>
+                    </select>
+                  )}
+                </div>
               </div>
 
               <div className="border-t pt-4">
                 <p className="text-sm text-gray-600">Total Price</p>
                 <p className="text-2xl font-bold text-blue-600">
-                  ${(Number(purchaseDialog.sweet.price) * quantity).toFixed(2)}
+                  ${linePrice(purchasePrice, purchaseAmount ?? 0, purchaseUnit).toFixed(2)}
                 </p>
               </div>
 
@@ -371,6 +557,14 @@ function Home() {
                 >
                   Cancel
                 </Button>
+                <Button
+                  onClick={handleAddToCart}
+                  variant="outline"
+                  className="flex-1"
+                  disabled={purchaseLoading}
+                >
+                  Add to Cart
+                </Button>
                 <Button
                   onClick={handlePurchase}
                   className="flex-1"
@@ -386,3 +580,64 @@ function Home() {
     </div>
   )
 }
+
+/**
+ * Whether a sweet can be bought, loose or in any of its pack sizes
+ */
+function inStock(sweet: Sweet) {
+  return (
+    Number(sweet.stock) > 0 ||
+    Boolean(sweet.variants?.some((variant) => Number(variant.stock) > 0))
+  )
+}
+
+/**
+ * A sweet's dietary tags, and a warning badge for each allergen it contains
+ */
+function DietaryBadges({ sweet }: { sweet: Sweet }) {
+  if (!sweet.dietaryTags?.length && !sweet.allergens?.length) return null
+
+  return (
+    <div className="mt-2 flex flex-wrap gap-1">
+      {sweet.dietaryTags?.map((tag) => (
+        <Badge key={tag} className="bg-green-100 text-green-800">
+          {DIETARY_TAGS[tag]}
+        </Badge>
+      ))}
+      {sweet.allergens?.map((allergen) => (
+        <Badge key={allergen} className="bg-amber-100 text-amber-800">
+          {ALLERGENS[allergen].label}
+        </Badge>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * A toggleable search filter
+ */
+function FilterChip({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean
+  onClick: () => void
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={cn(
+        'rounded-full border px-3 py-1 text-sm font-medium transition-colors',
+        active
+          ? 'border-blue-600 bg-blue-600 text-white'
+          : 'border-gray-300 text-gray-700 hover:border-blue-400',
+      )}
+    >
+      {children}
+    </button>
+  )
+}
@@ -4,21 +4,70 @@
 import { useState } from 'react'
 import { useNavigate } from '@tanstack/react-router'
 import { createFileRoute } from '@tanstack/react-router'
-import { login } from '../lib/api'
+import { useQuery } from '@tanstack/react-query'
+import {
+  fetchOidcProviders,
+  login,
+  loginTwoFactor,
+  loginWithCode,
+  oidcLoginUrl,
+  requestLoginCode,
+} from '../lib/api'
 import { useAuth } from '../contexts/AuthContext'
 import { Card, CardHeader, CardTitle, CardContent, Button, Alert } from '../components/ui'
 
+/**
+ * Provider logins come back here with an `error` code on failure, or with a
+ * two-factor `challenge` when the account has 2FA enabled.
+ */
 export const Route = createFileRoute('/login')({
+  validateSearch: (search: Record<string, unknown>): { error?: string; challenge?: string } => ({
+    error: typeof search.error === 'string' ? search.error : undefined,
+    challenge: typeof search.challenge === 'string' ? search.challenge : undefined,
+  }),
   component: LoginPage,
 })
 
+// Messages for the `error` codes a provider login redirects back with
+const PROVIDER_ERRORS: Record<string, string> = {
+  cancelled: 'Sign-in was cancelled.',
+  email_not_verified: 'Your email address is not verified with that provider.',
+  account_conflict: 'An account with that email was just created. Please try again.',
+  account_disabled: 'Account disabled.',
+  invalid_state: 'Sign-in expired. Please try again.',
+}
+
+// Error message for a failed login step, including lockout wait times
+function loginErrorMessage(err: any) {
+  const retryAfter = err.response?.data?.retryAfter
+  const message = err.response?.data?.error || 'Login failed. Please try again.'
+  return retryAfter ? `${message} Try again in ${retryAfter} seconds.` : message
+}
+
 function LoginPage() {
   const navigate = useNavigate()
   const { user } = useAuth()
+  const search = Route.useSearch()
+  const { data: providers } = useQuery({
+    queryKey: ['oidc-providers'],
+    queryFn: fetchOidcProviders,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
-  const [error, setError] = useState('')
+  const [error, setError] = useState(
+    search.error ? PROVIDER_ERRORS[search.error] || 'Sign-in with that provider failed.' : '',
+  )
   const [isLoading, setIsLoading] = useState(false)
+  // Set when the account has 2FA and the password step succeeded
+  const [challenge, setChallenge] = useState<string | null>(search.challenge ?? null)
+  const [code, setCode] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  // Sign in with a phone number and a code sent by SMS instead
+  const [usePhone, setUsePhone] = useState(false)
+  const [phone, setPhone] = useState('')
+  const [loginCode, setLoginCode] = useState('')
+  const [codeSent, setCodeSent] = useState(false)
 
   // Redirect if already authenticated
   if (user) {
@@ -32,16 +81,143 @@ function LoginPage() {
     setIsLoading(true)
 
     try {
-      await login({ email, password })
+      const result = await login({ email, password })
+      if ('twoFactorRequired' in result) {
+        setChallenge(result.challenge)
+        return
+      }
       // Redirect to home after successful login
       navigate({ to: '/' })
     } catch (err: any) {
-      setError(err.response?.data?.error || 'Login failed. Please try again.')
+      setError(loginErrorMessage(err))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleRequestCode = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsLoading(true)
+
+    try {
+      await requestLoginCode(phone)
+      setCodeSent(true)
+    } catch (err: any) {
+      const errors = err.response?.data?.errors
+      setError(errors?.phone?.[0] || loginErrorMessage(err))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsLoading(true)
+
+    try {
+      const result = await loginWithCode({ phone, code: loginCode })
+      if ('twoFactorRequired' in result) {
+        setChallenge(result.challenge)
+        return
+      }
+      navigate({ to: '/' })
+    } catch (err: any) {
+      setError(loginErrorMessage(err))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!challenge) return
+    setError('')
+    setIsLoading(true)
+
+    try {
+      await loginTwoFactor(
+        useRecoveryCode ? { challenge, recoveryCode: code } : { challenge, code },
+      )
+      navigate({ to: '/' })
+    } catch (err: any) {
+      // An expired challenge means starting over from the password step
+      if (err.response?.data?.error?.startsWith('Login challenge expired')) {
+        setChallenge(null)
+        setCode('')
+      }
+      setError(loginErrorMessage(err))
     } finally {
       setIsLoading(false)
     }
   }
 
+  if (challenge) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center px-4">
+        <div className="w-full max-w-md">
+          <Card>
+            <CardHeader className="text-center">
+              <CardTitle className="text-2xl">Two-factor authentication</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    {error}
+                  </Alert>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+                  </label>
+                  <input
+                    type="text"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    placeholder={useRecoveryCode ? 'XXXXX-XXXXX' : '123456'}
+                    inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                    autoComplete="one-time-code"
+                    autoFocus
+                    required
+                  />
+                  <p className="mt-1 text-sm text-gray-500">
+                    {useRecoveryCode
+                      ? 'Enter one of the recovery codes you saved when enabling 2FA.'
+                      : 'Enter the 6-digit code from your authenticator app.'}
+                  </p>
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Verifying...' : 'Verify'}
+                </Button>
+              </form>
+
+              <div className="mt-4 text-center text-sm text-gray-600">
+                <button
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode)
+                    setCode('')
+                  }}
+                  className="font-medium text-blue-600 hover:text-blue-700"
+                >
+                  {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                </button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center px-4">
       <div className="w-full max-w-md">
@@ -50,51 +226,155 @@ function LoginPage() {
             <CardTitle className="text-2xl">Login</CardTitle>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {error && (
-                <Alert variant="destructive">
-                  {error}
-                </Alert>
-              )}
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Email
-                </label>
-                <input
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
-                  placeholder="you@example.com"
-                  required
-                />
-              </div>
+            {usePhone ? (
+              <form onSubmit={codeSent ? handleCodeSubmit : handleRequestCode} className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    {error}
+                  </Alert>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Phone number
+                  </label>
+                  <input
+                    type="tel"
+                    value={phone}
+                    onChange={(e) => setPhone(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    placeholder="98765 43210"
+                    autoComplete="tel"
+                    disabled={codeSent}
+                    required
+                  />
+                </div>
+
+                {codeSent && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Login code
+                    </label>
+                    <input
+                      type="text"
+                      value={loginCode}
+                      onChange={(e) => setLoginCode(e.target.value)}
+                      className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                      placeholder="123456"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      autoFocus
+                      required
+                    />
+                    <div className="mt-1 flex justify-between text-sm">
+                      <span className="text-gray-500">Enter the 6-digit code we sent by SMS.</span>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setCodeSent(false)
+                          setLoginCode('')
+                        }}
+                        className="font-medium text-blue-600 hover:text-blue-700"
+                      >
+                        Change number
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading}
+                >
+                  {codeSent
+                    ? isLoading ? 'Logging in...' : 'Login'
+                    : isLoading ? 'Sending code...' : 'Send login code'}
+                </Button>
+              </form>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    {error}
+                  </Alert>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Email
+                  </label>
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    placeholder="you@example.com"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Password
+                  </label>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    placeholder="••••••••"
+                    required
+                  />
+                  <div className="mt-1 text-right">
+                    <button
+                      type="button"
+                      onClick={() => navigate({ to: '/forgot-password' })}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                    >
+                      Forgot password?
+                    </button>
+                  </div>
+                </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Password
-                </label>
-                <input
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
-                  placeholder="••••••••"
-                  required
-                />
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Logging in...' : 'Login'}
+                </Button>
+              </form>
+            )}
+
+            {!!providers?.length && (
+              <div className="mt-4 space-y-2">
+                <div className="text-center text-sm text-gray-500">or</div>
+                {providers.map((provider) => (
+                  <a
+                    key={provider.id}
+                    href={oidcLoginUrl(provider.id)}
+                    className="block w-full rounded-md border border-gray-300 px-4 py-2 text-center text-sm font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    Sign in with {provider.label}
+                  </a>
+                ))}
               </div>
+            )}
 
-              <Button
-                type="submit"
-                className="w-full"
-                disabled={isLoading}
+            <div className="mt-4 text-center text-sm text-gray-600">
+              <button
+                onClick={() => {
+                  setUsePhone(!usePhone)
+                  setError('')
+                }}
+                className="font-medium text-blue-600 hover:text-blue-700"
               >
-                {isLoading ? 'Logging in...' : 'Login'}
-              </Button>
-            </form>
+                {usePhone ? 'Use email and password' : 'Use phone number instead'}
+              </button>
+            </div>
 
-            <div className="mt-4 text-center text-sm text-gray-600">
+            <div className="mt-2 text-center text-sm text-gray-600">
               Don't have an account?{' '}
               <button
                 onClick={() => navigate({ to: '/register' })}
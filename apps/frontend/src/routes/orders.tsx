@@ -0,0 +1,140 @@
+/**
+ * Order history page
+ *
+ * Lists the current user's orders with what was bought and the price paid.
+ * Users with `order.read` can switch to every customer's orders.
+ */
+import { useState } from 'react'
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  SALE_UNITS,
+  fetchAllOrders,
+  fetchOrders,
+  formatQuantity,
+  hasPermission,
+  linePrice,
+} from '../lib/api'
+import { Card, CardHeader, CardTitle, CardContent, Button, Spinner } from '../components/ui'
+
+export const Route = createFileRoute('/orders')({
+  component: OrdersPage,
+})
+
+const PAGE_SIZE = 20
+
+const formatMoney = (value: number | string) => `$${Number(value).toFixed(2)}`
+
+function OrdersPage() {
+  const { user, isLoading } = useAuth()
+  const navigate = useNavigate()
+
+  const [showAll, setShowAll] = useState(false)
+  const [page, setPage] = useState(1)
+
+  const canReadAll = hasPermission(user, 'order.read')
+  const all = showAll && canReadAll
+
+  const { data, isLoading: ordersLoading } = useQuery({
+    queryKey: ['orders', all, page],
+    queryFn: () =>
+      all
+        ? fetchAllOrders({ page, pageSize: PAGE_SIZE })
+        : fetchOrders({ page, pageSize: PAGE_SIZE }),
+    enabled: !!user,
+  })
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    navigate({ to: '/login' })
+    return null
+  }
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white px-4 py-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{all ? 'All orders' : 'My orders'}</h1>
+            <p className="text-gray-600 mt-2">
+              {all ? "Every customer's purchases" : 'Everything you have bought'}
+            </p>
+          </div>
+          {canReadAll && (
+            <Button variant="outline" onClick={() => { setShowAll(!showAll); setPage(1) }}>
+              {all ? 'Show my orders' : 'Show all orders'}
+            </Button>
+          )}
+        </div>
+
+        {ordersLoading ? (
+          <div className="flex justify-center py-8">
+            <Spinner />
+          </div>
+        ) : data?.orders.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-500">No orders yet.</CardContent>
+          </Card>
+        ) : (
+          data?.orders.map((order) => (
+            <Card key={order.id}>
+              <CardHeader>
+                <CardTitle className="flex justify-between text-base">
+                  <span>{new Date(order.createdAt).toLocaleString()}</span>
+                  <span>{formatMoney(order.total)}</span>
+                </CardTitle>
+                {order.user && (
+                  <p className="text-sm text-gray-500">
+                    {order.user.name} ({order.user.email})
+                  </p>
+                )}
+              </CardHeader>
+              <CardContent>
+                <table className="min-w-full text-sm">
+                  <tbody className="divide-y divide-gray-100">
+                    {order.items.map((item) => (
+                      <tr key={item.id}>
+                        <td className="py-2 text-gray-900">{item.name}</td>
+                        <td className="py-2 text-gray-500 text-right">
+                          {formatQuantity(item.quantity, item.unit)} at {formatMoney(item.unitPrice)} /{' '}
+                          {SALE_UNITS[item.unit].label}
+                        </td>
+                        <td className="py-2 text-gray-900 text-right w-24">
+                          {formatMoney(linePrice(item.unitPrice, item.quantity, item.unit))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          ))
+        )}
+
+        {data && data.total > 0 && (
+          <div className="flex items-center justify-between">
+            <Button variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </Button>
+            <span className="text-sm text-gray-600">
+              Page {page} of {totalPages}
+            </span>
+            <Button variant="outline" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
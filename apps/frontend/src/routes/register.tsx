@@ -19,7 +19,6 @@ function RegisterPage() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
-  const [isAdmin, setIsAdmin] = useState(false)
   const [error, setError] = useState('')
   const [isLoading, setIsLoading] = useState(false)
 
@@ -46,7 +45,7 @@ function RegisterPage() {
     setIsLoading(true)
 
     try {
-      await register({ name, email, password, role: isAdmin ? 'ADMIN' : 'USER' })
+      await register({ name, email, password })
       // Backend sets auth-token cookie, so navigate to home and let AuthContext pick it up
       window.location.href = '/'
     } catch (err: any) {
@@ -127,19 +126,6 @@ function RegisterPage() {
                 />
               </div>
 
-              <div className="flex items-center">
-                <input
-                  type="checkbox"
-                  id="isAdmin"
-                  checked={isAdmin}
-                  onChange={(e) => setIsAdmin(e.target.checked)}
-                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                />
-                <label htmlFor="isAdmin" className="ml-2 text-sm font-medium text-gray-700">
-                  Register as Seller
-                </label>
-              </div>
-
               <Button
                 type="submit"
                 className="w-full"
@@ -0,0 +1,133 @@
+/**
+ * Reset password page
+ *
+ * Reached from the link in the password reset email, which carries the
+ * single-use token in the `token` search param.
+ */
+import { useState } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { createFileRoute } from '@tanstack/react-router'
+import { resetPassword } from '../lib/api'
+import { Card, CardHeader, CardTitle, CardContent, Button, Alert } from '../components/ui'
+
+export const Route = createFileRoute('/reset-password')({
+  validateSearch: (search: Record<string, unknown>): { token?: string } => ({
+    token: typeof search.token === 'string' ? search.token : undefined,
+  }),
+  component: ResetPasswordPage,
+})
+
+function ResetPasswordPage() {
+  const navigate = useNavigate()
+  const { token } = Route.useSearch()
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters')
+      return
+    }
+
+    setIsLoading(true)
+
+    try {
+      const result = await resetPassword({ token: token ?? '', password })
+      setMessage(result.message)
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Password reset failed. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center px-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl">Choose a New Password</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!token ? (
+              <Alert variant="destructive">
+                This reset link is incomplete. Please request a new one.
+              </Alert>
+            ) : message ? (
+              <div className="space-y-4">
+                <Alert>{message}</Alert>
+                <Button className="w-full" onClick={() => navigate({ to: '/login' })}>
+                  Go to Login
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    {error}
+                  </Alert>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    New Password
+                  </label>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    placeholder="••••••••"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Confirm Password
+                  </label>
+                  <input
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    placeholder="••••••••"
+                    required
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Saving...' : 'Reset Password'}
+                </Button>
+              </form>
+            )}
+
+            <div className="mt-4 text-center text-sm text-gray-600">
+              <button
+                onClick={() => navigate({ to: '/forgot-password' })}
+                className="font-medium text-blue-600 hover:text-blue-700"
+              >
+                Request a new link
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,512 @@
+/**
+ * Account settings page
+ */
+import { useState } from 'react'
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  type AuthEvent,
+  type User,
+  getAuthActivity,
+  updateProfile,
+  changePassword,
+  deleteAccount,
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+} from '../lib/api'
+import { Card, CardHeader, CardTitle, CardContent, Alert, Button, Spinner } from '../components/ui'
+
+export const Route = createFileRoute('/settings')({
+  component: SettingsPage,
+})
+
+function SettingsPage() {
+  const { user, isLoading } = useAuth()
+  const navigate = useNavigate()
+
+  // Check if user is loading
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  // Check if user is not authenticated
+  if (!user) {
+    navigate({ to: '/login' })
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white px-4 py-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+          <p className="text-gray-600 mt-2">Manage your profile and account security</p>
+        </div>
+
+        <ProfileSection user={user} />
+        <PasswordSection />
+        <TwoFactorSection />
+        <RecentActivitySection />
+        <DeleteAccountSection />
+      </div>
+    </div>
+  )
+}
+
+// Pick the first message from an API error (`error` or a field in `errors`)
+function errorMessage(err: any, fallback: string): string {
+  const errors = err.response?.data?.errors
+  return err.response?.data?.error || (errors && Object.values(errors).flat()[0]) || fallback
+}
+
+const inputClass =
+  'w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none'
+
+/**
+ * Name, email and phone number
+ */
+function ProfileSection({ user }: { user: User }) {
+  const { setUser } = useAuth()
+  const [name, setName] = useState(user.name)
+  const [email, setEmail] = useState(user.email)
+  const [phone, setPhone] = useState(user.phone ?? '')
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [error, setError] = useState('')
+  const [saved, setSaved] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const emailChanged = email !== user.email
+  const phoneChanged = phone.trim() !== (user.phone ?? '')
+  const needsPassword = emailChanged || phoneChanged
+
+  const handleSave = async () => {
+    setError('')
+    setSaved(false)
+    setLoading(true)
+    try {
+      const updated = await updateProfile({
+        name,
+        ...(emailChanged ? { email } : {}),
+        ...(phoneChanged ? { phone: phone.trim() || null } : {}),
+        ...(needsPassword ? { currentPassword } : {}),
+      })
+      setPhone(updated.phone ?? '')
+      setUser(updated)
+      setCurrentPassword('')
+      setSaved(true)
+    } catch (err: any) {
+      setError(errorMessage(err, 'Failed to update profile'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <Alert variant="destructive">{error}</Alert>}
+        {saved && <Alert>Profile updated.</Alert>}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Phone number</label>
+          <input
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            className={inputClass}
+            placeholder="98765 43210"
+            autoComplete="tel"
+          />
+          <p className="mt-1 text-sm text-gray-500">Lets you sign in with a code sent by SMS.</p>
+        </div>
+        {needsPassword && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Current password (required to change email or phone number)
+            </label>
+            <input
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              className={inputClass}
+              autoComplete="current-password"
+            />
+          </div>
+        )}
+        <Button
+          onClick={handleSave}
+          disabled={loading || !name || (needsPassword && !currentPassword)}
+        >
+          {loading ? 'Saving...' : 'Save profile'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Password change; signs out the user's other devices
+ */
+function PasswordSection() {
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const handleChange = async () => {
+    setError('')
+    setMessage('')
+    setLoading(true)
+    try {
+      const result = await changePassword({ currentPassword, newPassword })
+      setCurrentPassword('')
+      setNewPassword('')
+      setMessage(
+        result.revokedSessions > 0
+          ? `Password changed. Signed out ${result.revokedSessions} other session(s).`
+          : 'Password changed.',
+      )
+    } catch (err: any) {
+      setError(errorMessage(err, 'Failed to change password'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Password</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <Alert variant="destructive">{error}</Alert>}
+        {message && <Alert>{message}</Alert>}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Current password</label>
+          <input
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            className={inputClass}
+            autoComplete="current-password"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">New password</label>
+          <input
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            className={inputClass}
+            autoComplete="new-password"
+            placeholder="At least 8 characters"
+          />
+        </div>
+        <Button onClick={handleChange} disabled={loading || !currentPassword || newPassword.length < 8}>
+          {loading ? 'Changing...' : 'Change password'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+const EVENT_LABELS: Record<AuthEvent['type'], string> = {
+  REGISTER: 'Account created',
+  LOGIN: 'Signed in',
+  LOGIN_FAILED: 'Failed sign-in attempt',
+  LOGOUT: 'Signed out',
+  PASSWORD_RESET_REQUESTED: 'Password reset requested',
+  LOGIN_CODE_REQUESTED: 'Login code sent by SMS',
+  PASSWORD_RESET: 'Password reset',
+  PASSWORD_CHANGED: 'Password changed',
+  EMAIL_CHANGED: 'Email changed',
+  PHONE_CHANGED: 'Phone number changed',
+  IDENTITY_LINKED: 'Sign-in provider linked',
+  TWO_FACTOR_ENABLED: 'Two-factor authentication enabled',
+  TWO_FACTOR_DISABLED: 'Two-factor authentication disabled',
+  ACCOUNT_DELETED: 'Account deleted',
+}
+
+/**
+ * Recent sign-ins and security changes, to spot access the user does not
+ * recognise
+ */
+function RecentActivitySection() {
+  const { data: events, isLoading } = useQuery({
+    queryKey: ['auth-activity'],
+    queryFn: getAuthActivity,
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recent activity</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Spinner />
+          </div>
+        ) : !events || events.length === 0 ? (
+          <p className="text-sm text-gray-600">No recent activity.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {events.map((event) => (
+              <li key={event.id} className="py-3 text-sm">
+                <div className="flex justify-between gap-4">
+                  <span className={event.type === 'LOGIN_FAILED' ? 'font-medium text-red-700' : 'font-medium text-gray-900'}>
+                    {EVENT_LABELS[event.type] ?? event.type}
+                  </span>
+                  <span className="text-gray-500 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</span>
+                </div>
+                <div className="text-gray-500 truncate">
+                  {event.ip ?? 'Unknown IP'}
+                  {event.userAgent && ` · ${event.userAgent}`}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="mt-3 text-xs text-gray-500">
+          If you see activity you do not recognise, change your password.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Account deletion. The account is anonymized; sweets it created remain.
+ */
+function DeleteAccountSection() {
+  const { setUser } = useAuth()
+  const navigate = useNavigate()
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete your account? This cannot be undone.')) return
+    setError('')
+    setLoading(true)
+    try {
+      await deleteAccount(password)
+      setUser(null)
+      navigate({ to: '/' })
+    } catch (err: any) {
+      setError(errorMessage(err, 'Failed to delete account'))
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Delete account</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <Alert variant="destructive">{error}</Alert>}
+        <p className="text-sm text-gray-600">
+          Your name, email and sign-in details are removed and you are signed out everywhere. Sweets you added stay in the shop.
+        </p>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass}
+            autoComplete="current-password"
+          />
+        </div>
+        <Button variant="outline" onClick={handleDelete} disabled={loading || !password}>
+          {loading ? 'Deleting...' : 'Delete my account'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Two-factor authentication enrollment and management
+ */
+function TwoFactorSection() {
+  const { data: status, isLoading, refetch } = useQuery({
+    queryKey: ['two-factor-status'],
+    queryFn: getTwoFactorStatus,
+  })
+
+  const [setup, setSetup] = useState<{ secret: string; qrCode: string } | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  // Run a 2FA action with shared loading/error handling
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setError('')
+    setLoading(true)
+    try {
+      await action()
+      setCode('')
+      setPassword('')
+      refetch()
+    } catch (err: any) {
+      setError(err.response?.data?.error || fallback)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSetup = () =>
+    run(async () => {
+      const result = await setupTwoFactor()
+      setSetup({ secret: result.secret, qrCode: result.qrCode })
+      setRecoveryCodes([])
+    }, 'Failed to start two-factor setup')
+
+  const handleEnable = () =>
+    run(async () => {
+      const result = await enableTwoFactor(code)
+      setSetup(null)
+      setRecoveryCodes(result.recoveryCodes)
+    }, 'Failed to enable two-factor authentication')
+
+  const handleRegenerate = () =>
+    run(async () => {
+      const result = await regenerateRecoveryCodes(code)
+      setRecoveryCodes(result.recoveryCodes)
+    }, 'Failed to generate recovery codes')
+
+  const handleDisable = () =>
+    run(async () => {
+      await disableTwoFactor({ password, code })
+      setRecoveryCodes([])
+    }, 'Failed to disable two-factor authentication')
+
+  const codeInput = (
+    <input
+      type="text"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+      placeholder="6-digit code"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+    />
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-factor authentication</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <Alert variant="destructive">{error}</Alert>}
+
+        {isLoading || !status ? (
+          <div className="flex justify-center py-4">
+            <Spinner />
+          </div>
+        ) : (
+          <>
+            {status.required && !status.enabled && (
+              <Alert variant="destructive">
+                Two-factor authentication is required for admin accounts. Enable it to use the dashboard.
+              </Alert>
+            )}
+
+            {recoveryCodes.length > 0 && (
+              <Alert>
+                <p className="font-medium mb-2">
+                  Save these recovery codes somewhere safe. Each can be used once if you lose access to your authenticator app. They will not be shown again.
+                </p>
+                <div className="grid grid-cols-2 gap-1 font-mono text-sm">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <span key={recoveryCode}>{recoveryCode}</span>
+                  ))}
+                </div>
+              </Alert>
+            )}
+
+            {status.enabled ? (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Two-factor authentication is <span className="font-medium text-green-700">enabled</span>.{' '}
+                  {status.recoveryCodesRemaining} recovery codes remaining.
+                </p>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Authentication code
+                  </label>
+                  {codeInput}
+                </div>
+                <Button variant="outline" onClick={handleRegenerate} disabled={loading || !code}>
+                  Generate new recovery codes
+                </Button>
+
+                {!status.required && (
+                  <div className="border-t pt-4 space-y-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Password
+                    </label>
+                    <input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="w-full rounded-md border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    />
+                    <Button variant="outline" onClick={handleDisable} disabled={loading || !code || !password}>
+                      Disable two-factor authentication
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ) : setup ? (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Scan this QR code with your authenticator app, or enter the secret manually, then enter the 6-digit code it shows.
+                </p>
+                <img src={setup.qrCode} alt="Two-factor QR code" className="mx-auto h-48 w-48" />
+                <p className="text-center font-mono text-sm break-all">{setup.secret}</p>
+                {codeInput}
+                <Button onClick={handleEnable} disabled={loading || !code} className="w-full">
+                  {loading ? 'Verifying...' : 'Enable'}
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Protect your account with a code from an authenticator app in addition to your password.
+                </p>
+                <Button onClick={handleSetup} disabled={loading}>
+                  Set up two-factor authentication
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
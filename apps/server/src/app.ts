@@ -19,18 +19,42 @@ import express, {
   type Response,
   type NextFunction,
 } from "express";
+import { cookies } from "@/utility/cookies";
+import { csrfProtection } from "@/middleware/csrf";
 import authRouter from "@/routes/auth";
+import twoFactorRouter from "@/routes/two-factor";
+import oidcRouter from "@/routes/oidc";
 import sweetsRouter from "@/routes/sweets";
+import ordersRouter from "@/routes/orders";
+import cartRouter from "@/routes/cart";
+import inventoryRouter from "@/routes/inventory";
+import imagesRouter from "@/routes/images";
 import categoryRouter from "@/routes/category";
+import invitationsRouter from "@/routes/invitations";
+import usersRouter from "@/routes/users";
+import apiKeysRouter from "@/routes/api-keys";
+import auditRouter from "@/routes/audit";
 import path from "path";
 import { access } from "fs";
 
 // Create the Express app and register core middleware
 const app: Express = express()
   .use(express.json()) // Parse incoming JSON request bodies
+  .use(cookies) // Parse (and verify signed) cookies into `req.cookies`
+  .use(csrfProtection) // Require a CSRF token on state-changing requests
   .use("/api/auth", authRouter) // Mount authentication routes under `/api/auth`
+  .use("/api/auth/2fa", twoFactorRouter) // Mount two-factor enrollment routes under `/api/auth/2fa`
+  .use("/api/auth/oidc", oidcRouter) // Mount OpenID Connect login routes under `/api/auth/oidc`
   .use("/api/sweets", sweetsRouter) // Mount sweets routes under `/api/sweets`
-  .use("/api/category", categoryRouter); // Mount category routes under `/api/category`
+  .use("/api/orders", ordersRouter) // Mount order routes under `/api/orders`
+  .use("/api/cart", cartRouter) // Mount shopping cart routes under `/api/cart`
+  .use("/api/inventory", inventoryRouter) // Mount stock level routes under `/api/inventory`
+  .use("/api/images", imagesRouter) // Mount stored sweet images under `/api/images`
+  .use("/api/category", categoryRouter) // Mount category routes under `/api/category`
+  .use("/api/invitations", invitationsRouter) // Mount invitation routes under `/api/invitations`
+  .use("/api/users", usersRouter) // Mount user administration routes under `/api/users`
+  .use("/api/api-keys", apiKeysRouter) // Mount API key management routes under `/api/api-keys`
+  .use("/api/audit", auditRouter); // Mount audit log routes under `/api/audit`
 
 /**
  * Generic JSON error handler.
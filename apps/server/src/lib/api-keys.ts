@@ -0,0 +1,91 @@
+/**
+ * API keys
+ *
+ * Admins mint API keys for POS terminals and scripts. A key is sent as
+ * `Authorization: Bearer <key>` and authenticates as the admin who created
+ * it, restricted to the key's scopes. Only the SHA-256 hash of the key is
+ * stored; the raw key is returned once at creation.
+ *
+ * Keys are only accepted on routes that opt in with `acceptApiKey(scope)`
+ * (see `@/middleware/auth`); everything else, including key management
+ * itself, still requires a cookie session.
+ */
+import prisma from "@/lib/prisma";
+import { generateToken, hashToken } from "@/utility/tokens";
+
+/**
+ * Scopes that can be granted to a key, one per kind of operation.
+ */
+export const API_KEY_SCOPES = [
+  "sweet.read",
+  "sweet.purchase",
+  "sweet.create",
+  "sweet.update",
+  "sweet.delete",
+  "stock.restock",
+  "category.read",
+  "category.manage",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Marks the string as one of ours, which helps secret scanners
+const KEY_PREFIX = "msk_";
+
+// Characters of the raw key kept in clear for display
+const DISPLAY_PREFIX_LENGTH = 12;
+
+/**
+ * Create a key for `createdBy`.
+ *
+ * @returns the stored row and the raw key, which cannot be recovered later
+ */
+export async function createApiKey(
+  createdBy: { id: string },
+  data: { name: string; scopes: ApiKeyScope[]; expiresAt: Date | null },
+) {
+  const key = `${KEY_PREFIX}${generateToken()}`;
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      name: data.name,
+      scopes: data.scopes,
+      expiresAt: data.expiresAt,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashToken(key),
+      createdById: createdBy.id,
+    },
+  });
+
+  return { apiKey, key };
+}
+
+/**
+ * Look up an active (not revoked, not expired) key by its raw value and
+ * record that it was used.
+ *
+ * @returns the key row, or `null` when the key is unknown or inactive
+ */
+export async function findActiveApiKey(key: string) {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashToken(key) },
+  });
+
+  if (!apiKey || apiKey.revokedAt) return null;
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) return null;
+
+  return prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { lastUsedAt: new Date() },
+  });
+}
+
+/**
+ * Strip the key hash before returning keys to clients.
+ */
+export function publicApiKey(apiKey: any) {
+  const { keyHash: _hash, ...rest } = apiKey;
+  return rest;
+}
@@ -0,0 +1,68 @@
+/**
+ * Authentication audit log
+ *
+ * Every sign-in, failed sign-in, registration, logout and credential change
+ * is recorded as an `AuthEvent` with the user, client IP and user agent.
+ * The log is append-only: this module only ever creates rows, and no route
+ * updates or deletes them.
+ *
+ * Recording never fails the request that triggered it. A write error is
+ * logged and swallowed so an audit outage cannot lock everyone out.
+ */
+import type { Request } from "express";
+import prisma from "@/lib/prisma";
+
+/**
+ * Kinds of authentication events (mirrors the `AuthEventType` enum).
+ */
+export const AUTH_EVENT_TYPES = [
+  "REGISTER",
+  "LOGIN",
+  "LOGIN_FAILED",
+  "LOGOUT",
+  "PASSWORD_RESET_REQUESTED",
+  "LOGIN_CODE_REQUESTED",
+  "PASSWORD_RESET",
+  "PASSWORD_CHANGED",
+  "EMAIL_CHANGED",
+  "PHONE_CHANGED",
+  "IDENTITY_LINKED",
+  "TWO_FACTOR_ENABLED",
+  "TWO_FACTOR_DISABLED",
+  "ACCOUNT_DELETED",
+] as const;
+
+export type AuthEventType = (typeof AUTH_EVENT_TYPES)[number];
+
+/**
+ * Who the event is about, plus optional details (e.g. why a login failed).
+ */
+export interface AuthEventDetails {
+  userId?: string | null;
+  email?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Append an event of `type` for the request's client.
+ */
+export async function recordAuthEvent(
+  req: Request,
+  type: AuthEventType,
+  details: AuthEventDetails = {},
+) {
+  try {
+    await prisma.authEvent.create({
+      data: {
+        type,
+        userId: details.userId ?? null,
+        email: details.email ?? null,
+        ip: req.ip ?? null,
+        userAgent: req.get("user-agent") ?? null,
+        metadata: details.metadata ?? undefined,
+      },
+    });
+  } catch (err) {
+    console.error(`Failed to record ${type} auth event:`, err);
+  }
+}
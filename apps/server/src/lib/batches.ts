@@ -0,0 +1,148 @@
+/**
+ * Stock batches
+ *
+ * Every restock (see `@/lib/stock`) is recorded as a `StockBatch` with its
+ * production and best-before dates, and each batch's `quantity` is what is
+ * left of it. Decrements take from the batch that expires first (FEFO),
+ * then from the next; undated batches go last. Stock that is in no batch
+ * (from before batches, or added back by returns and adjustments) is taken
+ * once the batches run out.
+ *
+ * A batch has expired once its best-before date is past. Sales never take
+ * expired stock: it stays on the books, out of what can be sold, until it
+ * is written off as `WASTE` with `writeOffExpired`.
+ */
+import prisma from "@/lib/prisma";
+import { moveStock } from "@/lib/stock";
+import { roundQuantity, toMilli } from "@/lib/units";
+
+/**
+ * Dates of a restocked batch, both optional.
+ */
+export interface BatchDates {
+  producedAt?: Date | null;
+  bestBefore?: Date | null;
+}
+
+/**
+ * Midnight (UTC) at the start of today. Batches best before an earlier
+ * date have expired.
+ */
+export function startOfToday() {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return today;
+}
+
+/**
+ * Whether `batch` is past its best-before date.
+ */
+export function isExpired(
+  batch: { bestBefore?: Date | null },
+  today = startOfToday(),
+) {
+  return Boolean(batch.bestBefore) && batch.bestBefore! < today;
+}
+
+/**
+ * First-expiry-first-out order: earliest best-before first, undated
+ * batches last, and older batches first on the same date.
+ */
+export function byExpiry(a: any, b: any) {
+  const expiry = (batch: any) => batch.bestBefore?.getTime() ?? Infinity;
+  return (
+    expiry(a) - expiry(b) || a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
+
+/**
+ * The batches of a sweet (or of one of its variants) that still hold
+ * stock, in the order decrements take from them.
+ */
+export async function openBatches(
+  client: any,
+  sweetId: string,
+  variantId: string | null,
+) {
+  const batches = await client.stockBatch.findMany({
+    where: { sweetId, variantId, quantity: { gt: 0 } },
+  });
+  return batches.sort(byExpiry);
+}
+
+/**
+ * Take `quantity` from `batches` in order, inside the caller's
+ * transaction `tx`, until it is covered or the batches run out.
+ */
+export async function takeFromBatches(
+  tx: any,
+  batches: any[],
+  quantity: number,
+) {
+  let left = toMilli(quantity);
+  for (const batch of batches) {
+    if (left <= 0) break;
+    const taken = Math.min(left, toMilli(batch.quantity));
+    await tx.stockBatch.update({
+      where: { id: batch.id },
+      data: { quantity: { decrement: taken / 1000 } },
+    });
+    left -= taken;
+  }
+}
+
+/**
+ * Key of a sweet's stock, or of one of its variants', in `expiredStock`.
+ */
+export const stockKey = (sweetId: string, variantId?: string | null) =>
+  `${sweetId}/${variantId ?? ""}`;
+
+/**
+ * Expired stock not yet written off, in thousandths, by `stockKey`, for
+ * the sweets in `sweetIds` and their variants. It cannot be sold.
+ */
+export async function expiredStock(sweetIds: string[]) {
+  const batches = await prisma.stockBatch.findMany({
+    where: {
+      sweetId: { in: sweetIds },
+      quantity: { gt: 0 },
+      bestBefore: { lt: startOfToday() },
+    },
+  });
+
+  const expired = new Map<string, number>();
+  for (const batch of batches) {
+    const key = stockKey(batch.sweetId, batch.variantId);
+    expired.set(key, (expired.get(key) ?? 0) + toMilli(batch.quantity));
+  }
+  return expired;
+}
+
+/**
+ * Write off what is left of every expired batch as a `WASTE` movement, one
+ * transaction per batch. Batches of archived variants are left as they
+ * are.
+ *
+ * @returns the batches written off, each with its movement
+ */
+export async function writeOffExpired(userId: string) {
+  const batches = await prisma.stockBatch.findMany({
+    where: { quantity: { gt: 0 }, bestBefore: { lt: startOfToday() } },
+    orderBy: { bestBefore: "asc" },
+  });
+
+  const writtenOff = [];
+  for (const batch of batches) {
+    const movement = await moveStock({
+      sweetId: batch.sweetId,
+      variantId: batch.variantId,
+      batchId: batch.id,
+      type: "WASTE",
+      delta: -roundQuantity(batch.quantity),
+      userId,
+      reason: "Expired",
+    });
+    if (movement) writtenOff.push({ batch, movement });
+  }
+  return writtenOff;
+}
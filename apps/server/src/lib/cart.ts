@@ -0,0 +1,251 @@
+/**
+ * Shopping cart
+ *
+ * Each user has one cart, stored as `CartItem` rows so it follows them
+ * across devices. An item is a sweet, or whole packs of one of its
+ * variants. A cart holds no stock: sweets can sell out or change
+ * price while they sit in it, so every read revalidates the items against
+ * the catalogue and flags the ones that can no longer be bought as they
+ * are. Checkout places an order through `placeOrder` (see `@/lib/orders`)
+ * and empties the cart.
+ */
+import prisma from "@/lib/prisma";
+import { expiredStock, stockKey } from "@/lib/batches";
+import {
+  lineStock,
+  placeOrder,
+  toCents,
+  type CheckedLines,
+  type PlaceOrderResult,
+} from "@/lib/orders";
+import { priceCents, roundQuantity, toMilli, type Unit } from "@/lib/units";
+
+/**
+ * Whether a cart item can be bought as it is:
+ * - `available`: enough stock for the quantity
+ * - `insufficient_stock`: some stock, but less than the quantity
+ * - `out_of_stock`: no stock left
+ */
+export type CartItemStatus =
+  | "available"
+  | "insufficient_stock"
+  | "out_of_stock";
+
+/**
+ * A cart item revalidated against the current catalogue.
+ */
+export interface CartLine {
+  id: string;
+  sweetId: string;
+  variantId: string | null;
+  /** The sweet's name, with the variant's label for packs */
+  name: string;
+  /** Unit of `quantity` and `stock`, which the prices are for (`PIECE`
+   * for packs) */
+  unit: Unit;
+  quantity: number;
+  /** Current price */
+  unitPrice: number;
+  /** Price when the item was added or last changed */
+  addedPrice: number;
+  priceChanged: boolean;
+  /** Stock that can be bought, leaving out expired batches */
+  stock: number;
+  status: CartItemStatus;
+}
+
+/**
+ * A user's cart. `total` is at current prices; `checkoutReady` is false
+ * while the cart is empty or any item is not `available`.
+ */
+export interface Cart {
+  items: CartLine[];
+  total: number;
+  checkoutReady: boolean;
+}
+
+// `CartItem.variantKey` for a line: its variant, or "" for the loose sweet
+const variantKey = (variantId?: string | null) => variantId ?? "";
+
+function statusOf(quantity: number, stock: number): CartItemStatus {
+  if (toMilli(stock) <= 0) return "out_of_stock";
+  if (toMilli(stock) < toMilli(quantity)) return "insufficient_stock";
+  return "available";
+}
+
+/**
+ * Read `user`'s cart, oldest item first, with current prices and stock.
+ */
+export async function readCart(user: { id: string }): Promise<Cart> {
+  const rows = await prisma.cartItem.findMany({
+    where: { userId: user.id },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const sweets = await prisma.sweet.findMany({
+    where: { id: { in: rows.map((row: any) => row.sweetId) } },
+  });
+  const byId = new Map<string, any>(
+    sweets.map((sweet: any) => [sweet.id, sweet]),
+  );
+
+  const variants = await prisma.sweetVariant.findMany({
+    where: { id: { in: rows.flatMap((row: any) => row.variantId ?? []) } },
+  });
+  const variantsById = new Map<string, any>(
+    variants.map((variant: any) => [variant.id, variant]),
+  );
+
+  // Expired stock cannot be bought
+  const expired = await expiredStock([...byId.keys()]);
+
+  const items: CartLine[] = rows.flatMap((row: any): CartLine[] => {
+    const sweet = byId.get(row.sweetId);
+    const variant = row.variantId ? variantsById.get(row.variantId) : null;
+    if (!sweet || variant === undefined) return [];
+
+    // Packs of a variant are priced and stocked on their own
+    const sold = variant ?? sweet;
+    const quantity = roundQuantity(row.quantity);
+    const stock =
+      (toMilli(sold.stock) -
+        (expired.get(stockKey(row.sweetId, row.variantId)) ?? 0)) /
+      1000;
+    return [
+      {
+        id: row.id,
+        sweetId: row.sweetId,
+        variantId: row.variantId ?? null,
+        name: variant ? `${sweet.name} (${variant.label})` : sweet.name,
+        unit: variant ? "PIECE" : sweet.unit,
+        quantity,
+        unitPrice: Number(sold.price),
+        addedPrice: Number(row.addedPrice),
+        priceChanged: toCents(sold.price) !== toCents(row.addedPrice),
+        stock,
+        status: statusOf(quantity, stock),
+      },
+    ];
+  });
+
+  const totalCents = items.reduce(
+    (sum, item) => sum + priceCents(item.unitPrice, item.quantity, item.unit),
+    0,
+  );
+
+  return {
+    items,
+    total: totalCents / 100,
+    checkoutReady:
+      items.length > 0 && items.every((item) => item.status === "available"),
+  };
+}
+
+/**
+ * Set the quantity of the single line in `checked` (see `checkLines`) in
+ * `user`'s cart, adding it if needed. The quantity is in the sweet's unit,
+ * or packs of a variant. The stored price is refreshed, since the user has
+ * just seen the current one.
+ */
+export async function setCartItem(
+  user: { id: string },
+  checked: CheckedLines,
+) {
+  const [line] = checked.lines;
+  const { sweetId, quantity } = line;
+  const variantId = line.variantId ?? null;
+  const { price } = lineStock(checked, line);
+
+  // An upsert, so a repeated request cannot add the same line twice
+  return prisma.cartItem.upsert({
+    where: {
+      userId_sweetId_variantKey: {
+        userId: user.id,
+        sweetId,
+        variantKey: variantKey(variantId),
+      },
+    },
+    create: {
+      userId: user.id,
+      sweetId,
+      variantId,
+      variantKey: variantKey(variantId),
+      quantity,
+      addedPrice: price,
+    },
+    update: { quantity, addedPrice: price },
+  });
+}
+
+/**
+ * Quantity of `sweetId` (or packs of its `variantId`) already in `user`'s
+ * cart, in the sweet's unit (0 when absent).
+ */
+export async function cartQuantity(
+  user: { id: string },
+  sweetId: string,
+  variantId: string | null = null,
+) {
+  const existing = await prisma.cartItem.findFirst({
+    where: { userId: user.id, sweetId, variantId },
+  });
+  return roundQuantity(existing?.quantity ?? 0);
+}
+
+/**
+ * Replace `user`'s cart with lines already merged and checked with
+ * `checkLines`.
+ */
+export async function replaceCart(
+  user: { id: string },
+  checked: CheckedLines,
+) {
+  await prisma.$transaction(async (tx: any) => {
+    await tx.cartItem.deleteMany({ where: { userId: user.id } });
+    for (const line of checked.lines)
+      await tx.cartItem.create({
+        data: {
+          userId: user.id,
+          sweetId: line.sweetId,
+          variantId: line.variantId ?? null,
+          variantKey: variantKey(line.variantId),
+          quantity: line.quantity,
+          addedPrice: lineStock(checked, line).price,
+        },
+      });
+  });
+}
+
+/**
+ * Empty `user`'s cart.
+ */
+export async function clearCart(user: { id: string }) {
+  await prisma.cartItem.deleteMany({ where: { userId: user.id } });
+}
+
+/**
+ * Place an order for everything in `user`'s cart at current prices and
+ * empty the cart. Nothing changes when the order is refused.
+ */
+export async function checkoutCart(
+  user: { id: string },
+): Promise<PlaceOrderResult | { ok: false; reason: "empty" }> {
+  const rows = await prisma.cartItem.findMany({ where: { userId: user.id } });
+  if (rows.length === 0) return { ok: false, reason: "empty" };
+
+  const result = await placeOrder(
+    user,
+    rows.map((row: any) => ({
+      sweetId: row.sweetId,
+      variantId: row.variantId,
+      quantity: roundQuantity(row.quantity),
+    })),
+  );
+
+  if (result.ok)
+    await prisma.cartItem.deleteMany({
+      where: { id: { in: rows.map((row: any) => row.id) } },
+    });
+
+  return result;
+}
@@ -0,0 +1,36 @@
+/**
+ * Allergens and dietary tags
+ *
+ * A sweet lists the allergens it contains and the dietary needs it meets,
+ * next to its free-text `ingredients`. Both are sets of fixed values so
+ * customers can filter on them (see `GET /api/sweets/search`).
+ */
+
+/**
+ * Allergens a sweet can contain (mirrors the `Allergen` enum).
+ */
+export const ALLERGENS = ["NUTS", "DAIRY", "GLUTEN"] as const;
+
+export type Allergen = (typeof ALLERGENS)[number];
+
+/**
+ * Dietary needs a sweet can meet (mirrors the `DietaryTag` enum). Jain
+ * sweets have no root vegetables, honey or animal products other than
+ * dairy.
+ */
+export const DIETARY_TAGS = ["SUGAR_FREE", "VEGAN", "JAIN"] as const;
+
+export type DietaryTag = (typeof DIETARY_TAGS)[number];
+
+/**
+ * Why `allergens` and `dietaryTags` cannot both hold, or `null` when they
+ * can.
+ */
+export function dietaryConflict(
+  allergens: readonly Allergen[],
+  dietaryTags: readonly DietaryTag[],
+) {
+  if (dietaryTags.includes("VEGAN") && allergens.includes("DAIRY"))
+    return "A vegan sweet cannot contain dairy";
+  return null;
+}
@@ -0,0 +1,215 @@
+/**
+ * Sweet images
+ *
+ * Uploaded images are checked by decoding them (the declared content type
+ * is not trusted), stored as uploaded and given a square WebP thumbnail.
+ * The bytes live in the active `ImageStorage`; the database only keeps the
+ * storage keys (see `SweetImage`). By default images are files under
+ * `IMAGE_DIR` (defaults to `uploads/images` in the working directory),
+ * served by `GET /api/images/*`.
+ *
+ * Another backend (S3, a CDN, ...) only needs to implement `ImageStorage`
+ * and be installed with `setImageStorage` at startup; its `url` can point
+ * straight at the files. Tests install a temporary local storage the same
+ * way.
+ *
+ * Limits come from `IMAGE_MAX_BYTES` (per file, default 5 MB) and
+ * `IMAGE_MAX_PER_SWEET` (default 8).
+ */
+import crypto from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+
+/**
+ * Where image bytes are kept.
+ */
+export interface ImageStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  /** The stored bytes, or `null` when missing or not served by this app */
+  read(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+  /** URL clients load the image from */
+  url(key: string): string;
+}
+
+/**
+ * Keeps images as files under `dir`, served by `GET /api/images/*`.
+ */
+export class LocalImageStorage implements ImageStorage {
+  constructor(private readonly dir: string) {}
+
+  // Keys are generated by `processImage`, but never leave `dir`
+  private pathOf(key: string) {
+    const file = path.resolve(this.dir, key);
+    if (!file.startsWith(path.resolve(this.dir) + path.sep))
+      throw new Error(`Invalid image key: ${key}`);
+    return file;
+  }
+
+  async put(key: string, data: Buffer) {
+    const file = this.pathOf(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async read(key: string) {
+    try {
+      return await readFile(this.pathOf(key));
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(key: string) {
+    await rm(this.pathOf(key), { force: true });
+  }
+
+  url(key: string) {
+    return `/api/images/${key}`;
+  }
+}
+
+function storageFromEnv(): ImageStorage {
+  return new LocalImageStorage(
+    process.env.IMAGE_DIR || path.join(process.cwd(), "uploads", "images"),
+  );
+}
+
+let storage: ImageStorage = storageFromEnv();
+
+/**
+ * Replace the active storage (e.g. with an object store or a test double).
+ */
+export function setImageStorage(next: ImageStorage) {
+  storage = next;
+}
+
+/**
+ * The active storage.
+ */
+export function imageStorage() {
+  return storage;
+}
+
+/** Largest accepted upload, in bytes */
+export const IMAGE_MAX_BYTES = Number(process.env.IMAGE_MAX_BYTES) || 5 << 20;
+
+/** Most images a sweet can have */
+export const IMAGE_MAX_PER_SWEET =
+  Number(process.env.IMAGE_MAX_PER_SWEET) || 8;
+
+/** Edge of the square thumbnails, in pixels */
+const THUMBNAIL_SIZE = 320;
+
+/**
+ * Accepted formats (as reported by `sharp`) and their content types.
+ */
+export const IMAGE_TYPES: Record<string, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+/**
+ * Content type for a storage key, from its extension.
+ */
+export function contentTypeOf(key: string) {
+  const ext = path.extname(key).slice(1);
+  return IMAGE_TYPES[ext === "jpg" ? "jpeg" : ext] ?? null;
+}
+
+/**
+ * A decoded upload, stored with its thumbnail.
+ */
+export interface StoredImage {
+  key: string;
+  thumbnailKey: string;
+  contentType: string;
+  size: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Decode `data`, store it and its thumbnail for `sweetId`.
+ *
+ * @returns the stored image, or `null` when `data` is not a JPEG, PNG or
+ *   WebP image
+ */
+export async function processImage(
+  sweetId: string,
+  data: Buffer,
+): Promise<StoredImage | null> {
+  const metadata = await sharp(data).metadata().catch(() => null);
+
+  const format = metadata?.format;
+  if (!metadata || !format || !(format in IMAGE_TYPES)) return null;
+
+  const thumbnail = await sharp(data)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" })
+    .webp()
+    .toBuffer();
+
+  const name = `${sweetId}/${crypto.randomUUID()}`;
+  const image: StoredImage = {
+    key: `${name}.${format}`,
+    thumbnailKey: `${name}-thumb.webp`,
+    contentType: IMAGE_TYPES[format],
+    size: data.length,
+    width: metadata.width ?? 0,
+    height: metadata.height ?? 0,
+  };
+
+  await storage.put(image.key, data);
+  await storage.put(image.thumbnailKey, thumbnail);
+
+  return image;
+}
+
+/**
+ * Remove an image's files from storage.
+ */
+export async function removeImageFiles(image: {
+  key: string;
+  thumbnailKey: string;
+}) {
+  await storage.delete(image.key);
+  await storage.delete(image.thumbnailKey);
+}
+
+/**
+ * Client view of a `SweetImage`: storage keys become URLs.
+ */
+export function toImageJson(image: any) {
+  return {
+    id: image.id,
+    position: image.position,
+    url: storage.url(image.key),
+    thumbnailUrl: storage.url(image.thumbnailKey),
+    contentType: image.contentType,
+    size: image.size,
+    width: image.width,
+    height: image.height,
+  };
+}
+
+/**
+ * Replace `sweet.images` (its first image, from
+ * `include: { images: PRIMARY_IMAGE }`) with `primaryImage`.
+ */
+export function withPrimaryImage({ images, ...sweet }: any) {
+  return {
+    ...sweet,
+    primaryImage: images?.length ? toImageJson(images[0]) : null,
+  };
+}
+
+/**
+ * `include` for a sweet's primary image: the one in the first position.
+ */
+export const PRIMARY_IMAGE = {
+  orderBy: { position: "asc" },
+  take: 1,
+} as const;
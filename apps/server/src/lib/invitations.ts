@@ -0,0 +1,74 @@
+/**
+ * Account invitations
+ *
+ * Elevated roles are never self-assigned: an admin invites an email address
+ * with a role, the invitee receives a single-use link and registers through
+ * `POST /api/auth/register/invite`. As with password reset tokens, only the
+ * SHA-256 hash of the invitation token is stored.
+ */
+import prisma from "@/lib/prisma";
+import { appUrl, sendMail } from "@/lib/mailer";
+import { generateToken, hashToken } from "@/utility/tokens";
+
+// How long an invitation link stays valid
+const INVITATION_TTL_DAYS = Number(process.env.INVITATION_TTL_DAYS) || 7;
+
+/**
+ * Create an invitation for `email` with `role`, revoking any earlier
+ * pending invitations for the same address, and email the link.
+ *
+ * @returns the invitation row and the link containing the raw token
+ */
+export async function createInvitation(
+  invitedBy: { id: string; name: string },
+  email: string,
+  role: string,
+) {
+  await prisma.invitation.updateMany({
+    where: { email, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  const token = generateToken();
+
+  const invitation = await prisma.invitation.create({
+    data: {
+      email,
+      role,
+      tokenHash: hashToken(token),
+      invitedById: invitedBy.id,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+    },
+  });
+
+  const inviteUrl = appUrl("/accept-invite", { token });
+
+  await sendMail({
+    to: email,
+    subject: "You're invited to Misthan",
+    text:
+      `${invitedBy.name} has invited you to join Misthan as ${role}.\n\n` +
+      `Create your account using the link below. It expires in ` +
+      `${INVITATION_TTL_DAYS} days.\n\n` +
+      `${inviteUrl}`,
+  });
+
+  return { invitation, inviteUrl };
+}
+
+/**
+ * Look up a pending invitation by its raw token.
+ *
+ * Returns `null` when the token is unknown, or the invitation has been
+ * accepted, revoked or has expired.
+ */
+export async function findPendingInvitation(token: string) {
+  const invitation = await prisma.invitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!invitation || invitation.acceptedAt || invitation.revokedAt) return null;
+  if (new Date(invitation.expiresAt).getTime() <= Date.now()) return null;
+
+  return invitation;
+}
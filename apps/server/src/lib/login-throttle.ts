@@ -0,0 +1,324 @@
+/**
+ * Login brute-force protection
+ *
+ * Failed logins are counted per account (`account:<email>`) and per client
+ * IP (`ip:<address>`). Once a key reaches its threshold it is locked with
+ * exponential backoff: every further failure doubles the lockout, up to a
+ * cap. Counters expire after a quiet window with no failures.
+ *
+ * - A locked account yields `423 Locked`; a throttled IP yields
+ *   `429 Too Many Requests`. Both carry a `Retry-After` header.
+ * - A successful login clears the account counter (but not the IP counter,
+ *   so an attacker cannot reset it by logging into their own account).
+ *
+ * Counters live in a pluggable `AttemptStore`. The in-memory store is the
+ * default; set `LOGIN_THROTTLE_STORE=postgres` to share counters between
+ * instances through the `LoginAttempt` table.
+ */
+import prisma from "@/lib/prisma";
+
+/**
+ * Failure counter for a single key.
+ */
+export interface AttemptState {
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+/**
+ * Storage backend for failure counters.
+ *
+ * `increment` must be atomic so concurrent failures are all counted.
+ */
+export interface AttemptStore {
+  get(key: string): Promise<AttemptState | null>;
+  increment(key: string, now: Date): Promise<AttemptState>;
+  lock(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Process-local store. Suitable for single-instance deploys and tests.
+ *
+ * Counters are dropped once they are idle (no failures for `idleMs` and no
+ * lockout left), checked on access and in a sweep at most once per
+ * `idleMs`, so failures against random emails cannot grow the map without
+ * bound. Past `maxEntries` the counters with the oldest failures go first.
+ */
+export class MemoryAttemptStore implements AttemptStore {
+  private readonly states = new Map<string, AttemptState>();
+  private readonly idleMs: number;
+  private readonly maxEntries: number;
+  private lastSweep = 0;
+
+  constructor({
+    idleMs = 15 * 60 * 1000,
+    maxEntries = 100_000,
+  }: { idleMs?: number; maxEntries?: number } = {}) {
+    this.idleMs = idleMs;
+    this.maxEntries = maxEntries;
+  }
+
+  /** Number of counters held */
+  get size() {
+    return this.states.size;
+  }
+
+  private isIdle(state: AttemptState, now: number) {
+    return (
+      now - state.lastFailureAt.getTime() > this.idleMs &&
+      (!state.lockedUntil || state.lockedUntil.getTime() <= now)
+    );
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < this.idleMs) return;
+    this.lastSweep = now;
+    for (const [key, state] of this.states)
+      if (this.isIdle(state, now)) this.states.delete(key);
+  }
+
+  async get(key: string) {
+    const state = this.states.get(key);
+    if (state && this.isIdle(state, Date.now())) {
+      this.states.delete(key);
+      return null;
+    }
+    return state ?? null;
+  }
+
+  async increment(key: string, now: Date) {
+    this.sweep(now.getTime());
+
+    const current = this.states.get(key);
+    const next = {
+      failures: (current?.failures ?? 0) + 1,
+      lastFailureAt: now,
+      lockedUntil: current?.lockedUntil ?? null,
+    };
+    // Re-inserted so the map stays ordered by last failure
+    this.states.delete(key);
+    this.states.set(key, next);
+
+    for (const oldest of this.states.keys()) {
+      if (this.states.size <= this.maxEntries) break;
+      this.states.delete(oldest);
+    }
+    return next;
+  }
+
+  async lock(key: string, until: Date) {
+    const current = this.states.get(key);
+    if (current) this.states.set(key, { ...current, lockedUntil: until });
+  }
+
+  async reset(key: string) {
+    this.states.delete(key);
+  }
+}
+
+/**
+ * Store backed by the `LoginAttempt` table, shared by all instances.
+ *
+ * Like `MemoryAttemptStore`, rows are deleted once they are idle: on
+ * access, and in a sweep at most once per `idleMs` per instance.
+ */
+export class PrismaAttemptStore implements AttemptStore {
+  private readonly idleMs: number;
+  private lastSweep = 0;
+
+  constructor({ idleMs = 15 * 60 * 1000 }: { idleMs?: number } = {}) {
+    this.idleMs = idleMs;
+  }
+
+  // Rows with no failures for `idleMs` and no lockout left
+  private idle(now: number) {
+    return {
+      lastFailureAt: { lt: new Date(now - this.idleMs) },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lte: new Date(now) } }],
+    };
+  }
+
+  private async sweep(now: number) {
+    if (now - this.lastSweep < this.idleMs) return;
+    this.lastSweep = now;
+    await prisma.loginAttempt.deleteMany({ where: this.idle(now) });
+  }
+
+  async get(key: string) {
+    await prisma.loginAttempt.deleteMany({
+      where: { key, ...this.idle(Date.now()) },
+    });
+    return prisma.loginAttempt.findUnique({ where: { key } });
+  }
+
+  async increment(key: string, now: Date) {
+    await this.sweep(now.getTime());
+    return prisma.loginAttempt.upsert({
+      where: { key },
+      create: { key, failures: 1, lastFailureAt: now },
+      update: { failures: { increment: 1 }, lastFailureAt: now },
+    });
+  }
+
+  async lock(key: string, until: Date) {
+    await prisma.loginAttempt.updateMany({
+      where: { key },
+      data: { lockedUntil: until },
+    });
+  }
+
+  async reset(key: string) {
+    await prisma.loginAttempt.deleteMany({ where: { key } });
+  }
+}
+
+/**
+ * Threshold and backoff settings for one kind of key.
+ */
+interface ThrottlePolicy {
+  /** Failures allowed before the key is locked */
+  threshold: number;
+  /** Lockout applied when the threshold is first reached */
+  baseLockoutMs: number;
+  /** Upper bound for the exponential lockout */
+  maxLockoutMs: number;
+  /** Counters with no failures for this long start over */
+  windowMs: number;
+}
+
+const ACCOUNT_POLICY: ThrottlePolicy = {
+  threshold: Number(process.env.LOGIN_ACCOUNT_MAX_FAILURES) || 5,
+  baseLockoutMs: 30 * 1000,
+  maxLockoutMs: 60 * 60 * 1000,
+  windowMs: 15 * 60 * 1000,
+};
+
+const IP_POLICY: ThrottlePolicy = {
+  threshold: Number(process.env.LOGIN_IP_MAX_FAILURES) || 20,
+  baseLockoutMs: 60 * 1000,
+  maxLockoutMs: 60 * 60 * 1000,
+  windowMs: 15 * 60 * 1000,
+};
+
+// Counters idle for longer than every policy's window are dropped
+const IDLE_MS = Math.max(ACCOUNT_POLICY.windowMs, IP_POLICY.windowMs);
+
+function storeFromEnv(): AttemptStore {
+  return process.env.LOGIN_THROTTLE_STORE === "postgres"
+    ? new PrismaAttemptStore({ idleMs: IDLE_MS })
+    : new MemoryAttemptStore({ idleMs: IDLE_MS });
+}
+
+let store: AttemptStore = storeFromEnv();
+
+/**
+ * Replace the active store (e.g. a fresh in-memory store in tests).
+ */
+export function setAttemptStore(next: AttemptStore) {
+  store = next;
+}
+
+/** Throttle key for an account, normalised so casing cannot bypass it */
+export function accountKey(email: string) {
+  return `account:${email.trim().toLowerCase()}`;
+}
+
+/** Throttle key for a client IP */
+export function ipKey(ip: string | undefined) {
+  return `ip:${ip ?? "unknown"}`;
+}
+
+function lockoutMs(policy: ThrottlePolicy, failures: number) {
+  const exponent = failures - policy.threshold;
+  return Math.min(policy.baseLockoutMs * 2 ** exponent, policy.maxLockoutMs);
+}
+
+/**
+ * Seconds until `key` may try again, or `0` when it is not locked.
+ */
+async function secondsLocked(key: string, now: Date) {
+  const state = await store.get(key);
+  if (!state?.lockedUntil) return 0;
+
+  const remaining = new Date(state.lockedUntil).getTime() - now.getTime();
+  return remaining > 0 ? Math.ceil(remaining / 1000) : 0;
+}
+
+async function recordFailure(key: string, policy: ThrottlePolicy, now: Date) {
+  const previous = await store.get(key);
+
+  // Start over after a quiet period, unless still serving a lockout
+  if (
+    previous &&
+    now.getTime() - new Date(previous.lastFailureAt).getTime() > policy.windowMs &&
+    (!previous.lockedUntil || new Date(previous.lockedUntil) <= now)
+  ) {
+    await store.reset(key);
+  }
+
+  const state = await store.increment(key, now);
+
+  if (state.failures >= policy.threshold)
+    await store.lock(
+      key,
+      new Date(now.getTime() + lockoutMs(policy, state.failures)),
+    );
+}
+
+/**
+ * Outcome of checking whether a login attempt may proceed.
+ */
+export type ThrottleCheck =
+  | { allowed: true }
+  | { allowed: false; status: 423 | 429; retryAfter: number };
+
+/**
+ * Check the IP and account counters before verifying credentials.
+ * The IP check runs first so a throttled client learns nothing about the
+ * account.
+ */
+export async function checkLoginAllowed(
+  email: string,
+  ip: string | undefined,
+): Promise<ThrottleCheck> {
+  const now = new Date();
+
+  const ipWait = await secondsLocked(ipKey(ip), now);
+  if (ipWait > 0) return { allowed: false, status: 429, retryAfter: ipWait };
+
+  const accountWait = await secondsLocked(accountKey(email), now);
+  if (accountWait > 0)
+    return { allowed: false, status: 423, retryAfter: accountWait };
+
+  return { allowed: true };
+}
+
+/**
+ * Count a failed login against both the account and the IP.
+ */
+export async function recordLoginFailure(email: string, ip: string | undefined) {
+  const now = new Date();
+  await recordFailure(accountKey(email), ACCOUNT_POLICY, now);
+  await recordFailure(ipKey(ip), IP_POLICY, now);
+}
+
+/**
+ * Clear the account counter after a successful login.
+ */
+export async function recordLoginSuccess(email: string) {
+  await store.reset(accountKey(email));
+}
+
+/**
+ * Lift `user`'s account lockouts (admin action): from password logins by
+ * email and from login codes by phone.
+ */
+export async function unlockAccount(user: {
+  email: string;
+  phone?: string | null;
+}) {
+  await store.reset(accountKey(user.email));
+  if (user.phone) await store.reset(accountKey(user.phone));
+}
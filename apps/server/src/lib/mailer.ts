@@ -0,0 +1,102 @@
+/**
+ * Outgoing email
+ *
+ * Application code sends mail through `sendMail` and never talks to a
+ * provider directly. The active transport is chosen from `MAIL_TRANSPORT`:
+ * - `console` (default): prints the message to stdout, handy in development.
+ * - `file`: writes each message as JSON into `MAIL_DIR` (defaults to a
+ *   `misthan-mail` folder in the OS temp directory) so it can be inspected.
+ *
+ * A real provider (SMTP, SES, ...) only needs to implement `MailTransport`
+ * and be installed with `setMailTransport` at startup. Tests install a stub
+ * transport the same way.
+ */
+import { mkdir, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+
+/**
+ * A single outgoing email.
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Anything capable of delivering a `MailMessage`.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Logs messages to the console instead of delivering them.
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log(
+      `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}`,
+    );
+  }
+}
+
+/**
+ * Writes each message to `<dir>/<timestamp>-<recipient>.json`.
+ */
+export class FileTransport implements MailTransport {
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage) {
+    await mkdir(this.dir, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const file = path.join(this.dir, `${Date.now()}-${safeRecipient}.json`);
+
+    await writeFile(
+      file,
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2),
+    );
+  }
+}
+
+// Base URL of the frontend, used to build links in emails
+const APP_URL = process.env.APP_URL || "http://localhost:5173";
+
+/**
+ * Build an absolute link to a frontend page for use in an email.
+ *
+ * @example
+ * appUrl("/reset-password", { token }) // "http://localhost:5173/reset-password?token=..."
+ */
+export function appUrl(pathname: string, params: Record<string, string> = {}) {
+  const query = new URLSearchParams(params).toString();
+  return `${APP_URL}${pathname}${query ? `?${query}` : ""}`;
+}
+
+function transportFromEnv(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === "file")
+    return new FileTransport(
+      process.env.MAIL_DIR || path.join(os.tmpdir(), "misthan-mail"),
+    );
+
+  return new ConsoleTransport();
+}
+
+let transport: MailTransport = transportFromEnv();
+
+/**
+ * Replace the active transport (e.g. with a provider client or a test stub).
+ */
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+/**
+ * Send an email through the active transport.
+ */
+export async function sendMail(message: MailMessage) {
+  await transport.send(message);
+}
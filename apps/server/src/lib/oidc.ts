@@ -0,0 +1,358 @@
+/**
+ * OpenID Connect login
+ *
+ * Users can sign in through any OpenID Connect provider (Google, Microsoft,
+ * Keycloak, ...) with the authorization-code flow and PKCE:
+ * 1. `GET /api/auth/oidc/:provider/start` redirects to the provider with a
+ *    random `state`, `nonce` and PKCE `code_challenge`. The flow values are
+ *    kept in a short-lived signed cookie until the provider redirects back.
+ * 2. `GET /api/auth/oidc/:provider/callback` exchanges the `code` (with the
+ *    PKCE verifier) for an ID token whose signature, issuer, audience,
+ *    expiry and nonce are checked against the provider's published keys.
+ *
+ * A provider login is tied to a `User` through an `Identity` row. The first
+ * login links to the account with the same email, but only when the
+ * provider says the email is verified; unknown emails get a new `USER`.
+ *
+ * Providers are listed in `OIDC_PROVIDERS` (comma-separated ids). Each id
+ * needs `OIDC_<ID>_ISSUER`, `OIDC_<ID>_CLIENT_ID` and usually
+ * `OIDC_<ID>_CLIENT_SECRET`; `OIDC_<ID>_LABEL` sets the button text. Tests
+ * install providers with `registerOidcProvider`.
+ */
+import crypto, { type KeyObject } from "crypto";
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import prisma from "@/lib/prisma";
+import { appUrl } from "@/lib/mailer";
+import { generateToken } from "@/utility/tokens";
+
+/**
+ * Settings for one OpenID Connect provider.
+ */
+export interface OidcProviderConfig {
+  /** Id used in URLs, e.g. `google` */
+  id: string;
+  /** Button text, e.g. `Google` */
+  label: string;
+  /** Issuer URL; `/.well-known/openid-configuration` is read from it */
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+}
+
+/**
+ * The parts of a provider's discovery document the flow relies on.
+ */
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/**
+ * Values generated by `startAuthorization` that the callback must match.
+ */
+export interface OidcFlow {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/**
+ * Identity claims taken from a verified ID token.
+ */
+export interface OidcClaims {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+// Signature algorithms accepted for ID tokens
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ["RS256", "ES256", "PS256"];
+
+function providersFromEnv() {
+  const ids = (process.env.OIDC_PROVIDERS ?? "")
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  return ids.flatMap((id): OidcProviderConfig[] => {
+    const env = (key: string) =>
+      process.env[`OIDC_${id.toUpperCase()}_${key}`];
+    const issuer = env("ISSUER");
+    const clientId = env("CLIENT_ID");
+
+    if (!issuer || !clientId) {
+      console.error(`OIDC provider "${id}" is missing an issuer or client id`);
+      return [];
+    }
+
+    return [
+      {
+        id,
+        label: env("LABEL") || id.charAt(0).toUpperCase() + id.slice(1),
+        issuer,
+        clientId,
+        clientSecret: env("CLIENT_SECRET"),
+      },
+    ];
+  });
+}
+
+const providers = new Map(
+  providersFromEnv().map((provider) => [provider.id, provider]),
+);
+
+// Discovery documents and signing keys, fetched lazily and cached
+const discoveries = new Map<string, Promise<DiscoveryDocument>>();
+const signingKeys = new Map<string, Map<string, KeyObject>>();
+
+/**
+ * Add or replace a provider (e.g. a stub identity provider in tests).
+ */
+export function registerOidcProvider(config: OidcProviderConfig) {
+  providers.set(config.id, config);
+  discoveries.delete(config.id);
+}
+
+/**
+ * Look up a configured provider by id.
+ */
+export function getOidcProvider(id: string): OidcProviderConfig | null {
+  return providers.get(id) ?? null;
+}
+
+/**
+ * Configured providers, for rendering login buttons.
+ */
+export function listOidcProviders() {
+  return [...providers.values()].map(({ id, label }) => ({ id, label }));
+}
+
+/**
+ * The URL the provider redirects back to. It must be registered with the
+ * provider exactly as returned here.
+ */
+export function oidcRedirectUri(provider: OidcProviderConfig) {
+  return appUrl(`/api/auth/oidc/${provider.id}/callback`);
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, init);
+  if (!response.ok)
+    throw new Error(`OIDC request to ${url} failed with ${response.status}`);
+  return response.json();
+}
+
+function discover(provider: OidcProviderConfig): Promise<DiscoveryDocument> {
+  const cached = discoveries.get(provider.id);
+  if (cached) return cached;
+
+  const url = `${provider.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`;
+  const discovery: Promise<DiscoveryDocument> = fetchJson(url);
+  // Retry on the next login rather than caching a failure
+  discovery.catch(() => discoveries.delete(provider.id));
+  discoveries.set(provider.id, discovery);
+
+  return discovery;
+}
+
+/**
+ * Find the key with id `kid` in the provider's JWKS, refetching the set
+ * once when the key is unknown (providers rotate their keys).
+ */
+async function signingKey(jwksUri: string, kid: string | undefined) {
+  const find = () => {
+    const keys = signingKeys.get(jwksUri);
+    if (!keys) return undefined;
+    return kid ? keys.get(kid) : [...keys.values()][0];
+  };
+
+  const cached = find();
+  if (cached) return cached;
+
+  const { keys } = (await fetchJson(jwksUri)) as { keys: any[] };
+
+  signingKeys.set(
+    jwksUri,
+    new Map(
+      keys
+        .filter((jwk) => !jwk.use || jwk.use === "sig")
+        .map((jwk, index) => [
+          jwk.kid ?? String(index),
+          crypto.createPublicKey({ key: jwk, format: "jwk" }),
+        ]),
+    ),
+  );
+
+  const key = find();
+  if (!key) throw new Error(`No signing key "${kid}" in ${jwksUri}`);
+  return key;
+}
+
+function codeChallenge(codeVerifier: string) {
+  return crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+}
+
+/**
+ * Build the provider's authorization URL and the flow values to keep until
+ * the callback.
+ */
+export async function startAuthorization(provider: OidcProviderConfig) {
+  const discovery = await discover(provider);
+
+  const flow: OidcFlow = {
+    provider: provider.id,
+    state: generateToken(),
+    nonce: generateToken(),
+    codeVerifier: generateToken(),
+  };
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: provider.clientId,
+    redirect_uri: oidcRedirectUri(provider),
+    scope: "openid email profile",
+    state: flow.state,
+    nonce: flow.nonce,
+    code_challenge: codeChallenge(flow.codeVerifier),
+    code_challenge_method: "S256",
+  }).toString();
+
+  return { url: url.toString(), flow };
+}
+
+/**
+ * Exchange an authorization `code` for an ID token and return its verified
+ * claims. Throws when the exchange fails or the token does not check out.
+ */
+export async function completeAuthorization(
+  provider: OidcProviderConfig,
+  flow: OidcFlow,
+  code: string,
+): Promise<OidcClaims> {
+  const discovery = await discover(provider);
+
+  const params = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: oidcRedirectUri(provider),
+    client_id: provider.clientId,
+    code_verifier: flow.codeVerifier,
+  });
+  if (provider.clientSecret) params.set("client_secret", provider.clientSecret);
+
+  const tokens = await fetchJson(discovery.token_endpoint, {
+    method: "POST",
+    headers: {
+      "content-type": "application/x-www-form-urlencoded",
+      accept: "application/json",
+    },
+    body: params,
+  });
+
+  if (typeof tokens.id_token !== "string")
+    throw new Error("OIDC token response has no id_token");
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  const key = await signingKey(discovery.jwks_uri, decoded?.header.kid);
+
+  const claims = jwt.verify(tokens.id_token, key, {
+    algorithms: ID_TOKEN_ALGORITHMS,
+    issuer: discovery.issuer,
+    audience: provider.clientId,
+  }) as jwt.JwtPayload;
+
+  if (claims.nonce !== flow.nonce) throw new Error("OIDC nonce mismatch");
+  if (typeof claims.sub !== "string") throw new Error("OIDC token has no sub");
+
+  return {
+    subject: claims.sub,
+    email: typeof claims.email === "string" ? claims.email.toLowerCase() : null,
+    // Some providers send the flag as a string
+    emailVerified:
+      claims.email_verified === true || claims.email_verified === "true",
+    name: typeof claims.name === "string" ? claims.name : null,
+  };
+}
+
+/**
+ * Outcome of resolving a provider login to a local user.
+ */
+export type OidcUserResult =
+  | { ok: true; user: any; created: boolean; linked: boolean }
+  | { ok: false; reason: "email_not_verified" | "account_conflict" };
+
+/**
+ * Find the user for a provider login, linking or creating the account on
+ * first use:
+ * - an existing `Identity` for the provider and subject wins;
+ * - otherwise a verified email links to the account with that email, in
+ *   any case, as local accounts keep their email as typed;
+ * - otherwise a verified email creates a new `USER` account.
+ * Without a verified email no account is linked or created, and when
+ * another registration takes the email meanwhile the login is refused
+ * with `account_conflict`.
+ */
+export async function resolveOidcUser(
+  provider: OidcProviderConfig,
+  claims: OidcClaims,
+): Promise<OidcUserResult> {
+  const identity = await prisma.identity.findFirst({
+    where: { provider: provider.id, subject: claims.subject },
+  });
+
+  if (identity) {
+    await prisma.identity.update({
+      where: { id: identity.id },
+      data: { lastUsedAt: new Date() },
+    });
+    const user = await prisma.user.findUnique({
+      where: { id: identity.userId },
+    });
+    return { ok: true, user, created: false, linked: false };
+  }
+
+  if (!claims.email || !claims.emailVerified)
+    return { ok: false, reason: "email_not_verified" };
+
+  let user = await prisma.user.findFirst({
+    where: { email: { equals: claims.email, mode: "insensitive" } },
+  });
+  const created = !user;
+
+  if (!user) {
+    try {
+      user = await prisma.user.create({
+        data: {
+          email: claims.email,
+          name: claims.name || claims.email.split("@")[0],
+          // Random, never disclosed: the account signs in through the
+          // provider until the user sets a password via a reset link
+          password: await bcrypt.hash(generateToken(), 10),
+          role: "USER",
+        },
+      });
+    } catch (err) {
+      if ((err as { code?: string } | null)?.code === "P2002")
+        return { ok: false, reason: "account_conflict" };
+      throw err;
+    }
+  }
+
+  await prisma.identity.create({
+    data: {
+      userId: user.id,
+      provider: provider.id,
+      subject: claims.subject,
+      email: claims.email,
+      lastUsedAt: new Date(),
+    },
+  });
+
+  return { ok: true, user, created, linked: true };
+}
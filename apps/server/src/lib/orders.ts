@@ -0,0 +1,272 @@
+/**
+ * Orders
+ *
+ * Every sale, from a single-sweet purchase to a multi-sweet checkout, is
+ * recorded as an `Order` with one `OrderItem` per sweet. Items copy the
+ * sweet's name and unit price so the history stays accurate after the
+ * catalogue changes.
+ *
+ * Orders are all-or-nothing: stock is checked for every line before
+ * anything is written, and the order and its stock decrements (recorded as
+ * `SALE` movements, see `@/lib/stock`) are written in one transaction.
+ * Each decrement only applies while the stock still covers the quantity,
+ * so a concurrent purchase that takes the stock first makes the whole
+ * order fail with `stock_conflict` instead of overselling.
+ *
+ * A line may ask for a quantity in another unit than the sweet is sold in
+ * ("250 g" of a sweet sold by the kg); it is converted first (see
+ * `@/lib/units`), and items and totals are always in the sweet's unit.
+ *
+ * A line may instead be for whole packs of one of the sweet's variants
+ * (e.g. a 500 g box), which have their own price and stock.
+ *
+ * Expired stock that is not yet written off cannot be sold (see
+ * `@/lib/batches`).
+ */
+import prisma from "@/lib/prisma";
+import { expiredStock, stockKey } from "@/lib/batches";
+import { recordStockMovement } from "@/lib/stock";
+import {
+  convertQuantity,
+  priceCents,
+  toMilli,
+  type Unit,
+} from "@/lib/units";
+
+/**
+ * A sweet and quantity to buy. `unit` defaults to the sweet's unit; with a
+ * `variantId` the quantity is a number of packs.
+ */
+export interface OrderLine {
+  sweetId: string;
+  variantId?: string | null;
+  quantity: number;
+  unit?: Unit;
+}
+
+/**
+ * A line that cannot be filled from the current stock.
+ */
+export interface StockShortage {
+  sweetId: string;
+  /** Set when the line is for packs of a variant */
+  variantId?: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Lines that passed `checkLines`, merged and in the sweets' units, with
+ * the sweets and variants they are for by id.
+ */
+export interface CheckedLines {
+  lines: OrderLine[];
+  sweets: Map<string, any>;
+  variants: Map<string, any>;
+}
+
+/**
+ * Why `checkLines` refused a set of lines.
+ */
+export type LineCheckFailure =
+  | {
+      ok: false;
+      reason: "not_found";
+      sweetIds: string[];
+      variantIds?: string[];
+    }
+  | { ok: false; reason: "invalid_quantity"; sweetIds: string[] }
+  | { ok: false; reason: "insufficient_stock"; shortages: StockShortage[] };
+
+/**
+ * Outcome of `placeOrder`.
+ */
+export type PlaceOrderResult =
+  | { ok: true; order: any }
+  | LineCheckFailure
+  | { ok: false; reason: "stock_conflict" };
+
+// Thrown inside the transaction to roll it back when a decrement loses a race
+class StockConflict extends Error {}
+
+/**
+ * Merge lines for the same sweet or variant, already in the sweet's unit,
+ * so each stock is checked and decremented once.
+ */
+function mergeLines(lines: OrderLine[]): OrderLine[] {
+  const merged = new Map<string, OrderLine>();
+  for (const { sweetId, variantId = null, quantity } of lines) {
+    const key = `${sweetId}/${variantId ?? ""}`;
+    const milli = toMilli(merged.get(key)?.quantity ?? 0) + toMilli(quantity);
+    merged.set(key, { sweetId, variantId, quantity: milli / 1000 });
+  }
+  return [...merged.values()];
+}
+
+/**
+ * What a checked line sells: its variant, or else the sweet itself. Either
+ * has the `price` and `stock` that apply to the line.
+ */
+export function lineStock(checked: CheckedLines, line: OrderLine) {
+  return line.variantId
+    ? checked.variants.get(line.variantId)
+    : checked.sweets.get(line.sweetId);
+}
+
+/**
+ * A `Decimal(10, 2)` price in whole cents, so sums do not drift.
+ */
+export const toCents = (price: unknown) => Math.round(Number(price) * 100);
+
+/**
+ * Check that every sweet and variant exists, is not archived, each
+ * quantity fits the sweet's unit (or is whole packs of a variant) and the
+ * current stock that has not expired covers the quantity. Lines are converted to the sweet's
+ * unit and lines for the same sweet or variant are added together first.
+ *
+ * @returns the checked lines, or why they were refused
+ */
+export async function checkLines(
+  lines: OrderLine[],
+): Promise<({ ok: true } & CheckedLines) | LineCheckFailure> {
+  const ids = [...new Set(lines.map((line) => line.sweetId))];
+  const variantIds = [
+    ...new Set(lines.flatMap((line) => line.variantId ?? [])),
+  ];
+
+  const sweets = await prisma.sweet.findMany({
+    where: { id: { in: ids }, deletedAt: null },
+  });
+  const byId = new Map<string, any>(
+    sweets.map((sweet: any) => [sweet.id, sweet]),
+  );
+
+  const variants = variantIds.length
+    ? await prisma.sweetVariant.findMany({
+        where: { id: { in: variantIds }, deletedAt: null },
+      })
+    : [];
+  const variantsById = new Map<string, any>(
+    variants.map((variant: any) => [variant.id, variant]),
+  );
+
+  const missing = ids.filter((id) => !byId.has(id));
+  if (missing.length)
+    return { ok: false, reason: "not_found", sweetIds: missing };
+
+  // A variant must exist and belong to the line's sweet
+  const missingVariants = lines.filter(
+    ({ sweetId, variantId }) =>
+      variantId && variantsById.get(variantId)?.sweetId !== sweetId,
+  );
+  if (missingVariants.length)
+    return {
+      ok: false,
+      reason: "not_found",
+      sweetIds: [...new Set(missingVariants.map((line) => line.sweetId))],
+      variantIds: [...new Set(missingVariants.map((line) => line.variantId!))],
+    };
+
+  const converted = lines.map(({ sweetId, variantId, quantity, unit }) => ({
+    sweetId,
+    variantId,
+    quantity: convertQuantity(
+      quantity,
+      unit,
+      variantId ? "PIECE" : byId.get(sweetId).unit,
+    ),
+  }));
+
+  const invalid = converted.filter((line) => line.quantity === null);
+  if (invalid.length)
+    return {
+      ok: false,
+      reason: "invalid_quantity",
+      sweetIds: [...new Set(invalid.map((line) => line.sweetId))],
+    };
+
+  const merged = mergeLines(converted as OrderLine[]);
+
+  const checked = { lines: merged, sweets: byId, variants: variantsById };
+
+  const expired = await expiredStock(ids);
+  const shortages = merged
+    .map((line) => ({
+      sweetId: line.sweetId,
+      ...(line.variantId && { variantId: line.variantId }),
+      requested: line.quantity,
+      available:
+        (toMilli(lineStock(checked, line).stock) -
+          (expired.get(stockKey(line.sweetId, line.variantId)) ?? 0)) /
+        1000,
+    }))
+    .filter((line) => toMilli(line.available) < toMilli(line.requested));
+  if (shortages.length)
+    return { ok: false, reason: "insufficient_stock", shortages };
+
+  return { ok: true, ...checked };
+}
+
+/**
+ * Place an order for `user`: check every line, decrement the stock and
+ * record the order with its items, or change nothing.
+ */
+export async function placeOrder(
+  user: { id: string },
+  lines: OrderLine[],
+): Promise<PlaceOrderResult> {
+  const checked = await checkLines(lines);
+  if (!checked.ok) return checked;
+
+  const merged = checked.lines;
+
+  const items = merged.map((line) => {
+    const sweet = checked.sweets.get(line.sweetId);
+    const variant = line.variantId && checked.variants.get(line.variantId);
+    return {
+      sweetId: line.sweetId,
+      variantId: variant ? variant.id : null,
+      name: variant ? `${sweet.name} (${variant.label})` : sweet.name,
+      unit: variant ? "PIECE" : sweet.unit,
+      unitPrice: lineStock(checked, line).price,
+      quantity: line.quantity,
+    };
+  });
+  const totalCents = items.reduce(
+    (sum, item) => sum + priceCents(item.unitPrice, item.quantity, item.unit),
+    0,
+  );
+
+  try {
+    const order = await prisma.$transaction(async (tx: any) => {
+      const order = await tx.order.create({
+        data: {
+          userId: user.id,
+          total: totalCents / 100,
+          items: { create: items },
+        },
+        include: { items: true },
+      });
+
+      for (const { sweetId, variantId, quantity } of merged) {
+        const movement = await recordStockMovement(tx, {
+          sweetId,
+          variantId,
+          type: "SALE",
+          delta: -quantity,
+          userId: user.id,
+          reference: order.id,
+        });
+        if (!movement) throw new StockConflict();
+      }
+
+      return order;
+    });
+
+    return { ok: true, order };
+  } catch (err) {
+    if (err instanceof StockConflict)
+      return { ok: false, reason: "stock_conflict" };
+    throw err;
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Role-based permissions
+ *
+ * Routes check named permissions rather than roles (see
+ * `requirePermission` in `@/middleware/auth`). Each role is a fixed set of
+ * permissions:
+ * - `USER`: customers; can browse and purchase, no management permissions.
+ * - `STAFF`: counter staff; can sell and restock, but not reprice, edit or
+ *   delete.
+ * - `MANAGER`: runs the catalogue; everything except user and API key
+ *   management.
+ * - `ADMIN`: everything.
+ */
+
+/**
+ * All named permissions.
+ */
+export const PERMISSIONS = [
+  "sweet.create",
+  "sweet.update",
+  "sweet.price.update",
+  "sweet.delete",
+  "stock.restock",
+  "category.manage",
+  "user.manage",
+  "audit.read",
+  "order.read",
+  "apiKey.manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Roles that can be assigned to users, from least to most privileged.
+ */
+export const ROLES = ["USER", "STAFF", "MANAGER", "ADMIN"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  USER: [],
+  STAFF: ["stock.restock"],
+  MANAGER: [
+    "sweet.create",
+    "sweet.update",
+    "sweet.price.update",
+    "sweet.delete",
+    "stock.restock",
+    "category.manage",
+  ],
+  ADMIN: PERMISSIONS,
+};
+
+/**
+ * Permissions granted to `role` (none for unknown roles).
+ */
+export function permissionsFor(role: string): readonly Permission[] {
+  return ROLE_PERMISSIONS[role as Role] ?? [];
+}
+
+/**
+ * Whether `user`'s role grants `permission`.
+ */
+export function hasPermission(
+  user: { role: string },
+  permission: Permission,
+): boolean {
+  return permissionsFor(user.role).includes(permission);
+}
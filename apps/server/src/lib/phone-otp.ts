@@ -0,0 +1,209 @@
+/**
+ * Phone number + one-time code login
+ *
+ * Users with a `phone` on their account can sign in without a password:
+ * `POST /api/auth/otp/request` texts them a short numeric code and
+ * `POST /api/auth/otp/verify` exchanges it for a session.
+ *
+ * - Codes expire after `OTP_TTL_MINUTES` (default 5) and are single-use.
+ *   Requesting a new code invalidates earlier unused ones.
+ * - Only an HMAC of the code is stored. Codes are short, so a plain hash
+ *   could be brute-forced offline from a database dump; the HMAC key
+ *   (`OTP_SECRET`, falling back to `JWT_SECRET`) never leaves the server.
+ * - Each code accepts `OTP_MAX_ATTEMPTS` guesses, after which it is burned.
+ * - Requests are rate limited per phone number (a resend cooldown plus an
+ *   hourly cap) and per client IP.
+ */
+import crypto from "crypto";
+import prisma from "@/lib/prisma";
+import { sendSms } from "@/lib/sms";
+
+const SECRET =
+  process.env.OTP_SECRET || process.env.JWT_SECRET || "test-secret";
+
+const OTP_LENGTH = 6;
+
+// How long a code stays valid
+const OTP_TTL_MINUTES = Number(process.env.OTP_TTL_MINUTES) || 5;
+
+// Wrong guesses allowed per code
+const OTP_MAX_ATTEMPTS = Number(process.env.OTP_MAX_ATTEMPTS) || 5;
+
+// Minimum time between two codes for the same phone
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+// Codes allowed per phone and per IP within `REQUEST_WINDOW_MS`
+const PHONE_MAX_REQUESTS = Number(process.env.OTP_PHONE_MAX_REQUESTS) || 5;
+const IP_MAX_REQUESTS = Number(process.env.OTP_IP_MAX_REQUESTS) || 20;
+const REQUEST_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Normalise a phone number to E.164, or return `null` when it is not one.
+ *
+ * Separators are ignored. Bare 10-digit numbers (optionally with a leading
+ * `0` or `91`) are taken to be Indian mobile numbers.
+ *
+ * @example
+ * normalizePhone("98765 43210") // "+919876543210"
+ */
+export function normalizePhone(input: string): string | null {
+  const compact = input.replace(/[\s().-]/g, "");
+
+  if (/^\+[1-9]\d{7,14}$/.test(compact)) return compact;
+
+  const indian = compact.match(/^(?:0|91)?([6-9]\d{9})$/);
+  if (indian) return `+91${indian[1]}`;
+
+  return null;
+}
+
+function hashCode(phone: string, code: string) {
+  return crypto
+    .createHmac("sha256", SECRET)
+    .update(`${phone}:${code}`)
+    .digest("hex");
+}
+
+function hashesMatch(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * Outcome of checking whether a code may be sent.
+ */
+export type OtpRequestCheck =
+  | { allowed: true }
+  | { allowed: false; retryAfter: number };
+
+/**
+ * Check the per-IP and per-phone limits before sending a code.
+ */
+export async function checkOtpRequestAllowed(
+  phone: string,
+  ip: string | undefined,
+): Promise<OtpRequestCheck> {
+  const now = Date.now();
+  const windowStart = new Date(now - REQUEST_WINDOW_MS);
+  const retryAfterWindow = (oldest: Date) =>
+    Math.max(
+      1,
+      Math.ceil(
+        (new Date(oldest).getTime() + REQUEST_WINDOW_MS - now) / 1000,
+      ),
+    );
+
+  if (ip) {
+    const ipRequests = await prisma.phoneOtp.findMany({
+      where: { ip, createdAt: { gte: windowStart } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    if (ipRequests.length >= IP_MAX_REQUESTS)
+      return {
+        allowed: false,
+        retryAfter: retryAfterWindow(ipRequests[0].createdAt),
+      };
+  }
+
+  const phoneRequests = await prisma.phoneOtp.findMany({
+    where: { phone, createdAt: { gte: windowStart } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (phoneRequests.length >= PHONE_MAX_REQUESTS)
+    return {
+      allowed: false,
+      retryAfter: retryAfterWindow(phoneRequests[0].createdAt),
+    };
+
+  const latest = phoneRequests[phoneRequests.length - 1];
+  if (latest) {
+    const wait =
+      new Date(latest.createdAt).getTime() + RESEND_COOLDOWN_MS - now;
+    if (wait > 0) return { allowed: false, retryAfter: Math.ceil(wait / 1000) };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Create a fresh login code for `user` and text it to their phone.
+ * Earlier unused codes stop working.
+ */
+export async function sendLoginCode(
+  user: { id: string; phone: string },
+  ip: string | undefined,
+) {
+  const code = crypto
+    .randomInt(0, 10 ** OTP_LENGTH)
+    .toString()
+    .padStart(OTP_LENGTH, "0");
+
+  await prisma.phoneOtp.updateMany({
+    where: { phone: user.phone, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  await prisma.phoneOtp.create({
+    data: {
+      userId: user.id,
+      phone: user.phone,
+      codeHash: hashCode(user.phone, code),
+      ip: ip ?? null,
+      expiresAt: new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000),
+    },
+  });
+
+  await sendSms({
+    to: user.phone,
+    text:
+      `${code} is your Misthan login code. It expires in ` +
+      `${OTP_TTL_MINUTES} minutes. Do not share it with anyone.`,
+  });
+}
+
+/**
+ * Redeem a login code and return the id of the user it was issued to, or
+ * `null` when the code is wrong, expired, used up or already redeemed.
+ *
+ * Every guess is counted atomically before the comparison, so concurrent
+ * requests cannot exceed `OTP_MAX_ATTEMPTS`.
+ */
+export async function verifyLoginCode(
+  phone: string,
+  code: string,
+): Promise<string | null> {
+  const otp = await prisma.phoneOtp.findFirst({
+    where: { phone, usedAt: null },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (!otp) return null;
+  if (new Date(otp.expiresAt).getTime() <= Date.now()) return null;
+  if (otp.attempts >= OTP_MAX_ATTEMPTS) return null;
+
+  const claimed = await prisma.phoneOtp.updateMany({
+    where: { id: otp.id, usedAt: null, attempts: otp.attempts },
+    data: { attempts: otp.attempts + 1 },
+  });
+
+  if (claimed.count !== 1) return null;
+  if (!hashesMatch(hashCode(phone, code), otp.codeHash)) return null;
+
+  const redeemed = await prisma.phoneOtp.updateMany({
+    where: { id: otp.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return redeemed.count === 1 ? otp.userId : null;
+}
+
+/**
+ * Delete the login codes `userId` has not used yet, e.g. once their number
+ * changes, so a code texted to the old number cannot sign them in.
+ */
+export async function discardLoginCodes(userId: string) {
+  await prisma.phoneOtp.deleteMany({ where: { userId, usedAt: null } });
+}
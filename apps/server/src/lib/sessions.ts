@@ -0,0 +1,268 @@
+/**
+ * Session management
+ *
+ * Every login creates a server-side `Session` row. Clients receive two
+ * cookies:
+ * - `auth-token`: a short-lived JWT access token carrying the session id
+ *   (`sid`). `requireAuth` checks the session on every request, so revoking
+ *   the row ends access immediately.
+ * - `refresh-token`: an opaque `<sessionId>.<secret>` value. Only a SHA-256
+ *   hash of the secret is stored, and it is rotated on every refresh. A
+ *   refresh token that no longer matches the stored hash has already been
+ *   used, so the whole session is revoked as a precaution.
+ */
+import crypto from "crypto";
+import type { Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import prisma from "@/lib/prisma";
+import { clearCookie, setCookie } from "@/utility/cookies";
+import { generateToken, hashToken } from "@/utility/tokens";
+
+/** Cookie holding the short-lived access token */
+export const ACCESS_COOKIE = "auth-token";
+
+/** Cookie holding the rotating refresh token */
+export const REFRESH_COOKIE = "refresh-token";
+
+// JWT secret used to sign and verify access tokens. Tests default to
+// `test-secret`.
+const SECRET = process.env.JWT_SECRET || "test-secret";
+
+// Access tokens are short-lived; refresh tokens keep the session alive.
+const ACCESS_TOKEN_TTL_SECONDS =
+  Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+/**
+ * Claims carried by an access token.
+ */
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  sid: string;
+}
+
+/**
+ * Sign an access token for `user` bound to the session `sessionId`.
+ */
+export function signAccessToken(
+  user: { id: string; email: string },
+  sessionId: string,
+): string {
+  return jwt.sign({ sub: user.id, email: user.email, sid: sessionId }, SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  });
+}
+
+/**
+ * Verify an access token and return its claims.
+ *
+ * Throws when the signature is invalid, the token has expired (unless
+ * `ignoreExpiration` is set) or the token was not issued for a session.
+ */
+export function verifyAccessToken(
+  token: string,
+  options: { ignoreExpiration?: boolean } = {},
+): AccessTokenPayload {
+  const payload = jwt.verify(token, SECRET, options) as jwt.JwtPayload;
+
+  if (typeof payload.sub !== "string" || typeof payload.sid !== "string")
+    throw new Error("Access token is not bound to a session");
+
+  return payload as AccessTokenPayload;
+}
+
+/**
+ * Returns `true` when the session exists, belongs to `userId`, has not been
+ * revoked and has not expired.
+ */
+export function isSessionActive(
+  session: { userId: string; revokedAt: Date | null; expiresAt: Date } | null,
+  userId: string,
+): boolean {
+  return (
+    !!session &&
+    session.userId === userId &&
+    !session.revokedAt &&
+    new Date(session.expiresAt).getTime() > Date.now()
+  );
+}
+
+function setAuthCookies(res: Response, accessToken: string, refreshToken: string) {
+  setCookie(res, ACCESS_COOKIE, accessToken, {
+    maxAge: ACCESS_TOKEN_TTL_SECONDS * 1000,
+  });
+
+  // Only the auth routes ever need to see the refresh token
+  setCookie(res, REFRESH_COOKIE, refreshToken, {
+    path: "/api/auth",
+    maxAge: REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+  });
+}
+
+/**
+ * Clear both session cookies on the response.
+ */
+export function clearAuthCookies(res: Response) {
+  clearCookie(res, ACCESS_COOKIE);
+  clearCookie(res, REFRESH_COOKIE, { path: "/api/auth" });
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Create a new session for `user`, record the login time and set the
+ * access/refresh cookies.
+ *
+ * @returns the created session row
+ */
+export async function startSession(
+  req: Request,
+  res: Response,
+  user: { id: string; email: string },
+) {
+  const secret = generateToken();
+
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: hashToken(secret),
+      userAgent: req.get("user-agent") ?? null,
+      ip: req.ip ?? null,
+      expiresAt: refreshExpiry(),
+    },
+  });
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date() },
+  });
+
+  setAuthCookies(
+    res,
+    signAccessToken(user, session.id),
+    `${session.id}.${secret}`,
+  );
+
+  return session;
+}
+
+function matchesRefreshSecret(
+  session: { refreshTokenHash: string },
+  secret: string,
+): boolean {
+  const presented = Buffer.from(hashToken(secret));
+  const expected = Buffer.from(session.refreshTokenHash);
+
+  return (
+    presented.length === expected.length &&
+    crypto.timingSafeEqual(presented, expected)
+  );
+}
+
+/**
+ * Rotate the refresh token and issue a fresh access token.
+ *
+ * Returns the session's user on success, or `null` when the refresh token
+ * is malformed, unknown, expired, revoked or has already been used, or the
+ * user has been disabled. Reuse of an old refresh token, including two
+ * concurrent refreshes with the same token, revokes the session.
+ */
+export async function refreshSession(res: Response, refreshToken: string) {
+  const [sessionId, secret] = refreshToken.split(".");
+  if (!sessionId || !secret) return null;
+
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!session || session.revokedAt) return null;
+  if (new Date(session.expiresAt).getTime() <= Date.now()) return null;
+
+  if (!matchesRefreshSecret(session, secret)) {
+    // A rotated-out token is being replayed: assume it was stolen
+    await revokeSession(session.id);
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: session.userId } });
+  if (!user || user.disabledAt) return null;
+
+  const nextSecret = generateToken();
+
+  // Only rotates while the token is still the current one, so of two
+  // refreshes racing with the same token only one wins
+  const { count } = await prisma.session.updateMany({
+    where: {
+      id: session.id,
+      refreshTokenHash: session.refreshTokenHash,
+      revokedAt: null,
+    },
+    data: {
+      refreshTokenHash: hashToken(nextSecret),
+      expiresAt: refreshExpiry(),
+    },
+  });
+  if (count !== 1) {
+    // The other refresh used the token first: treat this one as a replay
+    await revokeSession(session.id);
+    return null;
+  }
+
+  setAuthCookies(
+    res,
+    signAccessToken(user, session.id),
+    `${session.id}.${nextSecret}`,
+  );
+
+  return user;
+}
+
+/**
+ * Revoke a single session. Already revoked sessions are left untouched.
+ */
+export async function revokeSession(sessionId: string) {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Revoke the session a refresh token belongs to, provided the token is the
+ * current one for that session. Used by logout once the access token
+ * cookie has already expired.
+ *
+ * @returns the id of the session's user, or `null` if nothing was revoked
+ */
+export async function revokeRefreshToken(refreshToken: string) {
+  const [sessionId, secret] = refreshToken.split(".");
+  if (!sessionId || !secret) return null;
+
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!session || !matchesRefreshSecret(session, secret)) return null;
+
+  await revokeSession(session.id);
+  return session.userId as string;
+}
+
+/**
+ * Revoke every active session of a user, optionally keeping one (for
+ * example the session that performed a password change).
+ */
+export async function revokeUserSessions(
+  userId: string,
+  options: { exceptSessionId?: string } = {},
+) {
+  const result = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(options.exceptSessionId
+        ? { id: { not: options.exceptSessionId } }
+        : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+
+  return result.count;
+}
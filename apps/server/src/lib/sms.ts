@@ -0,0 +1,85 @@
+/**
+ * Outgoing SMS
+ *
+ * Application code sends text messages through `sendSms` and never talks
+ * to a provider directly. The active transport is chosen from
+ * `SMS_TRANSPORT`:
+ * - `console` (default): prints the message to stdout, handy in development.
+ * - `file`: writes each message as JSON into `SMS_DIR` (defaults to a
+ *   `misthan-sms` folder in the OS temp directory) so it can be inspected.
+ *
+ * A real provider (MSG91, Twilio, ...) only needs to implement
+ * `SmsTransport` and be installed with `setSmsTransport` at startup. Tests
+ * install a stub transport the same way.
+ */
+import { mkdir, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+
+/**
+ * A single outgoing text message. `to` is an E.164 phone number.
+ */
+export interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+/**
+ * Anything capable of delivering an `SmsMessage`.
+ */
+export interface SmsTransport {
+  send(message: SmsMessage): Promise<void>;
+}
+
+/**
+ * Logs messages to the console instead of delivering them.
+ */
+export class ConsoleSmsTransport implements SmsTransport {
+  async send(message: SmsMessage) {
+    console.log(`[sms] To: ${message.to}\n\n${message.text}`);
+  }
+}
+
+/**
+ * Writes each message to `<dir>/<timestamp>-<recipient>.json`.
+ */
+export class FileSmsTransport implements SmsTransport {
+  constructor(private readonly dir: string) {}
+
+  async send(message: SmsMessage) {
+    await mkdir(this.dir, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^0-9+]/g, "_");
+    const file = path.join(this.dir, `${Date.now()}-${safeRecipient}.json`);
+
+    await writeFile(
+      file,
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2),
+    );
+  }
+}
+
+function transportFromEnv(): SmsTransport {
+  if (process.env.SMS_TRANSPORT === "file")
+    return new FileSmsTransport(
+      process.env.SMS_DIR || path.join(os.tmpdir(), "misthan-sms"),
+    );
+
+  return new ConsoleSmsTransport();
+}
+
+let transport: SmsTransport = transportFromEnv();
+
+/**
+ * Replace the active transport (e.g. with a provider client or a test stub).
+ */
+export function setSmsTransport(next: SmsTransport) {
+  transport = next;
+}
+
+/**
+ * Send a text message through the active transport.
+ */
+export async function sendSms(message: SmsMessage) {
+  await transport.send(message);
+}
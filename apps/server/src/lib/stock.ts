@@ -0,0 +1,232 @@
+/**
+ * Stock movement ledger
+ *
+ * Every change to `Sweet.stock`, or to a pack-size variant's
+ * `SweetVariant.stock`, goes through this module and is recorded
+ * as a `StockMovement` with its type, signed `delta`, the resulting
+ * `balance`, who made it and why. The stock update and its movement are
+ * written in the same transaction, so the ledger always adds up to the
+ * current stock. The ledger is append-only: nothing updates or deletes
+ * movements.
+ *
+ * Decrements only apply while the stock still covers them, so concurrent
+ * changes cannot take the stock below zero.
+ *
+ * Restocks add a dated batch, and decrements take from the batches that
+ * expire first; sales only while the stock that has not expired covers
+ * them (see `@/lib/batches`).
+ *
+ * A movement that takes a sweet from above its `lowStockThreshold` to at or
+ * below it opens a `StockAlert`; one that takes it back above resolves the
+ * sweet's open alerts. Variants' stock of packs raises no alerts.
+ */
+import prisma from "@/lib/prisma";
+import {
+  isExpired,
+  openBatches,
+  takeFromBatches,
+  type BatchDates,
+} from "@/lib/batches";
+import { roundQuantity, toMilli } from "@/lib/units";
+
+/**
+ * Kinds of stock movements (mirrors the `StockMovementType` enum).
+ */
+export const STOCK_MOVEMENT_TYPES = [
+  "SALE",
+  "RESTOCK",
+  "ADJUSTMENT",
+  "WASTE",
+  "RETURN",
+] as const;
+
+export type StockMovementType = (typeof STOCK_MOVEMENT_TYPES)[number];
+
+/**
+ * A change to one sweet's stock, or to one of its variants'.
+ */
+export interface StockChange {
+  sweetId: string;
+  /** Change this variant's stock of packs instead of the sweet's */
+  variantId?: string | null;
+  type: StockMovementType;
+  /** Signed change in the sweet's unit, e.g. `-2` for a sale of two */
+  delta: number;
+  /** Who made the change */
+  userId?: string | null;
+  reason?: string | null;
+  /** What caused the change, e.g. an order id */
+  reference?: string | null;
+  /**
+   * Only apply when the stock is exactly this, for changes computed from a
+   * stock read earlier (e.g. setting an absolute stock level)
+   */
+  expectedStock?: number;
+  /** Dates of the batch a `RESTOCK` adds */
+  batch?: BatchDates;
+  /** Take a decrement from this batch only, e.g. to write it off */
+  batchId?: string | null;
+}
+
+/**
+ * Apply `change` and record it, inside the caller's transaction `tx`.
+ *
+ * @returns the movement, or `null` when nothing changed because the sweet
+ *   (or variant) is gone, the stock does not cover a decrement (or, for
+ *   a sale, the stock that has not expired does not), `batchId` does not
+ *   cover it or the stock no longer matches `expectedStock`
+ */
+export async function recordStockMovement(tx: any, change: StockChange) {
+  const variantId = change.variantId ?? null;
+
+  // Archived variants cannot take new stock movements
+  const where: any = variantId
+    ? { id: variantId, sweetId: change.sweetId, deletedAt: null }
+    : { id: change.sweetId };
+  if (change.expectedStock !== undefined) where.stock = change.expectedStock;
+  else if (change.delta < 0) where.stock = { gte: -change.delta };
+
+  // Updating the row locks it until the transaction ends, so the batches
+  // read below cannot change under this movement
+  const model = variantId ? tx.sweetVariant : tx.sweet;
+  const { count } = await model.updateMany({
+    where,
+    data: { stock: { increment: change.delta } },
+  });
+  if (count !== 1) return null;
+
+  // The balance right after this movement
+  const stocked = await model.findUnique({ where: { id: where.id } });
+
+  // Decrements take from the batches that expire first; sales leave
+  // expired batches alone, so the rest of the stock must cover them
+  if (change.delta < 0) {
+    let batches: any[] = await openBatches(tx, change.sweetId, variantId);
+    let covered = true;
+    if (change.batchId) {
+      batches = batches.filter((batch) => batch.id === change.batchId);
+      covered =
+        Boolean(batches[0]) &&
+        toMilli(batches[0].quantity) >= toMilli(-change.delta);
+    }
+    if (change.type === "SALE") {
+      const reserved = batches
+        .filter((batch) => isExpired(batch))
+        .reduce((sum, batch) => sum + toMilli(batch.quantity), 0);
+      batches = batches.filter((batch) => !isExpired(batch));
+      if (change.expectedStock === undefined)
+        covered &&= toMilli(stocked.stock) >= reserved;
+    }
+
+    // Undo the update, which nothing else can have seen yet
+    if (!covered) {
+      await model.updateMany({
+        where: { id: where.id },
+        data: { stock: { increment: -change.delta } },
+      });
+      return null;
+    }
+
+    await takeFromBatches(tx, batches, -change.delta);
+  }
+
+  const batch =
+    change.type === "RESTOCK" && change.delta > 0
+      ? await tx.stockBatch.create({
+          data: {
+            sweetId: change.sweetId,
+            variantId,
+            received: change.delta,
+            quantity: change.delta,
+            producedAt: change.batch?.producedAt ?? null,
+            bestBefore: change.batch?.bestBefore ?? null,
+          },
+        })
+      : null;
+
+  const movement = await tx.stockMovement.create({
+    data: {
+      sweetId: change.sweetId,
+      variantId,
+      batchId: batch?.id ?? change.batchId ?? null,
+      type: change.type,
+      delta: change.delta,
+      balance: roundQuantity(stocked.stock),
+      userId: change.userId ?? null,
+      reason: change.reason ?? null,
+      reference: change.reference ?? null,
+    },
+  });
+
+  if (!variantId) await updateStockAlerts(tx, stocked, movement);
+
+  return movement;
+}
+
+/**
+ * Open or resolve `sweet`'s low-stock alerts after `movement`.
+ */
+async function updateStockAlerts(tx: any, sweet: any, movement: any) {
+  if (sweet.lowStockThreshold === null || sweet.lowStockThreshold === undefined)
+    return;
+
+  // In thousandths, as quantities may be decimal
+  const threshold = toMilli(sweet.lowStockThreshold);
+  const after = toMilli(movement.balance);
+  const before = after - toMilli(movement.delta);
+
+  if (before > threshold && after <= threshold)
+    await tx.stockAlert.create({
+      data: {
+        sweetId: sweet.id,
+        stock: movement.balance,
+        threshold: sweet.lowStockThreshold,
+        movementId: movement.id,
+      },
+    });
+  else if (before <= threshold && after > threshold)
+    await tx.stockAlert.updateMany({
+      where: { sweetId: sweet.id, resolvedAt: null },
+      data: { resolvedAt: new Date() },
+    });
+}
+
+/**
+ * Whether `sweet` is at or below its low-stock threshold (never, without
+ * one).
+ */
+export function isLowStock(sweet: {
+  stock: unknown;
+  lowStockThreshold?: unknown;
+}) {
+  return (
+    sweet.lowStockThreshold !== null &&
+    sweet.lowStockThreshold !== undefined &&
+    toMilli(sweet.stock) <= toMilli(sweet.lowStockThreshold)
+  );
+}
+
+/**
+ * How much to restock a low sweet by: its `reorderQuantity`, or else enough
+ * to reach twice its threshold.
+ */
+export function suggestedRestock(sweet: {
+  stock: unknown;
+  lowStockThreshold?: unknown;
+  reorderQuantity?: unknown;
+}) {
+  if (sweet.reorderQuantity) return roundQuantity(sweet.reorderQuantity);
+  const missing =
+    2 * toMilli(sweet.lowStockThreshold ?? 0) - toMilli(sweet.stock);
+  return Math.max(missing / 1000, 1);
+}
+
+/**
+ * Apply `change` and record it in a transaction of its own.
+ *
+ * @returns the movement, or `null` when nothing changed (see
+ *   `recordStockMovement`)
+ */
+export function moveStock(change: StockChange) {
+  return prisma.$transaction((tx: any) => recordStockMovement(tx, change));
+}
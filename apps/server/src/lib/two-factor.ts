@@ -0,0 +1,146 @@
+/**
+ * Two-factor authentication helpers
+ *
+ * Users may enroll a TOTP authenticator (see `@/lib/totp`). Once enabled,
+ * `POST /api/auth/login` no longer issues cookies after the password check;
+ * it returns a short-lived signed challenge that must be completed with a
+ * TOTP code or a single-use recovery code at `POST /api/auth/login/2fa`.
+ *
+ * Setting `REQUIRE_ADMIN_2FA=true` makes enrollment mandatory for ADMIN
+ * accounts: until they enable it, admin-only routes answer 403 with
+ * `code: "TWO_FACTOR_SETUP_REQUIRED"`.
+ */
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import prisma from "@/lib/prisma";
+import { verifyTotp } from "@/lib/totp";
+import { hashToken } from "@/utility/tokens";
+
+const SECRET = process.env.JWT_SECRET || "test-secret";
+
+// Time allowed between the password step and the second factor
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/**
+ * Whether 2FA is mandatory for the user's role.
+ */
+export function isTwoFactorMandatory(user: { role: string }): boolean {
+  return user.role === "ADMIN" && process.env.REQUIRE_ADMIN_2FA === "true";
+}
+
+/**
+ * Sign the challenge returned by the password step of a 2FA login.
+ */
+export function createLoginChallenge(user: { id: string }): string {
+  return jwt.sign({ sub: user.id, purpose: "2fa-login" }, SECRET, {
+    expiresIn: CHALLENGE_TTL_SECONDS,
+  });
+}
+
+/**
+ * Verify a login challenge and return the user id it was issued for, or
+ * `null` when it is invalid or expired.
+ */
+export function verifyLoginChallenge(challenge: string): string | null {
+  try {
+    const payload = jwt.verify(challenge, SECRET) as jwt.JwtPayload;
+    if (payload.purpose !== "2fa-login" || typeof payload.sub !== "string")
+      return null;
+    return payload.sub;
+  } catch {
+    return null;
+  }
+}
+
+function randomRecoveryCode(): string {
+  const chars = Array.from(
+    crypto.randomBytes(10),
+    (byte) => RECOVERY_ALPHABET[byte % RECOVERY_ALPHABET.length],
+  ).join("");
+
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Replace the user's recovery codes with a fresh set.
+ *
+ * @returns the raw codes; only their hashes are stored, so they must be
+ *   shown to the user now
+ */
+export async function regenerateRecoveryCodes(userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, randomRecoveryCode);
+
+  await prisma.recoveryCode.deleteMany({ where: { userId } });
+  await prisma.recoveryCode.createMany({
+    data: codes.map((code) => ({
+      userId,
+      codeHash: hashToken(normalizeRecoveryCode(code)),
+    })),
+  });
+
+  return codes;
+}
+
+/**
+ * Verify and consume a TOTP code for a user with 2FA enabled.
+ *
+ * Codes are accepted once: the matched time step is recorded and codes from
+ * that step or earlier are rejected afterwards.
+ */
+export async function consumeTotpCode(
+  user: { id: string; totpSecret: string | null; totpLastUsedStep: number | null },
+  code: string,
+): Promise<boolean> {
+  if (!user.totpSecret) return false;
+
+  const step = verifyTotp(user.totpSecret, code);
+  if (step === null) return false;
+  if (user.totpLastUsedStep !== null && step <= user.totpLastUsedStep)
+    return false;
+
+  // Conditional update so two concurrent requests cannot both use the code
+  const claimed = await prisma.user.updateMany({
+    where: { id: user.id, totpLastUsedStep: user.totpLastUsedStep },
+    data: { totpLastUsedStep: step },
+  });
+
+  return claimed.count === 1;
+}
+
+/**
+ * Verify and consume a single-use recovery code.
+ */
+export async function consumeRecoveryCode(
+  userId: string,
+  code: string,
+): Promise<boolean> {
+  const claimed = await prisma.recoveryCode.updateMany({
+    where: {
+      userId,
+      codeHash: hashToken(normalizeRecoveryCode(code)),
+      usedAt: null,
+    },
+    data: { usedAt: new Date() },
+  });
+
+  return claimed.count === 1;
+}
+
+/**
+ * Verify a second factor given either a TOTP `code` or a `recoveryCode`.
+ */
+export async function verifySecondFactor(
+  user: { id: string; totpSecret: string | null; totpLastUsedStep: number | null },
+  factor: { code?: string; recoveryCode?: string },
+): Promise<boolean> {
+  if (factor.code) return consumeTotpCode(user, factor.code);
+  if (factor.recoveryCode) return consumeRecoveryCode(user.id, factor.recoveryCode);
+  return false;
+}
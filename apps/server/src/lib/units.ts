@@ -0,0 +1,101 @@
+/**
+ * Units of measure
+ *
+ * Every sweet is sold in one unit, fixed when it is created. Its stock,
+ * order and cart quantities, stock movements and low-stock settings are all
+ * in that unit, and its price is for `PRICE_BASIS` of it:
+ * - `PIECE`: whole pieces, priced per piece
+ * - `GRAM`: whole grams, priced per 100 g
+ * - `KILOGRAM`: kilograms to the gram (three decimals), priced per kg
+ *
+ * Quantities are stored as `Decimal(12, 3)`. Customers may ask for a
+ * quantity in another unit of the same kind ("250 g" of a sweet sold by
+ * the kg); it is converted to the sweet's unit and must then fit that
+ * unit's precision. Arithmetic is done in thousandths so sums do not drift.
+ */
+
+/**
+ * Units a sweet can be sold in (mirrors the `SaleUnit` enum).
+ */
+export const UNITS = ["PIECE", "GRAM", "KILOGRAM"] as const;
+
+export type Unit = (typeof UNITS)[number];
+
+/** Decimal places allowed in a quantity of each unit */
+export const UNIT_DECIMALS: Record<Unit, number> = {
+  PIECE: 0,
+  GRAM: 0,
+  KILOGRAM: 3,
+};
+
+/** How much of each unit the price is for */
+export const PRICE_BASIS: Record<Unit, number> = {
+  PIECE: 1,
+  GRAM: 100,
+  KILOGRAM: 1,
+};
+
+// Grams in each unit of mass; pieces only convert to pieces
+const GRAMS: Partial<Record<Unit, number>> = { GRAM: 1, KILOGRAM: 1000 };
+
+/**
+ * A quantity in thousandths, so sums and comparisons are exact.
+ */
+export const toMilli = (quantity: unknown) =>
+  Math.round(Number(quantity) * 1000);
+
+/**
+ * Round a quantity to the three decimals it is stored with.
+ */
+export const roundQuantity = (quantity: unknown) => toMilli(quantity) / 1000;
+
+/**
+ * Whether `quantity` can be stored: at most three decimals (within float
+ * error).
+ */
+export const isStorableQuantity = (quantity: number) =>
+  Math.abs(quantity * 1000 - Math.round(quantity * 1000)) < 1e-6;
+
+/**
+ * Whether `quantity` has no more decimals than `unit` allows.
+ */
+export function fitsUnit(quantity: number, unit: Unit) {
+  const step = 10 ** (3 - UNIT_DECIMALS[unit]);
+  return toMilli(quantity) % step === 0;
+}
+
+/**
+ * Convert `quantity` of `from` into the sweet's `unit`.
+ *
+ * @returns the converted quantity, or `null` when the units are of
+ *   different kinds or the result does not fit `unit`'s precision
+ */
+export function convertQuantity(
+  quantity: number,
+  from: Unit | undefined,
+  unit: Unit,
+) {
+  let converted = quantity;
+  if (from && from !== unit) {
+    const fromGrams = GRAMS[from];
+    const toGrams = GRAMS[unit];
+    if (!fromGrams || !toGrams) return null;
+    converted = (quantity * fromGrams) / toGrams;
+  }
+
+  if (!isStorableQuantity(converted)) return null;
+  converted = roundQuantity(converted);
+
+  return fitsUnit(converted, unit) ? converted : null;
+}
+
+/**
+ * Price in whole cents of `quantity` of a sweet sold in `unit` at `price`.
+ */
+export function priceCents(price: unknown, quantity: unknown, unit: Unit) {
+  return Math.round(
+    (Math.round(Number(price) * 100) * toMilli(quantity)) /
+      1000 /
+      PRICE_BASIS[unit],
+  );
+}
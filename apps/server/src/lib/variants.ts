@@ -0,0 +1,30 @@
+/**
+ * Sweet variants
+ *
+ * A sweet can also be sold in pack sizes (a 250 g box, a 1 kg box, ...),
+ * each a `SweetVariant` with its own label, price, SKU and stock of whole
+ * packs. Packs are bought and restocked by variant id (see `@/lib/orders`
+ * and `@/lib/stock`); the sweet's own price and stock stay for selling it
+ * loose.
+ */
+
+/**
+ * `include` for a sweet's variants that can still be bought, smallest
+ * first.
+ */
+export const ACTIVE_VARIANTS = {
+  where: { deletedAt: null },
+  orderBy: { size: "asc" },
+} as const;
+
+/**
+ * Add `fromPrice` to a sweet listed with `include: { variants:
+ * ACTIVE_VARIANTS }`: the lowest price of its variants, or its own price
+ * when it has none.
+ */
+export function withFromPrice(sweet: any) {
+  const prices = sweet.variants?.length
+    ? sweet.variants.map((variant: any) => Number(variant.price))
+    : [Number(sweet.price)];
+  return { ...sweet, fromPrice: Math.min(...prices) };
+}
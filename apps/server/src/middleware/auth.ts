@@ -1,20 +1,102 @@
 import type { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
 import prisma from "@/lib/prisma";
+import {
+  ACCESS_COOKIE,
+  isSessionActive,
+  verifyAccessToken,
+} from "@/lib/sessions";
+import { findActiveApiKey, type ApiKeyScope } from "@/lib/api-keys";
+import { hasPermission, type Permission } from "@/lib/permissions";
+import { isTwoFactorMandatory } from "@/lib/two-factor";
+import { readCookie } from "@/utility/cookies";
 
-// JWT secret used to sign and verify tokens. In production this should be
-// provided as an environment variable. Tests default to `test-secret`.
-const SECRET = process.env.JWT_SECRET || "test-secret";
+/**
+ * Middleware that lets `requireAuth` accept API keys carrying `scope` on
+ * the route it is mounted on. Must run before `requireAuth`.
+ *
+ * Routes without it reject API keys, so new endpoints are closed to keys
+ * until they opt in.
+ *
+ * @example
+ * router.get("/", acceptApiKey("sweet.read"), requireAuth, handler)
+ */
+export function acceptApiKey(scope: ApiKeyScope) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    req.apiKeyScope = scope;
+    return next();
+  };
+}
+
+/**
+ * Respond 403 with `code: "ACCOUNT_DISABLED"` for a user an admin has
+ * disabled. Shared with the login routes.
+ */
+export function accountDisabled(res: Response) {
+  return res
+    .status(403)
+    .json({ error: "Account disabled", code: "ACCOUNT_DISABLED" });
+}
+
+/**
+ * Authenticate a request carrying `Authorization: Bearer <key>`.
+ */
+async function authenticateApiKey(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  key: string,
+) {
+  if (!req.apiKeyScope)
+    return res
+      .status(401)
+      .json({ error: "API keys are not accepted for this endpoint" });
+
+  const apiKey = await findActiveApiKey(key);
+  if (!apiKey)
+    return res.status(401).json({ error: "Invalid or expired API key" });
+
+  if (!apiKey.scopes.includes(req.apiKeyScope))
+    return res
+      .status(403)
+      .json({ error: `API key is missing the "${req.apiKeyScope}" scope` });
+
+  // The key acts as the admin who created it
+  const user = await prisma.user.findUnique({
+    where: { id: apiKey.createdById },
+  });
+
+  if (!user)
+    return res.status(401).json({ error: "Invalid or expired API key" });
+
+  if (user.disabledAt) return accountDisabled(res);
+
+  req.user = user;
+  req.apiKey = apiKey;
+
+  return next();
+}
 
 /**
- * Middleware that requires a valid authentication token via cookie.
+ * Middleware that requires a valid authentication token via cookie, or an
+ * API key via the `Authorization` header.
  *
  * Behavior:
- * - Reads the `auth-token` cookie from the `Cookie` header.
- * - Verifies the token using the configured `SECRET`.
+ * - `Authorization: Bearer <key>` is checked first. Keys are only accepted
+ *   on routes marked with `acceptApiKey(scope)` and must be active and
+ *   carry that scope (403 otherwise). The creating admin becomes `req.user`
+ *   and the key is attached as `req.apiKey`.
+ * - Otherwise reads the `auth-token` cookie from the `Cookie` header.
+ * - Verifies the access token and its expiry (see `@/lib/sessions`).
+ * - Checks that the session named by the token's `sid` is still active, so
+ *   logged-out or revoked sessions are rejected even if the token has not
+ *   expired yet.
  * - Looks up the corresponding `User` in the database and attaches it to
- *   `req.user` for downstream handlers.
- * - Returns `401` for missing/invalid token or when the user cannot be found.
+ *   `req.user` (and the session id to `req.sessionId`) for downstream
+ *   handlers.
+ * - Returns `401` for missing/invalid token, revoked session or when the
+ *   user cannot be found, and `403` with `code: "ACCOUNT_DISABLED"` when
+ *   an admin has disabled the user (this also applies to API keys created
+ *   by a disabled admin).
  *
  * @param req Express request
  * @param res Express response
@@ -25,62 +107,90 @@ export async function requireAuth(
   res: Response,
   next: NextFunction,
 ) {
-  // Extract the raw Cookie header safely (may be undefined)
-  const cookieHeader = req.headers?.cookie ?? "";
+  const authorization = req.get("authorization");
+  if (authorization?.startsWith("Bearer "))
+    return authenticateApiKey(req, res, next, authorization.slice(7).trim());
 
-  // Find the auth-token cookie pair (e.g. `auth-token=...`)
-  const tokenPair = cookieHeader
-    .split(";")
-    .map((c) => c.trim())
-    .find((c) => c.startsWith("auth-token="));
+  const token = readCookie(req, ACCESS_COOKIE);
 
-  if (!tokenPair)
+  if (!token)
     return res.status(401).json({ error: "Authentication required" });
 
-  const token = tokenPair.split("=")[1];
+  let payload;
 
   try {
     // Verify JWT and extract payload
-    const payload: any = jwt.verify(token, SECRET);
+    payload = verifyAccessToken(token);
+  } catch (err) {
+    // Any error verifying the token yields a 401
+    return res.status(401).json({ error: "Invalid authentication token" });
+  }
 
-    const userId = payload.sub;
+  // Ensure the session backing this token has not been revoked
+  const session = await prisma.session.findUnique({
+    where: { id: payload.sid },
+  });
 
-    // Fetch user from DB to ensure token corresponds to an existing user
-    const user = await prisma.user.findUnique({ where: { id: userId } as any });
+  if (!isSessionActive(session, payload.sub))
+    return res.status(401).json({ error: "Session expired or revoked" });
 
-    if (!user)
-      return res.status(401).json({ error: "Authentication required" });
+  // Fetch user from DB to ensure token corresponds to an existing user
+  const user = await prisma.user.findUnique({ where: { id: payload.sub } });
 
-    // Attach the user object to the request for later middleware/handlers
-    req.user = user;
+  if (!user) return res.status(401).json({ error: "Authentication required" });
+  if (user.disabledAt) return accountDisabled(res);
 
-    return next();
-  } catch (err) {
-    // Any error verifying the token yields a 401
-    return res.status(401).json({ error: "Invalid authentication token" });
-  }
+  // Attach the user and session to the request for later middleware/handlers
+  req.user = user;
+  req.sessionId = payload.sid;
+
+  return next();
+}
+
+// Admins must enroll in 2FA first when it is mandatory for their role
+function needsTwoFactorSetup(user: {
+  role: string;
+  totpEnabledAt: Date | null;
+}) {
+  return isTwoFactorMandatory(user) && !user.totpEnabledAt;
+}
+
+function twoFactorSetupRequired(res: Response) {
+  return res.status(403).json({
+    error: "Enable two-factor authentication to use admin features",
+    code: "TWO_FACTOR_SETUP_REQUIRED",
+  });
 }
 
 /**
- * Middleware that requires the authenticated user to have ADMIN role.
+ * Middleware factory that requires the authenticated user's role to grant
+ * every one of `permissions` (see `@/lib/permissions`).
  *
  * Notes:
  * - `requireAuth` should be called before this middleware so that
  *   `req.user` is available.
- * - Returns `403` when the user is missing or does not have the ADMIN role.
+ * - Returns `403` naming the first missing permission.
+ * - Returns `403` with `code: "TWO_FACTOR_SETUP_REQUIRED"` when 2FA is
+ *   mandatory for admins (`REQUIRE_ADMIN_2FA=true`) and the admin has not
+ *   enabled it yet.
  *
- * @param req Express request (with `req.user` set by `requireAuth`)
- * @param res Express response
- * @param next Next function
+ * @example
+ * router.delete("/:id", requireAuth, requirePermission("sweet.delete"), fn)
  */
-export function requireAdmin(req: Request, res: Response, next: NextFunction) {
-  const user = req.user;
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user;
+    if (!user) return res.status(403).json({ error: "Permission denied" });
 
-  if (!user || user.role !== "ADMIN")
-    return res.status(403).json({ error: "Admin privilege required" });
+    const missing = permissions.find((p) => !hasPermission(user, p));
+    if (missing)
+      return res.status(403).json({ error: `Missing permission: ${missing}` });
 
-  return next();
+    if (needsTwoFactorSetup(user)) return twoFactorSetupRequired(res);
+
+    return next();
+  };
 }
 
 // Default export for convenience when importing as a module
-export default { requireAuth, requireAdmin };
+export default { acceptApiKey, requireAuth, requirePermission };
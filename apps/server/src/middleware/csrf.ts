@@ -0,0 +1,75 @@
+import type { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import { readSignedCookie, setCookie, unsignValue } from "@/utility/cookies";
+import { generateToken } from "@/utility/tokens";
+
+/** Cookie holding the CSRF token (readable by scripts) */
+export const CSRF_COOKIE = "csrf-token";
+
+/** Header the client must echo the cookie value in */
+export const CSRF_HEADER = "x-csrf-token";
+
+// Methods that change state and therefore need a CSRF token
+const UNSAFE_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+/**
+ * Issue a fresh CSRF token cookie.
+ */
+function issueCsrfToken(res: Response) {
+  // Signed so a cookie planted by a sibling subdomain is rejected; not
+  // HttpOnly because the client has to read it to echo it back.
+  setCookie(res, CSRF_COOKIE, generateToken(), {
+    signed: true,
+    httpOnly: false,
+  });
+}
+
+function tokensMatch(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * Double-submit CSRF protection.
+ *
+ * Behavior:
+ * - Every response to a client without a valid `csrf-token` cookie gets
+ *   one, so a client's first request (usually `GET /api/auth/me`) primes
+ *   the token.
+ * - POST/PUT/PATCH/DELETE requests must send the cookie's value in the
+ *   `X-CSRF-Token` header. A cross-site form cannot read the cookie, so it
+ *   cannot forge the header. Returns `403` with
+ *   `code: "CSRF_TOKEN_INVALID"` otherwise.
+ * - Requests authenticated with `Authorization: Bearer` are exempt: API
+ *   keys are never sent automatically by browsers.
+ *
+ * The header carries the cookie value as the client sees it, i.e. in the
+ * signed `s:<token>.<signature>` form.
+ */
+export function csrfProtection(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const cookieToken = readSignedCookie(req, CSRF_COOKIE);
+
+  if (!cookieToken) issueCsrfToken(res);
+
+  if (!UNSAFE_METHODS.has(req.method)) return next();
+
+  if (req.get("authorization")?.startsWith("Bearer ")) return next();
+
+  const header = req.get(CSRF_HEADER);
+  const headerToken = header ? unsignValue(header) : undefined;
+
+  if (!cookieToken || !headerToken || !tokensMatch(cookieToken, headerToken))
+    return res.status(403).json({
+      error: "Invalid or missing CSRF token",
+      code: "CSRF_TOKEN_INVALID",
+    });
+
+  return next();
+}
+
+export default csrfProtection;
@@ -0,0 +1,139 @@
+import type { Request, Response, NextFunction } from "express";
+import prisma from "@/lib/prisma";
+import { hashToken } from "@/utility/tokens";
+
+/** Header a client sets to make a retried request safe */
+export const IDEMPOTENCY_HEADER = "idempotency-key";
+
+// How long a key is remembered; a key reused after that runs again
+const KEY_TTL_HOURS = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24;
+
+const MAX_KEY_LENGTH = 255;
+
+// Statuses that are not remembered, so a retry runs the request again:
+// conflicts and throttling are transient, server errors may not have
+// changed anything
+function isRetryable(status: number) {
+  return status === 409 || status === 429 || status >= 500;
+}
+
+function isUniqueViolation(err: unknown) {
+  return (err as { code?: string } | null)?.code === "P2002";
+}
+
+/**
+ * Store the outcome of the first request, or forget the key when the
+ * outcome should not be replayed.
+ */
+async function settle(id: string, status: number, body: unknown) {
+  try {
+    if (isRetryable(status)) {
+      await prisma.idempotencyKey.deleteMany({ where: { id } });
+    } else {
+      await prisma.idempotencyKey.update({
+        where: { id },
+        data: {
+          responseStatus: status,
+          responseBody: body as any,
+          completedAt: new Date(),
+        },
+      });
+    }
+  } catch (err) {
+    console.error("Failed to store idempotent response:", err);
+  }
+}
+
+/**
+ * Make a route safe to retry with an `Idempotency-Key` header.
+ *
+ * Behavior:
+ * - Requests without the header run normally.
+ * - The first request with a key runs and its JSON response is stored
+ *   before it is sent. Retries by the same user with the same key get the
+ *   stored response (with `Idempotent-Replayed: true`) without running the
+ *   route again.
+ * - Reusing a key for a different request (method, URL or body) returns
+ *   `422` with `code: "IDEMPOTENCY_KEY_MISMATCH"`; a retry while the first
+ *   request is still running returns `409` with
+ *   `code: "IDEMPOTENCY_KEY_IN_PROGRESS"`.
+ * - 409, 429 and 5xx responses are not stored, so those can be retried.
+ *
+ * Keys are scoped to the authenticated user, so this must run after
+ * `requireAuth`.
+ *
+ * @example
+ * router.post("/:id/purchase", requireAuth, idempotent, handler)
+ */
+export async function idempotent(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const key = req.get(IDEMPOTENCY_HEADER);
+  if (key === undefined) return next();
+
+  if (!key.trim() || key.length > MAX_KEY_LENGTH)
+    return res.status(400).json({
+      error: `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`,
+    });
+
+  const userId = req.user!.id;
+  const requestHash = hashToken(
+    JSON.stringify([req.method, req.originalUrl, req.body ?? null]),
+  );
+
+  const existing = await prisma.idempotencyKey.findFirst({
+    where: { userId, key },
+  });
+
+  const expired =
+    existing &&
+    Date.now() - new Date(existing.createdAt).getTime() >
+      KEY_TTL_HOURS * 60 * 60 * 1000;
+
+  if (existing && !expired) {
+    if (existing.requestHash !== requestHash)
+      return res.status(422).json({
+        error: "Idempotency-Key was already used for a different request",
+        code: "IDEMPOTENCY_KEY_MISMATCH",
+      });
+
+    if (existing.responseStatus === null)
+      return res.status(409).json({
+        error: "A request with this Idempotency-Key is still in progress",
+        code: "IDEMPOTENCY_KEY_IN_PROGRESS",
+      });
+
+    res.set("Idempotent-Replayed", "true");
+    return res.status(existing.responseStatus).json(existing.responseBody);
+  }
+
+  if (existing)
+    await prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+
+  let record;
+  try {
+    record = await prisma.idempotencyKey.create({
+      data: { userId, key, requestHash },
+    });
+  } catch (err) {
+    // A concurrent request with the same key got there first
+    if (isUniqueViolation(err))
+      return res.status(409).json({
+        error: "A request with this Idempotency-Key is still in progress",
+        code: "IDEMPOTENCY_KEY_IN_PROGRESS",
+      });
+    throw err;
+  }
+
+  // Store the response before it reaches the client, so a retry that
+  // arrives right after it is answered from the stored copy
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    settle(record.id, res.statusCode, body).finally(() => json(body));
+    return res;
+  };
+
+  return next();
+}
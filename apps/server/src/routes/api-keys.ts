@@ -0,0 +1,110 @@
+import express, { Router } from "express";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { API_KEY_SCOPES, createApiKey, publicApiKey } from "@/lib/api-keys";
+import { requireAuth, requirePermission } from "@/middleware/auth";
+import { formatZodErrors } from "@/utility/zod-error-formatter";
+
+/**
+ * Router for API key management (`apiKey.manage`, cookie session
+ * required).
+ *
+ * Exposes:
+ * - `POST /api/api-keys` to mint a key
+ * - `GET /api/api-keys` to list keys
+ * - `DELETE /api/api-keys/:id` to revoke a key
+ */
+const router: Router = express.Router();
+
+/**
+ * Schema for creating an API key.
+ * - `scopes` must be non-empty and only contain known scopes.
+ * - `expiresInDays` is optional; keys without it never expire.
+ */
+const CreateApiKeySchema = z.object({
+  name: z
+    .string({ error: "Name is required" })
+    .min(1, { message: "Name is required" }),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES), { error: "Scopes are required" })
+    .min(1, { message: "Select at least one scope" }),
+  expiresInDays: z
+    .number()
+    .int({ message: "Expiry must be a whole number of days" })
+    .positive({ message: "Expiry must be at least one day" })
+    .optional(),
+});
+
+/**
+ * POST /api/api-keys
+ * - Requires authentication and the `apiKey.manage` permission.
+ * - Returns the raw `key` once; only its hash is stored.
+ */
+router.post(
+  "/",
+  requireAuth,
+  requirePermission("apiKey.manage"),
+  async (req, res) => {
+    const parsed = CreateApiKeySchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+    const { name, scopes, expiresInDays } = parsed.data;
+
+    const { apiKey, key } = await createApiKey(req.user!, {
+      name,
+      scopes: [...new Set(scopes)],
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+        : null,
+    });
+
+    return res.status(201).json({ apiKey: publicApiKey(apiKey), key });
+  },
+);
+
+/**
+ * GET /api/api-keys
+ * - Requires authentication and the `apiKey.manage` permission.
+ * - Lists keys that have not been revoked, newest first, with their
+ *   creator. Expired keys are included so they can be cleaned up.
+ */
+router.get(
+  "/",
+  requireAuth,
+  requirePermission("apiKey.manage"),
+  async (_req, res) => {
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { revokedAt: null },
+      include: { createdBy: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return res.status(200).json({ apiKeys: apiKeys.map(publicApiKey) });
+  },
+);
+
+/**
+ * DELETE /api/api-keys/:id
+ * - Requires authentication and the `apiKey.manage` permission.
+ * - Revokes the key immediately. Returns 404 for unknown or already
+ *   revoked keys.
+ */
+router.delete(
+  "/:id",
+  requireAuth,
+  requirePermission("apiKey.manage"),
+  async (req, res) => {
+    const revoked = await prisma.apiKey.updateMany({
+      where: { id: req.params.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (revoked.count === 0)
+      return res.status(404).json({ error: "Not found" });
+
+    return res.status(200).json({ revoked: true });
+  },
+);
+
+export default router;
@@ -0,0 +1,91 @@
+import express, { Router } from "express";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { AUTH_EVENT_TYPES } from "@/lib/auth-events";
+import { requireAuth, requirePermission } from "@/middleware/auth";
+import { formatZodErrors } from "@/utility/zod-error-formatter";
+
+/**
+ * Router for audit logs (`audit.read` permission).
+ *
+ * Exposes:
+ * - `GET /api/audit/auth` to search the authentication audit log
+ *
+ * The log is append-only, so there are no write endpoints.
+ */
+const router: Router = express.Router();
+
+const optionalString = z
+  .string()
+  .trim()
+  .transform((v) => (v === "" ? undefined : v))
+  .optional();
+
+/**
+ * Query schema for `GET /api/audit/auth`. Every filter is optional;
+ * `from`/`to` bound `createdAt` (inclusive).
+ */
+const AuthEventQuery = z
+  .object({
+    type: z.enum(AUTH_EVENT_TYPES).optional(),
+    userId: optionalString,
+    email: optionalString,
+    ip: optionalString,
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    page: z.coerce.number().int().positive().default(1),
+    pageSize: z.coerce.number().int().min(1).max(200).default(50),
+  })
+  .refine((q) => !q.from || !q.to || q.from <= q.to, {
+    message: "`from` must be before `to`",
+    path: ["from"],
+  });
+
+/**
+ * GET /api/audit/auth
+ * - Requires authentication and the `audit.read` permission.
+ * - Filters by `type`, `userId`, `email` (case-insensitive partial match),
+ *   `ip` and a `from`/`to` time range.
+ * - Responds with `{ events, total, page, pageSize }`, newest first. Each
+ *   event includes the user's id, name and email when known.
+ */
+router.get(
+  "/auth",
+  requireAuth,
+  requirePermission("audit.read"),
+  async (req, res) => {
+    const parsed = AuthEventQuery.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+    const { type, userId, email, ip, from, to, page, pageSize } = parsed.data;
+
+    const where: any = {};
+
+    if (type) where.type = type;
+    if (userId) where.userId = userId;
+    if (email) where.email = { contains: email, mode: "insensitive" };
+    if (ip) where.ip = ip;
+
+    if (from || to) {
+      where.createdAt = {};
+      if (from) where.createdAt.gte = from;
+      if (to) where.createdAt.lte = to;
+    }
+
+    const [events, total] = await Promise.all([
+      prisma.authEvent.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: { user: { select: { id: true, name: true, email: true } } },
+      }),
+      prisma.authEvent.count({ where }),
+    ]);
+
+    return res.status(200).json({ events, total, page, pageSize });
+  },
+);
+
+export default router;
@@ -1,21 +1,67 @@
 /**
  * Authentication routes
  *
- * Provides endpoints for user registration and (later) login. Current
- * implementation focuses on `POST /register` which:
+ * Provides endpoints for user registration, login, session refresh,
+ * logout, password reset, invitation acceptance, first-admin bootstrap,
+ * phone number + one-time code login (`/otp/request`, `/otp/verify`), the
+ * second step of two-factor logins and self-service profile changes
+ * (`/me`, `/change-password`).
+ *
+ * Every sign-in, failed sign-in, registration, logout and credential change
+ * is written to the authentication audit log (see `@/lib/auth-events`),
+ * and `GET /activity` shows users their own recent events.
+ * `POST /register`:
  * - Validates input using Zod and returns a structured `errors` map on
  *   validation failure.
  * - Hashes the password with `bcrypt` and persists the user via Prisma.
- * - Issues a JWT and sets it as an HttpOnly cookie named `auth-token`.
+ *   Public registration always creates a `USER`; other roles are granted
+ *   through invitations.
+ * - Starts a server-side session and sets the `auth-token` (short-lived
+ *   access token) and `refresh-token` HttpOnly cookies.
  *
  * The router intentionally returns JSON error responses (400/409/503)
  * rather than HTML pages, making it suitable for API clients and tests.
  */
-import express, { Router } from "express";
+import express, { Router, type Request, type Response } from "express";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
 import { z } from "zod";
 import prisma from "@/lib/prisma";
+import { accountDisabled, requireAuth } from "@/middleware/auth";
+import {
+  ACCESS_COOKIE,
+  REFRESH_COOKIE,
+  clearAuthCookies,
+  refreshSession,
+  revokeRefreshToken,
+  revokeSession,
+  revokeUserSessions,
+  startSession,
+  verifyAccessToken,
+} from "@/lib/sessions";
+import { recordAuthEvent, type AuthEventDetails } from "@/lib/auth-events";
+import { appUrl, sendMail } from "@/lib/mailer";
+import { findPendingInvitation } from "@/lib/invitations";
+import {
+  createLoginChallenge,
+  verifyLoginChallenge,
+  verifySecondFactor,
+} from "@/lib/two-factor";
+import {
+  checkLoginAllowed,
+  recordLoginFailure,
+  recordLoginSuccess,
+  type ThrottleCheck,
+} from "@/lib/login-throttle";
+import {
+  checkOtpRequestAllowed,
+  discardLoginCodes,
+  normalizePhone,
+  sendLoginCode,
+  verifyLoginCode,
+} from "@/lib/phone-otp";
+import { readCookie } from "@/utility/cookies";
+import { generateToken, hashToken } from "@/utility/tokens";
+import { toPublicUser } from "@/utility/public-user";
 import { formatZodErrors } from "@/utility/zod-error-formatter";
 
 const router: Router = express.Router();
@@ -26,7 +72,9 @@ const router: Router = express.Router();
  * - `email`: must be a valid email address
  * - `name`: required non-empty string
  * - `password`: minimum length to enforce basic strength
- * - `role`: optional, defaults to "USER"
+ *
+ * There is deliberately no `role` field: unknown keys are stripped, so a
+ * client sending `role: "ADMIN"` still gets a `USER` account.
  */
 const RegisterSchema = z.object({
   email: z.string().email({ message: "Provide a valid email address." }),
@@ -36,7 +84,6 @@ const RegisterSchema = z.object({
   password: z
     .string()
     .min(8, { message: "Password must be at least 8 characters" }),
-  role: z.enum(["USER", "ADMIN"]).optional().default("USER"),
 });
 
 /**
@@ -47,6 +94,174 @@ const LoginSchema = z.object({
   password: z.string().min(1, { message: "Password is required" }),
 });
 
+/**
+ * A phone number in any common notation, normalised to E.164
+ */
+const PhoneSchema = z
+  .string()
+  .refine((value) => normalizePhone(value) !== null, {
+    message: "Provide a valid phone number.",
+  })
+  .transform((value) => normalizePhone(value)!);
+
+/**
+ * Schema for requesting a login code by SMS
+ */
+const OtpRequestSchema = z.object({
+  phone: PhoneSchema,
+});
+
+/**
+ * Schema for signing in with a login code
+ */
+const OtpVerifySchema = z.object({
+  phone: PhoneSchema,
+  code: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, { message: "Enter the 6-digit code" }),
+});
+
+/**
+ * Schema for the second step of a two-factor login: the challenge returned
+ * by `POST /login` plus either a TOTP code or a recovery code.
+ */
+const LoginTwoFactorSchema = z
+  .object({
+    challenge: z.string().min(1, { message: "Login challenge is required" }),
+    code: z.string().optional(),
+    recoveryCode: z.string().optional(),
+  })
+  .refine((data) => data.code || data.recoveryCode, {
+    message: "Provide an authentication code or a recovery code",
+    path: ["code"],
+  });
+
+/**
+ * Schema for requesting a password reset email
+ */
+const ForgotPasswordSchema = z.object({
+  email: z.email({ message: "Provide a valid email address." }),
+});
+
+/**
+ * Schema for completing a password reset
+ */
+const ResetPasswordSchema = z.object({
+  token: z.string().min(1, { message: "Reset token is required" }),
+  password: z
+    .string()
+    .min(8, { message: "Password must be at least 8 characters" }),
+});
+
+/**
+ * Schema for registering through an invitation. The email and role come
+ * from the invitation itself.
+ */
+const InviteRegisterSchema = z.object({
+  token: z.string().min(1, { message: "Invitation token is required" }),
+  name: z
+    .string()
+    .min(1, { message: "User name is required for account creation." }),
+  password: z
+    .string()
+    .min(8, { message: "Password must be at least 8 characters" }),
+});
+
+/**
+ * Schema for bootstrapping the first admin account
+ */
+const BootstrapAdminSchema = z.object({
+  token: z.string().min(1, { message: "Bootstrap token is required" }),
+  email: z.email({ message: "Provide a valid email address." }),
+  name: z
+    .string()
+    .min(1, { message: "User name is required for account creation." }),
+  password: z
+    .string()
+    .min(8, { message: "Password must be at least 8 characters" }),
+});
+
+/**
+ * Schema for updating the current user's profile. Changing the email or
+ * phone number also requires the current password; `phone: null` removes
+ * the number.
+ */
+const UpdateProfileSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, { message: "User name cannot be empty." })
+      .optional(),
+    email: z.email({ message: "Provide a valid email address." }).optional(),
+    phone: PhoneSchema.nullable().optional(),
+    currentPassword: z.string().optional(),
+  })
+  .refine(
+    (data) =>
+      data.name !== undefined ||
+      data.email !== undefined ||
+      data.phone !== undefined,
+    {
+      message: "Provide a name, email or phone number to update",
+      path: ["name"],
+    },
+  );
+
+/**
+ * Schema for changing the current user's password
+ */
+const ChangePasswordSchema = z.object({
+  currentPassword: z
+    .string()
+    .min(1, { message: "Current password is required" }),
+  newPassword: z
+    .string()
+    .min(8, { message: "Password must be at least 8 characters" }),
+});
+
+/**
+ * Schema for deleting the current user's account
+ */
+const DeleteAccountSchema = z.object({
+  password: z.string().min(1, { message: "Password is required" }),
+});
+
+// How many events `GET /activity` returns
+const ACTIVITY_LIMIT = 20;
+
+// How long a password reset link stays valid
+const PASSWORD_RESET_TTL_MINUTES =
+  Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 30;
+
+/**
+ * Refuse a sign-in attempt while the IP or account is locked out (429 or
+ * 423 with `Retry-After`) and record the refusal.
+ */
+async function refuseThrottled(
+  req: Request,
+  res: Response,
+  throttle: Extract<ThrottleCheck, { allowed: false }>,
+  details: AuthEventDetails,
+) {
+  await recordAuthEvent(req, "LOGIN_FAILED", {
+    ...details,
+    metadata: {
+      ...details.metadata,
+      reason: throttle.status === 423 ? "locked" : "throttled",
+    },
+  });
+  res.set("Retry-After", String(throttle.retryAfter));
+  return res.status(throttle.status).json({
+    error:
+      throttle.status === 423
+        ? "Account temporarily locked due to failed login attempts"
+        : "Too many failed login attempts, try again later",
+    retryAfter: throttle.retryAfter,
+  });
+}
+
 /**
  * POST /register
  *
@@ -63,7 +278,7 @@ router.post("/register", async (req, res) => {
     return res.status(400).json({ errors: formatZodErrors(parsed.error) });
   }
 
-  const { email, name, password, role } = parsed.data;
+  const { email, name, password } = parsed.data;
 
   // Check for existing user with the same email
   const existing = await prisma.user.findUnique({ where: { email } });
@@ -83,24 +298,165 @@ router.post("/register", async (req, res) => {
       email,
       name,
       password: hashed,
-      role,
+      role: "USER",
     },
   });
 
-  // Sign a JWT and set it as an HttpOnly cookie named `auth-token`
-  const secret = process.env.JWT_SECRET || "test-secret";
-  const token = jwt.sign({ sub: user.id, email: user.email }, secret);
+  await recordAuthEvent(req, "REGISTER", { userId: user.id, email });
 
-  res.cookie("auth-token", token, {
-    httpOnly: true,
-    sameSite: "lax",
-    secure: process.env.NODE_ENV === "production",
-  });
+  // Start a session and set the `auth-token` / `refresh-token` cookies
+  await startSession(req, res, user);
 
   // Remove internal fields from response
-  const { password: _pw, ...publicUser } = user as any;
+  return res.status(201).json({ user: toPublicUser(user) });
+});
+
+/**
+ * GET /register/invite?token=...
+ *
+ * Returns the email and role of a pending invitation so the invite page
+ * can show who the account is for. Returns 404 for unknown, used, revoked
+ * or expired invitations.
+ */
+router.get("/register/invite", async (req, res) => {
+  const token = typeof req.query.token === "string" ? req.query.token : "";
+  const invitation = token ? await findPendingInvitation(token) : null;
+
+  if (!invitation)
+    return res.status(404).json({ error: "Invalid or expired invitation" });
+
+  return res
+    .status(200)
+    .json({ invitation: { email: invitation.email, role: invitation.role } });
+});
+
+// Thrown inside the transaction when the invitation was claimed meanwhile
+class InvitationClaimed extends Error {}
+
+/**
+ * POST /register/invite
+ *
+ * Creates an account from an invitation. The account gets the invited
+ * email and role. The invitation is claimed and the account created in
+ * one transaction, so it can only be used once and stays open if the
+ * email was taken meanwhile (409). Starts a session like `POST /register`.
+ */
+router.post("/register/invite", async (req, res) => {
+  const parsed = InviteRegisterSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+  }
+
+  const { token, name, password } = parsed.data;
+
+  const invitation = await findPendingInvitation(token);
+  if (!invitation)
+    return res.status(400).json({ error: "Invalid or expired invitation" });
+
+  const existing = await prisma.user.findUnique({
+    where: { email: invitation.email },
+  });
+
+  if (existing) {
+    return res
+      .status(409)
+      .json({ error: "A user with that email already exists" });
+  }
+
+  const passwordHash = await bcrypt.hash(password, 10);
+
+  // Claim and create together so a failed create leaves the invitation open
+  let user;
+  try {
+    user = await prisma.$transaction(async (tx: any) => {
+      const claimed = await tx.invitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+        data: { acceptedAt: new Date() },
+      });
+      if (claimed.count !== 1) throw new InvitationClaimed();
+
+      return tx.user.create({
+        data: {
+          email: invitation.email,
+          name,
+          password: passwordHash,
+          role: invitation.role,
+        },
+      });
+    });
+  } catch (err) {
+    if (err instanceof InvitationClaimed)
+      return res.status(400).json({ error: "Invalid or expired invitation" });
+    if ((err as { code?: string } | null)?.code === "P2002")
+      return res
+        .status(409)
+        .json({ error: "A user with that email already exists" });
+    throw err;
+  }
+
+  await recordAuthEvent(req, "REGISTER", {
+    userId: user.id,
+    email: user.email,
+    metadata: { invitationId: invitation.id },
+  });
+  await startSession(req, res, user);
+
+  return res.status(201).json({ user: toPublicUser(user) });
+});
+
+/**
+ * POST /bootstrap-admin
+ *
+ * Creates the very first ADMIN account so invitations can be issued.
+ * - Disabled (404) unless `ADMIN_BOOTSTRAP_TOKEN` is configured.
+ * - Returns 403 when the supplied token does not match.
+ * - Returns 409 once any ADMIN exists, so the endpoint is inert after
+ *   the initial setup.
+ */
+router.post("/bootstrap-admin", async (req, res) => {
+  const expected = process.env.ADMIN_BOOTSTRAP_TOKEN;
+  if (!expected) return res.status(404).json({ error: "Not Found" });
+
+  const parsed = BootstrapAdminSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+  }
+
+  const { token, email, name, password } = parsed.data;
+
+  // Compare hashes rather than raw strings so timing does not leak the token
+  if (hashToken(token) !== hashToken(expected))
+    return res.status(403).json({ error: "Invalid bootstrap token" });
+
+  const admins = await prisma.user.count({ where: { role: "ADMIN" } });
+  if (admins > 0)
+    return res.status(409).json({ error: "An admin account already exists" });
+
+  const existing = await prisma.user.findUnique({ where: { email } });
+
+  if (existing) {
+    return res
+      .status(409)
+      .json({ error: "A user with that email already exists" });
+  }
 
-  return res.status(201).json({ user: publicUser });
+  const user = await prisma.user.create({
+    data: {
+      email,
+      name,
+      password: await bcrypt.hash(password, 10),
+      role: "ADMIN",
+    },
+  });
+
+  await recordAuthEvent(req, "REGISTER", {
+    userId: user.id,
+    email,
+    metadata: { bootstrap: true },
+  });
+  await startSession(req, res, user);
+
+  return res.status(201).json({ user: toPublicUser(user) });
 });
 
 /**
@@ -111,15 +467,21 @@ router.post("/register", async (req, res) => {
  * - If a request already contains an `auth-token` cookie we return 400
  *   to avoid double-authentication.
  * - Validates input using Zod and returns structured validation errors.
- * - Verifies the password using `bcrypt.compare` and returns 401 on failure.
- * - On success issues a JWT and sets the `auth-token` cookie (HttpOnly).
+ * - Returns 429 (IP) or 423 (account) with `Retry-After` while a login
+ *   lockout is active (see `@/lib/login-throttle`).
+ * - Verifies the password using `bcrypt.compare` and returns 401 on failure,
+ *   counting the failure towards the lockout.
+ * - Returns 403 for accounts an admin has disabled.
+ * - When the user has two-factor authentication enabled, no cookies are
+ *   set; the response is `{ twoFactorRequired: true, challenge }` and the
+ *   login is completed at `POST /login/2fa`.
+ * - Otherwise starts a session and sets the `auth-token` and
+ *   `refresh-token` cookies (HttpOnly).
  */
 router.post("/login", async (req, res) => {
-  // Quick check: if a cookie header contains an `auth-token` assume the
+  // Quick check: if the request carries an `auth-token` cookie assume the
   // client is already authenticated and avoid additional login.
-  const cookieHeader = req.headers?.cookie ?? "";
-
-  if (cookieHeader.split(";").some((c) => c.trim().startsWith("auth-token="))) {
+  if (readCookie(req, ACCESS_COOKIE) !== undefined) {
     return res.status(400).json({ error: "Already authenticated" });
   }
 
@@ -130,69 +492,620 @@ router.post("/login", async (req, res) => {
 
   const { email, password } = parsed.data;
 
+  // Refuse early while the IP or account is locked out
+  const throttle = await checkLoginAllowed(email, req.ip);
+
+  if (!throttle.allowed)
+    return refuseThrottled(req, res, throttle, { email });
+
   const user = await prisma.user.findUnique({ where: { email } });
-  if (!user) return res.status(401).json({ error: "Invalid credentials" });
+  const match = user
+    ? await bcrypt.compare(password, (user as any).password)
+    : false;
+
+  if (!user || !match) {
+    await recordLoginFailure(email, req.ip);
+    await recordAuthEvent(req, "LOGIN_FAILED", {
+      userId: user?.id,
+      email,
+      metadata: { reason: user ? "wrong_password" : "unknown_email" },
+    });
+    return res.status(401).json({ error: "Invalid credentials" });
+  }
+
+  if (user.disabledAt) {
+    await recordAuthEvent(req, "LOGIN_FAILED", {
+      userId: user.id,
+      email,
+      metadata: { reason: "disabled" },
+    });
+    return accountDisabled(res);
+  }
+
+  // The lockout counter is only cleared once the second factor succeeds
+  if (user.totpEnabledAt) {
+    return res.status(200).json({
+      twoFactorRequired: true,
+      challenge: createLoginChallenge(user),
+    });
+  }
+
+  await recordLoginSuccess(email);
+  await recordAuthEvent(req, "LOGIN", { userId: user.id, email });
+  await startSession(req, res, user);
+
+  return res.status(200).json({ user: toPublicUser(user) });
+});
+
+/**
+ * POST /login/2fa
+ *
+ * Completes a two-factor login. Expects the `challenge` from `POST /login`
+ * and either a TOTP `code` or a single-use `recoveryCode`.
+ * - Returns 401 when the challenge is invalid or expired, or the code is
+ *   wrong. Wrong codes count towards the login lockout.
+ * - On success starts a session exactly like a password-only login.
+ */
+router.post("/login/2fa", async (req, res) => {
+  const parsed = LoginTwoFactorSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+  }
+
+  const { challenge, code, recoveryCode } = parsed.data;
+
+  const userId = verifyLoginChallenge(challenge);
+  const user = userId
+    ? await prisma.user.findUnique({ where: { id: userId } })
+    : null;
+
+  if (!user || !user.totpEnabledAt) {
+    return res
+      .status(401)
+      .json({ error: "Login challenge expired, sign in again" });
+  }
+
+  const throttle = await checkLoginAllowed(user.email, req.ip);
+
+  if (!throttle.allowed)
+    return refuseThrottled(req, res, throttle, {
+      userId: user.id,
+      email: user.email,
+    });
+
+  if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+    await recordLoginFailure(user.email, req.ip);
+    await recordAuthEvent(req, "LOGIN_FAILED", {
+      userId: user.id,
+      email: user.email,
+      metadata: { reason: "wrong_second_factor" },
+    });
+    return res.status(401).json({ error: "Invalid authentication code" });
+  }
+
+  if (user.disabledAt) {
+    await recordAuthEvent(req, "LOGIN_FAILED", {
+      userId: user.id,
+      email: user.email,
+      metadata: { reason: "disabled" },
+    });
+    return accountDisabled(res);
+  }
+
+  await recordLoginSuccess(user.email);
+  await recordAuthEvent(req, "LOGIN", {
+    userId: user.id,
+    email: user.email,
+    metadata: { secondFactor: recoveryCode ? "recovery_code" : "totp" },
+  });
+  await startSession(req, res, user);
+
+  return res.status(200).json({ user: toPublicUser(user) });
+});
+
+/**
+ * POST /otp/request
+ *
+ * Texts a 6-digit login code to the account registered with `phone` (see
+ * `@/lib/phone-otp`). Always responds with 200 and the same message so the
+ * endpoint cannot be used to discover registered numbers; disabled accounts
+ * get no code.
+ * - Returns 429 with `Retry-After` while the phone's resend cooldown or
+ *   hourly cap, or the client IP's cap, is exceeded.
+ */
+router.post("/otp/request", async (req, res) => {
+  const parsed = OtpRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+  }
+
+  const { phone } = parsed.data;
+  const message =
+    "If an account uses that phone number, a login code has been sent.";
 
-  const match = await bcrypt.compare(password, (user as any).password);
-  if (!match) return res.status(401).json({ error: "Invalid credentials" });
+  const limit = await checkOtpRequestAllowed(phone, req.ip);
 
-  const secret = process.env.JWT_SECRET || "test-secret";
-  const token = jwt.sign({ sub: user.id, email: user.email }, secret);
+  if (!limit.allowed) {
+    res.set("Retry-After", String(limit.retryAfter));
+    return res.status(429).json({
+      error: "Too many login codes requested, try again later",
+      retryAfter: limit.retryAfter,
+    });
+  }
+
+  const user = await prisma.user.findUnique({ where: { phone } });
+  if (!user || user.disabledAt) return res.status(200).json({ message });
 
-  res.cookie("auth-token", token, {
-    httpOnly: true,
-    sameSite: "lax",
-    secure: process.env.NODE_ENV === "production",
+  await sendLoginCode({ id: user.id, phone }, req.ip);
+  await recordAuthEvent(req, "LOGIN_CODE_REQUESTED", {
+    userId: user.id,
+    email: user.email,
   });
 
-  const { password: _pw, ...publicUser } = user as any;
-  return res.status(200).json({ user: publicUser });
+  return res.status(200).json({ message });
+});
+
+/**
+ * POST /otp/verify
+ *
+ * Signs in with a code from `POST /otp/request` and sets the same cookies
+ * as `POST /login`.
+ * - Returns 400 when the request already carries an `auth-token` cookie.
+ * - Returns 429/423 with `Retry-After` while a login lockout is active;
+ *   the phone number is throttled like an email address.
+ * - Returns 401 when the code is wrong, expired or used up. Wrong codes
+ *   count towards the lockout.
+ * - Returns 403 for disabled accounts, and completes with a two-factor
+ *   challenge for accounts with 2FA enabled, exactly like `POST /login`.
+ */
+router.post("/otp/verify", async (req, res) => {
+  if (readCookie(req, ACCESS_COOKIE) !== undefined) {
+    return res.status(400).json({ error: "Already authenticated" });
+  }
+
+  const parsed = OtpVerifySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+  }
+
+  const { phone, code } = parsed.data;
+
+  const throttle = await checkLoginAllowed(phone, req.ip);
+
+  if (!throttle.allowed)
+    return refuseThrottled(req, res, throttle, {
+      metadata: { method: "phone_otp", phone },
+    });
+
+  const userId = await verifyLoginCode(phone, code);
+  const user = userId
+    ? await prisma.user.findUnique({ where: { id: userId } })
+    : null;
+
+  if (!user) {
+    await recordLoginFailure(phone, req.ip);
+    await recordAuthEvent(req, "LOGIN_FAILED", {
+      metadata: { method: "phone_otp", phone, reason: "wrong_code" },
+    });
+    return res.status(401).json({ error: "Invalid or expired login code" });
+  }
+
+  if (user.disabledAt) {
+    await recordAuthEvent(req, "LOGIN_FAILED", {
+      userId: user.id,
+      email: user.email,
+      metadata: { method: "phone_otp", reason: "disabled" },
+    });
+    return accountDisabled(res);
+  }
+
+  if (user.totpEnabledAt) {
+    return res.status(200).json({
+      twoFactorRequired: true,
+      challenge: createLoginChallenge(user),
+    });
+  }
+
+  await recordLoginSuccess(phone);
+  await recordAuthEvent(req, "LOGIN", {
+    userId: user.id,
+    email: user.email,
+    metadata: { method: "phone_otp" },
+  });
+  await startSession(req, res, user);
+
+  return res.status(200).json({ user: toPublicUser(user) });
 });
 
 /**
  * GET /me
  *
  * Returns the currently authenticated user's information.
- * Requires a valid auth-token cookie.
+ * Requires a valid auth-token cookie backed by an active session.
+ */
+router.get("/me", requireAuth, async (req, res) => {
+  return res.status(200).json({ user: toPublicUser(req.user) });
+});
+
+/**
+ * GET /activity
+ *
+ * Returns the current user's most recent authentication events (newest
+ * first, at most `ACTIVITY_LIMIT`) so they can spot access they do not
+ * recognise.
+ */
+router.get("/activity", requireAuth, async (req, res) => {
+  const events = await prisma.authEvent.findMany({
+    where: { userId: req.user!.id },
+    orderBy: { createdAt: "desc" },
+    take: ACTIVITY_LIMIT,
+  });
+
+  return res.status(200).json({ events });
+});
+
+/**
+ * PATCH /me
+ *
+ * Updates the current user's `name`, `email` and/or `phone`.
+ * - Changing the email or phone number requires `currentPassword`; returns
+ *   400 when it is missing or wrong, and 409 when the email or number is
+ *   taken. `phone: null` removes the number.
+ * - Changing the phone number discards unused login codes.
  */
-router.get("/me", async (req, res) => {
-  // Extract auth-token from cookies
-  const cookieHeader = req.headers?.cookie ?? "";
-  const authTokenCookie = cookieHeader
-    .split(";")
-    .find((c) => c.trim().startsWith("auth-token="));
+router.patch("/me", requireAuth, async (req, res) => {
+  const parsed = UpdateProfileSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+  }
+
+  const user = req.user!;
+  const { name, email, phone, currentPassword } = parsed.data;
+  const data: { name?: string; email?: string; phone?: string | null } = {};
+
+  const emailChanged = email !== undefined && email !== user.email;
+  const phoneChanged = phone !== undefined && phone !== (user.phone ?? null);
 
-  if (!authTokenCookie) {
-    return res.status(401).json({ error: "Not authenticated" });
+  if (name !== undefined) data.name = name;
+
+  if (emailChanged || phoneChanged) {
+    const passwordOk =
+      !!currentPassword &&
+      (await bcrypt.compare(currentPassword, user.password));
+
+    if (!passwordOk)
+      return res.status(400).json({
+        errors: {
+          currentPassword: [
+            `Enter your current password to change ${emailChanged ? "email" : "phone number"}`,
+          ],
+        },
+      });
   }
 
-  const token = authTokenCookie.split("=")[1];
-  const secret = process.env.JWT_SECRET || "test-secret";
+  if (emailChanged) {
+    const existing = await prisma.user.findUnique({ where: { email } });
 
-  try {
-    const decoded = jwt.verify(token, secret) as { sub: string; email: string };
-    const user = await prisma.user.findUnique({ where: { id: decoded.sub } });
+    if (existing) {
+      return res
+        .status(409)
+        .json({ error: "A user with that email already exists" });
+    }
+
+    data.email = email;
+  }
 
-    if (!user) {
-      return res.status(401).json({ error: "User not found" });
+  if (phoneChanged) {
+    const existing = phone
+      ? await prisma.user.findUnique({ where: { phone } })
+      : null;
+
+    if (existing) {
+      return res
+        .status(409)
+        .json({ error: "A user with that phone number already exists" });
     }
 
-    const { password: _pw, ...publicUser } = user as any;
-    return res.status(200).json({ user: publicUser });
-  } catch (error) {
-    return res.status(401).json({ error: "Invalid token" });
+    data.phone = phone;
+  }
+
+  const updated = await prisma.user.update({ where: { id: user.id }, data });
+
+  if (data.email) {
+    await recordAuthEvent(req, "EMAIL_CHANGED", {
+      userId: user.id,
+      email: data.email,
+      metadata: { previousEmail: user.email },
+    });
+  }
+
+  if (phoneChanged) {
+    await discardLoginCodes(user.id);
+    await recordAuthEvent(req, "PHONE_CHANGED", {
+      userId: user.id,
+      email: updated.email,
+      metadata: { previousPhone: user.phone ?? null, phone: data.phone },
+    });
+  }
+
+  return res.status(200).json({ user: toPublicUser(updated) });
+});
+
+/**
+ * POST /change-password
+ *
+ * Changes the current user's password after checking the current one.
+ * Every other session is revoked; the session making the change stays
+ * signed in.
+ */
+router.post("/change-password", requireAuth, async (req, res) => {
+  const parsed = ChangePasswordSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+  }
+
+  const user = req.user!;
+  const { currentPassword, newPassword } = parsed.data;
+
+  if (!(await bcrypt.compare(currentPassword, user.password))) {
+    return res
+      .status(400)
+      .json({ errors: { currentPassword: ["Current password is incorrect"] } });
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { password: await bcrypt.hash(newPassword, 10) },
+  });
+
+  const revoked = await revokeUserSessions(user.id, {
+    exceptSessionId: req.sessionId,
+  });
+
+  await recordAuthEvent(req, "PASSWORD_CHANGED", {
+    userId: user.id,
+    email: user.email,
+    metadata: { revokedSessions: revoked },
+  });
+
+  return res
+    .status(200)
+    .json({ message: "Password changed", revokedSessions: revoked });
+});
+
+/**
+ * DELETE /me
+ *
+ * Deletes the current user's account after checking the password.
+ * The row is anonymized rather than removed so the sweets the user created
+ * and their history keep a valid owner: the name, email, phone number and
+ * credentials are replaced, the role drops to `USER`, and every session,
+ * recovery code, login code, provider link, reset link and API key of the
+ * user is invalidated.
+ * - Returns 409 for the only remaining admin.
+ */
+router.delete("/me", requireAuth, async (req, res) => {
+  const parsed = DeleteAccountSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+  }
+
+  const user = req.user!;
+
+  if (!(await bcrypt.compare(parsed.data.password, user.password))) {
+    return res
+      .status(400)
+      .json({ errors: { password: ["Password is incorrect"] } });
+  }
+
+  if (user.role === "ADMIN") {
+    const admins = await prisma.user.count({ where: { role: "ADMIN" } });
+    if (admins <= 1)
+      return res
+        .status(409)
+        .json({ error: "The last admin account cannot be deleted" });
   }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      name: "Deleted user",
+      email: `deleted-${user.id}@deleted.invalid`,
+      phone: null,
+      // Random, never disclosed: nobody can sign in as this user again
+      password: await bcrypt.hash(generateToken(), 10),
+      role: "USER",
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+      deletedAt: new Date(),
+    },
+  });
+
+  await prisma.recoveryCode.deleteMany({ where: { userId: user.id } });
+  await prisma.phoneOtp.deleteMany({ where: { userId: user.id } });
+  await prisma.identity.deleteMany({ where: { userId: user.id } });
+  await prisma.idempotencyKey.deleteMany({ where: { userId: user.id } });
+  await prisma.cartItem.deleteMany({ where: { userId: user.id } });
+  await prisma.passwordResetToken.deleteMany({ where: { userId: user.id } });
+  await prisma.apiKey.updateMany({
+    where: { createdById: user.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  await revokeUserSessions(user.id);
+
+  // Keep the original email so the event can still be traced
+  await recordAuthEvent(req, "ACCOUNT_DELETED", {
+    userId: user.id,
+    email: user.email,
+  });
+
+  clearAuthCookies(res);
+
+  return res.status(200).json({ deleted: true });
+});
+
+/**
+ * POST /refresh
+ *
+ * Exchanges the `refresh-token` cookie for a new access token. The refresh
+ * token is rotated on every call; presenting an already-used refresh token
+ * revokes the whole session. Returns 401 and clears both cookies when the
+ * refresh token is missing or no longer valid.
+ */
+router.post("/refresh", async (req, res) => {
+  const refreshToken = readCookie(req, REFRESH_COOKIE);
+
+  if (!refreshToken) {
+    return res.status(401).json({ error: "Refresh token required" });
+  }
+
+  const user = await refreshSession(res, refreshToken);
+
+  if (!user) {
+    clearAuthCookies(res);
+    return res.status(401).json({ error: "Invalid or expired refresh token" });
+  }
+
+  return res.status(200).json({ user: toPublicUser(user) });
 });
 
 /**
  * POST /logout
  *
- * Clears the auth-token cookie to log the user out.
+ * Revokes the current session and clears the auth cookies. The session is
+ * identified from the access token (even if expired) or, failing that, from
+ * the refresh token, so logging out always ends server-side access.
  */
-router.post("/logout", (req, res) => {
-  res.clearCookie("auth-token");
+router.post("/logout", async (req, res) => {
+  const token = readCookie(req, ACCESS_COOKIE);
+  const refreshToken = readCookie(req, REFRESH_COOKIE);
+
+  let sessionId: string | undefined;
+  let userId: string | null = null;
+
+  if (token) {
+    try {
+      const payload = verifyAccessToken(token, { ignoreExpiration: true });
+      sessionId = payload.sid;
+      userId = payload.sub;
+    } catch {
+      // Fall back to the refresh token below
+    }
+  }
+
+  if (sessionId) await revokeSession(sessionId);
+  else if (refreshToken) userId = await revokeRefreshToken(refreshToken);
+
+  if (userId) await recordAuthEvent(req, "LOGOUT", { userId });
+
+  clearAuthCookies(res);
 
   return res.status(200).json({ message: "Logged out successfully" });
 });
 
+/**
+ * POST /forgot-password
+ *
+ * Emails a single-use password reset link when an account exists for the
+ * given email. Always responds with 200 and the same message so the
+ * endpoint cannot be used to discover registered emails. Requesting a new
+ * link invalidates any earlier unused ones.
+ */
+router.post("/forgot-password", async (req, res) => {
+  const parsed = ForgotPasswordSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+  }
+
+  const { email } = parsed.data;
+  const message =
+    "If an account exists for that email, a password reset link has been sent.";
+
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (!user) return res.status(200).json({ message });
+
+  // Only the most recent link should work
+  await prisma.passwordResetToken.deleteMany({
+    where: { userId: user.id, usedAt: null },
+  });
+
+  const token = generateToken();
+
+  await prisma.passwordResetToken.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+    },
+  });
+
+  await recordAuthEvent(req, "PASSWORD_RESET_REQUESTED", {
+    userId: user.id,
+    email,
+  });
+
+  const link = appUrl("/reset-password", { token });
+
+  await sendMail({
+    to: user.email,
+    subject: "Reset your Misthan password",
+    text:
+      `Hi ${user.name},\n\n` +
+      `Use the link below to choose a new password. It expires in ` +
+      `${PASSWORD_RESET_TTL_MINUTES} minutes and can only be used once.\n\n` +
+      `${link}\n\n` +
+      `If you did not request this, you can ignore this email.`,
+  });
+
+  return res.status(200).json({ message });
+});
+
+/**
+ * POST /reset-password
+ *
+ * Sets a new password using a token from `POST /forgot-password`.
+ * - Returns 400 when the token is unknown, expired or already used.
+ * - Marks the token as used atomically so it cannot be redeemed twice.
+ * - Revokes all of the user's sessions, signing out every device.
+ */
+router.post("/reset-password", async (req, res) => {
+  const parsed = ResetPasswordSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+  }
+
+  const { token, password } = parsed.data;
+
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  const invalid = () =>
+    res.status(400).json({ error: "Invalid or expired reset token" });
+
+  if (!resetToken || resetToken.usedAt) return invalid();
+  if (new Date(resetToken.expiresAt).getTime() <= Date.now()) return invalid();
+
+  // Claim the token; a concurrent request that got here first wins
+  const claimed = await prisma.passwordResetToken.updateMany({
+    where: { id: resetToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (claimed.count !== 1) return invalid();
+
+  await prisma.user.update({
+    where: { id: resetToken.userId },
+    data: { password: await bcrypt.hash(password, 10) },
+  });
+
+  await revokeUserSessions(resetToken.userId);
+  await recordAuthEvent(req, "PASSWORD_RESET", { userId: resetToken.userId });
+
+  return res
+    .status(200)
+    .json({ message: "Password has been reset. Please log in again." });
+});
+
 export default router;
@@ -0,0 +1,207 @@
+import express, { Router } from "express";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import {
+  cartQuantity,
+  checkoutCart,
+  clearCart,
+  readCart,
+  replaceCart,
+  setCartItem,
+} from "@/lib/cart";
+import { checkLines } from "@/lib/orders";
+import { requireAuth } from "@/middleware/auth";
+import { idempotent } from "@/middleware/idempotency";
+import { isStorableQuantity, UNITS } from "@/lib/units";
+import { refuseOrder } from "@/routes/orders";
+import { formatZodErrors } from "@/utility/zod-error-formatter";
+
+/**
+ * Router for the current user's shopping cart (see `@/lib/cart`).
+ *
+ * Exposes:
+ * - `GET /api/cart` to read the cart, revalidated against current prices
+ *   and stock
+ * - `PUT /api/cart` to replace the whole cart
+ * - `DELETE /api/cart` to empty the cart
+ * - `POST /api/cart/items` to add a quantity of a sweet
+ * - `PUT /api/cart/items/:sweetId` to set the quantity of a sweet
+ * - `DELETE /api/cart/items/:sweetId` to remove a sweet
+ *
+ * Packs of a sweet's variant are separate items: pass `variantId` in the
+ * body, or as a query parameter for the `:sweetId` routes.
+ * - `POST /api/cart/checkout` to order everything in the cart; accepts an
+ *   `Idempotency-Key` header so retries are safe
+ *
+ * Every route requires authentication and, apart from checkout, responds
+ * with the updated `cart`. Adding more than is in stock is refused like an
+ * order (see `refuseOrder`). Quantities may come with a `unit` to convert
+ * from; the cart keeps them in each sweet's unit.
+ */
+const router: Router = express.Router();
+
+const quantity = z.coerce
+  .number()
+  .positive({ message: "Quantity must be positive" })
+  .refine(isStorableQuantity, {
+    message: "Quantity can have at most three decimals",
+  });
+
+const unit = z.enum(UNITS).optional();
+
+const sweetId = z.string().min(1, { message: "Sweet id is required" });
+
+const variantId = z.string().min(1).optional();
+
+/**
+ * Schema for `PUT /api/cart`. An empty list empties the cart.
+ */
+const CartSchema = z.object({
+  items: z
+    .array(z.object({ sweetId, variantId, quantity, unit }))
+    .max(100, { message: "A cart can have at most 100 lines" }),
+});
+
+/**
+ * Schema for `POST /api/cart/items`.
+ */
+const AddItemSchema = z.object({ sweetId, variantId, quantity, unit });
+
+/**
+ * Schema for `PUT /api/cart/items/:sweetId`.
+ */
+const SetItemSchema = z.object({ quantity, unit });
+
+/**
+ * Query schema for the `:sweetId` item routes.
+ */
+const ItemQuery = z.object({ variantId });
+
+/**
+ * GET /api/cart
+ * - Returns the cart with each item's current price, stock and `status`
+ *   (`available`, `insufficient_stock` or `out_of_stock`), whether its
+ *   price changed since it was added, the total and `checkoutReady`.
+ */
+router.get("/", requireAuth, async (req, res) => {
+  return res.status(200).json({ cart: await readCart(req.user!) });
+});
+
+/**
+ * PUT /api/cart
+ * - Replaces the cart with `items`; lines for the same sweet are added
+ *   together. Nothing changes unless every sweet exists and is in stock.
+ */
+router.put("/", requireAuth, async (req, res) => {
+  const parsed = CartSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+  const checked = await checkLines(parsed.data.items);
+  if (!checked.ok) return refuseOrder(res, checked);
+
+  await replaceCart(req.user!, checked);
+
+  return res.status(200).json({ cart: await readCart(req.user!) });
+});
+
+/**
+ * DELETE /api/cart
+ * - Empties the cart.
+ */
+router.delete("/", requireAuth, async (req, res) => {
+  await clearCart(req.user!);
+  return res.status(200).json({ cart: await readCart(req.user!) });
+});
+
+/**
+ * POST /api/cart/items
+ * - Adds `quantity` of `sweetId` to what is already in the cart.
+ */
+router.post("/items", requireAuth, async (req, res) => {
+  const parsed = AddItemSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+  const { sweetId, variantId, quantity, unit } = parsed.data;
+  const inCart = await cartQuantity(req.user!, sweetId, variantId);
+
+  // Checked together so the added quantity is converted before summing
+  const checked = await checkLines([
+    ...(inCart > 0 ? [{ sweetId, variantId, quantity: inCart }] : []),
+    { sweetId, variantId, quantity, unit },
+  ]);
+  if (!checked.ok) return refuseOrder(res, checked);
+
+  await setCartItem(req.user!, checked);
+
+  return res.status(200).json({ cart: await readCart(req.user!) });
+});
+
+/**
+ * PUT /api/cart/items/:sweetId
+ * - Sets the quantity of a sweet (or of packs of `?variantId=`), adding it
+ *   when it is not in the cart.
+ */
+router.put("/items/:sweetId", requireAuth, async (req, res) => {
+  const parsed = SetItemSchema.safeParse(req.body);
+  const query = ItemQuery.safeParse(req.query);
+  if (!parsed.success)
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+  if (!query.success)
+    return res.status(400).json({ errors: formatZodErrors(query.error) });
+
+  const { sweetId } = req.params;
+  const { variantId } = query.data;
+  const { quantity, unit } = parsed.data;
+
+  const checked = await checkLines([{ sweetId, variantId, quantity, unit }]);
+  if (!checked.ok) return refuseOrder(res, checked);
+
+  await setCartItem(req.user!, checked);
+
+  return res.status(200).json({ cart: await readCart(req.user!) });
+});
+
+/**
+ * DELETE /api/cart/items/:sweetId
+ * - Removes a sweet (or packs of `?variantId=`) from the cart; 404 when it
+ *   is not in the cart.
+ */
+router.delete("/items/:sweetId", requireAuth, async (req, res) => {
+  const query = ItemQuery.safeParse(req.query);
+  if (!query.success)
+    return res.status(400).json({ errors: formatZodErrors(query.error) });
+
+  const removed = await prisma.cartItem.deleteMany({
+    where: {
+      userId: req.user!.id,
+      sweetId: req.params.sweetId,
+      variantId: query.data.variantId ?? null,
+    },
+  });
+  if (removed.count === 0) return res.status(404).json({ error: "Not found" });
+
+  return res.status(200).json({ cart: await readCart(req.user!) });
+});
+
+/**
+ * POST /api/cart/checkout
+ * - Orders everything in the cart at current prices and empties it.
+ *   Responds 201 with the `order`.
+ * - 400 when the cart is empty; otherwise refused like `POST /api/orders`
+ *   (the cart is kept, so the user can fix it and retry).
+ */
+router.post("/checkout", requireAuth, idempotent, async (req, res) => {
+  const result = await checkoutCart(req.user!);
+
+  if (!result.ok) {
+    if (result.reason === "empty")
+      return res.status(400).json({ error: "Cart is empty" });
+    return refuseOrder(res, result);
+  }
+
+  return res.status(201).json({ order: result.order });
+});
+
+export default router;
@@ -1,9 +1,26 @@
 import express, { Router } from "express";
 import { z } from "zod";
 import prisma from "@/lib/prisma";
-import { requireAuth, requireAdmin } from "@/middleware/auth";
+import {
+  acceptApiKey,
+  requireAuth,
+  requirePermission,
+} from "@/middleware/auth";
 import { formatZodErrors } from "@/utility/zod-error-formatter";
 
+/**
+ * Router for categories.
+ *
+ * Exposes:
+ * - `POST /api/category` (`category.manage`) to create categories
+ * - `GET /api/category` to list categories (auth required)
+ * - `GET /api/category/archived` (`category.manage`) to list archived
+ *   categories
+ * - `DELETE /api/category/:id` (`category.manage`) to archive a category
+ * - `POST /api/category/:id/restore` (`category.manage`) to restore one
+ *
+ * Archived categories (`deletedAt` set) keep their name reserved.
+ */
 const router: Router = express.Router();
 
 /**
@@ -22,45 +39,146 @@ const CreateCategorySchema = z.object({
 
 /**
  * POST /api/category
- * - Requires authentication and admin privileges.
+ * - Requires authentication and the `category.manage` permission.
  * - Validates the payload with Zod and returns detailed validation errors
  *   using `formatZodErrors`.
- * - Performs a case-insensitive duplicate check before creating the
- *   category (returns 409 on conflict).
+ * - Performs a case-insensitive duplicate check, archived categories
+ *   included, before creating the category (returns 409 on conflict).
  */
-router.post("/", requireAuth, requireAdmin, async (req, res) => {
-  const parsed = CreateCategorySchema.safeParse(req.body);
-  if (!parsed.success)
-    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+router.post(
+  "/",
+  acceptApiKey("category.manage"),
+  requireAuth,
+  requirePermission("category.manage"),
+  async (req, res) => {
+    const parsed = CreateCategorySchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
 
-  const { name, description } = parsed.data;
+    const { name, description } = parsed.data;
 
-  // Case-insensitive duplicate check: fetch all categories and compare
-  const all = await prisma.category.findMany();
+    // Case-insensitive duplicate check: fetch all categories and compare
+    const all = await prisma.category.findMany();
 
-  const exists = all.find(
-    (c: any) => c.name.toLowerCase() === name.toLowerCase(),
-  );
+    const exists = all.find(
+      (c: any) => c.name.toLowerCase() === name.toLowerCase(),
+    );
 
-  if (exists) return res.status(409).json({ error: "Category already exists" });
+    if (exists)
+      return res.status(409).json({
+        error: exists.deletedAt
+          ? "Category is archived; restore it instead"
+          : "Category already exists",
+      });
 
-  const category = await prisma.category.create({
-    data: { name, description },
-  });
+    const category = await prisma.category.create({
+      data: { name, description },
+    });
 
-  return res.status(201).json({ category });
-});
+    return res.status(201).json({ category });
+  },
+);
 
 /**
  * GET /api/category
- * - Returns a list of all categories.
+ * - Returns a list of all categories that are not archived.
  * - Authentication is required so clients must be logged in to view
  *   available categories.
  */
-router.get("/", requireAuth, async (_req, res) => {
-  const categories = await prisma.category.findMany();
+router.get(
+  "/",
+  acceptApiKey("category.read"),
+  requireAuth,
+  async (_req, res) => {
+    const categories = await prisma.category.findMany({
+      where: { deletedAt: null },
+    });
 
-  return res.status(200).json({ categories });
-});
+    return res.status(200).json({ categories });
+  },
+);
+
+/**
+ * GET /api/category/archived
+ * - Requires the `category.manage` permission.
+ * - Returns archived categories, most recently archived first.
+ */
+router.get(
+  "/archived",
+  acceptApiKey("category.manage"),
+  requireAuth,
+  requirePermission("category.manage"),
+  async (_req, res) => {
+    const categories = await prisma.category.findMany({
+      where: { deletedAt: { not: null } },
+      orderBy: { deletedAt: "desc" },
+    });
+
+    return res.status(200).json({ categories });
+  },
+);
+
+/**
+ * DELETE /api/category/:id
+ * - Requires the `category.manage` permission.
+ * - Archives the category. Returns 404 for unknown or already archived
+ *   categories and 409 while it still has sweets that are not archived.
+ */
+router.delete(
+  "/:id",
+  acceptApiKey("category.manage"),
+  requireAuth,
+  requirePermission("category.manage"),
+  async (req, res) => {
+    const id = req.params.id;
+
+    const category = await prisma.category.findUnique({ where: { id } });
+    if (!category || category.deletedAt)
+      return res.status(404).json({ error: "Not found" });
+
+    const sweets = await prisma.sweet.count({
+      where: { categoryId: id, deletedAt: null },
+    });
+    if (sweets > 0)
+      return res.status(409).json({
+        error: "Archive or move the category's sweets first",
+        sweets,
+      });
+
+    const archived = await prisma.category.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+
+    return res.status(200).json({ deleted: true, category: archived });
+  },
+);
+
+/**
+ * POST /api/category/:id/restore
+ * - Requires the `category.manage` permission.
+ * - Brings an archived category back; its archived sweets stay archived.
+ *   Returns 404 unless the category is archived.
+ */
+router.post(
+  "/:id/restore",
+  acceptApiKey("category.manage"),
+  requireAuth,
+  requirePermission("category.manage"),
+  async (req, res) => {
+    const id = req.params.id;
+
+    const category = await prisma.category.findUnique({ where: { id } });
+    if (!category || !category.deletedAt)
+      return res.status(404).json({ error: "Not found" });
+
+    const restored = await prisma.category.update({
+      where: { id },
+      data: { deletedAt: null },
+    });
+
+    return res.status(200).json({ category: restored });
+  },
+);
 
 export default router;
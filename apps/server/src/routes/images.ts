@@ -0,0 +1,32 @@
+import express, { Router } from "express";
+import { contentTypeOf, imageStorage } from "@/lib/images";
+
+/**
+ * Router serving sweet images kept by the local image storage (see
+ * `@/lib/images`).
+ *
+ * Exposes:
+ * - `GET /api/images/:sweetId/:file` to fetch an image or thumbnail
+ *
+ * Images are public so they can be used in `<img>` tags; their names are
+ * random, so they cannot be listed or guessed. Responses may be cached for
+ * good since a changed image gets a new name.
+ */
+const router: Router = express.Router();
+
+router.get("/:sweetId/:file", async (req, res) => {
+  const key = `${req.params.sweetId}/${req.params.file}`;
+  const contentType = contentTypeOf(key);
+  if (!contentType) return res.status(404).json({ error: "Not found" });
+
+  const data = await imageStorage().read(key);
+  if (!data) return res.status(404).json({ error: "Not found" });
+
+  return res
+    .status(200)
+    .set("Content-Type", contentType)
+    .set("Cache-Control", "public, max-age=31536000, immutable")
+    .send(data);
+});
+
+export default router;
@@ -0,0 +1,188 @@
+import express, { Router } from "express";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import {
+  byExpiry,
+  isExpired,
+  startOfToday,
+  writeOffExpired,
+} from "@/lib/batches";
+import { isLowStock, suggestedRestock } from "@/lib/stock";
+import { toMilli } from "@/lib/units";
+import {
+  acceptApiKey,
+  requireAuth,
+  requirePermission,
+} from "@/middleware/auth";
+import { formatZodErrors } from "@/utility/zod-error-formatter";
+
+/**
+ * Router for stock levels across the shop (`stock.restock` permission).
+ *
+ * Exposes:
+ * - `GET /api/inventory/low-stock` to list sweets at or below their
+ *   low-stock threshold, with a suggested restock quantity
+ * - `GET /api/inventory/alerts` to list open low-stock alerts
+ * - `POST /api/inventory/alerts/:id/dismiss` to resolve an alert by hand
+ * - `GET /api/inventory/expiring` to list stock batches that have expired
+ *   or are about to
+ * - `POST /api/inventory/expired/write-off` to write expired batches off
+ *   as waste
+ *
+ * Alerts are opened and resolved by stock movements (see `@/lib/stock`).
+ * Batches are added by restocks (see `@/lib/batches`).
+ */
+const router: Router = express.Router();
+
+/**
+ * GET /api/inventory/low-stock
+ * - Responds with `{ sweets }`, lowest stock relative to its threshold
+ *   first. Each sweet includes its category and `suggestedQuantity`.
+ * - Sweets without a threshold and archived sweets are never low.
+ */
+router.get(
+  "/low-stock",
+  acceptApiKey("stock.restock"),
+  requireAuth,
+  requirePermission("stock.restock"),
+  async (_req, res) => {
+    const candidates = await prisma.sweet.findMany({
+      where: { lowStockThreshold: { not: null }, deletedAt: null },
+      include: { category: true },
+    });
+
+    const sweets = candidates
+      .filter(isLowStock)
+      .map((sweet: any) => ({
+        ...sweet,
+        suggestedQuantity: suggestedRestock(sweet),
+      }))
+      .sort(
+        (a: any, b: any) =>
+          toMilli(a.stock) -
+          toMilli(a.lowStockThreshold) -
+          (toMilli(b.stock) - toMilli(b.lowStockThreshold)),
+      );
+
+    return res.status(200).json({ sweets });
+  },
+);
+
+/**
+ * GET /api/inventory/alerts
+ * - Responds with `{ alerts }`, newest first: every alert not yet resolved,
+ *   with the sweet's id, name, unit, current stock and restock settings.
+ */
+router.get(
+  "/alerts",
+  acceptApiKey("stock.restock"),
+  requireAuth,
+  requirePermission("stock.restock"),
+  async (_req, res) => {
+    const alerts = await prisma.stockAlert.findMany({
+      where: { resolvedAt: null },
+      orderBy: { createdAt: "desc" },
+      include: {
+        sweet: {
+          select: {
+            id: true,
+            name: true,
+            unit: true,
+            stock: true,
+            lowStockThreshold: true,
+            reorderQuantity: true,
+          },
+        },
+      },
+    });
+
+    return res.status(200).json({ alerts });
+  },
+);
+
+/**
+ * POST /api/inventory/alerts/:id/dismiss
+ * - Resolves an open alert without restocking. 404 for an unknown or
+ *   already resolved alert.
+ */
+router.post(
+  "/alerts/:id/dismiss",
+  acceptApiKey("stock.restock"),
+  requireAuth,
+  requirePermission("stock.restock"),
+  async (req, res) => {
+    const { count } = await prisma.stockAlert.updateMany({
+      where: { id: req.params.id, resolvedAt: null },
+      data: { resolvedAt: new Date() },
+    });
+    if (count === 0) return res.status(404).json({ error: "Not found" });
+
+    return res.status(200).json({ dismissed: true });
+  },
+);
+
+/**
+ * Query schema for `GET /api/inventory/expiring`: how many days ahead to
+ * look, 7 by default.
+ */
+const ExpiringQuery = z.object({
+  days: z.coerce.number().int().min(0).max(365).default(7),
+});
+
+/**
+ * GET /api/inventory/expiring
+ * - Responds with `{ batches }`, earliest best-before first: every batch
+ *   with stock left that is best before the end of the `days`th day from
+ *   today, including expired ones (`expired: true`) not yet written off.
+ * - Each batch includes its sweet's id, name and unit, and its variant's
+ *   id and label, if any.
+ */
+router.get(
+  "/expiring",
+  acceptApiKey("stock.restock"),
+  requireAuth,
+  requirePermission("stock.restock"),
+  async (req, res) => {
+    const parsed = ExpiringQuery.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+    const today = startOfToday();
+    const until = new Date(today);
+    until.setUTCDate(until.getUTCDate() + parsed.data.days + 1);
+
+    const batches = await prisma.stockBatch.findMany({
+      where: { quantity: { gt: 0 }, bestBefore: { lt: until } },
+      include: {
+        sweet: { select: { id: true, name: true, unit: true } },
+        variant: { select: { id: true, label: true } },
+      },
+    });
+
+    return res.status(200).json({
+      batches: batches
+        .sort(byExpiry)
+        .map((batch: any) => ({ ...batch, expired: isExpired(batch, today) })),
+    });
+  },
+);
+
+/**
+ * POST /api/inventory/expired/write-off
+ * - Writes off what is left of every expired batch as a `WASTE` movement
+ *   with the reason "Expired", so it leaves the stock.
+ * - Responds with `{ writtenOff }`: each batch written off with its
+ *   `movement`.
+ */
+router.post(
+  "/expired/write-off",
+  acceptApiKey("stock.restock"),
+  requireAuth,
+  requirePermission("stock.restock"),
+  async (req, res) => {
+    const writtenOff = await writeOffExpired(req.user!.id);
+    return res.status(200).json({ writtenOff });
+  },
+);
+
+export default router;
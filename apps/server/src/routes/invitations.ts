@@ -0,0 +1,116 @@
+import express, { Router } from "express";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { createInvitation } from "@/lib/invitations";
+import { ROLES } from "@/lib/permissions";
+import { requireAuth, requirePermission } from "@/middleware/auth";
+import { formatZodErrors } from "@/utility/zod-error-formatter";
+
+/**
+ * Router for account invitations (`user.manage` permission).
+ *
+ * Exposes:
+ * - `POST /api/invitations` to invite an email with a role
+ * - `GET /api/invitations` to list pending invitations
+ * - `DELETE /api/invitations/:id` to revoke a pending invitation
+ *
+ * Invitees accept through `POST /api/auth/register/invite`.
+ */
+const router: Router = express.Router();
+
+/**
+ * Schema for creating an invitation.
+ * - `email` is the address that will receive the invitation link.
+ * - `role` defaults to "ADMIN", the main reason to invite someone.
+ */
+const CreateInvitationSchema = z.object({
+  email: z.email({ message: "Provide a valid email address." }),
+  role: z.enum(ROLES).optional().default("ADMIN"),
+});
+
+// Strip the token hash before returning invitations to clients
+function publicInvitation(invitation: any) {
+  const { tokenHash: _hash, ...rest } = invitation;
+  return rest;
+}
+
+/**
+ * POST /api/invitations
+ * - Requires authentication and the `user.manage` permission.
+ * - Returns 409 when an account already exists for the email.
+ * - Emails the invitation link and also returns it so the admin can share
+ *   it through another channel.
+ */
+router.post(
+  "/",
+  requireAuth,
+  requirePermission("user.manage"),
+  async (req, res) => {
+    const parsed = CreateInvitationSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+    const { email, role } = parsed.data;
+
+    const existing = await prisma.user.findUnique({ where: { email } });
+    if (existing)
+      return res
+        .status(409)
+        .json({ error: "A user with that email already exists" });
+
+    const { invitation, inviteUrl } = await createInvitation(
+      req.user!,
+      email,
+      role,
+    );
+
+    return res
+      .status(201)
+      .json({ invitation: publicInvitation(invitation), inviteUrl });
+  },
+);
+
+/**
+ * GET /api/invitations
+ * - Requires authentication and the `user.manage` permission.
+ * - Returns invitations that have been neither accepted nor revoked.
+ */
+router.get(
+  "/",
+  requireAuth,
+  requirePermission("user.manage"),
+  async (_req, res) => {
+    const invitations = await prisma.invitation.findMany({
+      where: { acceptedAt: null, revokedAt: null },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return res
+      .status(200)
+      .json({ invitations: invitations.map(publicInvitation) });
+  },
+);
+
+/**
+ * DELETE /api/invitations/:id
+ * - Requires authentication and the `user.manage` permission.
+ * - Revokes a pending invitation so its link stops working.
+ */
+router.delete(
+  "/:id",
+  requireAuth,
+  requirePermission("user.manage"),
+  async (req, res) => {
+    const revoked = await prisma.invitation.updateMany({
+      where: { id: req.params.id, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (revoked.count === 0)
+      return res.status(404).json({ error: "Not found" });
+
+    return res.status(200).json({ revoked: true });
+  },
+);
+
+export default router;
@@ -0,0 +1,182 @@
+import express, { Router, type Response } from "express";
+import { recordAuthEvent } from "@/lib/auth-events";
+import { appUrl } from "@/lib/mailer";
+import {
+  completeAuthorization,
+  getOidcProvider,
+  listOidcProviders,
+  resolveOidcUser,
+  startAuthorization,
+  type OidcFlow,
+} from "@/lib/oidc";
+import { startSession } from "@/lib/sessions";
+import { createLoginChallenge } from "@/lib/two-factor";
+import { clearCookie, readSignedCookie, setCookie } from "@/utility/cookies";
+
+/**
+ * Router for OpenID Connect login (see `@/lib/oidc`).
+ *
+ * Exposes:
+ * - `GET /api/auth/oidc/providers` to list configured providers
+ * - `GET /api/auth/oidc/:provider/start` to begin a provider login
+ * - `GET /api/auth/oidc/:provider/callback` where the provider returns
+ *
+ * These are browser navigations rather than API calls, so the start and
+ * callback routes answer with redirects. Failures land on the login page
+ * with an `error` search param; accounts with two-factor authentication
+ * land there with a `challenge` to complete at `POST /api/auth/login/2fa`.
+ */
+const router: Router = express.Router();
+
+/** Cookie carrying the state, nonce and PKCE verifier of a pending login */
+export const OIDC_FLOW_COOKIE = "oidc-flow";
+
+// Scoped to the OIDC routes and kept only while the user is at the provider
+const FLOW_COOKIE_PATH = "/api/auth/oidc";
+const FLOW_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Send the browser back to the login page with an error code.
+ */
+function loginError(res: Response, error: string) {
+  return res.redirect(appUrl("/login", { error }));
+}
+
+function readFlow(value: string | undefined): OidcFlow | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/auth/oidc/providers
+ * - Lists `{ id, label }` for every configured provider.
+ */
+router.get("/providers", (_req, res) => {
+  return res.status(200).json({ providers: listOidcProviders() });
+});
+
+/**
+ * GET /api/auth/oidc/:provider/start
+ * - Returns 404 for unknown providers.
+ * - Sets the signed `oidc-flow` cookie and redirects to the provider.
+ */
+router.get("/:provider/start", async (req, res) => {
+  const provider = getOidcProvider(req.params.provider);
+  if (!provider) return res.status(404).json({ error: "Unknown provider" });
+
+  let authorization;
+  try {
+    authorization = await startAuthorization(provider);
+  } catch (err) {
+    console.error(`OIDC discovery for ${provider.id} failed:`, err);
+    return loginError(res, "provider_unavailable");
+  }
+
+  setCookie(res, OIDC_FLOW_COOKIE, JSON.stringify(authorization.flow), {
+    signed: true,
+    path: FLOW_COOKIE_PATH,
+    maxAge: FLOW_TTL_MS,
+  });
+
+  return res.redirect(authorization.url);
+});
+
+/**
+ * GET /api/auth/oidc/:provider/callback
+ * - Checks `state` against the `oidc-flow` cookie, exchanges the code and
+ *   verifies the ID token.
+ * - Resolves the user (existing link, verified-email link or a new account)
+ *   and starts a session like `POST /api/auth/login`, then redirects to the
+ *   app. Disabled accounts and unverified emails are refused.
+ */
+router.get("/:provider/callback", async (req, res) => {
+  const flow = readFlow(readSignedCookie(req, OIDC_FLOW_COOKIE));
+  clearCookie(res, OIDC_FLOW_COOKIE, { path: FLOW_COOKIE_PATH });
+
+  const provider = getOidcProvider(req.params.provider);
+  if (!provider) return res.status(404).json({ error: "Unknown provider" });
+
+  // The user cancelled or the provider refused
+  if (typeof req.query.error === "string") return loginError(res, "cancelled");
+
+  const { code, state } = req.query;
+
+  if (
+    !flow ||
+    flow.provider !== provider.id ||
+    typeof state !== "string" ||
+    state !== flow.state ||
+    typeof code !== "string"
+  )
+    return loginError(res, "invalid_state");
+
+  let claims;
+  try {
+    claims = await completeAuthorization(provider, flow, code);
+  } catch (err) {
+    console.error(`OIDC login with ${provider.id} failed:`, err);
+    await recordAuthEvent(req, "LOGIN_FAILED", {
+      metadata: { method: "oidc", provider: provider.id, reason: "token" },
+    });
+    return loginError(res, "provider_error");
+  }
+
+  const result = await resolveOidcUser(provider, claims);
+
+  if (!result.ok) {
+    await recordAuthEvent(req, "LOGIN_FAILED", {
+      email: claims.email,
+      metadata: {
+        method: "oidc",
+        provider: provider.id,
+        reason: result.reason,
+      },
+    });
+    return loginError(res, result.reason);
+  }
+
+  const { user, created, linked } = result;
+  const metadata = { method: "oidc", provider: provider.id };
+
+  if (created)
+    await recordAuthEvent(req, "REGISTER", {
+      userId: user.id,
+      email: user.email,
+      metadata,
+    });
+  else if (linked)
+    await recordAuthEvent(req, "IDENTITY_LINKED", {
+      userId: user.id,
+      email: user.email,
+      metadata,
+    });
+
+  if (user.disabledAt) {
+    await recordAuthEvent(req, "LOGIN_FAILED", {
+      userId: user.id,
+      email: user.email,
+      metadata: { ...metadata, reason: "disabled" },
+    });
+    return loginError(res, "account_disabled");
+  }
+
+  if (user.totpEnabledAt)
+    return res.redirect(
+      appUrl("/login", { challenge: createLoginChallenge(user) }),
+    );
+
+  await recordAuthEvent(req, "LOGIN", {
+    userId: user.id,
+    email: user.email,
+    metadata,
+  });
+  await startSession(req, res, user);
+
+  return res.redirect(appUrl("/"));
+});
+
+export default router;
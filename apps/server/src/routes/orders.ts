@@ -0,0 +1,241 @@
+import express, { Router, type Response } from "express";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { hasPermission } from "@/lib/permissions";
+import { placeOrder, type PlaceOrderResult } from "@/lib/orders";
+import { isStorableQuantity, UNITS } from "@/lib/units";
+import {
+  acceptApiKey,
+  requireAuth,
+  requirePermission,
+} from "@/middleware/auth";
+import { idempotent } from "@/middleware/idempotency";
+import { formatZodErrors } from "@/utility/zod-error-formatter";
+
+/**
+ * Router for orders (see `@/lib/orders`).
+ *
+ * Exposes:
+ * - `POST /api/orders` to check out one or more sweets (auth required);
+ *   accepts an `Idempotency-Key` header so retries are safe
+ * - `GET /api/orders` to list the current user's orders
+ * - `GET /api/orders/all` (`order.read`) to list every customer's orders
+ * - `GET /api/orders/:id` to view one order, for its owner or with
+ *   `order.read`
+ */
+const router: Router = express.Router();
+
+/**
+ * Respond to a failed `placeOrder` the same way wherever orders are
+ * placed:
+ * - `404` when a sweet (or a variant, listed in `variantIds`) does not
+ *   exist
+ * - `400` with the `sweetIds` when a quantity does not fit the sweet's
+ *   unit (e.g. half a piece, or grams of a sweet sold by the piece)
+ * - `400` with the `shortages` when stock does not cover the order
+ * - `409` with `code: "STOCK_CONFLICT"` when a concurrent purchase took
+ *   the stock first; the client may retry
+ */
+export function refuseOrder(
+  res: Response,
+  result: Exclude<PlaceOrderResult, { ok: true }>,
+) {
+  switch (result.reason) {
+    case "not_found":
+      return res
+        .status(404)
+        .json({
+          error: "Not found",
+          sweetIds: result.sweetIds,
+          variantIds: result.variantIds,
+        });
+    case "invalid_quantity":
+      return res.status(400).json({
+        error: "Quantity does not fit the sweet's unit",
+        sweetIds: result.sweetIds,
+      });
+    case "insufficient_stock":
+      return res
+        .status(400)
+        .json({ error: "Insufficient stock", shortages: result.shortages });
+    case "stock_conflict":
+      return res.status(409).json({
+        error: "Stock changed while purchasing, please try again",
+        code: "STOCK_CONFLICT",
+      });
+  }
+}
+
+/**
+ * Schema for `POST /api/orders`: at least one `{ sweetId, quantity }`,
+ * with an optional `unit` the quantity is in (the sweet's by default) or a
+ * `variantId` to buy whole packs of. Lines for the same sweet or variant
+ * are added together.
+ */
+const CheckoutSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        sweetId: z.string().min(1, { message: "Sweet id is required" }),
+        quantity: z.coerce
+          .number()
+          .positive({ message: "Quantity must be positive" })
+          .refine(isStorableQuantity, {
+            message: "Quantity can have at most three decimals",
+          }),
+        unit: z.enum(UNITS).optional(),
+        variantId: z.string().min(1).optional(),
+      }),
+    )
+    .min(1, { message: "Add at least one sweet" })
+    .max(100, { message: "An order can have at most 100 lines" }),
+});
+
+/**
+ * Query schema for the order lists. `from`/`to` bound `createdAt`
+ * (inclusive); `userId` only applies to `GET /api/orders/all`.
+ */
+const OrderQuery = z
+  .object({
+    userId: z
+      .string()
+      .trim()
+      .transform((v) => (v === "" ? undefined : v))
+      .optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    page: z.coerce.number().int().positive().default(1),
+    pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  })
+  .refine((q) => !q.from || !q.to || q.from <= q.to, {
+    message: "`from` must be before `to`",
+    path: ["from"],
+  });
+
+/**
+ * Fetch a page of orders matching `where`, newest first, with their items.
+ */
+async function listOrders(
+  where: any,
+  { page, pageSize }: { page: number; pageSize: number },
+  include: any = {},
+) {
+  const [orders, total] = await Promise.all([
+    prisma.order.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      include: { items: true, ...include },
+    }),
+    prisma.order.count({ where }),
+  ]);
+
+  return { orders, total, page, pageSize };
+}
+
+function createdAtRange(from?: Date, to?: Date) {
+  if (!from && !to) return undefined;
+  const range: any = {};
+  if (from) range.gte = from;
+  if (to) range.lte = to;
+  return range;
+}
+
+/**
+ * POST /api/orders
+ * - Authenticated users may check out `items`, a list of
+ *   `{ sweetId, quantity }`.
+ * - All or nothing: either every line is in stock and the order is placed,
+ *   or nothing changes (see `refuseOrder` for the error responses).
+ * - Responds 201 with the order and its items.
+ */
+router.post(
+  "/",
+  acceptApiKey("sweet.purchase"),
+  requireAuth,
+  idempotent,
+  async (req, res) => {
+    const parsed = CheckoutSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+    const result = await placeOrder(req.user!, parsed.data.items);
+    if (!result.ok) return refuseOrder(res, result);
+
+    return res.status(201).json({ order: result.order });
+  },
+);
+
+/**
+ * GET /api/orders
+ * - Lists the current user's orders, newest first, optionally within a
+ *   `from`/`to` range.
+ * - Responds with `{ orders, total, page, pageSize }`.
+ */
+router.get("/", requireAuth, async (req, res) => {
+  const parsed = OrderQuery.safeParse(req.query);
+  if (!parsed.success)
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+  const { from, to } = parsed.data;
+  const where: any = { userId: req.user!.id };
+  const createdAt = createdAtRange(from, to);
+  if (createdAt) where.createdAt = createdAt;
+
+  return res.status(200).json(await listOrders(where, parsed.data));
+});
+
+/**
+ * GET /api/orders/all
+ * - Requires the `order.read` permission.
+ * - Lists every order, filtered by `userId` and a `from`/`to` range. Each
+ *   order includes the customer's id, name and email.
+ */
+router.get(
+  "/all",
+  requireAuth,
+  requirePermission("order.read"),
+  async (req, res) => {
+    const parsed = OrderQuery.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+    const { userId, from, to } = parsed.data;
+    const where: any = {};
+    if (userId) where.userId = userId;
+    const createdAt = createdAtRange(from, to);
+    if (createdAt) where.createdAt = createdAt;
+
+    return res.status(200).json(
+      await listOrders(where, parsed.data, {
+        user: { select: { id: true, name: true, email: true } },
+      }),
+    );
+  },
+);
+
+/**
+ * GET /api/orders/:id
+ * - Returns the order with its items to its owner or users with
+ *   `order.read`; 404 for everyone else, so order ids are not disclosed.
+ */
+router.get("/:id", requireAuth, async (req, res) => {
+  const order = await prisma.order.findUnique({
+    where: { id: req.params.id },
+    include: {
+      items: true,
+      user: { select: { id: true, name: true, email: true } },
+    },
+  });
+
+  if (
+    !order ||
+    (order.userId !== req.user!.id && !hasPermission(req.user!, "order.read"))
+  )
+    return res.status(404).json({ error: "Not found" });
+
+  return res.status(200).json({ order });
+});
+
+export default router;
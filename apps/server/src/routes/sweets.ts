@@ -1,152 +1,461 @@
-import express, { Router } from "express";
+import express, { Router, type RequestHandler } from "express";
+import multer from "multer";
 import { z } from "zod";
 import prisma from "@/lib/prisma";
-import { requireAuth, requireAdmin } from "@/middleware/auth";
+import { hasPermission } from "@/lib/permissions";
+import { byExpiry, isExpired, startOfToday } from "@/lib/batches";
+import { ALLERGENS, DIETARY_TAGS, dietaryConflict } from "@/lib/dietary";
+import {
+  IMAGE_MAX_BYTES,
+  IMAGE_MAX_PER_SWEET,
+  PRIMARY_IMAGE,
+  processImage,
+  removeImageFiles,
+  toImageJson,
+  withPrimaryImage,
+} from "@/lib/images";
+import { placeOrder } from "@/lib/orders";
+import {
+  STOCK_MOVEMENT_TYPES,
+  moveStock,
+  recordStockMovement,
+} from "@/lib/stock";
+import {
+  convertQuantity,
+  fitsUnit,
+  isStorableQuantity,
+  roundQuantity,
+  toMilli,
+  UNITS,
+  type Unit,
+} from "@/lib/units";
+import { ACTIVE_VARIANTS, withFromPrice } from "@/lib/variants";
+import {
+  acceptApiKey,
+  requireAuth,
+  requirePermission,
+} from "@/middleware/auth";
+import { idempotent } from "@/middleware/idempotency";
+import { refuseOrder } from "@/routes/orders";
 import { formatZodErrors } from "@/utility/zod-error-formatter";
 
 /**
  * Router for sweets resources.
  *
  * Exposes:
- * - `POST /api/sweets` (admin only) to create sweets
- * - `PUT /api/sweets/:id` (admin + owner) to update sweets
- * - `DELETE /api/sweets/:id` (admin + owner) to delete sweets
+ * - `POST /api/sweets` (`sweet.create`) to create sweets
+ * - `PUT /api/sweets/:id` (`sweet.update`) to update sweets; changing the
+ *   price also needs `sweet.price.update`
+ * - `DELETE /api/sweets/:id` (`sweet.delete`) to archive sweets
+ * - `POST /api/sweets/:id/restore` (`sweet.delete`) to restore archived
+ *   sweets
  * - `GET /api/sweets` to list sweets (auth required)
  * - `GET /api/sweets/search` to search sweets (auth required)
- * - `POST /api/sweets/:id/purchase` to purchase quantity (auth required)
- * - `POST /api/sweets/:id/restock` to restock (admin + owner)
+ * - `GET /api/sweets/archived` (`sweet.delete`) to list archived sweets
+ * - `POST /api/sweets/:id/purchase` to purchase quantity (auth required);
+ *   accepts an `Idempotency-Key` header so retries are safe
+ * - `POST /api/sweets/:id/restock` (`stock.restock`) to restock, as a
+ *   batch with its production and best-before dates
+ * - `GET /api/sweets/:id/batches` (`stock.restock`) to list a sweet's
+ *   batches with stock left
+ * - `GET /api/sweets/:id/movements` (`stock.restock`) to list a sweet's
+ *   stock movements
+ * - `POST /api/sweets/:id/movements` (`stock.restock`) to record waste,
+ *   returns and stock-take adjustments
+ * - `POST /api/sweets/:id/transfer` (`sweet.update`) to hand a sweet's
+ *   creator record to another user
+ * - `GET /api/sweets/:id/images` to list a sweet's images (auth required)
+ * - `POST /api/sweets/:id/images` (`sweet.update`) to upload images
+ * - `PUT /api/sweets/:id/images/order` (`sweet.update`) to reorder them
+ * - `DELETE /api/sweets/:id/images/:imageId` (`sweet.update`) to remove one
+ * - `POST /api/sweets/:id/variants` (`sweet.update`) to add a pack size
+ * - `PUT /api/sweets/:id/variants/:variantId` (`sweet.update`) to edit one;
+ *   changing its price also needs `sweet.price.update`
+ * - `DELETE /api/sweets/:id/variants/:variantId` (`sweet.update`) to
+ *   archive one
+ *
+ * Sweets belong to the shop; `userId` records who created a sweet and does
+ * not limit who may manage it.
+ * Archived sweets (`deletedAt` set) are left out of listings and searches
+ * and cannot be bought, edited or restocked, but stay in order history and
+ * the stock ledger.
+ * Every stock change is recorded in the stock movement ledger (see
+ * `@/lib/stock`).
+ * A sweet's `unit` is set when it is created; its stock and every quantity
+ * sent for it are in that unit, unless a purchase or restock names another
+ * `unit` to convert from (see `@/lib/units`).
+ * Pack-size variants (see `@/lib/variants`) have their own price and stock
+ * of whole packs; purchases, restocks and movements take a `variantId` to
+ * apply to one.
+ * Sweets list their `ingredients`, `allergens` and `dietaryTags` (see
+ * `@/lib/dietary`), which searches can filter on.
+ * Permissions are granted by role (see `@/lib/permissions`).
+ *
+ * Every route also accepts an API key with the matching scope (see
+ * `acceptApiKey`).
  */
 const router: Router = express.Router();
 
+const storable = { message: "Can have at most three decimals" };
+
+/**
+ * Optional low-stock settings (see `@/lib/stock`); `null` clears them.
+ */
+const StockLevels = {
+  lowStockThreshold: z
+    .number()
+    .nonnegative({ message: "Low-stock threshold must be non-negative" })
+    .refine(isStorableQuantity, storable)
+    .nullable()
+    .optional(),
+  reorderQuantity: z
+    .number()
+    .positive({ message: "Reorder quantity must be positive" })
+    .refine(isStorableQuantity, storable)
+    .nullable()
+    .optional(),
+};
+
+/**
+ * Optional ingredients, allergens and dietary tags (see `@/lib/dietary`);
+ * repeated values are dropped and `null` clears the ingredients.
+ */
+const Dietary = {
+  ingredients: z.string().trim().max(2000).nullable().optional(),
+  allergens: z
+    .array(z.enum(ALLERGENS))
+    .transform((values) => [...new Set(values)])
+    .optional(),
+  dietaryTags: z
+    .array(z.enum(DIETARY_TAGS))
+    .transform((values) => [...new Set(values)])
+    .optional(),
+};
+
+/**
+ * `errors` for the quantities in `values` with more decimals than `unit`
+ * allows (e.g. half a piece), or `null` when they all fit.
+ */
+function unitErrors(values: Record<string, unknown>, unit: Unit) {
+  const errors: Record<string, string[]> = {};
+  for (const [field, value] of Object.entries(values))
+    if (typeof value === "number" && !fitsUnit(value, unit))
+      errors[field] = [`Must be a whole number of ${unit.toLowerCase()}s`];
+  return Object.keys(errors).length ? errors : null;
+}
+
 /**
  * Schema for creating a `Sweet`.
  * Validates required fields and provides custom messages used by
- * `formatZodErrors` to return structured errors to clients.
+ * `formatZodErrors` to return structured errors to clients. `unit` (see
+ * `@/lib/units`) defaults to `PIECE`; `price` is per piece, per 100 g or
+ * per kg accordingly. Returns 400 when the allergens contradict the
+ * dietary tags (e.g. a vegan sweet with dairy).
  */
 const CreateSweetSchema = z.object({
   name: z
     .string({ error: "Name is required" })
     .min(1, { message: "Name is required" }),
+  unit: z.enum(UNITS).default("PIECE"),
   price: z
     .number({ error: "Price is required" })
     .nonnegative({ message: "Price must be non-negative" }),
   stock: z
     .number({ error: "Stock is required" })
-    .int({ message: "Stock must be an integer" })
-    .nonnegative({ message: "Stock must be non-negative" }),
+    .nonnegative({ message: "Stock must be non-negative" })
+    .refine(isStorableQuantity, storable),
   categoryId: z
     .string({ error: "Category ID is required" })
     .min(1, { message: "Category ID is required" }),
+  ...StockLevels,
+  ...Dietary,
 });
 
-router.post("/", requireAuth, requireAdmin, async (req, res) => {
-  const parsed = CreateSweetSchema.safeParse(req.body);
+router.post(
+  "/",
+  acceptApiKey("sweet.create"),
+  requireAuth,
+  requirePermission("sweet.create"),
+  async (req, res) => {
+    const parsed = CreateSweetSchema.safeParse(req.body);
 
-  if (!parsed.success)
-    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
 
-  const { name, price, stock, categoryId } = parsed.data;
+    const { name, unit, price, stock, categoryId, ...rest } = parsed.data;
+    const { ingredients, allergens = [], dietaryTags = [], ...levels } = rest;
 
-  // ensure category exists
-  const category = await prisma.category.findUnique({
-    where: { id: categoryId } as any,
-  });
+    const misfit = unitErrors({ stock, ...levels }, unit);
+    if (misfit) return res.status(400).json({ errors: misfit });
 
-  if (!category) return res.status(400).json({ error: "Invalid category" });
+    const conflict = dietaryConflict(allergens, dietaryTags);
+    if (conflict) return res.status(400).json({ error: conflict });
 
-  const sweet = await prisma.sweet.create({
-    data: { name, price, stock, categoryId, userId: req.user!.id },
-  });
+    // ensure category exists and is not archived
+    const category = await prisma.category.findUnique({
+      where: { id: categoryId } as any,
+    });
 
-  return res.status(201).json({ sweet });
-});
+    if (!category || category.deletedAt)
+      return res.status(400).json({ error: "Invalid category" });
+
+    // The opening stock is the sweet's first movement
+    const sweet = await prisma.$transaction(async (tx: any) => {
+      const sweet = await tx.sweet.create({
+        data: {
+          name,
+          unit,
+          price,
+          stock,
+          categoryId,
+          ...levels,
+          ingredients,
+          allergens,
+          dietaryTags,
+          userId: req.user!.id,
+        },
+      });
+
+      if (stock > 0)
+        await tx.stockMovement.create({
+          data: {
+            sweetId: sweet.id,
+            type: "RESTOCK",
+            delta: stock,
+            balance: stock,
+            userId: req.user!.id,
+            reason: "Opening stock",
+          },
+        });
+
+      return sweet;
+    });
+
+    return res.status(201).json({ sweet });
+  },
+);
 
 /**
  * Schema for updating a `Sweet`.
  * - All fields optional but at least one must be provided.
+ * - `stockReason` is recorded on the `ADJUSTMENT` movement when `stock`
+ *   changes.
+ * - The `unit` cannot change, as stock and history are in it.
  */
-// Update a sweet - only admin and only the creator can update
+// Update a sweet - needs `sweet.update`
 const UpdateSweetSchema = z
   .object({
     name: z.string().min(1).optional(),
     price: z.number().nonnegative().optional(),
-    stock: z.number().int().nonnegative().optional(),
+    stock: z
+      .number()
+      .nonnegative()
+      .refine(isStorableQuantity, storable)
+      .optional(),
     categoryId: z.string().optional(),
+    stockReason: z.string().trim().max(200).optional(),
+    ...StockLevels,
+    ...Dietary,
   })
-  .refine((o) => Object.keys(o).length > 0, {
+  .refine(({ stockReason, ...o }) => Object.keys(o).length > 0, {
     message: "At least one field is required",
   });
 
 /**
  * PUT /api/sweets/:id
- * - Requires authentication and admin role.
- * - Only the sweet owner (creator) may update the sweet.
+ * - Requires authentication and the `sweet.update` permission. Sweets
+ *   belong to the shop, so any such user may update any sweet.
+ * - Changing the price additionally requires `sweet.price.update`.
+ * - `lowStockThreshold` and `reorderQuantity` set when the sweet counts as
+ *   low on stock (see `GET /api/inventory/low-stock`).
+ * - `allergens` and `dietaryTags` replace the sweet's lists; 400 when,
+ *   after the update, they contradict each other.
+ * - Returns 404 for unknown or archived sweets, and 400 when moving it to
+ *   an unknown or archived category.
+ * - Setting `stock` records the difference as an `ADJUSTMENT` movement. It
+ *   only applies if the stock has not changed since it was read; otherwise
+ *   nothing is updated and 409 with `code: "STOCK_CONFLICT"` is returned.
  * - Validates the payload and returns 400 with structured errors when invalid.
  */
-router.put("/:id", requireAuth, requireAdmin, async (req, res) => {
-  const parsed = UpdateSweetSchema.safeParse(req.body);
+router.put(
+  "/:id",
+  acceptApiKey("sweet.update"),
+  requireAuth,
+  requirePermission("sweet.update"),
+  async (req, res) => {
+    const parsed = UpdateSweetSchema.safeParse(req.body);
 
-  if (!parsed.success)
-    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
 
-  const id = req.params.id;
+    const id = req.params.id;
 
-  const sweet = await prisma.sweet.findUnique({ where: { id } as any });
+    const sweet = await prisma.sweet.findUnique({ where: { id } as any });
 
-  if (!sweet) return res.status(404).json({ error: "Not found" });
+    if (!sweet || sweet.deletedAt)
+      return res.status(404).json({ error: "Not found" });
 
-  // Only the creator can modify
-  if (sweet.userId !== req.user!.id)
-    return res
-      .status(403)
-      .json({ error: "Only sweet owner allowed to update" });
+    const { price } = parsed.data;
+    if (
+      price !== undefined &&
+      price !== Number(sweet.price) &&
+      !hasPermission(req.user!, "sweet.price.update")
+    )
+      return res
+        .status(403)
+        .json({ error: "Missing permission: sweet.price.update" });
 
-  const updated = await prisma.sweet.update({
-    where: { id } as any,
-    data: parsed.data,
-  });
+    const { stock, stockReason, ...data } = parsed.data;
 
-  return res.status(200).json({ sweet: updated });
-});
+    const misfit = unitErrors(
+      {
+        stock,
+        lowStockThreshold: data.lowStockThreshold,
+        reorderQuantity: data.reorderQuantity,
+      },
+      sweet.unit,
+    );
+    if (misfit) return res.status(400).json({ errors: misfit });
+
+    const conflict = dietaryConflict(
+      data.allergens ?? sweet.allergens,
+      data.dietaryTags ?? sweet.dietaryTags,
+    );
+    if (conflict) return res.status(400).json({ error: conflict });
+
+    // ensure a new category exists and is not archived
+    if (data.categoryId && data.categoryId !== sweet.categoryId) {
+      const category = await prisma.category.findUnique({
+        where: { id: data.categoryId } as any,
+      });
+      if (!category || category.deletedAt)
+        return res.status(400).json({ error: "Invalid category" });
+    }
+
+    if (stock === undefined || toMilli(stock) === toMilli(sweet.stock)) {
+      const updated = await prisma.sweet.update({
+        where: { id } as any,
+        data,
+      });
+      return res.status(200).json({ sweet: updated });
+    }
+
+    const updated = await prisma.$transaction(async (tx: any) => {
+      const movement = await recordStockMovement(tx, {
+        sweetId: id,
+        type: "ADJUSTMENT",
+        delta: (toMilli(stock) - toMilli(sweet.stock)) / 1000,
+        userId: req.user!.id,
+        reason: stockReason || "Stock set on update",
+        expectedStock: roundQuantity(sweet.stock),
+      });
+      if (!movement) return null;
+
+      return tx.sweet.update({ where: { id }, data });
+    });
+
+    if (!updated)
+      return res.status(409).json({
+        error: "Stock changed while updating, please try again",
+        code: "STOCK_CONFLICT",
+      });
+
+    return res.status(200).json({ sweet: updated });
+  },
+);
 
 /**
  * DELETE /api/sweets/:id
- * - Requires authentication and admin role.
- * - Only the sweet owner (creator) may delete the sweet.
+ * - Requires authentication and the `sweet.delete` permission.
+ * - Archives the sweet rather than deleting the row, and takes it out of
+ *   every cart. Returns 404 for unknown or already archived sweets.
  */
-// Delete a sweet - only admin and only the creator
-router.delete("/:id", requireAuth, requireAdmin, async (req, res) => {
-  const id = req.params.id;
+// Archive a sweet - needs `sweet.delete`
+router.delete(
+  "/:id",
+  acceptApiKey("sweet.delete"),
+  requireAuth,
+  requirePermission("sweet.delete"),
+  async (req, res) => {
+    const id = req.params.id;
 
-  const sweet = await prisma.sweet.findUnique({ where: { id } as any });
+    const sweet = await prisma.sweet.findUnique({ where: { id } as any });
 
-  if (!sweet) return res.status(404).json({ error: "Not found" });
+    if (!sweet || sweet.deletedAt)
+      return res.status(404).json({ error: "Not found" });
 
-  if (sweet.userId !== req.user!.id)
-    return res
-      .status(403)
-      .json({ error: "Only sweet owner allowed to delete" });
+    const archived = await prisma.$transaction(async (tx: any) => {
+      await tx.cartItem.deleteMany({ where: { sweetId: id } });
+      return tx.sweet.update({
+        where: { id },
+        data: { deletedAt: new Date() },
+      });
+    });
 
-  await prisma.sweet.delete({ where: { id } as any });
+    return res.status(200).json({ deleted: true, sweet: archived });
+  },
+);
 
-  return res.status(200).json({ deleted: true });
-});
+/**
+ * POST /api/sweets/:id/restore
+ * - Requires authentication and the `sweet.delete` permission.
+ * - Brings an archived sweet back. Returns 404 unless the sweet is
+ *   archived, and 409 while its category is archived.
+ */
+router.post(
+  "/:id/restore",
+  acceptApiKey("sweet.delete"),
+  requireAuth,
+  requirePermission("sweet.delete"),
+  async (req, res) => {
+    const id = req.params.id;
+
+    const sweet = await prisma.sweet.findUnique({ where: { id } as any });
+
+    if (!sweet || !sweet.deletedAt)
+      return res.status(404).json({ error: "Not found" });
+
+    const category = await prisma.category.findUnique({
+      where: { id: sweet.categoryId } as any,
+    });
+    if (!category || category.deletedAt)
+      return res
+        .status(409)
+        .json({ error: "Restore the sweet's category first" });
+
+    const restored = await prisma.sweet.update({
+      where: { id } as any,
+      data: { deletedAt: null },
+    });
+
+    return res.status(200).json({ sweet: restored });
+  },
+);
 
 /**
  * GET /api/sweets
- * - Returns all sweets and includes relations (`category`, `user`).
+ * - Returns all sweets that are not archived and includes relations
+ *   (`category`, and the owning `user`'s id, name and email), the
+ *   `primaryImage` (or `null`), the `variants` that can be bought,
+ *   smallest first, and `fromPrice`, the lowest of their prices (the
+ *   sweet's own price when it has none).
  * - Authentication is required.
  */
 // GET / - list all sweets (auth required)
-router.get("/", requireAuth, async (_req, res) => {
+router.get("/", acceptApiKey("sweet.read"), requireAuth, async (_req, res) => {
   const sweets = await prisma.sweet.findMany({
+    where: { deletedAt: null },
     include: {
       category: true,
-      user: true,
+      user: { select: { id: true, name: true, email: true } },
+      images: PRIMARY_IMAGE,
+      variants: ACTIVE_VARIANTS,
     },
   });
 
-  return res.status(200).json({ sweets });
+  return res.status(200).json({
+    sweets: sweets.map((sweet: any) => withFromPrice(withPrimaryImage(sweet))),
+  });
 });
 
 /**
@@ -154,9 +463,23 @@ router.get("/", requireAuth, async (_req, res) => {
  */
 // GET /search - search sweets by name, category, or price range (auth required)
 
+/**
+ * A query parameter listing values of `values`, comma-separated or
+ * repeated (`?tags=VEGAN,JAIN` or `?tags=VEGAN&tags=JAIN`).
+ */
+const listOf = <T extends readonly [string, ...string[]]>(values: T) =>
+  z
+    .preprocess(
+      (v) => (typeof v === "string" ? v.split(",").filter(Boolean) : v),
+      z.array(z.enum(values)),
+    )
+    .optional();
+
 /**
  * Query schema for `GET /api/sweets/search`.
- * Accepts `name`, `categoryId`, `priceMin`, and `priceMax`.
+ * Accepts `name`, `categoryId`, `priceMin`, and `priceMax`, and lists of
+ * dietary tags and allergens a sweet must have (`tags`, `allergens`) or
+ * must not have (`excludeTags`, `excludeAllergens`).
  * Coerces numeric values and enforces `priceMin <= priceMax` when both
  * are present.
  */
@@ -177,6 +500,11 @@ export const SearchQuery = z
     priceMin: z.coerce.number().nonnegative().optional(),
 
     priceMax: z.coerce.number().nonnegative().optional(),
+
+    tags: listOf(DIETARY_TAGS),
+    excludeTags: listOf(DIETARY_TAGS),
+    allergens: listOf(ALLERGENS),
+    excludeAllergens: listOf(ALLERGENS),
   })
   .refine(
     (q) =>
@@ -193,124 +521,886 @@ export const SearchQuery = z
  * GET /api/sweets/search
  * - Requires authentication.
  * - Returns sweets that match filters for name (case-insensitive partial
- *   match), categoryId, and price range.
+ *   match), categoryId, and price range, that have every dietary tag in
+ *   `tags` and allergen in `allergens`, and none in `excludeTags` or
+ *   `excludeAllergens` (e.g. `excludeAllergens=NUTS` for nut-free sweets).
+ *   Archived sweets are left out.
+ * - Like `GET /api/sweets`, each sweet includes its `primaryImage`,
+ *   `variants` and `fromPrice`.
  */
-router.get("/search", requireAuth, async (req, res) => {
-  const parsed = SearchQuery.safeParse(req.query);
+router.get(
+  "/search",
+  acceptApiKey("sweet.read"),
+  requireAuth,
+  async (req, res) => {
+    const parsed = SearchQuery.safeParse(req.query);
 
-  if (!parsed.success) {
-    return res.status(400).json({
-      errors: formatZodErrors(parsed.error),
-    });
-  }
+    if (!parsed.success) {
+      return res.status(400).json({
+        errors: formatZodErrors(parsed.error),
+      });
+    }
 
-  console.log("Parsed search query:", parsed.data);
+    console.log("Parsed search query:", parsed.data);
 
-  const { name, categoryId, priceMin, priceMax } = parsed.data;
+    const { name, categoryId, priceMin, priceMax } = parsed.data;
+    const { tags, excludeTags, allergens, excludeAllergens } = parsed.data;
 
-  const where: any = {};
+    const where: any = { deletedAt: null };
 
-  if (name) {
-    where.name = {
-      contains: name,
-      mode: "insensitive",
-    };
-  }
+    if (name) {
+      where.name = {
+        contains: name,
+        mode: "insensitive",
+      };
+    }
 
-  if (categoryId) {
-    where.categoryId = categoryId;
-  }
+    if (categoryId) {
+      where.categoryId = categoryId;
+    }
 
-  if (priceMin !== undefined || priceMax !== undefined) {
-    where.price = {};
+    if (priceMin !== undefined || priceMax !== undefined) {
+      where.price = {};
 
-    if (priceMin !== undefined) {
-      where.price.gte = priceMin;
-    }
+      if (priceMin !== undefined) {
+        where.price.gte = priceMin;
+      }
 
-    if (priceMax !== undefined) {
-      where.price.lte = priceMax;
+      if (priceMax !== undefined) {
+        where.price.lte = priceMax;
+      }
     }
-  }
 
-  const sweets = await prisma.sweet.findMany({
-    where,
-    include: {
-      category: true,
-    },
-  });
+    if (tags?.length) where.dietaryTags = { hasEvery: tags };
+    if (allergens?.length) where.allergens = { hasEvery: allergens };
 
-  return res.status(200).json({ sweets });
-});
+    // Sweets with any of the excluded tags or allergens are left out
+    const excluded = [
+      excludeTags?.length && { dietaryTags: { hasSome: excludeTags } },
+      excludeAllergens?.length && { allergens: { hasSome: excludeAllergens } },
+    ].filter(Boolean);
+    if (excluded.length) where.NOT = excluded;
+
+    const sweets = await prisma.sweet.findMany({
+      where,
+      include: {
+        category: true,
+        images: PRIMARY_IMAGE,
+        variants: ACTIVE_VARIANTS,
+      },
+    });
+
+    return res.status(200).json({
+      sweets: sweets.map((sweet: any) =>
+        withFromPrice(withPrimaryImage(sweet)),
+      ),
+    });
+  },
+);
 
 /**
- * Schema for operations that require a numeric `quantity`.
+ * GET /api/sweets/archived
+ * - Requires the `sweet.delete` permission.
+ * - Returns archived sweets, most recently archived first, with their
+ *   category.
+ */
+router.get(
+  "/archived",
+  acceptApiKey("sweet.delete"),
+  requireAuth,
+  requirePermission("sweet.delete"),
+  async (_req, res) => {
+    const sweets = await prisma.sweet.findMany({
+      where: { deletedAt: { not: null } },
+      orderBy: { deletedAt: "desc" },
+      include: { category: true },
+    });
+
+    return res.status(200).json({ sweets });
+  },
+);
+
+/**
+ * Schema for operations that require a numeric `quantity`, in `unit` when
+ * given (the sweet's unit by default), or whole packs of `variantId`.
  */
 // POST /:id/purchase - purchase a quantity (auth required)
 const QuantitySchema = z.object({
   quantity: z.coerce
     .number()
-    .int()
-    .positive({ message: "Quantity must be a positive integer" }),
+    .positive({ message: "Quantity must be positive" })
+    .refine(isStorableQuantity, storable),
+  unit: z.enum(UNITS).optional(),
+  variantId: z.string().min(1).optional(),
 });
 
+/**
+ * The sweet's variant `variantId` if it can still be bought, else `null`.
+ */
+function activeVariant(sweetId: string, variantId: string) {
+  return prisma.sweetVariant.findFirst({
+    where: { id: variantId, sweetId, deletedAt: null },
+  });
+}
+
 /**
  * POST /api/sweets/:id/purchase
- * - Authenticated users may purchase a positive integer quantity of a
- *   sweet if enough stock is available.
- * - Returns 400 when requested quantity exceeds available stock.
+ * - Authenticated users may purchase a positive quantity of a sweet if
+ *   enough stock is available, e.g. `{ quantity: 250, unit: "GRAM" }` of a
+ *   sweet sold by the kg, or `{ quantity: 2, variantId }` for two packs.
+ *   The purchase is recorded as a single-item order (see
+ *   `POST /api/orders`) and the response includes the updated sweet and
+ *   the `order`.
+ * - Returns 400 when requested quantity exceeds available stock or does
+ *   not fit the sweet's unit.
+ * - The stock is only decremented while it still covers the quantity, so
+ *   concurrent purchases cannot oversell; the loser of a race gets 409
+ *   with `code: "STOCK_CONFLICT"` and may retry.
+ * - With an `Idempotency-Key` header a retried purchase returns the first
+ *   response instead of buying again (see `@/middleware/idempotency`).
  */
-router.post("/:id/purchase", requireAuth, async (req, res) => {
-  const parsed = QuantitySchema.safeParse(req.body);
+router.post(
+  "/:id/purchase",
+  acceptApiKey("sweet.purchase"),
+  requireAuth,
+  idempotent,
+  async (req, res) => {
+    const parsed = QuantitySchema.safeParse(req.body);
 
-  if (!parsed.success)
-    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
 
-  const id = req.params.id;
-  const { quantity } = parsed.data;
+    const id = req.params.id;
+    const { quantity, unit, variantId } = parsed.data;
 
-  const sweet = await prisma.sweet.findUnique({ where: { id } as any });
-  if (!sweet) return res.status(404).json({ error: "Not found" });
+    const result = await placeOrder(req.user!, [
+      { sweetId: id, variantId, quantity, unit },
+    ]);
+    if (!result.ok) return refuseOrder(res, result);
 
-  if (sweet.stock < quantity)
-    return res.status(400).json({ error: "Insufficient stock" });
+    const updated = await prisma.sweet.findUnique({ where: { id } as any });
 
-  const updated = await prisma.sweet.update({
-    where: { id } as any,
-    data: { stock: sweet.stock - quantity },
-  });
+    return res.status(200).json({ sweet: updated, order: result.order });
+  },
+);
 
-  return res.status(200).json({ sweet: updated });
-});
+/**
+ * Optional `reason` and `reference` (e.g. a supplier invoice number)
+ * recorded on a stock movement.
+ */
+const MovementNote = {
+  reason: z.string().trim().max(200).optional(),
+  reference: z.string().trim().max(100).optional(),
+};
+
+/**
+ * Schema for `POST /api/sweets/:id/restock`. The batch's `producedAt` and
+ * `bestBefore` dates are optional; a batch without a best-before date
+ * never expires.
+ */
+const RestockSchema = QuantitySchema.extend({
+  ...MovementNote,
+  producedAt: z.coerce.date().optional(),
+  bestBefore: z.coerce.date().optional(),
+}).refine(
+  (body) =>
+    !body.producedAt || !body.bestBefore || body.producedAt <= body.bestBefore,
+  { message: "Must not be before the production date", path: ["bestBefore"] },
+);
 
 /**
  * POST /api/sweets/:id/restock
- * - Admin users who originally created the sweet may add stock.
- * - Validates `quantity` and returns the updated sweet.
+ * - Users with the `stock.restock` permission may add stock to any sweet.
+ * - Validates `quantity`, converted from `unit` when given, records a
+ *   `RESTOCK` movement and its batch (see `@/lib/batches`) and returns the
+ *   updated sweet and the `batch`. Returns 400 when the quantity does not
+ *   fit the sweet's unit.
+ * - With a `variantId`, adds whole packs to that variant's stock and also
+ *   returns the updated `variant`.
  */
-// POST /:id/restock - add stock (admin + owner)
-router.post("/:id/restock", requireAuth, requireAdmin, async (req, res) => {
-  const parsed = QuantitySchema.safeParse(req.body);
-  if (!parsed.success)
-    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+// POST /:id/restock - add stock (`stock.restock`)
+router.post(
+  "/:id/restock",
+  acceptApiKey("stock.restock"),
+  requireAuth,
+  requirePermission("stock.restock"),
+  async (req, res) => {
+    const parsed = RestockSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
 
-  const id = req.params.id;
-  const { quantity } = parsed.data;
+    const id = req.params.id;
+    const { quantity, unit, variantId, reason, reference } = parsed.data;
+    const { producedAt, bestBefore } = parsed.data;
 
-  const sweet = await prisma.sweet.findUnique({ where: { id } as any });
-  if (!sweet) return res.status(404).json({ error: "Not found" });
+    const sweet = await prisma.sweet.findUnique({ where: { id } as any });
+    if (!sweet || sweet.deletedAt)
+      return res.status(404).json({ error: "Not found" });
 
-  if (sweet.userId !== req.user!.id)
+    const variant = variantId ? await activeVariant(id, variantId) : null;
+    if (variantId && !variant)
+      return res.status(404).json({ error: "Not found" });
+
+    // Variants are restocked in whole packs
+    const delta = convertQuantity(
+      quantity,
+      unit,
+      variant ? "PIECE" : sweet.unit,
+    );
+    if (delta === null)
+      return res
+        .status(400)
+        .json({ error: "Quantity does not fit the sweet's unit" });
+
+    const movement = await moveStock({
+      sweetId: id,
+      variantId,
+      type: "RESTOCK",
+      delta,
+      userId: req.user!.id,
+      reason,
+      reference,
+      batch: { producedAt, bestBefore },
+    });
+    if (!movement) return res.status(404).json({ error: "Not found" });
+
+    const updated = await prisma.sweet.findUnique({ where: { id } as any });
+    const batch = await prisma.stockBatch.findUnique({
+      where: { id: movement.batchId },
+    });
+    if (!variant) return res.status(200).json({ sweet: updated, batch });
+
+    const restocked = await prisma.sweetVariant.findUnique({
+      where: { id: variant.id },
+    });
     return res
-      .status(403)
-      .json({ error: "Only sweet owner allowed to restock" });
+      .status(200)
+      .json({ sweet: updated, variant: restocked, batch });
+  },
+);
+
+/**
+ * GET /api/sweets/:id/batches
+ * - Users with the `stock.restock` permission may list a sweet's batches
+ *   that still hold stock, its variants' included, in the order sales take
+ *   from them (earliest best-before first).
+ * - Responds with `{ batches }`. Each batch includes its variant's id and
+ *   label, if any, and whether it has `expired`.
+ */
+router.get(
+  "/:id/batches",
+  acceptApiKey("stock.restock"),
+  requireAuth,
+  requirePermission("stock.restock"),
+  async (req, res) => {
+    const id = req.params.id;
+
+    const sweet = await prisma.sweet.findUnique({ where: { id } as any });
+    if (!sweet) return res.status(404).json({ error: "Not found" });
+
+    const batches = await prisma.stockBatch.findMany({
+      where: { sweetId: id, quantity: { gt: 0 } },
+      include: { variant: { select: { id: true, label: true } } },
+    });
+
+    const today = startOfToday();
+    return res.status(200).json({
+      batches: batches
+        .sort(byExpiry)
+        .map((batch: any) => ({ ...batch, expired: isExpired(batch, today) })),
+    });
+  },
+);
+
+/**
+ * Schema for `POST /api/sweets/:id/movements`. Sales and restocks have
+ * their own routes; this records the other movements:
+ * - `WASTE`: stock thrown away (`delta` negative)
+ * - `RETURN`: stock brought back by a customer (`delta` positive)
+ * - `ADJUSTMENT`: a stock-take correction (`delta` either way, `reason`
+ *   required)
+ *
+ * `delta` is in the sweet's unit, or whole packs with a `variantId`.
+ */
+const MovementSchema = z
+  .object({
+    type: z.enum(["WASTE", "RETURN", "ADJUSTMENT"]),
+    variantId: z.string().min(1).optional(),
+    delta: z.coerce
+      .number()
+      .refine(isStorableQuantity, storable)
+      .refine((d) => d !== 0, { message: "Delta must not be zero" }),
+    ...MovementNote,
+  })
+  .refine((m) => m.type !== "WASTE" || m.delta < 0, {
+    message: "Waste must reduce stock",
+    path: ["delta"],
+  })
+  .refine((m) => m.type !== "RETURN" || m.delta > 0, {
+    message: "Returns must add stock",
+    path: ["delta"],
+  })
+  .refine((m) => m.type !== "ADJUSTMENT" || m.reason, {
+    message: "Adjustments need a reason",
+    path: ["reason"],
+  });
+
+/**
+ * POST /api/sweets/:id/movements
+ * - Users with the `stock.restock` permission may record waste, returns
+ *   and adjustments (see `MovementSchema`).
+ * - Returns 400 when a reduction exceeds the current stock, otherwise 201
+ *   with the `movement` and the updated sweet.
+ */
+router.post(
+  "/:id/movements",
+  acceptApiKey("stock.restock"),
+  requireAuth,
+  requirePermission("stock.restock"),
+  async (req, res) => {
+    const parsed = MovementSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+    const id = req.params.id;
+
+    const sweet = await prisma.sweet.findUnique({ where: { id } as any });
+    if (!sweet || sweet.deletedAt)
+      return res.status(404).json({ error: "Not found" });
+
+    const { variantId, delta } = parsed.data;
+    if (variantId && !(await activeVariant(id, variantId)))
+      return res.status(404).json({ error: "Not found" });
+
+    const misfit = unitErrors({ delta }, variantId ? "PIECE" : sweet.unit);
+    if (misfit) return res.status(400).json({ errors: misfit });
+
+    const movement = await moveStock({
+      sweetId: id,
+      ...parsed.data,
+      userId: req.user!.id,
+    });
+    if (!movement) return res.status(400).json({ error: "Insufficient stock" });
+
+    const updated = await prisma.sweet.findUnique({ where: { id } as any });
+
+    return res.status(201).json({ movement, sweet: updated });
+  },
+);
+
+/**
+ * Query schema for `GET /api/sweets/:id/movements`. Every filter is
+ * optional; `from`/`to` bound `createdAt` (inclusive).
+ */
+const MovementQuery = z
+  .object({
+    type: z.enum(STOCK_MOVEMENT_TYPES).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    page: z.coerce.number().int().positive().default(1),
+    pageSize: z.coerce.number().int().min(1).max(200).default(50),
+  })
+  .refine((q) => !q.from || !q.to || q.from <= q.to, {
+    message: "`from` must be before `to`",
+    path: ["from"],
+  });
+
+/**
+ * GET /api/sweets/:id/movements
+ * - Users with the `stock.restock` permission may read a sweet's stock
+ *   history, filtered by `type` and a `from`/`to` range.
+ * - Responds with `{ movements, total, page, pageSize }`, newest first.
+ *   Each movement includes the acting user's id, name and email, and the
+ *   label of the variant it moved packs of, if any.
+ */
+router.get(
+  "/:id/movements",
+  acceptApiKey("stock.restock"),
+  requireAuth,
+  requirePermission("stock.restock"),
+  async (req, res) => {
+    const parsed = MovementQuery.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+    const id = req.params.id;
+    const { type, from, to, page, pageSize } = parsed.data;
 
-  const updated = await prisma.sweet.update({
-    where: { id } as any,
-    data: { stock: sweet.stock + quantity },
+    const sweet = await prisma.sweet.findUnique({ where: { id } as any });
+    if (!sweet) return res.status(404).json({ error: "Not found" });
+
+    const where: any = { sweetId: id };
+    if (type) where.type = type;
+    if (from || to) {
+      where.createdAt = {};
+      if (from) where.createdAt.gte = from;
+      if (to) where.createdAt.lte = to;
+    }
+
+    const [movements, total] = await Promise.all([
+      prisma.stockMovement.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+          variant: { select: { id: true, label: true } },
+        },
+      }),
+      prisma.stockMovement.count({ where }),
+    ]);
+
+    return res.status(200).json({ movements, total, page, pageSize });
+  },
+);
+
+/**
+ * Schema for transferring a sweet to another user, identified by `userId`
+ * or `email`.
+ */
+const TransferSchema = z
+  .object({
+    userId: z.string().min(1).optional(),
+    email: z.email({ message: "Provide a valid email address." }).optional(),
+  })
+  .refine((o) => o.userId || o.email, {
+    message: "Provide the user id or email of the new owner",
+    path: ["userId"],
   });
 
-  return res.status(200).json({ sweet: updated });
+/**
+ * POST /api/sweets/:id/transfer
+ * - Requires the `sweet.update` permission.
+ * - Sets the sweet's `userId` (its creator record) to another user, e.g.
+ *   when the admin who created it leaves.
+ * - Returns 404 for an unknown or archived sweet, and 400 for an unknown,
+ *   disabled or deleted user.
+ */
+router.post(
+  "/:id/transfer",
+  acceptApiKey("sweet.update"),
+  requireAuth,
+  requirePermission("sweet.update"),
+  async (req, res) => {
+    const parsed = TransferSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+    const id = req.params.id;
+    const { userId, email } = parsed.data;
+
+    const sweet = await prisma.sweet.findUnique({ where: { id } as any });
+    if (!sweet || sweet.deletedAt)
+      return res.status(404).json({ error: "Not found" });
+
+    // Only to users who can still sign in
+    const owner = await prisma.user.findFirst({
+      where: {
+        ...(userId ? { id: userId } : { email }),
+        deletedAt: null,
+        disabledAt: null,
+      },
+    });
+    if (!owner) return res.status(400).json({ error: "Unknown user" });
+
+    const updated = await prisma.sweet.update({
+      where: { id } as any,
+      data: { userId: owner.id },
+    });
+
+    return res.status(200).json({ sweet: updated });
+  },
+);
+
+/**
+ * Schema for `POST /api/sweets/:id/variants`. `size` is how much of the
+ * sweet is in a pack, in the sweet's unit; `stock` is the opening stock of
+ * whole packs.
+ */
+const CreateVariantSchema = z.object({
+  label: z
+    .string({ error: "Label is required" })
+    .trim()
+    .min(1, { message: "Label is required" })
+    .max(50),
+  size: z
+    .number({ error: "Size is required" })
+    .positive({ message: "Size must be positive" })
+    .refine(isStorableQuantity, storable),
+  price: z
+    .number({ error: "Price is required" })
+    .nonnegative({ message: "Price must be non-negative" }),
+  sku: z
+    .string({ error: "SKU is required" })
+    .trim()
+    .min(1, { message: "SKU is required" })
+    .max(64),
+  stock: z
+    .number()
+    .int({ message: "Stock must be whole packs" })
+    .nonnegative({ message: "Stock must be non-negative" })
+    .default(0),
 });
 
+/**
+ * Schema for `PUT /api/sweets/:id/variants/:variantId`. Stock changes go
+ * through restocks and movements instead.
+ */
+const UpdateVariantSchema = CreateVariantSchema.omit({ stock: true })
+  .partial()
+  .refine((o) => Object.keys(o).length > 0, {
+    message: "At least one field is required",
+  });
+
+/**
+ * Whether another variant already uses `sku`.
+ */
+async function skuTaken(sku: string) {
+  return !!(await prisma.sweetVariant.findUnique({ where: { sku } }));
+}
+
+/**
+ * POST /api/sweets/:id/variants
+ * - Requires the `sweet.update` permission.
+ * - Adds a pack size to a sweet; a positive opening `stock` is recorded as
+ *   a `RESTOCK` movement. Responds 201 with the `variant`.
+ * - Returns 404 for an unknown or archived sweet, 400 when `size` does not
+ *   fit the sweet's unit and 409 when the SKU is in use.
+ */
+router.post(
+  "/:id/variants",
+  acceptApiKey("sweet.update"),
+  requireAuth,
+  requirePermission("sweet.update"),
+  async (req, res) => {
+    const parsed = CreateVariantSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+    const id = req.params.id;
+    const { stock, ...data } = parsed.data;
+
+    const sweet = await prisma.sweet.findUnique({ where: { id } as any });
+    if (!sweet || sweet.deletedAt)
+      return res.status(404).json({ error: "Not found" });
+
+    const misfit = unitErrors({ size: data.size }, sweet.unit);
+    if (misfit) return res.status(400).json({ errors: misfit });
+
+    if (await skuTaken(data.sku))
+      return res.status(409).json({ error: "SKU is already in use" });
+
+    // The opening stock is the variant's first movement
+    const variant = await prisma.$transaction(async (tx: any) => {
+      const variant = await tx.sweetVariant.create({
+        data: { ...data, sweetId: id, stock },
+      });
+
+      if (stock > 0)
+        await tx.stockMovement.create({
+          data: {
+            sweetId: id,
+            variantId: variant.id,
+            type: "RESTOCK",
+            delta: stock,
+            balance: stock,
+            userId: req.user!.id,
+            reason: "Opening stock",
+          },
+        });
+
+      return variant;
+    });
+
+    return res.status(201).json({ variant });
+  },
+);
+
+/**
+ * PUT /api/sweets/:id/variants/:variantId
+ * - Requires the `sweet.update` permission; changing the price also needs
+ *   `sweet.price.update`.
+ * - Updates a variant's label, size, price or SKU and responds with the
+ *   `variant`. Returns 404 for an unknown or archived variant, or one of
+ *   an archived sweet, and 409 when the new SKU is in use.
+ */
+router.put(
+  "/:id/variants/:variantId",
+  acceptApiKey("sweet.update"),
+  requireAuth,
+  requirePermission("sweet.update"),
+  async (req, res) => {
+    const parsed = UpdateVariantSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+    const { id, variantId } = req.params;
+    const data = parsed.data;
+
+    const sweet = await prisma.sweet.findUnique({ where: { id } });
+    if (!sweet || sweet.deletedAt)
+      return res.status(404).json({ error: "Not found" });
+
+    const variant = await activeVariant(id, variantId);
+    if (!variant) return res.status(404).json({ error: "Not found" });
+
+    if (
+      data.price !== undefined &&
+      data.price !== Number(variant.price) &&
+      !hasPermission(req.user!, "sweet.price.update")
+    )
+      return res
+        .status(403)
+        .json({ error: "Missing permission: sweet.price.update" });
+
+    if (data.size !== undefined) {
+      const misfit = unitErrors({ size: data.size }, sweet.unit);
+      if (misfit) return res.status(400).json({ errors: misfit });
+    }
+
+    if (data.sku && data.sku !== variant.sku && (await skuTaken(data.sku)))
+      return res.status(409).json({ error: "SKU is already in use" });
+
+    const updated = await prisma.sweetVariant.update({
+      where: { id: variantId },
+      data,
+    });
+
+    return res.status(200).json({ variant: updated });
+  },
+);
+
+/**
+ * DELETE /api/sweets/:id/variants/:variantId
+ * - Requires the `sweet.update` permission.
+ * - Archives the variant, like sweets, and takes it out of every cart.
+ *   Returns 404 for an unknown or already archived variant, or one of an
+ *   archived sweet.
+ */
+router.delete(
+  "/:id/variants/:variantId",
+  acceptApiKey("sweet.update"),
+  requireAuth,
+  requirePermission("sweet.update"),
+  async (req, res) => {
+    const { id, variantId } = req.params;
+
+    const sweet = await prisma.sweet.findUnique({ where: { id } });
+    if (!sweet || sweet.deletedAt)
+      return res.status(404).json({ error: "Not found" });
+
+    const variant = await activeVariant(id, variantId);
+    if (!variant) return res.status(404).json({ error: "Not found" });
+
+    const archived = await prisma.$transaction(async (tx: any) => {
+      await tx.cartItem.deleteMany({ where: { variantId } });
+      return tx.sweetVariant.update({
+        where: { id: variantId },
+        data: { deletedAt: new Date() },
+      });
+    });
+
+    return res.status(200).json({ variant: archived });
+  },
+);
+
+/**
+ * A sweet's images in display order.
+ */
+async function imagesOf(sweetId: string) {
+  const images = await prisma.sweetImage.findMany({
+    where: { sweetId },
+    orderBy: { position: "asc" },
+  });
+  return images.map(toImageJson);
+}
+
+/**
+ * Parses the `images` files of a multipart upload into memory, turning
+ * upload limit errors into 400 responses.
+ */
+const receiveImages: RequestHandler = (req, res, next) =>
+  multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: IMAGE_MAX_BYTES, files: IMAGE_MAX_PER_SWEET },
+  }).array("images")(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError)
+      return res.status(400).json({
+        error:
+          err.code === "LIMIT_FILE_SIZE"
+            ? `Images must be at most ${IMAGE_MAX_BYTES} bytes`
+            : err.message,
+      });
+    next(err);
+  });
+
+/**
+ * GET /api/sweets/:id/images
+ * - Authenticated users may list a sweet's images, primary first. Each has
+ *   its `url`, `thumbnailUrl`, `position` and dimensions.
+ */
+router.get(
+  "/:id/images",
+  acceptApiKey("sweet.read"),
+  requireAuth,
+  async (req, res) => {
+    const sweet = await prisma.sweet.findUnique({
+      where: { id: req.params.id } as any,
+    });
+    if (!sweet) return res.status(404).json({ error: "Not found" });
+
+    return res.status(200).json({ images: await imagesOf(sweet.id) });
+  },
+);
+
+/**
+ * POST /api/sweets/:id/images
+ * - Requires the `sweet.update` permission.
+ * - Accepts `multipart/form-data` with one or more `images` files (JPEG,
+ *   PNG or WebP, at most `IMAGE_MAX_BYTES` each). They are added after the
+ *   existing images, each with a generated thumbnail (see `@/lib/images`).
+ * - Returns 400 when no file is sent, a file is not a supported image or
+ *   the sweet would have more than `IMAGE_MAX_PER_SWEET` images; nothing is
+ *   stored then. Otherwise 201 with all of the sweet's `images`.
+ */
+router.post(
+  "/:id/images",
+  acceptApiKey("sweet.update"),
+  requireAuth,
+  requirePermission("sweet.update"),
+  receiveImages,
+  async (req, res) => {
+    const id = req.params.id;
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+    const sweet = await prisma.sweet.findUnique({ where: { id } as any });
+    if (!sweet || sweet.deletedAt)
+      return res.status(404).json({ error: "Not found" });
+
+    if (files.length === 0)
+      return res.status(400).json({ error: "No images uploaded" });
+
+    const existing = await prisma.sweetImage.count({ where: { sweetId: id } });
+    if (existing + files.length > IMAGE_MAX_PER_SWEET)
+      return res.status(400).json({
+        error: `A sweet can have at most ${IMAGE_MAX_PER_SWEET} images`,
+      });
+
+    const stored = [];
+    for (const file of files) {
+      const image = await processImage(id, file.buffer);
+      if (!image) {
+        await Promise.all(stored.map(removeImageFiles));
+        return res.status(400).json({
+          error: `${file.originalname} is not a JPEG, PNG or WebP image`,
+        });
+      }
+      stored.push(image);
+    }
+
+    const last = await prisma.sweetImage.findFirst({
+      where: { sweetId: id },
+      orderBy: { position: "desc" },
+    });
+    const start = last ? last.position + 1 : 0;
+
+    await prisma.sweetImage.createMany({
+      data: stored.map((image, i) => ({
+        ...image,
+        sweetId: id,
+        position: start + i,
+      })),
+    });
+
+    return res.status(201).json({ images: await imagesOf(id) });
+  },
+);
+
+/**
+ * Schema for `PUT /api/sweets/:id/images/order`: every image id of the
+ * sweet, in the new order.
+ */
+const ImageOrderSchema = z.object({
+  imageIds: z.array(z.string().min(1)),
+});
+
+/**
+ * PUT /api/sweets/:id/images/order
+ * - Requires the `sweet.update` permission.
+ * - Puts the images in the order of `imageIds`; the first becomes the
+ *   primary image. Returns 400 unless `imageIds` lists each of the sweet's
+ *   images exactly once.
+ */
+router.put(
+  "/:id/images/order",
+  acceptApiKey("sweet.update"),
+  requireAuth,
+  requirePermission("sweet.update"),
+  async (req, res) => {
+    const parsed = ImageOrderSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+    const id = req.params.id;
+    const { imageIds } = parsed.data;
+
+    const sweet = await prisma.sweet.findUnique({ where: { id } as any });
+    if (!sweet || sweet.deletedAt)
+      return res.status(404).json({ error: "Not found" });
+
+    const images = await prisma.sweetImage.findMany({ where: { sweetId: id } });
+    const known = new Set(images.map((image: any) => image.id));
+    if (
+      imageIds.length !== images.length ||
+      new Set(imageIds).size !== imageIds.length ||
+      !imageIds.every((imageId) => known.has(imageId))
+    )
+      return res
+        .status(400)
+        .json({ error: "List each of the sweet's images exactly once" });
+
+    await prisma.$transaction(async (tx: any) => {
+      for (const [position, imageId] of imageIds.entries())
+        await tx.sweetImage.update({
+          where: { id: imageId },
+          data: { position },
+        });
+    });
+
+    return res.status(200).json({ images: await imagesOf(id) });
+  },
+);
+
+/**
+ * DELETE /api/sweets/:id/images/:imageId
+ * - Requires the `sweet.update` permission.
+ * - Removes the image and its files; the next image becomes primary when
+ *   the primary image is removed. Responds with the remaining `images`.
+ * - Returns 404 for an unknown image, or an image of an archived sweet.
+ */
+router.delete(
+  "/:id/images/:imageId",
+  acceptApiKey("sweet.update"),
+  requireAuth,
+  requirePermission("sweet.update"),
+  async (req, res) => {
+    const { id, imageId } = req.params;
+
+    const sweet = await prisma.sweet.findUnique({ where: { id } });
+    if (!sweet || sweet.deletedAt)
+      return res.status(404).json({ error: "Not found" });
+
+    const image = await prisma.sweetImage.findFirst({
+      where: { id: imageId, sweetId: id },
+    });
+    if (!image) return res.status(404).json({ error: "Not found" });
+
+    await prisma.sweetImage.delete({ where: { id: image.id } });
+    await removeImageFiles(image);
+
+    return res.status(200).json({ images: await imagesOf(id) });
+  },
+);
+
 export default router;
@@ -0,0 +1,203 @@
+import express, { Router } from "express";
+import bcrypt from "bcryptjs";
+import QRCode from "qrcode";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { recordAuthEvent } from "@/lib/auth-events";
+import { generateSecret, provisioningUri, verifyTotp } from "@/lib/totp";
+import {
+  consumeTotpCode,
+  isTwoFactorMandatory,
+  regenerateRecoveryCodes,
+} from "@/lib/two-factor";
+import { requireAuth } from "@/middleware/auth";
+import { formatZodErrors } from "@/utility/zod-error-formatter";
+
+/**
+ * Router for two-factor authentication enrollment (current user).
+ *
+ * Exposes:
+ * - `GET /api/auth/2fa` for the current 2FA status
+ * - `POST /api/auth/2fa/setup` to start enrollment (secret + QR code)
+ * - `POST /api/auth/2fa/enable` to confirm enrollment with a first code
+ * - `POST /api/auth/2fa/recovery-codes` to replace the recovery codes
+ * - `POST /api/auth/2fa/disable` to turn 2FA off
+ *
+ * Logging in with 2FA is handled by `POST /api/auth/login/2fa`.
+ */
+const router: Router = express.Router();
+
+// Issuer label shown in authenticator apps
+const TOTP_ISSUER = process.env.TOTP_ISSUER || "Misthan";
+
+/**
+ * Schema for requests confirmed with a current TOTP code
+ */
+const CodeSchema = z.object({
+  code: z.string().min(1, { message: "Authentication code is required" }),
+});
+
+/**
+ * Schema for disabling 2FA: both the password and a current code
+ */
+const DisableSchema = z.object({
+  password: z.string().min(1, { message: "Password is required" }),
+  code: z.string().min(1, { message: "Authentication code is required" }),
+});
+
+/**
+ * GET /api/auth/2fa
+ * - Returns whether 2FA is enabled, whether it is mandatory for the user's
+ *   role, and how many unused recovery codes remain.
+ */
+router.get("/", requireAuth, async (req, res) => {
+  const user = req.user!;
+
+  const recoveryCodesRemaining = user.totpEnabledAt
+    ? await prisma.recoveryCode.count({
+        where: { userId: user.id, usedAt: null },
+      })
+    : 0;
+
+  return res.status(200).json({
+    enabled: Boolean(user.totpEnabledAt),
+    required: isTwoFactorMandatory(user),
+    recoveryCodesRemaining,
+  });
+});
+
+/**
+ * POST /api/auth/2fa/setup
+ * - Generates a new secret and returns it with its `otpauth://` URI and a
+ *   QR code (PNG data URL) for authenticator apps.
+ * - 2FA stays inactive until confirmed through `POST /enable`.
+ * - Returns 409 when 2FA is already enabled.
+ */
+router.post("/setup", requireAuth, async (req, res) => {
+  const user = req.user!;
+
+  if (user.totpEnabledAt)
+    return res
+      .status(409)
+      .json({ error: "Two-factor authentication is already enabled" });
+
+  const secret = generateSecret();
+  const otpauthUrl = provisioningUri(secret, user.email, TOTP_ISSUER);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totpSecret: secret, totpLastUsedStep: null },
+  });
+
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+  return res.status(200).json({ secret, otpauthUrl, qrCode });
+});
+
+/**
+ * POST /api/auth/2fa/enable
+ * - Confirms enrollment with a code from the authenticator app.
+ * - Returns fresh recovery codes; they are only shown this once.
+ */
+router.post("/enable", requireAuth, async (req, res) => {
+  const parsed = CodeSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+  const user = req.user!;
+
+  if (user.totpEnabledAt)
+    return res
+      .status(409)
+      .json({ error: "Two-factor authentication is already enabled" });
+
+  if (!user.totpSecret)
+    return res
+      .status(400)
+      .json({ error: "Start two-factor setup before enabling it" });
+
+  const step = verifyTotp(user.totpSecret, parsed.data.code);
+  if (step === null)
+    return res.status(400).json({ error: "Invalid authentication code" });
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totpEnabledAt: new Date(), totpLastUsedStep: step },
+  });
+
+  const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+  await recordAuthEvent(req, "TWO_FACTOR_ENABLED", {
+    userId: user.id,
+    email: user.email,
+  });
+
+  return res.status(200).json({ enabled: true, recoveryCodes });
+});
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * - Requires a current TOTP code.
+ * - Replaces all recovery codes, invalidating the previous set.
+ */
+router.post("/recovery-codes", requireAuth, async (req, res) => {
+  const parsed = CodeSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+  const user = req.user!;
+
+  if (!user.totpEnabledAt)
+    return res
+      .status(400)
+      .json({ error: "Two-factor authentication is not enabled" });
+
+  if (!(await consumeTotpCode(user, parsed.data.code)))
+    return res.status(400).json({ error: "Invalid authentication code" });
+
+  const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+  return res.status(200).json({ recoveryCodes });
+});
+
+/**
+ * POST /api/auth/2fa/disable
+ * - Requires the account password and a current TOTP code.
+ * - Returns 403 when 2FA is mandatory for the user's role.
+ */
+router.post("/disable", requireAuth, async (req, res) => {
+  const parsed = DisableSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+  const user = req.user!;
+
+  if (!user.totpEnabledAt)
+    return res
+      .status(400)
+      .json({ error: "Two-factor authentication is not enabled" });
+
+  if (isTwoFactorMandatory(user))
+    return res
+      .status(403)
+      .json({ error: "Two-factor authentication is required for your role" });
+
+  const passwordOk = await bcrypt.compare(parsed.data.password, user.password);
+  if (!passwordOk || !(await consumeTotpCode(user, parsed.data.code)))
+    return res.status(400).json({ error: "Invalid password or code" });
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+  });
+  await prisma.recoveryCode.deleteMany({ where: { userId: user.id } });
+
+  await recordAuthEvent(req, "TWO_FACTOR_DISABLED", {
+    userId: user.id,
+    email: user.email,
+  });
+
+  return res.status(200).json({ enabled: false });
+});
+
+export default router;
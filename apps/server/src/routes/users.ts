@@ -0,0 +1,175 @@
+import express, { Router } from "express";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { unlockAccount } from "@/lib/login-throttle";
+import { ROLES } from "@/lib/permissions";
+import { revokeUserSessions } from "@/lib/sessions";
+import { requireAuth, requirePermission } from "@/middleware/auth";
+import { toPublicUser } from "@/utility/public-user";
+import { formatZodErrors } from "@/utility/zod-error-formatter";
+
+/**
+ * Router for user administration (`user.manage` permission).
+ *
+ * Exposes:
+ * - `GET /api/users` to list and search accounts
+ * - `PATCH /api/users/:id` to change a user's role or disable them
+ * - `POST /api/users/:id/force-logout` to revoke all of a user's sessions
+ * - `POST /api/users/:id/unlock` to lift a login lockout
+ */
+const router: Router = express.Router();
+
+/**
+ * Query schema for `GET /api/users`: optional `search` (name or email) and
+ * 1-based `page` / `pageSize` pagination.
+ */
+const ListUsersQuery = z.object({
+  search: z
+    .string()
+    .trim()
+    .transform((v) => (v === "" ? undefined : v))
+    .optional(),
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * Schema for `PATCH /api/users/:id`. At least one of `role` or `disabled`
+ * must be provided.
+ */
+const UpdateUserSchema = z
+  .object({
+    role: z.enum(ROLES).optional(),
+    disabled: z.boolean().optional(),
+  })
+  .refine((o) => o.role !== undefined || o.disabled !== undefined, {
+    message: "Provide a role or disabled flag to update",
+    path: ["role"],
+  });
+
+/**
+ * GET /api/users
+ * - Requires authentication and the `user.manage` permission.
+ * - Lists accounts, newest first, excluding deleted (anonymized) ones.
+ *   `search` matches name or email case-insensitively.
+ * - Responds with `{ users, total, page, pageSize }`; users include their
+ *   role, `createdAt`, `lastLoginAt` and `disabledAt`.
+ */
+router.get(
+  "/",
+  requireAuth,
+  requirePermission("user.manage"),
+  async (req, res) => {
+    const parsed = ListUsersQuery.safeParse(req.query);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+    const { search, page, pageSize } = parsed.data;
+
+    const where: any = { deletedAt: null };
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: "insensitive" } },
+        { email: { contains: search, mode: "insensitive" } },
+      ];
+    }
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    return res
+      .status(200)
+      .json({ users: users.map(toPublicUser), total, page, pageSize });
+  },
+);
+
+/**
+ * PATCH /api/users/:id
+ * - Requires authentication and the `user.manage` permission.
+ * - Changes the user's `role` and/or disables (`disabled: true`) or
+ *   re-enables them. Disabling also revokes all of their sessions.
+ * - Admins cannot change their own role or disable themselves (400), so
+ *   at least one admin always remains.
+ */
+router.patch(
+  "/:id",
+  requireAuth,
+  requirePermission("user.manage"),
+  async (req, res) => {
+    const parsed = UpdateUserSchema.safeParse(req.body);
+    if (!parsed.success)
+      return res.status(400).json({ errors: formatZodErrors(parsed.error) });
+
+    const user = await prisma.user.findUnique({ where: { id: req.params.id } });
+    if (!user || user.deletedAt)
+      return res.status(404).json({ error: "Not found" });
+
+    if (user.id === req.user!.id)
+      return res
+        .status(400)
+        .json({ error: "You cannot change your own role or status" });
+
+    const { role, disabled } = parsed.data;
+    const data: { role?: string; disabledAt?: Date | null } = {};
+
+    if (role !== undefined) data.role = role;
+    if (disabled !== undefined)
+      data.disabledAt = disabled ? (user.disabledAt ?? new Date()) : null;
+
+    const updated = await prisma.user.update({ where: { id: user.id }, data });
+
+    if (disabled) await revokeUserSessions(user.id);
+
+    return res.status(200).json({ user: toPublicUser(updated) });
+  },
+);
+
+/**
+ * POST /api/users/:id/force-logout
+ * - Requires authentication and the `user.manage` permission.
+ * - Revokes every active session of the user, signing them out on all
+ *   devices. Responds with the number of sessions revoked.
+ */
+router.post(
+  "/:id/force-logout",
+  requireAuth,
+  requirePermission("user.manage"),
+  async (req, res) => {
+    const user = await prisma.user.findUnique({ where: { id: req.params.id } });
+    if (!user) return res.status(404).json({ error: "Not found" });
+
+    const revokedSessions = await revokeUserSessions(user.id);
+
+    return res.status(200).json({ revokedSessions });
+  },
+);
+
+/**
+ * POST /api/users/:id/unlock
+ * - Requires authentication and the `user.manage` permission.
+ * - Clears the failed-login counters for the user's email and phone so they
+ *   can log in again immediately. IP-level throttling is not affected.
+ */
+router.post(
+  "/:id/unlock",
+  requireAuth,
+  requirePermission("user.manage"),
+  async (req, res) => {
+    const user = await prisma.user.findUnique({ where: { id: req.params.id } });
+    if (!user) return res.status(404).json({ error: "Not found" });
+
+    await unlockAccount(user);
+
+    return res.status(200).json({ unlocked: true });
+  },
+);
+
+export default router;
@@ -1,17 +1,24 @@
 /**
  * Augment Express Request with application-specific properties.
  *
- * We attach a `user` object (from Prisma's `User` model) to the request
- * after successful authentication. Declaring it here lets us avoid
- * casting `req` to `any` across the codebase.
+ * We attach a `user` object (from Prisma's `User` model) and the id of its
+ * session (or the API key used) to the request after successful
+ * authentication. Declaring them
+ * here lets us avoid casting `req` to `any` across the codebase.
  */
-import type { User } from "@prisma/client";
+import type { ApiKey, User } from "@prisma/client";
 
 declare global {
   namespace Express {
     interface Request {
       /** The authenticated user (set by `requireAuth`) */
       user?: User;
+      /** Id of the `Session` backing the access token (set by `requireAuth`) */
+      sessionId?: string;
+      /** The API key used to authenticate, if any (set by `requireAuth`) */
+      apiKey?: ApiKey;
+      /** Scope an API key needs on this route (set by `acceptApiKey`) */
+      apiKeyScope?: string;
     }
   }
 }
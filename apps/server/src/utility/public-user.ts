@@ -0,0 +1,28 @@
+import { permissionsFor } from "@/lib/permissions";
+
+/**
+ * Strip credentials and other internal fields from a `User` before it is
+ * returned to clients.
+ *
+ * Removes the password hash and TOTP state, and exposes whether two-factor
+ * authentication is enabled as a boolean instead. The role's permissions
+ * are included so clients can hide actions the user cannot perform.
+ *
+ * @example
+ * res.json({ user: toPublicUser(user) })
+ */
+export function toPublicUser(user: any) {
+  const {
+    password: _password,
+    totpSecret: _totpSecret,
+    totpLastUsedStep: _totpLastUsedStep,
+    totpEnabledAt,
+    ...publicUser
+  } = user;
+
+  return {
+    ...publicUser,
+    twoFactorEnabled: Boolean(totpEnabledAt),
+    permissions: permissionsFor(user.role),
+  };
+}
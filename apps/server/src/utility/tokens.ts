@@ -0,0 +1,21 @@
+import crypto from "crypto";
+
+/**
+ * Generate a URL-safe random token suitable for emailing or storing in a
+ * cookie (refresh tokens, password reset links, invitations, ...).
+ *
+ * @param bytes number of random bytes (default 32)
+ */
+export function generateToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString("base64url");
+}
+
+/**
+ * Hash an opaque token for storage.
+ *
+ * Tokens are high-entropy random values, so a fast SHA-256 hash is
+ * sufficient (unlike passwords, which go through bcrypt).
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
@@ -2,7 +2,9 @@
  * Jest mock for a minimal Prisma client used in tests.
  *
  * Overview:
- * - Implements a small subset of Prisma models (`user`, `category`, `sweet`).
+ * - Implements a small subset of Prisma models (`user`, `session`,
+ *   `category`, `sweet`, ...). Models that only need the common CRUD
+ *   surface are built with the generic `mockModel` helper.
  * - Each model exposes methods that mirror Prisma's API shape
  *   (e.g., `findUnique`, `create`, `findMany`, `update`, `delete`).
  * - All data is stored in simple in-memory arrays to keep tests fast
@@ -25,22 +27,338 @@ import { jest } from "@jest/globals";
 const users: any[] = [];
 const categories: any[] = [];
 const sweets: any[] = [];
+const sessions: any[] = [];
+const passwordResetTokens: any[] = [];
+const invitations: any[] = [];
+const recoveryCodes: any[] = [];
+const apiKeys: any[] = [];
+const authEvents: any[] = [];
+const phoneOtps: any[] = [];
+const identities: any[] = [];
+const idempotencyKeys: any[] = [];
+const orders: any[] = [];
+const orderItems: any[] = [];
+const cartItems: any[] = [];
+const stockMovements: any[] = [];
+const stockAlerts: any[] = [];
+const sweetImages: any[] = [];
+const sweetVariants: any[] = [];
+const stockBatches: any[] = [];
+const loginAttempts: any[] = [];
 
-const prisma = {
+// Every store, for snapshotting in `$transaction`
+const stores = [
+  users,
+  categories,
+  sweets,
+  sessions,
+  passwordResetTokens,
+  invitations,
+  recoveryCodes,
+  apiKeys,
+  authEvents,
+  phoneOtps,
+  identities,
+  idempotencyKeys,
+  orders,
+  orderItems,
+  cartItems,
+  stockMovements,
+  stockAlerts,
+  sweetImages,
+  sweetVariants,
+  stockBatches,
+  loginAttempts,
+];
+
+// Transactions run one at a time, like serializable transactions
+let transactionQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Minimal `where` matcher used by the `*Many` helpers.
+ *
+ * Supports equality (including `null`), `{ not }`, `{ in }`, `{ contains }`
+ * and `{ equals }` (case-insensitive with `mode: "insensitive"`), the
+ * `gt`/`gte`/`lt`/`lte` comparisons per field (which never match `null`),
+ * `{ hasEvery }` and `{ hasSome }` on list fields and a top-level `OR` and
+ * `NOT`, which covers the filters issued by the application code.
+ */
+function matches(record: any, where: any = {}): boolean {
+  return Object.entries(where).every(([key, cond]: [string, any]) => {
+    if (key === "OR") return cond.some((w: any) => matches(record, w));
+    if (key === "NOT")
+      return [cond].flat().every((w: any) => !matches(record, w));
+
+    const value = record[key] ?? null;
+
+    if (cond && typeof cond === "object" && !(cond instanceof Date)) {
+      if ("not" in cond && value === cond.not) return false;
+      const fold = (v: string) =>
+        cond.mode === "insensitive" ? v.toLowerCase() : v;
+      if ("contains" in cond) {
+        if (!fold(String(value ?? "")).includes(fold(cond.contains)))
+          return false;
+      }
+      if ("equals" in cond && fold(String(value ?? "")) !== fold(cond.equals))
+        return false;
+      if ("in" in cond && !cond.in.includes(value)) return false;
+      const has = (v: any) => Array.isArray(value) && value.includes(v);
+      if ("hasEvery" in cond && !cond.hasEvery.every(has)) return false;
+      if ("hasSome" in cond && !cond.hasSome.some(has)) return false;
+      // Like SQL, comparisons never match `null`
+      const compares = ["gt", "gte", "lt", "lte"].some((op) => op in cond);
+      if (value === null && compares) return false;
+      if ("gt" in cond && !(value > cond.gt)) return false;
+      if ("gte" in cond && !(value >= cond.gte)) return false;
+      if ("lt" in cond && !(value < cond.lt)) return false;
+      if ("lte" in cond && !(value <= cond.lte)) return false;
+      return true;
+    }
+
+    if (cond instanceof Date)
+      return value instanceof Date && value.getTime() === cond.getTime();
+
+    return value === cond;
+  });
+}
+
+/**
+ * Sort `list` by a single `{ field: "asc" | "desc" }` Prisma `orderBy`.
+ */
+function sorted(list: any[], orderBy?: any) {
+  if (!orderBy) return list;
+  const [field, dir] = Object.entries(orderBy)[0] as [string, string];
+  return list.slice().sort((a, b) => {
+    const cmp = a[field] < b[field] ? -1 : a[field] > b[field] ? 1 : 0;
+    return dir === "desc" ? -cmp : cmp;
+  });
+}
+
+/**
+ * Apply Prisma `update` data to `record`, including the atomic number
+ * operations `{ increment }` and `{ decrement }`.
+ */
+function applyData(record: any, data: any) {
+  const next = { ...record, updatedAt: new Date() };
+  for (const [key, value] of Object.entries(data) as [string, any][]) {
+    if (value && typeof value === "object" && "increment" in value)
+      next[key] = (record[key] ?? 0) + value.increment;
+    else if (value && typeof value === "object" && "decrement" in value)
+      next[key] = (record[key] ?? 0) - value.decrement;
+    else next[key] = value;
+  }
+  return next;
+}
+
+/**
+ * Build a generic in-memory model delegate over `records`.
+ *
+ * Used for models that only need Prisma's common CRUD surface. Lookups use
+ * `matches`, so `findUnique` works with any unique field (`id`,
+ * `tokenHash`, ...). `orderBy` supports a single `{ field: "asc" | "desc" }`.
+ * `defaults` stands in for `@default(...)` column values on `create`, and
+ * `unique` lists compound unique constraints: `create` throws Prisma's
+ * `P2002` error when a record with the same values exists, and `upsert`
+ * finds records by them (e.g. `{ userId_sweetId: { userId, sweetId } }`).
+ */
+function mockModel(
+  records: any[],
+  idPrefix: string,
+  defaults: Record<string, unknown> = {},
+  unique: string[][] = [],
+) {
+  const model = {
+    findUnique: jest.fn(
+      async ({ where }: { where: any }) =>
+        records.find((r) => matches(r, where)) ?? null,
+    ),
+    findFirst: jest.fn(
+      async ({ where, orderBy }: { where?: any; orderBy?: any } = {}) =>
+        sorted(records.filter((r) => matches(r, where)), orderBy)[0] ?? null,
+    ),
+    findMany: jest.fn(
+      async ({
+        where,
+        orderBy,
+        skip = 0,
+        take,
+      }: { where?: any; orderBy?: any; skip?: number; take?: number } = {}) => {
+        const list = sorted(records.filter((r) => matches(r, where)), orderBy);
+        return list.slice(skip, take === undefined ? undefined : skip + take);
+      },
+    ),
+    count: jest.fn(
+      async ({ where }: { where?: any } = {}) =>
+        records.filter((r) => matches(r, where)).length,
+    ),
+    create: jest.fn(async ({ data }: { data: any }) => {
+      const duplicate = unique.some((fields) =>
+        records.some((r) => fields.every((field) => r[field] === data[field])),
+      );
+      if (duplicate)
+        throw Object.assign(new Error("Unique constraint failed"), {
+          code: "P2002",
+        });
+
+      const record = {
+        ...defaults,
+        ...data,
+        id: data.id ?? `${idPrefix}-${records.length + 1}`,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      records.push(record);
+      return record;
+    }),
+    createMany: jest.fn(async ({ data }: { data: any[] }) => {
+      data.forEach((item) =>
+        records.push({
+          ...item,
+          id: item.id ?? `${idPrefix}-${records.length + 1}`,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }),
+      );
+      return { count: data.length };
+    }),
+    update: jest.fn(async ({ where, data }: { where: any; data: any }) => {
+      const idx = records.findIndex((r) => matches(r, where));
+      if (idx === -1) throw new Error("Not found");
+      records[idx] = applyData(records[idx], data);
+      return records[idx];
+    }),
+    updateMany: jest.fn(async ({ where, data }: { where?: any; data: any }) => {
+      let count = 0;
+      records.forEach((r, idx) => {
+        if (!matches(r, where)) return;
+        records[idx] = applyData(r, data);
+        count++;
+      });
+      return { count };
+    }),
+    upsert: jest.fn(
+      async ({
+        where,
+        create,
+        update,
+      }: {
+        where: any;
+        create: any;
+        update: any;
+      }) => {
+        // Compound unique keys name their fields joined with "_"
+        const compound = (key: string) =>
+          unique.some((fields) => fields.join("_") === key);
+        const flat = Object.assign(
+          {},
+          ...Object.entries(where).map(([key, value]) =>
+            compound(key) ? value : { [key]: value },
+          ),
+        );
+
+        const idx = records.findIndex((r) => matches(r, flat));
+        if (idx === -1) return model.create({ data: create });
+        records[idx] = applyData(records[idx], update);
+        return records[idx];
+      },
+    ),
+    delete: jest.fn(async ({ where }: { where: any }) => {
+      const idx = records.findIndex((r) => matches(r, where));
+      if (idx === -1) throw new Error("Not found");
+      return records.splice(idx, 1)[0];
+    }),
+    deleteMany: jest.fn(async ({ where }: { where?: any } = {}) => {
+      const remaining = records.filter((r) => !matches(r, where));
+      const count = records.length - remaining.length;
+      records.splice(0, records.length, ...remaining);
+      return { count };
+    }),
+  };
+  return model;
+}
+
+const orderModel = mockModel(orders, "order");
+const stockBatchModel = mockModel(stockBatches, "batch", { variantId: null });
+
+// Attach an order's items, standing in for `include: { items: true }`
+const withItems = (order: any) =>
+  order && {
+    ...order,
+    items: orderItems.filter((item) => item.orderId === order.id),
+  };
+
+// A sweet's creator, standing in for `include: { user: { select } }`
+const ownerOf = (sweet: any) => {
+  const user = users.find((u) => u.id === sweet.userId);
+  return user ? { id: user.id, name: user.name, email: user.email } : null;
+};
+
+// A sweet's images, standing in for `include: { images: { orderBy, take } }`
+const imagesOf = (sweet: any, { orderBy, take }: any) =>
+  sorted(
+    sweetImages.filter((image) => image.sweetId === sweet.id),
+    orderBy,
+  ).slice(0, take);
+
+// A sweet's variants, standing in for
+// `include: { variants: { where, orderBy } }`
+const variantsOf = (sweet: any, { where, orderBy }: any) =>
+  sorted(
+    sweetVariants.filter(
+      (variant) => variant.sweetId === sweet.id && matches(variant, where),
+    ),
+    orderBy,
+  );
+
+const prisma: any = {
+  /**
+   * Mimics an interactive `prisma.$transaction(fn)`: runs `fn` with this
+   * client and restores every store if it throws.
+   */
+  $transaction: jest.fn((fn: (tx: any) => Promise<unknown>) => {
+    const run = transactionQueue.then(async () => {
+      const snapshot = stores.map((store) => store.slice());
+      try {
+        return await fn(prisma);
+      } catch (err) {
+        stores.forEach((store, i) =>
+          store.splice(0, store.length, ...snapshot[i]),
+        );
+        throw err;
+      }
+    });
+    transactionQueue = run.catch(() => {});
+    return run;
+  }),
   user: {
     /**
      * Mimics `prisma.user.findUnique({ where })`.
-     * Supports lookup by `email` or `id` and returns `null` when not found.
+     * Supports lookup by `email`, `phone` or `id` and returns `null` when
+     * not found.
      */
     findUnique: jest.fn(
-      async ({ where }: { where?: { email?: string; id?: string } }) => {
+      async ({
+        where,
+      }: {
+        where?: { email?: string; phone?: string; id?: string };
+      }) => {
         if (where?.email)
           return users.find((u) => u.email === where.email) ?? null;
+        if (where?.phone)
+          return users.find((u) => u.phone === where.phone) ?? null;
         if (where?.id) return users.find((u) => u.id === where.id) ?? null;
         return null;
       },
     ),
 
+    /**
+     * Mimics `prisma.user.findFirst({ where })` using `matches`.
+     */
+    findFirst: jest.fn(
+      async ({ where }: { where?: any } = {}) =>
+        users.find((u) => matches(u, where)) ?? null,
+    ),
+
     /**
      * Mimics `prisma.user.create({ data })` — returns the created user.
      * Adds `id`, `createdAt`, and `updatedAt` fields.
@@ -56,6 +374,52 @@ const prisma = {
       return user;
     }),
 
+    /**
+     * Mimics `prisma.user.findMany({ where, orderBy, skip, take })`.
+     */
+    findMany: jest.fn(
+      async ({
+        where,
+        orderBy,
+        skip = 0,
+        take,
+      }: { where?: any; orderBy?: any; skip?: number; take?: number } = {}) => {
+        const list = sorted(users.filter((u) => matches(u, where)), orderBy);
+        return list.slice(skip, take === undefined ? undefined : skip + take);
+      },
+    ),
+
+    /**
+     * Mimics `prisma.user.count({ where })`.
+     */
+    count: jest.fn(
+      async ({ where }: { where?: any } = {}) =>
+        users.filter((u) => matches(u, where)).length,
+    ),
+
+    /**
+     * Mimics `prisma.user.update({ where, data })`.
+     */
+    update: jest.fn(async ({ where, data }: { where: any; data: any }) => {
+      const idx = users.findIndex((u) => u.id === where.id);
+      if (idx === -1) throw new Error("Not found");
+      users[idx] = { ...users[idx], ...data, updatedAt: new Date() };
+      return users[idx];
+    }),
+
+    /**
+     * Mimics `prisma.user.updateMany({ where, data })`.
+     */
+    updateMany: jest.fn(async ({ where, data }: { where?: any; data: any }) => {
+      let count = 0;
+      users.forEach((u, idx) => {
+        if (!matches(u, where)) return;
+        users[idx] = { ...u, ...data, updatedAt: new Date() };
+        count++;
+      });
+      return { count };
+    }),
+
     /**
      * Mimics `prisma.user.deleteMany({ where })`.
      * Supports clearing by `email` or a full reset when `where` omitted.
@@ -70,6 +434,74 @@ const prisma = {
       return { count: 0 };
     }),
   },
+  session: mockModel(sessions, "session"),
+  passwordResetToken: mockModel(passwordResetTokens, "reset"),
+  invitation: mockModel(invitations, "invite"),
+  recoveryCode: mockModel(recoveryCodes, "recovery"),
+  apiKey: mockModel(apiKeys, "key"),
+  authEvent: mockModel(authEvents, "event"),
+  phoneOtp: mockModel(phoneOtps, "otp", { attempts: 0 }),
+  identity: mockModel(identities, "identity"),
+  idempotencyKey: mockModel(idempotencyKeys, "idem", {}, [["userId", "key"]]),
+  order: {
+    ...orderModel,
+    // Orders always come back with their items
+    findUnique: jest.fn(async (args: any) =>
+      withItems(await orderModel.findUnique(args)),
+    ),
+    findFirst: jest.fn(async (args: any) =>
+      withItems(await orderModel.findFirst(args)),
+    ),
+    findMany: jest.fn(async (args: any) =>
+      (await orderModel.findMany(args)).map(withItems),
+    ),
+    /**
+     * Mimics `prisma.order.create({ data })` with nested
+     * `items: { create: [...] }`.
+     */
+    create: jest.fn(async ({ data: { items, ...data } }: { data: any }) => {
+      const order = await orderModel.create({ data });
+      for (const item of items?.create ?? [])
+        orderItems.push({
+          ...item,
+          id: `item-${orderItems.length + 1}`,
+          orderId: order.id,
+        });
+      return withItems(order);
+    }),
+  },
+  orderItem: mockModel(orderItems, "item"),
+  cartItem: mockModel(cartItems, "cart", { variantId: null, variantKey: "" }, [
+    ["userId", "sweetId", "variantKey"],
+  ]),
+  stockMovement: mockModel(stockMovements, "movement"),
+  stockAlert: mockModel(stockAlerts, "alert", { resolvedAt: null }),
+  sweetImage: mockModel(sweetImages, "image"),
+  sweetVariant: mockModel(
+    sweetVariants,
+    "variant",
+    { stock: 0, deletedAt: null },
+    [["sku"]],
+  ),
+  loginAttempt: mockModel(loginAttempts, "attempt", { lockedUntil: null }),
+  stockBatch: {
+    ...stockBatchModel,
+    /**
+     * Like the generic `findMany`, also attaching the `sweet` and `variant`
+     * asked for in `include`.
+     */
+    findMany: jest.fn(async (args: any = {}) =>
+      (await stockBatchModel.findMany(args)).map((batch: any) => ({
+        ...batch,
+        ...(args.include?.sweet && {
+          sweet: sweets.find((s) => s.id === batch.sweetId) ?? null,
+        }),
+        ...(args.include?.variant && {
+          variant: sweetVariants.find((v) => v.id === batch.variantId) ?? null,
+        }),
+      })),
+    ),
+  },
   category: {
     /**
      * Mimics `prisma.category.findUnique({ where })`.
@@ -97,10 +529,21 @@ const prisma = {
       return category;
     }),
     /**
-     * Mimics `prisma.category.findMany()` — returns a shallow copy of all categories.
+     * Mimics `prisma.category.findMany({ where, orderBy })` — returns a
+     * shallow copy of the matching categories.
      */
-    findMany: jest.fn(async () => {
-      return categories.slice();
+    findMany: jest.fn(
+      async ({ where, orderBy }: { where?: any; orderBy?: any } = {}) =>
+        sorted(categories.filter((c) => matches(c, where)), orderBy),
+    ),
+    /**
+     * Mimics `prisma.category.update({ where, data })`.
+     */
+    update: jest.fn(async ({ where, data }: { where: any; data: any }) => {
+      const idx = categories.findIndex((c) => c.id === where.id);
+      if (idx === -1) throw new Error("Not found");
+      categories[idx] = applyData(categories[idx], data);
+      return categories[idx];
     }),
   },
   sweet: {
@@ -112,10 +555,15 @@ const prisma = {
       return null;
     }),
     /**
-     * Mimics `prisma.sweet.create({ data })`.
+     * Mimics `prisma.sweet.create({ data })`; `unit` defaults to `PIECE`
+     * and `allergens` and `dietaryTags` to empty lists.
      */
     create: jest.fn(async ({ data }: { data: any }) => {
       const sweet = {
+        unit: "PIECE",
+        ingredients: null,
+        allergens: [],
+        dietaryTags: [],
         ...data,
         id: (sweets.length + 1).toString(),
         createdAt: new Date(),
@@ -125,20 +573,55 @@ const prisma = {
       return sweet;
     }),
     /**
-     * Mimics `prisma.sweet.findMany()` — returns a shallow copy of all sweets.
+     * Mimics `prisma.sweet.findMany({ where, orderBy, include })` — returns
+     * a shallow copy of the matching sweets. Of the relations in `include`,
+     * only `user` (its id, name and email), `images` (with `orderBy` and
+     * `take`) and `variants` (with `where` and `orderBy`) are attached.
      */
-    findMany: jest.fn(async () => {
-      return sweets.slice();
-    }),
+    findMany: jest.fn(
+      async ({
+        where,
+        orderBy,
+        include,
+      }: { where?: any; orderBy?: any; include?: any } = {}) =>
+        sorted(sweets.filter((s) => matches(s, where)), orderBy).map((s) => ({
+          ...s,
+          ...(include?.user && { user: ownerOf(s) }),
+          ...(include?.images && { images: imagesOf(s, include.images) }),
+          ...(include?.variants && {
+            variants: variantsOf(s, include.variants),
+          }),
+        })),
+    ),
+    /**
+     * Mimics `prisma.sweet.count({ where })`.
+     */
+    count: jest.fn(
+      async ({ where }: { where?: any } = {}) =>
+        sweets.filter((s) => matches(s, where)).length,
+    ),
     /**
      * Mimics `prisma.sweet.update({ where, data })`.
      */
     update: jest.fn(async ({ where, data }: { where: any; data: any }) => {
       const idx = sweets.findIndex((s) => s.id === where.id);
       if (idx === -1) throw new Error("Not found");
-      sweets[idx] = { ...sweets[idx], ...data, updatedAt: new Date() };
+      sweets[idx] = applyData(sweets[idx], data);
       return sweets[idx];
     }),
+    /**
+     * Mimics `prisma.sweet.updateMany({ where, data })`, e.g. a conditional
+     * stock decrement.
+     */
+    updateMany: jest.fn(async ({ where, data }: { where?: any; data: any }) => {
+      let count = 0;
+      sweets.forEach((s, idx) => {
+        if (!matches(s, where)) return;
+        sweets[idx] = applyData(s, data);
+        count++;
+      });
+      return { count };
+    }),
     /**
      * Mimics `prisma.sweet.delete({ where })`.
      */
@@ -161,9 +644,48 @@ export function __resetMocks() {
   users.length = 0;
   categories.length = 0;
   sweets.length = 0;
+  sessions.length = 0;
+  passwordResetTokens.length = 0;
+  invitations.length = 0;
+  recoveryCodes.length = 0;
+  apiKeys.length = 0;
+  authEvents.length = 0;
+  phoneOtps.length = 0;
+  identities.length = 0;
+  idempotencyKeys.length = 0;
+  orders.length = 0;
+  orderItems.length = 0;
+  cartItems.length = 0;
+  stockMovements.length = 0;
+  stockAlerts.length = 0;
+  sweetImages.length = 0;
+  sweetVariants.length = 0;
+  stockBatches.length = 0;
+  loginAttempts.length = 0;
   prisma.user.findUnique.mockClear();
   prisma.user.create.mockClear();
   prisma.user.deleteMany.mockClear();
+  for (const model of [
+    prisma.session,
+    prisma.passwordResetToken,
+    prisma.invitation,
+    prisma.recoveryCode,
+    prisma.apiKey,
+    prisma.authEvent,
+    prisma.phoneOtp,
+    prisma.identity,
+    prisma.idempotencyKey,
+    prisma.order,
+    prisma.orderItem,
+    prisma.cartItem,
+    prisma.stockMovement,
+    prisma.stockAlert,
+    prisma.sweetImage,
+    prisma.sweetVariant,
+    prisma.stockBatch,
+    prisma.loginAttempt,
+  ])
+    Object.values(model).forEach((fn: any) => fn.mockClear());
   prisma.category.findUnique.mockClear();
   prisma.category.create.mockClear();
   prisma.sweet.create.mockClear();
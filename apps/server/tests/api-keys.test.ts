@@ -0,0 +1,177 @@
+/**
+ * API key integration tests
+ *
+ * Covers minting, listing and revoking keys, and authenticating with
+ * `Authorization: Bearer <key>` on routes that accept keys. Prisma is
+ * mocked.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { app } from "../src/app";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+// Ensure clean state across tests
+beforeEach(() => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+});
+
+const createAdmin = () =>
+  prismaMock.user.create({
+    data: { email: "a@example.com", name: "Admin", password: "x", role: "ADMIN" },
+  });
+
+// Mint a key through the API as `admin`
+const mintKey = async (admin: any, body: any) =>
+  request(app)
+    .post("/api/api-keys")
+    .set("Cookie", [`auth-token=${await sessionToken(admin)}`])
+    .send(body);
+
+describe("API key management", () => {
+  test("returns 403 without apiKey.manage", async () => {
+    const user = await prismaMock.user.create({
+      data: { email: "u@example.com", name: "User", password: "x", role: "USER" },
+    });
+
+    const res = await mintKey(user, { name: "POS", scopes: ["sweet.read"] });
+
+    expect(res.status).toBe(403);
+  });
+
+  test("validates scopes", async () => {
+    const admin = await createAdmin();
+
+    const res = await mintKey(admin, { name: "POS", scopes: ["everything"] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toHaveProperty("scopes");
+  });
+
+  test("returns the raw key once and stores only its hash", async () => {
+    const admin = await createAdmin();
+
+    const res = await mintKey(admin, {
+      name: "Counter 1",
+      scopes: ["sweet.read", "sweet.purchase"],
+      expiresInDays: 30,
+    });
+
+    expect(res.status).toBe(201);
+    expect(res.body.key).toMatch(/^msk_/);
+    expect(res.body.apiKey).toMatchObject({
+      name: "Counter 1",
+      scopes: ["sweet.read", "sweet.purchase"],
+      prefix: res.body.key.slice(0, 12),
+    });
+    expect(res.body.apiKey).not.toHaveProperty("keyHash");
+    expect(new Date(res.body.apiKey.expiresAt).getTime()).toBeGreaterThan(
+      Date.now(),
+    );
+
+    const list = await request(app)
+      .get("/api/api-keys")
+      .set("Cookie", [`auth-token=${await sessionToken(admin)}`]);
+    expect(list.body.apiKeys).toHaveLength(1);
+    expect(JSON.stringify(list.body)).not.toContain(res.body.key);
+  });
+
+  test("revoked keys stop working", async () => {
+    const admin = await createAdmin();
+    const { body } = await mintKey(admin, {
+      name: "Script",
+      scopes: ["sweet.read"],
+    });
+
+    const revoke = await request(app)
+      .delete(`/api/api-keys/${body.apiKey.id}`)
+      .set("Cookie", [`auth-token=${await sessionToken(admin)}`]);
+    expect(revoke.status).toBe(200);
+
+    const res = await request(app)
+      .get("/api/sweets")
+      .set("Authorization", `Bearer ${body.key}`);
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("Bearer authentication", () => {
+  test("accepts a key with the route's scope and records its use", async () => {
+    const admin = await createAdmin();
+    const { body } = await mintKey(admin, {
+      name: "Script",
+      scopes: ["sweet.read"],
+    });
+
+    const res = await request(app)
+      .get("/api/sweets")
+      .set("Authorization", `Bearer ${body.key}`);
+
+    expect(res.status).toBe(200);
+    const stored = await prismaMock.apiKey.findUnique({
+      where: { id: body.apiKey.id },
+    });
+    expect(stored.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  test("returns 403 when the key lacks the scope", async () => {
+    const admin = await createAdmin();
+    const { body } = await mintKey(admin, {
+      name: "Script",
+      scopes: ["sweet.read"],
+    });
+
+    const res = await request(app)
+      .post("/api/category")
+      .set("Authorization", `Bearer ${body.key}`)
+      .send({ name: "Ladoo" });
+
+    expect(res.status).toBe(403);
+  });
+
+  test("rejects expired and unknown keys", async () => {
+    const admin = await createAdmin();
+    const { body } = await mintKey(admin, {
+      name: "Script",
+      scopes: ["sweet.read"],
+    });
+    await prismaMock.apiKey.update({
+      where: { id: body.apiKey.id },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    });
+
+    const expired = await request(app)
+      .get("/api/sweets")
+      .set("Authorization", `Bearer ${body.key}`);
+    expect(expired.status).toBe(401);
+
+    const unknown = await request(app)
+      .get("/api/sweets")
+      .set("Authorization", "Bearer msk_not-a-real-key");
+    expect(unknown.status).toBe(401);
+  });
+
+  test("keys cannot be used on routes that do not accept them", async () => {
+    const admin = await createAdmin();
+    const { body } = await mintKey(admin, {
+      name: "Script",
+      scopes: ["sweet.read"],
+    });
+
+    const res = await request(app)
+      .get("/api/api-keys")
+      .set("Authorization", `Bearer ${body.key}`);
+
+    expect(res.status).toBe(401);
+  });
+});
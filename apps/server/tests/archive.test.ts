@@ -0,0 +1,239 @@
+/**
+ * Sweet and category archiving tests
+ *
+ * Covers archiving instead of deleting, hiding archived rows from
+ * listings, search and checkout, the archived listings and restoring.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { app } from "../src/app";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+let admin: any;
+let adminCookie: string;
+let category: any;
+let sweet: any;
+
+// Ensure clean state across tests: a category with one sweet
+beforeEach(async () => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+
+  admin = await prismaMock.user.create({
+    data: {
+      email: "admin@example.com",
+      name: "Admin",
+      password: "x",
+      role: "ADMIN",
+    },
+  });
+  adminCookie = `auth-token=${await sessionToken(admin)}`;
+
+  category = await prismaMock.category.create({
+    data: { name: "Barfi", description: "" },
+  });
+  sweet = await prismaMock.sweet.create({
+    data: {
+      name: "Kaju Barfi",
+      price: 3,
+      stock: 10,
+      categoryId: category.id,
+      userId: admin.id,
+    },
+  });
+});
+
+const as = (cookie: string) => ({
+  get: (url: string) => request(app).get(url).set("Cookie", [cookie]),
+  post: (url: string, body: any = {}) =>
+    request(app).post(url).set("Cookie", [cookie]).send(body),
+  put: (url: string, body: any = {}) =>
+    request(app).put(url).set("Cookie", [cookie]).send(body),
+  delete: (url: string) => request(app).delete(url).set("Cookie", [cookie]),
+});
+
+describe("archiving sweets", () => {
+  test("DELETE keeps the row and hides it from listings and search", async () => {
+    const res = await as(adminCookie).delete(`/api/sweets/${sweet.id}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.sweet.deletedAt).toBeTruthy();
+    expect(
+      await prismaMock.sweet.findUnique({ where: { id: sweet.id } }),
+    ).not.toBeNull();
+
+    expect((await as(adminCookie).get("/api/sweets")).body.sweets).toEqual(
+      [],
+    );
+    expect(
+      (await as(adminCookie).get("/api/sweets/search?name=kaju")).body.sweets,
+    ).toEqual([]);
+  });
+
+  test("archived sweets cannot be bought and leave carts", async () => {
+    await as(adminCookie).post("/api/cart/items", {
+      sweetId: sweet.id,
+      quantity: 1,
+    });
+
+    await as(adminCookie).delete(`/api/sweets/${sweet.id}`);
+
+    const purchase = await as(adminCookie).post(
+      `/api/sweets/${sweet.id}/purchase`,
+      { quantity: 1 },
+    );
+    expect(purchase.status).toBe(404);
+    expect((await as(adminCookie).get("/api/cart")).body.cart.items).toEqual(
+      [],
+    );
+  });
+
+  test("archived sweets cannot be edited, restocked or given images", async () => {
+    await as(adminCookie).delete(`/api/sweets/${sweet.id}`);
+    const url = `/api/sweets/${sweet.id}`;
+
+    const statuses = await Promise.all([
+      as(adminCookie).put(url, { name: "Renamed" }),
+      as(adminCookie).post(`${url}/restock`, { quantity: 5 }),
+      as(adminCookie).post(`${url}/movements`, { type: "WASTE", delta: -1 }),
+      as(adminCookie).post(`${url}/images`),
+      as(adminCookie).put(`${url}/images/order`, { imageIds: [] }),
+    ]).then((responses) => responses.map((res) => res.status));
+
+    expect(statuses).toEqual([404, 404, 404, 404, 404]);
+    expect(
+      await prismaMock.sweet.findUnique({ where: { id: sweet.id } }),
+    ).toMatchObject({ name: "Kaju Barfi", stock: 10 });
+  });
+
+  test("archiving twice returns 404", async () => {
+    await as(adminCookie).delete(`/api/sweets/${sweet.id}`);
+
+    const res = await as(adminCookie).delete(`/api/sweets/${sweet.id}`);
+
+    expect(res.status).toBe(404);
+  });
+
+  test("lists archived sweets and restores them", async () => {
+    await as(adminCookie).delete(`/api/sweets/${sweet.id}`);
+
+    const archived = await as(adminCookie).get("/api/sweets/archived");
+    expect(archived.status).toBe(200);
+    expect(archived.body.sweets).toEqual([
+      expect.objectContaining({ id: sweet.id }),
+    ]);
+
+    const restored = await as(adminCookie).post(
+      `/api/sweets/${sweet.id}/restore`,
+    );
+    expect(restored.status).toBe(200);
+    expect(restored.body.sweet.deletedAt).toBeNull();
+    expect((await as(adminCookie).get("/api/sweets")).body.sweets).toHaveLength(
+      1,
+    );
+  });
+
+  test("restoring a sweet that is not archived returns 404", async () => {
+    const res = await as(adminCookie).post(`/api/sweets/${sweet.id}/restore`);
+    expect(res.status).toBe(404);
+  });
+
+  test("archive and restore require sweet.delete", async () => {
+    const staff = await prismaMock.user.create({
+      data: { email: "s@example.com", name: "S", password: "x", role: "STAFF" },
+    });
+    const staffCookie = `auth-token=${await sessionToken(staff)}`;
+
+    expect(
+      (await as(staffCookie).delete(`/api/sweets/${sweet.id}`)).status,
+    ).toBe(403);
+    expect((await as(staffCookie).get("/api/sweets/archived")).status).toBe(
+      403,
+    );
+  });
+});
+
+describe("archiving categories", () => {
+  test("is refused while the category has sweets", async () => {
+    const res = await as(adminCookie).delete(`/api/category/${category.id}`);
+
+    expect(res.status).toBe(409);
+    expect(res.body.sweets).toBe(1);
+  });
+
+  test("hides the category until it is restored", async () => {
+    await as(adminCookie).delete(`/api/sweets/${sweet.id}`);
+
+    const res = await as(adminCookie).delete(`/api/category/${category.id}`);
+    expect(res.status).toBe(200);
+    expect(
+      (await as(adminCookie).get("/api/category")).body.categories,
+    ).toEqual([]);
+    expect(
+      (await as(adminCookie).get("/api/category/archived")).body.categories,
+    ).toEqual([expect.objectContaining({ id: category.id })]);
+
+    const restored = await as(adminCookie).post(
+      `/api/category/${category.id}/restore`,
+    );
+    expect(restored.status).toBe(200);
+    expect(
+      (await as(adminCookie).get("/api/category")).body.categories,
+    ).toHaveLength(1);
+  });
+
+  test("its sweets cannot be restored or created while it is archived", async () => {
+    await as(adminCookie).delete(`/api/sweets/${sweet.id}`);
+    await as(adminCookie).delete(`/api/category/${category.id}`);
+
+    const restore = await as(adminCookie).post(
+      `/api/sweets/${sweet.id}/restore`,
+    );
+    expect(restore.status).toBe(409);
+
+    const create = await as(adminCookie).post("/api/sweets", {
+      name: "Pista Barfi",
+      price: 3,
+      stock: 1,
+      categoryId: category.id,
+    });
+    expect(create.status).toBe(400);
+  });
+
+  test("sweets cannot be moved into it", async () => {
+    const other = await prismaMock.category.create({
+      data: { name: "Ladoo", description: "" },
+    });
+    await as(adminCookie).delete(`/api/category/${other.id}`);
+
+    const archived = await as(adminCookie).put(`/api/sweets/${sweet.id}`, {
+      categoryId: other.id,
+    });
+    expect(archived.status).toBe(400);
+
+    const unknown = await as(adminCookie).put(`/api/sweets/${sweet.id}`, {
+      categoryId: "missing",
+    });
+    expect(unknown.status).toBe(400);
+  });
+
+  test("an archived category's name stays taken", async () => {
+    await as(adminCookie).delete(`/api/sweets/${sweet.id}`);
+    await as(adminCookie).delete(`/api/category/${category.id}`);
+
+    const res = await as(adminCookie).post("/api/category", { name: "barfi" });
+
+    expect(res.status).toBe(409);
+    expect(res.body.error).toMatch(/archived/);
+  });
+});
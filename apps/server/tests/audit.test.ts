@@ -0,0 +1,165 @@
+/**
+ * Authentication audit log tests
+ *
+ * Checks that the auth routes append `AuthEvent` rows and that admins can
+ * search them while users only see their own recent activity.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import bcrypt from "bcryptjs";
+import { app } from "../src/app";
+import {
+  MemoryAttemptStore,
+  setAttemptStore,
+} from "../src/lib/login-throttle";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+// Ensure clean state across tests
+beforeEach(() => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+  setAttemptStore(new MemoryAttemptStore());
+});
+
+const createUser = async (email: string, role = "USER") =>
+  prismaMock.user.create({
+    data: {
+      email,
+      name: "Audited",
+      password: await bcrypt.hash("password123", 10),
+      role,
+    },
+  });
+
+const events = () => prismaMock.authEvent.findMany();
+
+describe("Recording auth events", () => {
+  test("records registration, login and logout with IP and user agent", async () => {
+    const agent = request.agent(app);
+
+    const register = await agent
+      .post("/api/auth/register")
+      .set("User-Agent", "audit-test")
+      .send({ email: "new@example.com", name: "New", password: "password123" });
+    expect(register.status).toBe(201);
+
+    await agent.post("/api/auth/logout");
+    await agent
+      .post("/api/auth/login")
+      .send({ email: "new@example.com", password: "password123" });
+
+    const recorded = await events();
+    expect(recorded.map((e: any) => e.type)).toEqual([
+      "REGISTER",
+      "LOGOUT",
+      "LOGIN",
+    ]);
+    expect(recorded[0]).toMatchObject({
+      userId: register.body.user.id,
+      email: "new@example.com",
+      userAgent: "audit-test",
+    });
+    expect(recorded[0].ip).toBeTruthy();
+  });
+
+  test("records failed logins, including unknown emails", async () => {
+    const user = await createUser("known@example.com");
+
+    await request(app)
+      .post("/api/auth/login")
+      .send({ email: "known@example.com", password: "wrong-password" });
+    await request(app)
+      .post("/api/auth/login")
+      .send({ email: "nobody@example.com", password: "wrong-password" });
+
+    const [wrongPassword, unknown] = await events();
+    expect(wrongPassword).toMatchObject({
+      type: "LOGIN_FAILED",
+      userId: user.id,
+      metadata: { reason: "wrong_password" },
+    });
+    expect(unknown).toMatchObject({
+      type: "LOGIN_FAILED",
+      userId: null,
+      email: "nobody@example.com",
+      metadata: { reason: "unknown_email" },
+    });
+  });
+});
+
+describe("GET /api/audit/auth", () => {
+  test("lets admins filter events", async () => {
+    const admin = await createUser("admin@example.com", "ADMIN");
+    await createUser("victim@example.com");
+
+    await request(app)
+      .post("/api/auth/login")
+      .send({ email: "victim@example.com", password: "wrong-password" });
+    await request(app)
+      .post("/api/auth/login")
+      .send({ email: "victim@example.com", password: "password123" });
+
+    const res = await request(app)
+      .get("/api/audit/auth?type=LOGIN_FAILED&email=VICTIM")
+      .set("Cookie", [`auth-token=${await sessionToken(admin)}`]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(1);
+    expect(res.body.events[0].type).toBe("LOGIN_FAILED");
+  });
+
+  test("rejects unknown event types", async () => {
+    const admin = await createUser("admin@example.com", "ADMIN");
+
+    const res = await request(app)
+      .get("/api/audit/auth?type=NOPE")
+      .set("Cookie", [`auth-token=${await sessionToken(admin)}`]);
+
+    expect(res.status).toBe(400);
+  });
+
+  test("is not available to managers", async () => {
+    const manager = await createUser("manager@example.com", "MANAGER");
+
+    const res = await request(app)
+      .get("/api/audit/auth")
+      .set("Cookie", [`auth-token=${await sessionToken(manager)}`]);
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("GET /api/auth/activity", () => {
+  test("returns only the current user's events", async () => {
+    const user = await createUser("me@example.com");
+    await createUser("other@example.com");
+
+    await request(app)
+      .post("/api/auth/login")
+      .send({ email: "me@example.com", password: "wrong-password" });
+    await request(app)
+      .post("/api/auth/login")
+      .send({ email: "other@example.com", password: "password123" });
+
+    const res = await request(app)
+      .get("/api/auth/activity")
+      .set("Cookie", [`auth-token=${await sessionToken(user)}`]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.events).toHaveLength(1);
+    expect(res.body.events[0]).toMatchObject({
+      type: "LOGIN_FAILED",
+      userId: user.id,
+    });
+  });
+});
@@ -1,8 +1,9 @@
 /**
  * Authentication integration tests
  *
- * Verifies the registration and login endpoints using Supertest against the
- * shared Express `app`. The Prisma client is mocked to keep tests isolated
+ * Verifies the registration, login (including brute-force lockout),
+ * refresh, logout, password reset and admin bootstrap endpoints using Supertest against the shared Express
+ * `app`. The Prisma client is mocked to keep tests isolated
  * and deterministic without a real database. Each test resets the mock state
  * so cases don't bleed into each other.
  */
@@ -13,10 +14,23 @@ jest.mock("@/lib/prisma", () => ({
   default: require("./__mocks__/prisma").default,
 }));
 
-import request from "supertest";
-import { describe, test, expect, beforeEach } from "@jest/globals";
+import request from "./helpers/request";
+import {
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+} from "@jest/globals";
 import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
 import { app } from "../src/app";
+import { setMailTransport, type MailMessage } from "../src/lib/mailer";
+import {
+  MemoryAttemptStore,
+  PrismaAttemptStore,
+  setAttemptStore,
+} from "../src/lib/login-throttle";
 
 // Access the mock module and its default export (the mock client)
 const prismaMockModule = require("./__mocks__/prisma");
@@ -52,6 +66,18 @@ describe("Auth - Register", () => {
     expect(hasTokenCookie).toBe(true);
   });
 
+  test("ignores a requested ADMIN role and creates a USER", async () => {
+    const res = await request(app).post("/api/auth/register").send({
+      email: "sneaky@example.com",
+      name: "Sneaky",
+      password: "password123",
+      role: "ADMIN",
+    });
+
+    expect(res.status).toBe(201);
+    expect(res.body.user).toHaveProperty("role", "USER");
+  });
+
   test("returns detailed errors for missing fields", async () => {
     const res = await request(app).post("/api/auth/register").send({});
 
@@ -130,3 +156,428 @@ describe("Auth - Login", () => {
     expect(errors).toHaveProperty("password");
   });
 });
+
+/**
+ * Sessions: refresh rotation and logout revocation
+ */
+describe("Auth - Sessions", () => {
+  // Extract `name=value` for a cookie from a Set-Cookie header
+  const cookieFrom = (res: any, name: string) => {
+    const setCookie: string[] = res.headers["set-cookie"] ?? [];
+    const cookie = setCookie.find((c) => c.startsWith(`${name}=`));
+    return cookie?.split(";")[0];
+  };
+
+  const loginAs = async (email: string) => {
+    const hashed = await bcrypt.hash("password123", 10);
+    await prismaMock.user.create({
+      data: { email, name: "Session User", password: hashed },
+    });
+
+    return request(app)
+      .post("/api/auth/login")
+      .send({ email, password: "password123" });
+  };
+
+  test("login sets a refresh-token cookie alongside auth-token", async () => {
+    const res = await loginAs("refresh@example.com");
+
+    expect(res.status).toBe(200);
+    expect(cookieFrom(res, "auth-token")).toBeDefined();
+    expect(cookieFrom(res, "refresh-token")).toBeDefined();
+  });
+
+  test("rejects access tokens that are not bound to a session", async () => {
+    const user = await prismaMock.user.create({
+      data: { email: "bare@example.com", name: "Bare", password: "x" },
+    });
+    const token = jwt.sign(
+      { sub: user.id, email: user.email },
+      process.env.JWT_SECRET || "test-secret",
+    );
+
+    const res = await request(app)
+      .get("/api/auth/me")
+      .set("Cookie", [`auth-token=${token}`]);
+
+    expect(res.status).toBe(401);
+  });
+
+  test("POST /refresh rotates the refresh token and issues a new access token", async () => {
+    const login = await loginAs("rotate@example.com");
+    const refreshCookie = cookieFrom(login, "refresh-token")!;
+
+    const res = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", [refreshCookie]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.user).toHaveProperty("email", "rotate@example.com");
+    expect(cookieFrom(res, "auth-token")).toBeDefined();
+
+    const rotated = cookieFrom(res, "refresh-token");
+    expect(rotated).toBeDefined();
+    expect(rotated).not.toEqual(refreshCookie);
+
+    const me = await request(app)
+      .get("/api/auth/me")
+      .set("Cookie", [cookieFrom(res, "auth-token")!]);
+    expect(me.status).toBe(200);
+  });
+
+  test("POST /refresh with a reused refresh token revokes the session", async () => {
+    const login = await loginAs("reuse@example.com");
+    const original = cookieFrom(login, "refresh-token")!;
+
+    const first = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", [original]);
+    expect(first.status).toBe(200);
+
+    // Replaying the rotated-out token is treated as theft
+    const replay = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", [original]);
+    expect(replay.status).toBe(401);
+
+    // ...and the legitimately rotated token no longer works either
+    const after = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", [cookieFrom(first, "refresh-token")!]);
+    expect(after.status).toBe(401);
+  });
+
+  test("POST /refresh twice at once with the same token revokes the session", async () => {
+    const login = await loginAs("race@example.com");
+    const original = cookieFrom(login, "refresh-token")!;
+
+    // Both requests read the session before either rotates it
+    const findSession = prismaMock.session.findUnique.getMockImplementation();
+    let reads = 0;
+    let bothRead = () => {};
+    const barrier = new Promise<void>((resolve) => (bothRead = resolve));
+    prismaMock.session.findUnique.mockImplementation(async (args: any) => {
+      const session = await findSession(args);
+      if (++reads === 2) bothRead();
+      await barrier;
+      return session;
+    });
+
+    const refresh = () =>
+      request(app).post("/api/auth/refresh").set("Cookie", [original]);
+    const responses = await Promise.all([refresh(), refresh()]).finally(() =>
+      prismaMock.session.findUnique.mockImplementation(findSession),
+    );
+
+    // Only one rotation wins; the other counts as a replay
+    const statuses = responses.map((res) => res.status).sort();
+    expect(statuses).toEqual([200, 401]);
+
+    const winner = responses.find((res) => res.status === 200)!;
+    const after = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", [cookieFrom(winner, "refresh-token")!]);
+    expect(after.status).toBe(401);
+  });
+
+  test("POST /refresh requires a refresh token", async () => {
+    const res = await request(app).post("/api/auth/refresh");
+    expect(res.status).toBe(401);
+  });
+
+  test("POST /logout revokes the session so the access token stops working", async () => {
+    const login = await loginAs("logout@example.com");
+    const accessCookie = cookieFrom(login, "auth-token")!;
+
+    const before = await request(app)
+      .get("/api/auth/me")
+      .set("Cookie", [accessCookie]);
+    expect(before.status).toBe(200);
+
+    const logout = await request(app)
+      .post("/api/auth/logout")
+      .set("Cookie", [accessCookie]);
+    expect(logout.status).toBe(200);
+
+    const after = await request(app)
+      .get("/api/auth/me")
+      .set("Cookie", [accessCookie]);
+    expect(after.status).toBe(401);
+  });
+});
+
+/**
+ * Password reset
+ */
+describe("Auth - Password reset", () => {
+  // Capture outgoing mail instead of printing it
+  let outbox: MailMessage[];
+
+  beforeEach(() => {
+    outbox = [];
+    setMailTransport({ send: async (message) => void outbox.push(message) });
+  });
+
+  // Pull the raw token out of the emailed reset link
+  const tokenFromMail = (mail: MailMessage) =>
+    decodeURIComponent(mail.text.match(/token=([^\s]+)/)![1]);
+
+  const createUser = async (email: string) =>
+    prismaMock.user.create({
+      data: {
+        email,
+        name: "Forgetful",
+        password: await bcrypt.hash("old-password", 10),
+      },
+    });
+
+  test("forgot-password emails a reset link for a known account", async () => {
+    await createUser("forgot@example.com");
+
+    const res = await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "forgot@example.com" });
+
+    expect(res.status).toBe(200);
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0].to).toBe("forgot@example.com");
+    expect(outbox[0].text).toContain("/reset-password?token=");
+
+    // Only the hash is stored
+    const stored = await prismaMock.passwordResetToken.findFirst({});
+    expect(stored.tokenHash).not.toEqual(tokenFromMail(outbox[0]));
+  });
+
+  test("forgot-password responds identically for unknown emails", async () => {
+    const res = await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "nobody@example.com" });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toHaveProperty("message");
+    expect(outbox).toHaveLength(0);
+  });
+
+  test("reset-password sets the new password and the token is single-use", async () => {
+    await createUser("reset@example.com");
+    await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "reset@example.com" });
+    const token = tokenFromMail(outbox[0]);
+
+    const res = await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token, password: "new-password" });
+    expect(res.status).toBe(200);
+
+    const login = await request(app)
+      .post("/api/auth/login")
+      .send({ email: "reset@example.com", password: "new-password" });
+    expect(login.status).toBe(200);
+
+    const reuse = await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token, password: "another-password" });
+    expect(reuse.status).toBe(400);
+  });
+
+  test("reset-password rejects expired tokens", async () => {
+    await createUser("expired@example.com");
+    await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "expired@example.com" });
+
+    const stored = await prismaMock.passwordResetToken.findFirst({});
+    await prismaMock.passwordResetToken.update({
+      where: { id: stored.id },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    });
+
+    const res = await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token: tokenFromMail(outbox[0]), password: "new-password" });
+
+    expect(res.status).toBe(400);
+    expect(res.body).toHaveProperty("error", "Invalid or expired reset token");
+  });
+
+  test("reset-password revokes existing sessions", async () => {
+    const user = await createUser("revoke@example.com");
+    const login = await request(app)
+      .post("/api/auth/login")
+      .send({ email: "revoke@example.com", password: "old-password" });
+    const accessCookie = (login.headers["set-cookie"] as unknown as string[])
+      .find((c) => c.startsWith("auth-token="))!
+      .split(";")[0];
+
+    await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: user.email });
+    await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token: tokenFromMail(outbox[0]), password: "new-password" });
+
+    const me = await request(app)
+      .get("/api/auth/me")
+      .set("Cookie", [accessCookie]);
+    expect(me.status).toBe(401);
+  });
+});
+
+/**
+ * First admin bootstrap
+ */
+describe("Auth - Bootstrap admin", () => {
+  const payload = {
+    token: "bootstrap-secret",
+    email: "first-admin@example.com",
+    name: "First Admin",
+    password: "password123",
+  };
+
+  beforeEach(() => {
+    process.env.ADMIN_BOOTSTRAP_TOKEN = "bootstrap-secret";
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_BOOTSTRAP_TOKEN;
+  });
+
+  test("is disabled when no bootstrap token is configured", async () => {
+    delete process.env.ADMIN_BOOTSTRAP_TOKEN;
+
+    const res = await request(app)
+      .post("/api/auth/bootstrap-admin")
+      .send(payload);
+
+    expect(res.status).toBe(404);
+  });
+
+  test("rejects a wrong bootstrap token", async () => {
+    const res = await request(app)
+      .post("/api/auth/bootstrap-admin")
+      .send({ ...payload, token: "guess" });
+
+    expect(res.status).toBe(403);
+  });
+
+  test("creates the first admin, then refuses once an admin exists", async () => {
+    const res = await request(app)
+      .post("/api/auth/bootstrap-admin")
+      .send(payload);
+
+    expect(res.status).toBe(201);
+    expect(res.body.user).toHaveProperty("role", "ADMIN");
+
+    const second = await request(app)
+      .post("/api/auth/bootstrap-admin")
+      .send({ ...payload, email: "second-admin@example.com" });
+
+    expect(second.status).toBe(409);
+  });
+});
+
+/**
+ * Brute-force protection
+ */
+describe("Auth - Login lockout", () => {
+  // Fresh counters for every test; all requests share the loopback IP
+  beforeEach(() => {
+    setAttemptStore(new MemoryAttemptStore());
+  });
+
+  const createUser = async (email: string) =>
+    prismaMock.user.create({
+      data: {
+        email,
+        name: "Target",
+        password: await bcrypt.hash("password123", 10),
+      },
+    });
+
+  const attempt = (email: string, password: string) =>
+    request(app).post("/api/auth/login").send({ email, password });
+
+  test("locks the account with 423 and Retry-After after repeated failures", async () => {
+    await createUser("target@example.com");
+
+    for (let i = 0; i < 5; i++) {
+      const res = await attempt("target@example.com", "wrong-password");
+      expect(res.status).toBe(401);
+    }
+
+    // Even the correct password is refused while locked
+    const locked = await attempt("target@example.com", "password123");
+    expect(locked.status).toBe(423);
+    expect(Number(locked.headers["retry-after"])).toBeGreaterThan(0);
+    expect(locked.body).toHaveProperty("retryAfter");
+  });
+
+  test("a successful login resets the account counter", async () => {
+    await createUser("reset-counter@example.com");
+
+    for (let i = 0; i < 4; i++)
+      await attempt("reset-counter@example.com", "wrong-password");
+
+    const ok = await attempt("reset-counter@example.com", "password123");
+    expect(ok.status).toBe(200);
+
+    for (let i = 0; i < 4; i++)
+      await attempt("reset-counter@example.com", "wrong-password");
+
+    const stillOk = await attempt("reset-counter@example.com", "password123");
+    expect(stillOk.status).toBe(200);
+  });
+
+  test("throttles an IP with 429 after failures across many accounts", async () => {
+    for (let i = 0; i < 20; i++)
+      await attempt(`spray-${i}@example.com`, "wrong-password");
+
+    const res = await attempt("spray-fresh@example.com", "wrong-password");
+    expect(res.status).toBe(429);
+    expect(res.headers).toHaveProperty("retry-after");
+  });
+
+  test("the in-memory store drops idle counters", async () => {
+    const store = new MemoryAttemptStore({ idleMs: 60 * 1000 });
+    const longAgo = new Date(Date.now() - 2 * 60 * 1000);
+    for (let i = 0; i < 3; i++) await store.increment(`old-${i}`, longAgo);
+    await store.increment("locked", longAgo);
+    await store.lock("locked", new Date(Date.now() + 60 * 1000));
+
+    expect(await store.get("old-0")).toBeNull();
+
+    await store.increment("fresh", new Date());
+    expect(store.size).toBe(2);
+    expect(await store.get("locked")).not.toBeNull();
+  });
+
+  test("the Postgres store deletes idle rows", async () => {
+    const store = new PrismaAttemptStore({ idleMs: 60 * 1000 });
+    const longAgo = new Date(Date.now() - 2 * 60 * 1000);
+    for (let i = 0; i < 3; i++) await store.increment(`old-${i}`, longAgo);
+    await store.increment("locked", longAgo);
+    await store.lock("locked", new Date(Date.now() + 60 * 1000));
+
+    expect(await store.get("old-0")).toBeNull();
+
+    // The sweep runs at most once per idleMs, so start a fresh store
+    await new PrismaAttemptStore({ idleMs: 60 * 1000 }).increment(
+      "fresh",
+      new Date(),
+    );
+    const keys = (await prismaMock.loginAttempt.findMany()).map(
+      (row: any) => row.key,
+    );
+    expect(keys.sort()).toEqual(["fresh", "locked"]);
+  });
+
+  test("the in-memory store keeps at most maxEntries counters", async () => {
+    const store = new MemoryAttemptStore({ maxEntries: 2 });
+    for (const key of ["a", "b", "c"]) await store.increment(key, new Date());
+
+    expect(store.size).toBe(2);
+    expect(await store.get("a")).toBeNull();
+    expect(await store.get("c")).not.toBeNull();
+  });
+});
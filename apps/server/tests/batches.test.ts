@@ -0,0 +1,331 @@
+/**
+ * Stock batch tests
+ *
+ * Covers restocks recorded as dated batches, sales taking from the batch
+ * that expires first, expired stock kept out of sales and carts, the
+ * expiring-soon report and writing expired batches off as waste.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { app } from "../src/app";
+import { sessionToken } from "./helpers/session";
+import { recordStockMovement, type StockChange } from "../src/lib/stock";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+let adminCookie: string;
+let sweet: any;
+
+// Ensure clean state across tests: a sweet with no stock yet
+beforeEach(async () => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+
+  const admin = await prismaMock.user.create({
+    data: {
+      email: "admin@example.com",
+      name: "Admin",
+      password: "x",
+      role: "ADMIN",
+    },
+  });
+  adminCookie = `auth-token=${await sessionToken(admin)}`;
+
+  const category = await prismaMock.category.create({
+    data: { name: "Barfi", description: "" },
+  });
+  sweet = await prismaMock.sweet.create({
+    data: {
+      name: "Kaju Barfi",
+      price: 2,
+      stock: 0,
+      categoryId: category.id,
+      userId: admin.id,
+    },
+  });
+});
+
+const get = (url: string) =>
+  request(app).get(url).set("Cookie", [adminCookie]);
+
+const post = (url: string, body: any = {}) =>
+  request(app).post(url).set("Cookie", [adminCookie]).send(body);
+
+// A date `days` from today, as sent by a date input
+const day = (days: number) => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+const restock = (quantity: number, bestBefore?: string, body: any = {}) =>
+  post(`/api/sweets/${sweet.id}/restock`, { quantity, bestBefore, ...body });
+
+// What is left of each of the sweet's batches, oldest first
+const leftInBatches = async () =>
+  (
+    await prismaMock.stockBatch.findMany({
+      where: { sweetId: sweet.id },
+      orderBy: { createdAt: "asc" },
+    })
+  ).map((batch: any) => batch.quantity);
+
+describe("restocking", () => {
+  test("records a batch with its dates", async () => {
+    const res = await restock(10, day(5), { producedAt: day(-1) });
+
+    expect(res.status).toBe(200);
+    expect(res.body.sweet.stock).toBe(10);
+    expect(res.body.batch).toMatchObject({
+      sweetId: sweet.id,
+      variantId: null,
+      received: 10,
+      quantity: 10,
+      bestBefore: new Date(day(5)).toISOString(),
+    });
+
+    const [movement] = await prismaMock.stockMovement.findMany({
+      where: { sweetId: sweet.id },
+    });
+    expect(movement.batchId).toBe(res.body.batch.id);
+  });
+
+  test("refuses a best-before date before the production date", async () => {
+    const res = await restock(10, day(1), { producedAt: day(2) });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors.bestBefore).toBeDefined();
+  });
+});
+
+describe("selling", () => {
+  test("takes from the batch that expires first", async () => {
+    await restock(5, day(10));
+    await restock(5, day(3));
+    await restock(5);
+
+    const res = await post(`/api/sweets/${sweet.id}/purchase`, {
+      quantity: 7,
+    });
+
+    expect(res.status).toBe(200);
+    expect(await leftInBatches()).toEqual([3, 0, 5]);
+  });
+
+  test("never sells expired stock", async () => {
+    await restock(5, day(-1));
+    await restock(3, day(4));
+
+    const res = await post("/api/orders", {
+      items: [{ sweetId: sweet.id, quantity: 4 }],
+    });
+    expect(res.status).toBe(400);
+    expect(res.body.shortages).toEqual([
+      { sweetId: sweet.id, requested: 4, available: 3 },
+    ]);
+
+    const cart = await post("/api/cart/items", {
+      sweetId: sweet.id,
+      quantity: 2,
+    });
+    expect(cart.body.cart.items[0]).toMatchObject({ stock: 3 });
+
+    const sale = await post(`/api/sweets/${sweet.id}/purchase`, {
+      quantity: 3,
+    });
+    expect(sale.status).toBe(200);
+    expect(await leftInBatches()).toEqual([5, 0]);
+  });
+
+  test("other decrements take expired batches first", async () => {
+    await restock(5, day(-1));
+    await restock(5, day(4));
+
+    await post(`/api/sweets/${sweet.id}/movements`, {
+      type: "WASTE",
+      delta: -2,
+    });
+
+    expect(await leftInBatches()).toEqual([3, 5]);
+  });
+});
+
+describe("concurrent sales", () => {
+  // Record `changes` in transactions running side by side. The mock runs
+  // `$transaction`s one at a time, so this stands in for Postgres: updating
+  // the sweet's row locks it until that transaction ends.
+  const concurrently = (changes: StockChange[]) => {
+    let locked: Promise<void> = Promise.resolve();
+    return Promise.all(
+      changes.map(async (change) => {
+        let release: (() => void) | undefined;
+        const tx = {
+          ...prismaMock,
+          sweet: {
+            ...prismaMock.sweet,
+            updateMany: async (args: any) => {
+              if (!release) {
+                const held = locked;
+                locked = new Promise((resolve) => (release = resolve));
+                await held;
+              }
+              return prismaMock.sweet.updateMany(args);
+            },
+          },
+        };
+        try {
+          return await recordStockMovement(tx, change);
+        } finally {
+          release?.();
+        }
+      }),
+    );
+  };
+
+  test("never take a batch below zero", async () => {
+    await restock(5, day(2));
+    await restock(5, day(6));
+
+    const sale = { sweetId: sweet.id, type: "SALE" as const, delta: -4 };
+    const movements = await concurrently([sale, sale]);
+
+    expect(movements.every(Boolean)).toBe(true);
+    expect(await leftInBatches()).toEqual([0, 2]);
+  });
+
+  test("keep expired stock out of both", async () => {
+    await restock(4, day(-1));
+    await restock(5, day(6));
+
+    const sale = { sweetId: sweet.id, type: "SALE" as const, delta: -3 };
+    const movements = await concurrently([sale, sale]);
+
+    expect(movements.filter(Boolean)).toHaveLength(1);
+    expect(await leftInBatches()).toEqual([4, 2]);
+    expect(
+      (await prismaMock.sweet.findUnique({ where: { id: sweet.id } })).stock,
+    ).toBe(6);
+  });
+});
+
+describe("GET /api/sweets/:id/batches", () => {
+  test("lists batches with stock left in selling order", async () => {
+    await restock(5);
+    await restock(5, day(-2));
+    await restock(5, day(2));
+    await post(`/api/sweets/${sweet.id}/movements`, {
+      type: "WASTE",
+      delta: -5,
+    });
+
+    const res = await get(`/api/sweets/${sweet.id}/batches`);
+
+    expect(res.status).toBe(200);
+    expect(
+      res.body.batches.map((batch: any) => [batch.quantity, batch.expired]),
+    ).toEqual([
+      [5, false],
+      [5, false],
+    ]);
+    expect(res.body.batches[0].bestBefore).toBe(
+      new Date(day(2)).toISOString(),
+    );
+  });
+});
+
+describe("GET /api/inventory/expiring", () => {
+  test("lists expired batches and those expiring within the days", async () => {
+    await restock(1, day(-1));
+    await restock(2, day(3));
+    await restock(3, day(8));
+    await restock(4);
+
+    const res = await get("/api/inventory/expiring?days=3");
+
+    expect(res.status).toBe(200);
+    expect(res.body.batches).toEqual([
+      expect.objectContaining({
+        quantity: 1,
+        expired: true,
+        sweet: expect.objectContaining({ name: "Kaju Barfi" }),
+      }),
+      expect.objectContaining({ quantity: 2, expired: false }),
+    ]);
+
+    const week = await get("/api/inventory/expiring");
+    expect(week.body.batches).toHaveLength(2);
+  });
+
+  test("validates the number of days", async () => {
+    const res = await get("/api/inventory/expiring?days=-1");
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("POST /api/inventory/expired/write-off", () => {
+  test("writes expired batches off as waste", async () => {
+    await restock(5, day(-1));
+    await restock(3, day(4));
+
+    const res = await post("/api/inventory/expired/write-off");
+
+    expect(res.status).toBe(200);
+    expect(res.body.writtenOff).toHaveLength(1);
+    expect(res.body.writtenOff[0].movement).toMatchObject({
+      type: "WASTE",
+      delta: -5,
+      balance: 3,
+      reason: "Expired",
+      batchId: res.body.writtenOff[0].batch.id,
+    });
+    expect(await leftInBatches()).toEqual([0, 3]);
+    expect(
+      (await prismaMock.sweet.findUnique({ where: { id: sweet.id } })).stock,
+    ).toBe(3);
+
+    const again = await post("/api/inventory/expired/write-off");
+    expect(again.body.writtenOff).toEqual([]);
+  });
+
+  test("writes off expired packs of a variant", async () => {
+    const variant = await prismaMock.sweetVariant.create({
+      data: {
+        sweetId: sweet.id,
+        label: "Box of 12",
+        size: 12,
+        price: 20,
+        sku: "KB-12",
+      },
+    });
+    await restock(4, day(-3), { variantId: variant.id });
+
+    const res = await post("/api/inventory/expired/write-off");
+
+    expect(res.body.writtenOff[0].batch.variantId).toBe(variant.id);
+    expect(
+      (await prismaMock.sweetVariant.findUnique({ where: { id: variant.id } }))
+        .stock,
+    ).toBe(0);
+  });
+
+  test("requires stock.restock", async () => {
+    const customer = await prismaMock.user.create({
+      data: { email: "c@example.com", name: "C", password: "x" },
+    });
+
+    const res = await request(app)
+      .post("/api/inventory/expired/write-off")
+      .set("Cookie", [`auth-token=${await sessionToken(customer)}`]);
+
+    expect(res.status).toBe(403);
+  });
+});
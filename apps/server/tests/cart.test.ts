@@ -0,0 +1,290 @@
+/**
+ * Shopping cart routes integration tests
+ *
+ * Covers adding, changing and removing items, replacing and emptying the
+ * cart, revalidation of price and stock on read, and checkout into an
+ * order.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { app } from "../src/app";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+let cookie: string;
+let kaju: any;
+let peda: any;
+
+// Ensure clean state across tests: a customer and two sweets
+beforeEach(async () => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+
+  const user = await prismaMock.user.create({
+    data: {
+      email: "buyer@example.com",
+      name: "Buyer",
+      password: "x",
+      role: "USER",
+    },
+  });
+  cookie = `auth-token=${await sessionToken(user)}`;
+
+  const category = await prismaMock.category.create({
+    data: { name: "Barfi", description: "" },
+  });
+  const create = (name: string, price: number, stock: number) =>
+    prismaMock.sweet.create({
+      data: { name, price, stock, categoryId: category.id, userId: user.id },
+    });
+  kaju = await create("Kaju Katli", 3.5, 10);
+  peda = await create("Peda", 1.25, 2);
+});
+
+const getCart = () => request(app).get("/api/cart").set("Cookie", [cookie]);
+
+const addItem = (sweetId: string, quantity: number) =>
+  request(app)
+    .post("/api/cart/items")
+    .set("Cookie", [cookie])
+    .send({ sweetId, quantity });
+
+const setStock = (id: string, stock: number) =>
+  prismaMock.sweet.update({ where: { id }, data: { stock } });
+
+describe("GET /api/cart", () => {
+  test("requires authentication", async () => {
+    const res = await request(app).get("/api/cart");
+    expect(res.status).toBe(401);
+  });
+
+  test("starts empty", async () => {
+    const res = await getCart();
+
+    expect(res.status).toBe(200);
+    expect(res.body.cart).toEqual({
+      items: [],
+      total: 0,
+      checkoutReady: false,
+    });
+  });
+
+  test("flags items that sold out or ran low", async () => {
+    await addItem(kaju.id, 3);
+    await addItem(peda.id, 2);
+    await setStock(kaju.id, 1);
+    await setStock(peda.id, 0);
+
+    const res = await getCart();
+
+    const statuses = res.body.cart.items.map((item: any) => item.status);
+    expect(statuses).toEqual(["insufficient_stock", "out_of_stock"]);
+    expect(res.body.cart.checkoutReady).toBe(false);
+  });
+
+  test("flags price changes since the item was added", async () => {
+    await addItem(kaju.id, 2);
+    await prismaMock.sweet.update({
+      where: { id: kaju.id },
+      data: { price: 4 },
+    });
+
+    const res = await getCart();
+
+    expect(res.body.cart.items[0]).toMatchObject({
+      unitPrice: 4,
+      addedPrice: 3.5,
+      priceChanged: true,
+    });
+    expect(res.body.cart.total).toBe(8);
+  });
+});
+
+describe("cart items", () => {
+  test("adds sweets and totals them at current prices", async () => {
+    await addItem(kaju.id, 2);
+    const res = await addItem(peda.id, 1);
+
+    expect(res.status).toBe(200);
+    expect(res.body.cart.items).toHaveLength(2);
+    expect(res.body.cart.total).toBe(8.25);
+    expect(res.body.cart.checkoutReady).toBe(true);
+  });
+
+  test("adding the same sweet again increases the quantity", async () => {
+    await addItem(kaju.id, 2);
+    const res = await addItem(kaju.id, 3);
+
+    expect(res.body.cart.items).toEqual([
+      expect.objectContaining({ sweetId: kaju.id, quantity: 5 }),
+    ]);
+  });
+
+  test("refuses more than is in stock", async () => {
+    await addItem(peda.id, 2);
+    const res = await addItem(peda.id, 1);
+
+    expect(res.status).toBe(400);
+    expect(res.body.shortages).toEqual([
+      { sweetId: peda.id, requested: 3, available: 2 },
+    ]);
+  });
+
+  test("returns 404 for an unknown sweet", async () => {
+    const res = await addItem("missing", 1);
+    expect(res.status).toBe(404);
+  });
+
+  test("sets and removes an item", async () => {
+    await addItem(kaju.id, 2);
+
+    const set = await request(app)
+      .put(`/api/cart/items/${kaju.id}`)
+      .set("Cookie", [cookie])
+      .send({ quantity: 7 });
+    expect(set.body.cart.items[0]).toMatchObject({ quantity: 7 });
+
+    const removed = await request(app)
+      .delete(`/api/cart/items/${kaju.id}`)
+      .set("Cookie", [cookie]);
+    expect(removed.status).toBe(200);
+    expect(removed.body.cart.items).toEqual([]);
+
+    const again = await request(app)
+      .delete(`/api/cart/items/${kaju.id}`)
+      .set("Cookie", [cookie]);
+    expect(again.status).toBe(404);
+  });
+
+  test("a repeated request keeps a single line", async () => {
+    const set = () =>
+      request(app)
+        .put(`/api/cart/items/${kaju.id}`)
+        .set("Cookie", [cookie])
+        .send({ quantity: 2 });
+
+    const responses = await Promise.all([set(), set()]);
+
+    expect(responses.map((res) => res.status)).toEqual([200, 200]);
+    expect(
+      await prismaMock.cartItem.findMany({ where: { sweetId: kaju.id } }),
+    ).toHaveLength(1);
+  });
+});
+
+describe("PUT /api/cart and DELETE /api/cart", () => {
+  test("replaces the whole cart", async () => {
+    await addItem(kaju.id, 2);
+
+    const res = await request(app)
+      .put("/api/cart")
+      .set("Cookie", [cookie])
+      .send({ items: [{ sweetId: peda.id, quantity: 1 }] });
+
+    expect(res.status).toBe(200);
+    expect(res.body.cart.items).toEqual([
+      expect.objectContaining({ sweetId: peda.id, quantity: 1 }),
+    ]);
+  });
+
+  test("keeps the cart when a replacement is refused", async () => {
+    await addItem(kaju.id, 2);
+
+    const res = await request(app)
+      .put("/api/cart")
+      .set("Cookie", [cookie])
+      .send({ items: [{ sweetId: peda.id, quantity: 5 }] });
+
+    expect(res.status).toBe(400);
+    expect((await getCart()).body.cart.items).toEqual([
+      expect.objectContaining({ sweetId: kaju.id }),
+    ]);
+  });
+
+  test("empties the cart", async () => {
+    await addItem(kaju.id, 2);
+
+    const res = await request(app).delete("/api/cart").set("Cookie", [cookie]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.cart.items).toEqual([]);
+  });
+
+  test("each user has their own cart", async () => {
+    await addItem(kaju.id, 2);
+
+    const other = await prismaMock.user.create({
+      data: {
+        email: "other@example.com",
+        name: "Other",
+        password: "x",
+        role: "USER",
+      },
+    });
+    const res = await request(app)
+      .get("/api/cart")
+      .set("Cookie", [`auth-token=${await sessionToken(other)}`]);
+
+    expect(res.body.cart.items).toEqual([]);
+  });
+});
+
+describe("POST /api/cart/checkout", () => {
+  const checkout = () =>
+    request(app).post("/api/cart/checkout").set("Cookie", [cookie]);
+
+  test("orders the cart and empties it", async () => {
+    await addItem(kaju.id, 2);
+    await addItem(peda.id, 2);
+
+    const res = await checkout();
+
+    expect(res.status).toBe(201);
+    expect(res.body.order.items).toHaveLength(2);
+    expect(res.body.order.total).toBe(9.5);
+    expect((await getCart()).body.cart.items).toEqual([]);
+
+    const sweet = await prismaMock.sweet.findUnique({ where: { id: peda.id } });
+    expect(sweet.stock).toBe(0);
+  });
+
+  test("refuses an empty cart", async () => {
+    const res = await checkout();
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("Cart is empty");
+  });
+
+  test("keeps the cart when an item sold out", async () => {
+    await addItem(kaju.id, 1);
+    await addItem(peda.id, 2);
+    await setStock(peda.id, 1);
+
+    const res = await checkout();
+
+    expect(res.status).toBe(400);
+    expect(await prismaMock.order.count()).toBe(0);
+    expect((await getCart()).body.cart.items).toHaveLength(2);
+  });
+
+  test("a retried checkout with the same Idempotency-Key orders once", async () => {
+    await addItem(kaju.id, 1);
+
+    const first = await checkout().set("Idempotency-Key", "cart-1");
+    const retry = await checkout().set("Idempotency-Key", "cart-1");
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.body.order.id).toBe(first.body.order.id);
+    expect(await prismaMock.order.count()).toBe(1);
+  });
+});
@@ -11,10 +11,10 @@ jest.mock("@/lib/prisma", () => ({
   default: require("./__mocks__/prisma").default,
 }));
 
-import request from "supertest";
+import request from "./helpers/request";
 import { describe, test, expect, beforeEach } from "@jest/globals";
-import jwt from "jsonwebtoken";
 import { app } from "../src/app";
+import { sessionToken } from "./helpers/session";
 
 // Access the mock Prisma client and its reset helper
 const prismaMockModule = require("./__mocks__/prisma");
@@ -26,8 +26,6 @@ beforeEach(() => {
     prismaMockModule.__resetMocks();
 });
 
-const SECRET = process.env.JWT_SECRET || "test-secret";
-
 describe("POST /api/category", () => {
   test("returns 401 for unauthenticated users", async () => {
     const res = await request(app).post("/api/category").send({});
@@ -44,7 +42,7 @@ describe("POST /api/category", () => {
         role: "USER",
       },
     });
-    const token = jwt.sign({ sub: user.id, email: user.email }, SECRET);
+    const token = await sessionToken(user);
 
     const res = await request(app)
       .post("/api/category")
@@ -64,7 +62,7 @@ describe("POST /api/category", () => {
         role: "ADMIN",
       },
     });
-    const token = jwt.sign({ sub: admin.id, email: admin.email }, SECRET);
+    const token = await sessionToken(admin);
 
     const res = await request(app)
       .post("/api/category")
@@ -90,7 +88,7 @@ describe("POST /api/category", () => {
         role: "ADMIN",
       },
     });
-    const token = jwt.sign({ sub: admin.id, email: admin.email }, SECRET);
+    const token = await sessionToken(admin);
 
     const res = await request(app)
       .post("/api/category")
@@ -123,10 +121,7 @@ describe("POST /api/category", () => {
         role: "USER",
       },
     });
-    const token = require("jsonwebtoken").sign(
-      { sub: user.id, email: user.email },
-      process.env.JWT_SECRET || "test-secret",
-    );
+    const token = await sessionToken(user);
 
     const res = await request(app)
       .get("/api/category")
@@ -0,0 +1,109 @@
+/**
+ * CSRF protection tests
+ *
+ * Uses supertest directly (not the CSRF-aware helper) to check that
+ * state-changing requests need a matching double-submit token.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "supertest";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { app } from "../src/app";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+
+// Ensure clean state across tests
+beforeEach(() => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+});
+
+// Fetch a CSRF cookie the way a browser would, from any response
+const primeCsrf = async () => {
+  const res = await request(app).get("/api/auth/me");
+  const cookie = ([] as string[])
+    .concat(res.headers["set-cookie"] ?? [])
+    .find((c) => c.startsWith("csrf-token="))!
+    .split(";")[0];
+
+  return { cookie, token: decodeURIComponent(cookie.split("=")[1]) };
+};
+
+const registration = {
+  email: "new@example.com",
+  name: "New User",
+  password: "password123",
+};
+
+describe("CSRF protection", () => {
+  test("issues a readable, signed csrf-token cookie", async () => {
+    const res = await request(app).get("/api/auth/me");
+
+    const cookie = ([] as string[])
+      .concat(res.headers["set-cookie"] ?? [])
+      .find((c) => c.startsWith("csrf-token="));
+
+    expect(cookie).toBeDefined();
+    expect(cookie).not.toMatch(/HttpOnly/i);
+    expect(decodeURIComponent(cookie!)).toMatch(/^csrf-token=s:/);
+  });
+
+  test("rejects POST requests without a token", async () => {
+    const res = await request(app)
+      .post("/api/auth/register")
+      .send(registration);
+
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe("CSRF_TOKEN_INVALID");
+  });
+
+  test("rejects a header that does not match the cookie", async () => {
+    const { cookie } = await primeCsrf();
+    const other = await primeCsrf();
+
+    const res = await request(app)
+      .post("/api/auth/register")
+      .set("Cookie", [cookie])
+      .set("X-CSRF-Token", other.token)
+      .send(registration);
+
+    expect(res.status).toBe(403);
+  });
+
+  test("rejects a forged (unsigned) cookie", async () => {
+    const res = await request(app)
+      .post("/api/auth/register")
+      .set("Cookie", ["csrf-token=forged"])
+      .set("X-CSRF-Token", "forged")
+      .send(registration);
+
+    expect(res.status).toBe(403);
+  });
+
+  test("accepts a matching cookie and header", async () => {
+    const { cookie, token } = await primeCsrf();
+
+    const res = await request(app)
+      .post("/api/auth/register")
+      .set("Cookie", [cookie])
+      .set("X-CSRF-Token", token)
+      .send(registration);
+
+    expect(res.status).toBe(201);
+  });
+
+  test("does not apply to Bearer-authenticated requests", async () => {
+    const res = await request(app)
+      .post("/api/sweets")
+      .set("Authorization", "Bearer msk_unknown")
+      .send({});
+
+    // Rejected by authentication, not by the CSRF check
+    expect(res.status).toBe(401);
+  });
+});
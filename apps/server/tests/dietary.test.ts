@@ -0,0 +1,194 @@
+/**
+ * Ingredients, allergens and dietary tags tests
+ *
+ * Covers setting them on sweets, refusing contradictory ones and the
+ * include/exclude search filters.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { app } from "../src/app";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+let admin: any;
+let adminCookie: string;
+let category: any;
+
+// Ensure clean state across tests: an admin and a category
+beforeEach(async () => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+
+  admin = await prismaMock.user.create({
+    data: {
+      email: "admin@example.com",
+      name: "Admin",
+      password: "x",
+      role: "ADMIN",
+    },
+  });
+  adminCookie = `auth-token=${await sessionToken(admin)}`;
+
+  category = await prismaMock.category.create({
+    data: { name: "Mithai", description: "" },
+  });
+});
+
+const createSweet = (body: any) =>
+  prismaMock.sweet.create({
+    data: {
+      price: 1,
+      stock: 10,
+      categoryId: category.id,
+      userId: admin.id,
+      ...body,
+    },
+  });
+
+const search = (query: string) =>
+  request(app)
+    .get(`/api/sweets/search?${query}`)
+    .set("Cookie", [adminCookie]);
+
+const names = (res: any) =>
+  res.body.sweets.map((sweet: any) => sweet.name).sort();
+
+describe("POST /api/sweets", () => {
+  test("saves ingredients, allergens and dietary tags", async () => {
+    const res = await request(app)
+      .post("/api/sweets")
+      .set("Cookie", [adminCookie])
+      .send({
+        name: "Kaju Katli",
+        price: 2,
+        stock: 10,
+        categoryId: category.id,
+        ingredients: "Cashews, sugar, ghee, silver leaf",
+        allergens: ["NUTS", "DAIRY", "NUTS"],
+        dietaryTags: ["JAIN"],
+      });
+
+    expect(res.status).toBe(201);
+    expect(res.body.sweet).toMatchObject({
+      ingredients: "Cashews, sugar, ghee, silver leaf",
+      allergens: ["NUTS", "DAIRY"],
+      dietaryTags: ["JAIN"],
+    });
+  });
+
+  test("refuses a vegan sweet with dairy", async () => {
+    const res = await request(app)
+      .post("/api/sweets")
+      .set("Cookie", [adminCookie])
+      .send({
+        name: "Rasmalai",
+        price: 2,
+        stock: 10,
+        categoryId: category.id,
+        allergens: ["DAIRY"],
+        dietaryTags: ["VEGAN"],
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("A vegan sweet cannot contain dairy");
+  });
+
+  test("refuses unknown allergens", async () => {
+    const res = await request(app)
+      .post("/api/sweets")
+      .set("Cookie", [adminCookie])
+      .send({
+        name: "Chikki",
+        price: 1,
+        stock: 10,
+        categoryId: category.id,
+        allergens: ["PEANUTS"],
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors.allergens).toBeDefined();
+  });
+});
+
+describe("PUT /api/sweets/:id", () => {
+  test("replaces the lists and checks them against the sweet's", async () => {
+    const sweet = await createSweet({
+      name: "Peda",
+      allergens: ["DAIRY"],
+    });
+
+    const vegan = await request(app)
+      .put(`/api/sweets/${sweet.id}`)
+      .set("Cookie", [adminCookie])
+      .send({ dietaryTags: ["VEGAN"] });
+    expect(vegan.status).toBe(400);
+
+    const res = await request(app)
+      .put(`/api/sweets/${sweet.id}`)
+      .set("Cookie", [adminCookie])
+      .send({ allergens: [], dietaryTags: ["VEGAN"], ingredients: null });
+    expect(res.status).toBe(200);
+    expect(res.body.sweet).toMatchObject({
+      allergens: [],
+      dietaryTags: ["VEGAN"],
+      ingredients: null,
+    });
+  });
+});
+
+describe("GET /api/sweets/search", () => {
+  beforeEach(async () => {
+    await createSweet({
+      name: "Kaju Katli",
+      allergens: ["NUTS", "DAIRY"],
+      dietaryTags: ["JAIN"],
+    });
+    await createSweet({
+      name: "Sugar-free Barfi",
+      allergens: ["DAIRY"],
+      dietaryTags: ["SUGAR_FREE", "JAIN"],
+    });
+    await createSweet({
+      name: "Coconut Ladoo",
+      dietaryTags: ["VEGAN", "JAIN"],
+    });
+    await createSweet({ name: "Besan Ladoo", allergens: ["GLUTEN"] });
+  });
+
+  test("keeps sweets with every listed tag", async () => {
+    const res = await search("tags=JAIN,SUGAR_FREE");
+
+    expect(res.status).toBe(200);
+    expect(names(res)).toEqual(["Sugar-free Barfi"]);
+  });
+
+  test("leaves out sweets with any excluded allergen", async () => {
+    const res = await search("excludeAllergens=NUTS&excludeAllergens=GLUTEN");
+
+    expect(names(res)).toEqual(["Coconut Ladoo", "Sugar-free Barfi"]);
+  });
+
+  test("combines includes and excludes with the other filters", async () => {
+    const res = await search("name=ladoo&excludeTags=VEGAN");
+    expect(names(res)).toEqual(["Besan Ladoo"]);
+
+    const nuts = await search("allergens=NUTS&excludeTags=SUGAR_FREE");
+    expect(names(nuts)).toEqual(["Kaju Katli"]);
+  });
+
+  test("refuses unknown tags", async () => {
+    const res = await search("tags=KETO");
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors.tags).toBeDefined();
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * CSRF-aware supertest wrapper
+ *
+ * State-changing routes require the double-submit CSRF token (see
+ * `@/middleware/csrf`). `request(app)` behaves like supertest's, but every
+ * request carries a valid `csrf-token` cookie and matching `X-CSRF-Token`
+ * header. Cookies set by the test with `.set("Cookie", ...)` are sent
+ * alongside the CSRF cookie.
+ *
+ * `request.agent(app)` wraps `supertest.agent` the same way.
+ *
+ * Use supertest directly to exercise the CSRF checks themselves.
+ */
+import supertest from "supertest";
+import { CSRF_COOKIE, CSRF_HEADER } from "@/middleware/csrf";
+import { signValue } from "@/utility/cookies";
+
+const CSRF_VALUE = signValue("test-csrf-token");
+const CSRF_COOKIE_PAIR = `${CSRF_COOKIE}=${encodeURIComponent(CSRF_VALUE)}`;
+
+const METHODS = ["get", "post", "put", "patch", "delete"] as const;
+
+function withCsrf(test: supertest.Test): supertest.Test {
+  const set = test.set.bind(test) as (field: string, value: any) => any;
+
+  // Keep the CSRF cookie when the test sets its own cookies. The header is
+  // sent as a string because agents append their stored cookies to it.
+  (test as any).set = (field: any, value?: any) =>
+    typeof field === "string" && field.toLowerCase() === "cookie"
+      ? set(field, [...[value].flat(), CSRF_COOKIE_PAIR].join("; "))
+      : set(field, value);
+
+  return test.set("Cookie", []).set(CSRF_HEADER, CSRF_VALUE);
+}
+
+type App = Parameters<typeof supertest>[0];
+
+function wrap(agent: ReturnType<typeof supertest>) {
+  return Object.fromEntries(
+    METHODS.map((method) => [
+      method,
+      (url: string) => withCsrf(agent[method](url)),
+    ]),
+  ) as Record<(typeof METHODS)[number], (url: string) => supertest.Test>;
+}
+
+export default function request(app: App) {
+  return wrap(supertest(app));
+}
+
+/** Like `supertest.agent`: keeps cookies set by responses between requests */
+request.agent = (app: App) => wrap(supertest.agent(app));
@@ -0,0 +1,25 @@
+/**
+ * Session helpers for tests
+ *
+ * `requireAuth` only accepts access tokens that are bound to an active
+ * `Session` row, so tests cannot sign a bare JWT anymore. `sessionToken`
+ * creates the session in the Prisma mock and signs a matching access token
+ * that can be sent as the `auth-token` cookie.
+ */
+import prisma from "@/lib/prisma";
+import { signAccessToken } from "@/lib/sessions";
+
+/**
+ * Create an active session for `user` and return a signed access token.
+ */
+export async function sessionToken(user: { id: string; email: string }) {
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: `test-${user.id}`,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    },
+  });
+
+  return signAccessToken(user, session.id);
+}
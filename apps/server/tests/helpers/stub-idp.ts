@@ -0,0 +1,148 @@
+/**
+ * Stub OpenID Connect identity provider for tests
+ *
+ * A real HTTP server on a random local port implementing just enough of a
+ * provider for the authorization-code flow with PKCE: discovery, a JWKS
+ * endpoint, an authorize endpoint that signs the "user" in immediately and
+ * a token endpoint that checks the code, client and PKCE verifier before
+ * returning an RS256-signed ID token.
+ *
+ * Set `idp.user` to choose who signs in next, and `idp.tamper` to corrupt
+ * the next ID token.
+ */
+import crypto from "crypto";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import jwt from "jsonwebtoken";
+
+export interface StubIdpUser {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce: string;
+  codeChallenge: string;
+  user: StubIdpUser;
+}
+
+export const STUB_CLIENT_ID = "misthan-test";
+export const STUB_CLIENT_SECRET = "stub-secret";
+
+/**
+ * Start the stub provider. Call `idp.close()` when done.
+ */
+export async function startStubIdp() {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+  const kid = "stub-key";
+  const codes = new Map<string, PendingCode>();
+
+  const idp = {
+    issuer: "",
+    user: { sub: "user-1" } as StubIdpUser,
+    tamper: null as null | "nonce" | "audience" | "signature",
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+
+  const app = express().use(express.urlencoded({ extended: false }));
+
+  app.get("/.well-known/openid-configuration", (_req, res) => {
+    res.json({
+      issuer: idp.issuer,
+      authorization_endpoint: `${idp.issuer}/authorize`,
+      token_endpoint: `${idp.issuer}/token`,
+      jwks_uri: `${idp.issuer}/jwks`,
+    });
+  });
+
+  app.get("/jwks", (_req, res) => {
+    res.json({
+      keys: [{ ...publicKey.export({ format: "jwk" }), kid, use: "sig" }],
+    });
+  });
+
+  app.get("/authorize", (req, res) => {
+    const query = req.query as Record<string, string>;
+
+    if (
+      query.response_type !== "code" ||
+      query.code_challenge_method !== "S256" ||
+      !query.code_challenge
+    )
+      return res.status(400).send("invalid_request");
+
+    const code = crypto.randomBytes(16).toString("hex");
+    codes.set(code, {
+      clientId: query.client_id,
+      redirectUri: query.redirect_uri,
+      nonce: query.nonce,
+      codeChallenge: query.code_challenge,
+      user: idp.user,
+    });
+
+    const back = new URL(query.redirect_uri);
+    back.searchParams.set("code", code);
+    back.searchParams.set("state", query.state);
+    res.redirect(back.toString());
+  });
+
+  app.post("/token", (req, res) => {
+    const pending = codes.get(req.body.code);
+    codes.delete(req.body.code);
+
+    const verifierHash = crypto
+      .createHash("sha256")
+      .update(req.body.code_verifier ?? "")
+      .digest("base64url");
+
+    if (
+      !pending ||
+      req.body.grant_type !== "authorization_code" ||
+      req.body.client_id !== pending.clientId ||
+      req.body.client_secret !== STUB_CLIENT_SECRET ||
+      req.body.redirect_uri !== pending.redirectUri ||
+      verifierHash !== pending.codeChallenge
+    )
+      return res.status(400).json({ error: "invalid_grant" });
+
+    const tamper = idp.tamper;
+    idp.tamper = null;
+
+    const signingKey =
+      tamper === "signature"
+        ? crypto.generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey
+        : privateKey;
+
+    const idToken = jwt.sign(
+      {
+        ...pending.user,
+        nonce: tamper === "nonce" ? "wrong-nonce" : pending.nonce,
+      },
+      signingKey,
+      {
+        algorithm: "RS256",
+        keyid: kid,
+        issuer: idp.issuer,
+        audience: tamper === "audience" ? "someone-else" : pending.clientId,
+        expiresIn: 300,
+      },
+    );
+
+    res.json({ access_token: "stub", token_type: "Bearer", id_token: idToken });
+  });
+
+  const server: Server = await new Promise((resolve) => {
+    const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+  });
+
+  idp.issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return idp;
+}
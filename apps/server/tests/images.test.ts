@@ -0,0 +1,248 @@
+/**
+ * Sweet image tests
+ *
+ * Covers multipart upload with type and size checks, thumbnails, ordering
+ * and removal, serving stored files and the primary image in listings.
+ * Images are stored in a temporary directory.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach, afterAll } from "@jest/globals";
+import { app } from "../src/app";
+import { LocalImageStorage, setImageStorage } from "../src/lib/images";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+const dir = mkdtempSync(path.join(os.tmpdir(), "misthan-images-"));
+setImageStorage(new LocalImageStorage(dir));
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+let adminCookie: string;
+let sweet: any;
+
+// Ensure clean state across tests: an admin and one sweet
+beforeEach(async () => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+
+  const admin = await prismaMock.user.create({
+    data: {
+      email: "admin@example.com",
+      name: "Admin",
+      password: "x",
+      role: "ADMIN",
+    },
+  });
+  adminCookie = `auth-token=${await sessionToken(admin)}`;
+
+  const category = await prismaMock.category.create({
+    data: { name: "Peda", description: "" },
+  });
+  sweet = await prismaMock.sweet.create({
+    data: {
+      name: "Mathura Peda",
+      price: 2,
+      stock: 5,
+      categoryId: category.id,
+      userId: admin.id,
+    },
+  });
+});
+
+// A small solid-colour PNG
+const png = (width = 640, height = 480) =>
+  sharp({
+    create: { width, height, channels: 3, background: "#c08040" },
+  })
+    .png()
+    .toBuffer();
+
+const upload = (files: [Buffer, string][], cookie = adminCookie) => {
+  const req = request(app)
+    .post(`/api/sweets/${sweet.id}/images`)
+    .set("Cookie", [cookie]);
+  for (const [data, name] of files) req.attach("images", data, name);
+  return req;
+};
+
+describe("POST /api/sweets/:id/images", () => {
+  test("stores images with thumbnails", async () => {
+    const res = await upload([[await png(), "peda.png"]]);
+
+    expect(res.status).toBe(201);
+    expect(res.body.images).toEqual([
+      expect.objectContaining({
+        position: 0,
+        contentType: "image/png",
+        width: 640,
+        height: 480,
+      }),
+    ]);
+
+    const [image] = res.body.images;
+    const original = await request(app).get(image.url);
+    expect(original.status).toBe(200);
+    expect(original.headers["content-type"]).toBe("image/png");
+
+    const thumbnail = await request(app).get(image.thumbnailUrl);
+    expect(thumbnail.headers["content-type"]).toBe("image/webp");
+    const size = await sharp(thumbnail.body).metadata();
+    expect([size.width, size.height]).toEqual([320, 320]);
+  });
+
+  test("adds new images after the existing ones", async () => {
+    await upload([[await png(), "a.png"]]);
+
+    const res = await upload([
+      [await png(), "b.png"],
+      [await png(), "c.png"],
+    ]);
+
+    expect(res.body.images.map((image: any) => image.position)).toEqual([
+      0, 1, 2,
+    ]);
+  });
+
+  test("rejects files that are not images", async () => {
+    const res = await upload([
+      [await png(), "ok.png"],
+      [Buffer.from("<svg></svg>"), "fake.png"],
+    ]);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/fake\.png/);
+    expect(await prismaMock.sweetImage.count()).toBe(0);
+  });
+
+  test("requires at least one file", async () => {
+    const res = await request(app)
+      .post(`/api/sweets/${sweet.id}/images`)
+      .set("Cookie", [adminCookie])
+      .field("note", "nothing");
+
+    expect(res.status).toBe(400);
+  });
+
+  test("requires sweet.update", async () => {
+    const user = await prismaMock.user.create({
+      data: { email: "u@example.com", name: "U", password: "x", role: "USER" },
+    });
+
+    const res = await upload(
+      [[await png(), "peda.png"]],
+      `auth-token=${await sessionToken(user)}`,
+    );
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("image order and removal", () => {
+  const uploadThree = async () =>
+    (
+      await upload([
+        [await png(), "a.png"],
+        [await png(), "b.png"],
+        [await png(), "c.png"],
+      ])
+    ).body.images.map((image: any) => image.id);
+
+  test("reorders images and lists the primary image first", async () => {
+    const [a, b, c] = await uploadThree();
+
+    const res = await request(app)
+      .put(`/api/sweets/${sweet.id}/images/order`)
+      .set("Cookie", [adminCookie])
+      .send({ imageIds: [c, a, b] });
+
+    expect(res.status).toBe(200);
+    expect(res.body.images.map((image: any) => image.id)).toEqual([c, a, b]);
+
+    const sweets = await request(app)
+      .get("/api/sweets")
+      .set("Cookie", [adminCookie]);
+    expect(sweets.body.sweets[0].primaryImage).toMatchObject({ id: c });
+  });
+
+  test("refuses an order that misses an image", async () => {
+    const [a, b] = await uploadThree();
+
+    const res = await request(app)
+      .put(`/api/sweets/${sweet.id}/images/order`)
+      .set("Cookie", [adminCookie])
+      .send({ imageIds: [a, b, b] });
+
+    expect(res.status).toBe(400);
+  });
+
+  test("removes an image and its files", async () => {
+    const [a, b] = await uploadThree();
+    const url = (
+      await request(app)
+        .get(`/api/sweets/${sweet.id}/images`)
+        .set("Cookie", [adminCookie])
+    ).body.images[0].url;
+
+    const res = await request(app)
+      .delete(`/api/sweets/${sweet.id}/images/${a}`)
+      .set("Cookie", [adminCookie]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.images[0].id).toBe(b);
+    expect((await request(app).get(url)).status).toBe(404);
+  });
+  test("keeps the images of an archived sweet", async () => {
+    const [a] = await uploadThree();
+    await request(app)
+      .delete(`/api/sweets/${sweet.id}`)
+      .set("Cookie", [adminCookie]);
+
+    const res = await request(app)
+      .delete(`/api/sweets/${sweet.id}/images/${a}`)
+      .set("Cookie", [adminCookie]);
+
+    expect(res.status).toBe(404);
+    expect(
+      await prismaMock.sweetImage.count({ where: { sweetId: sweet.id } }),
+    ).toBe(3);
+  });
+});
+
+describe("listings", () => {
+  test("sweets without images have no primary image", async () => {
+    const res = await request(app)
+      .get("/api/sweets")
+      .set("Cookie", [adminCookie]);
+
+    expect(res.body.sweets[0].primaryImage).toBeNull();
+    expect(res.body.sweets[0]).not.toHaveProperty("images");
+  });
+
+  test("search results include the primary image", async () => {
+    await upload([[await png(), "peda.png"]]);
+
+    const res = await request(app)
+      .get("/api/sweets/search?name=peda")
+      .set("Cookie", [adminCookie]);
+
+    expect(res.body.sweets[0].primaryImage).toHaveProperty("thumbnailUrl");
+  });
+});
+
+test("stored files cannot be read outside the image directory", async () => {
+  const res = await request(app).get("/api/images/..%2F..%2Fetc/passwd.png");
+  expect(res.status).toBe(404);
+});
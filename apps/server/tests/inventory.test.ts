@@ -0,0 +1,196 @@
+/**
+ * Low-stock threshold and alert tests
+ *
+ * Covers the low-stock list, alerts opened when a movement crosses a
+ * sweet's threshold and resolved when a restock takes it back above, and
+ * dismissing alerts.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { app } from "../src/app";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+let adminCookie: string;
+let categoryId: string;
+
+// Ensure clean state across tests
+beforeEach(async () => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+
+  const admin = await prismaMock.user.create({
+    data: {
+      email: "admin@example.com",
+      name: "Admin",
+      password: "x",
+      role: "ADMIN",
+    },
+  });
+  adminCookie = `auth-token=${await sessionToken(admin)}`;
+
+  const category = await prismaMock.category.create({
+    data: { name: "Ladoo", description: "" },
+  });
+  categoryId = category.id;
+});
+
+const createSweet = async (body: any) => {
+  const res = await request(app)
+    .post("/api/sweets")
+    .set("Cookie", [adminCookie])
+    .send({ name: "Motichoor Ladoo", price: 1, categoryId, ...body });
+  return res.body.sweet;
+};
+
+const purchase = (sweetId: string, quantity: number) =>
+  request(app)
+    .post(`/api/sweets/${sweetId}/purchase`)
+    .set("Cookie", [adminCookie])
+    .send({ quantity });
+
+const restock = (sweetId: string, quantity: number) =>
+  request(app)
+    .post(`/api/sweets/${sweetId}/restock`)
+    .set("Cookie", [adminCookie])
+    .send({ quantity });
+
+const openAlerts = () =>
+  request(app).get("/api/inventory/alerts").set("Cookie", [adminCookie]);
+
+describe("low-stock settings", () => {
+  test("are saved on create and update", async () => {
+    const sweet = await createSweet({ stock: 10, lowStockThreshold: 3 });
+    expect(sweet).toMatchObject({ lowStockThreshold: 3 });
+
+    const res = await request(app)
+      .put(`/api/sweets/${sweet.id}`)
+      .set("Cookie", [adminCookie])
+      .send({ reorderQuantity: 20, lowStockThreshold: null });
+
+    expect(res.status).toBe(200);
+    expect(res.body.sweet).toMatchObject({
+      lowStockThreshold: null,
+      reorderQuantity: 20,
+    });
+  });
+
+  test("are validated", async () => {
+    const res = await request(app)
+      .post("/api/sweets")
+      .set("Cookie", [adminCookie])
+      .send({
+        name: "Boondi",
+        price: 1,
+        stock: 1,
+        categoryId,
+        reorderQuantity: 0,
+      });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("GET /api/inventory/low-stock", () => {
+  test("lists sweets at or below their threshold with a suggestion", async () => {
+    const low = await createSweet({
+      stock: 2,
+      lowStockThreshold: 5,
+      reorderQuantity: 24,
+    });
+    const atThreshold = await createSweet({ stock: 5, lowStockThreshold: 5 });
+    await createSweet({ stock: 6, lowStockThreshold: 5 });
+    await createSweet({ stock: 0 });
+
+    const res = await request(app)
+      .get("/api/inventory/low-stock")
+      .set("Cookie", [adminCookie]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.sweets).toEqual([
+      expect.objectContaining({ id: low.id, suggestedQuantity: 24 }),
+      expect.objectContaining({ id: atThreshold.id, suggestedQuantity: 5 }),
+    ]);
+  });
+
+  test("is hidden from customers", async () => {
+    const user = await prismaMock.user.create({
+      data: { email: "c@example.com", name: "C", password: "x", role: "USER" },
+    });
+
+    const res = await request(app)
+      .get("/api/inventory/low-stock")
+      .set("Cookie", [`auth-token=${await sessionToken(user)}`]);
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("low-stock alerts", () => {
+  test("a purchase that crosses the threshold opens an alert", async () => {
+    const sweet = await createSweet({ stock: 6, lowStockThreshold: 4 });
+
+    await purchase(sweet.id, 1);
+    expect((await openAlerts()).body.alerts).toEqual([]);
+
+    await purchase(sweet.id, 2);
+    const res = await openAlerts();
+
+    expect(res.status).toBe(200);
+    expect(res.body.alerts).toEqual([
+      expect.objectContaining({ sweetId: sweet.id, stock: 3, threshold: 4 }),
+    ]);
+  });
+
+  test("only one alert is opened while the sweet stays low", async () => {
+    const sweet = await createSweet({ stock: 5, lowStockThreshold: 4 });
+
+    await purchase(sweet.id, 2);
+    await purchase(sweet.id, 1);
+
+    expect((await openAlerts()).body.alerts).toHaveLength(1);
+  });
+
+  test("a restock above the threshold resolves the alert", async () => {
+    const sweet = await createSweet({ stock: 5, lowStockThreshold: 4 });
+    await purchase(sweet.id, 3);
+
+    await restock(sweet.id, 1);
+    expect((await openAlerts()).body.alerts).toHaveLength(1);
+
+    await restock(sweet.id, 10);
+    expect((await openAlerts()).body.alerts).toEqual([]);
+  });
+
+  test("sweets without a threshold never alert", async () => {
+    const sweet = await createSweet({ stock: 5 });
+
+    await purchase(sweet.id, 5);
+
+    expect(await prismaMock.stockAlert.count()).toBe(0);
+  });
+
+  test("can be dismissed once", async () => {
+    const sweet = await createSweet({ stock: 5, lowStockThreshold: 4 });
+    await purchase(sweet.id, 2);
+    const [alert] = (await openAlerts()).body.alerts;
+
+    const dismiss = () =>
+      request(app)
+        .post(`/api/inventory/alerts/${alert.id}/dismiss`)
+        .set("Cookie", [adminCookie]);
+
+    expect((await dismiss()).status).toBe(200);
+    expect((await openAlerts()).body.alerts).toEqual([]);
+    expect((await dismiss()).status).toBe(404);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Invitation workflow integration tests
+ *
+ * Covers admin-only invitation management and accepting an invitation via
+ * `POST /api/auth/register/invite`. Outgoing mail is captured with a stub
+ * transport and Prisma is mocked to keep tests isolated.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { app } from "../src/app";
+import { setMailTransport, type MailMessage } from "../src/lib/mailer";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+let outbox: MailMessage[];
+
+// Ensure clean state and a fresh outbox across tests
+beforeEach(() => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+
+  outbox = [];
+  setMailTransport({ send: async (message) => void outbox.push(message) });
+});
+
+const createAdmin = () =>
+  prismaMock.user.create({
+    data: {
+      email: "owner@example.com",
+      name: "Owner",
+      password: "x",
+      role: "ADMIN",
+    },
+  });
+
+// Pull the raw token out of an invitation link
+const tokenFromUrl = (url: string) => new URL(url).searchParams.get("token")!;
+
+describe("POST /api/invitations", () => {
+  test("returns 403 for non-admin users", async () => {
+    const user = await prismaMock.user.create({
+      data: { email: "u@example.com", name: "User", password: "x", role: "USER" },
+    });
+    const token = await sessionToken(user);
+
+    const res = await request(app)
+      .post("/api/invitations")
+      .set("Cookie", [`auth-token=${token}`])
+      .send({ email: "new-admin@example.com" });
+
+    expect(res.status).toBe(403);
+  });
+
+  test("admin can invite an email and the invitee is emailed a link", async () => {
+    const admin = await createAdmin();
+    const token = await sessionToken(admin);
+
+    const res = await request(app)
+      .post("/api/invitations")
+      .set("Cookie", [`auth-token=${token}`])
+      .send({ email: "new-admin@example.com", role: "ADMIN" });
+
+    expect(res.status).toBe(201);
+    expect(res.body.invitation).toHaveProperty("email", "new-admin@example.com");
+    expect(res.body.invitation).not.toHaveProperty("tokenHash");
+    expect(res.body.inviteUrl).toContain("/accept-invite?token=");
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0].to).toBe("new-admin@example.com");
+  });
+
+  test("returns 409 when the email already has an account", async () => {
+    const admin = await createAdmin();
+    const token = await sessionToken(admin);
+
+    const res = await request(app)
+      .post("/api/invitations")
+      .set("Cookie", [`auth-token=${token}`])
+      .send({ email: admin.email });
+
+    expect(res.status).toBe(409);
+  });
+});
+
+describe("Accepting invitations", () => {
+  const invite = async (email: string, role = "ADMIN") => {
+    const admin = await createAdmin();
+    const token = await sessionToken(admin);
+    const res = await request(app)
+      .post("/api/invitations")
+      .set("Cookie", [`auth-token=${token}`])
+      .send({ email, role });
+    return { ...res.body, adminToken: token };
+  };
+
+  test("GET /api/auth/register/invite describes a pending invitation", async () => {
+    const { inviteUrl } = await invite("peek@example.com");
+
+    const res = await request(app)
+      .get("/api/auth/register/invite")
+      .query({ token: tokenFromUrl(inviteUrl) });
+
+    expect(res.status).toBe(200);
+    expect(res.body.invitation).toEqual({
+      email: "peek@example.com",
+      role: "ADMIN",
+    });
+  });
+
+  test("creates an account with the invited role and the token is single-use", async () => {
+    const { inviteUrl } = await invite("accept@example.com");
+    const token = tokenFromUrl(inviteUrl);
+
+    const res = await request(app)
+      .post("/api/auth/register/invite")
+      .send({ token, name: "Accepted", password: "password123" });
+
+    expect(res.status).toBe(201);
+    expect(res.body.user).toHaveProperty("email", "accept@example.com");
+    expect(res.body.user).toHaveProperty("role", "ADMIN");
+
+    const again = await request(app)
+      .post("/api/auth/register/invite")
+      .send({ token, name: "Again", password: "password123" });
+    expect(again.status).toBe(400);
+  });
+
+  test("an email taken meanwhile returns 409 and leaves the invitation open", async () => {
+    const { inviteUrl } = await invite("race@example.com");
+    prismaMock.user.create.mockImplementationOnce(async () => {
+      throw Object.assign(new Error("Unique constraint failed"), {
+        code: "P2002",
+      });
+    });
+
+    const accept = () =>
+      request(app)
+        .post("/api/auth/register/invite")
+        .send({
+          token: tokenFromUrl(inviteUrl),
+          name: "Racer",
+          password: "password123",
+        });
+
+    expect((await accept()).status).toBe(409);
+    expect((await accept()).status).toBe(201);
+  });
+
+  test("revoked invitations cannot be accepted", async () => {
+    const { invitation, inviteUrl, adminToken } = await invite(
+      "revoked@example.com",
+    );
+
+    const del = await request(app)
+      .delete(`/api/invitations/${invitation.id}`)
+      .set("Cookie", [`auth-token=${adminToken}`]);
+    expect(del.status).toBe(200);
+
+    const res = await request(app)
+      .post("/api/auth/register/invite")
+      .send({
+        token: tokenFromUrl(inviteUrl),
+        name: "Too Late",
+        password: "password123",
+      });
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * OpenID Connect login tests
+ *
+ * Runs the full authorization-code + PKCE flow against a stub identity
+ * provider listening on a local port: account creation, linking by
+ * verified email, returning identities, and the checks on state, nonce,
+ * audience and signature.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from "@jest/globals";
+import bcrypt from "bcryptjs";
+import { app } from "../src/app";
+import { registerOidcProvider } from "../src/lib/oidc";
+import {
+  STUB_CLIENT_ID,
+  STUB_CLIENT_SECRET,
+  startStubIdp,
+} from "./helpers/stub-idp";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+let idp: Awaited<ReturnType<typeof startStubIdp>>;
+
+beforeAll(async () => {
+  idp = await startStubIdp();
+  registerOidcProvider({
+    id: "stub",
+    label: "Stub",
+    issuer: idp.issuer,
+    clientId: STUB_CLIENT_ID,
+    clientSecret: STUB_CLIENT_SECRET,
+  });
+});
+
+afterAll(async () => {
+  await idp.close();
+});
+
+// Ensure clean state across tests
+beforeEach(() => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+  idp.user = {
+    sub: "stub-user-1",
+    email: "walkin@example.com",
+    email_verified: true,
+    name: "Walk-in Customer",
+  };
+});
+
+const cookieList = (res: any): string[] =>
+  ([] as string[]).concat(res.headers["set-cookie"] ?? []);
+
+/**
+ * Start a login, let the stub provider sign the user in and return the
+ * response of the app's callback.
+ */
+const signIn = async (
+  tamperCallback: (params: URLSearchParams) => void = () => {},
+) => {
+  const start = await request(app).get("/api/auth/oidc/stub/start");
+  const flowCookie = cookieList(start)
+    .find((c) => c.startsWith("oidc-flow="))!
+    .split(";")[0];
+
+  const authorize = await fetch(start.headers.location, {
+    redirect: "manual",
+  });
+  const back = new URL(authorize.headers.get("location")!);
+  tamperCallback(back.searchParams);
+
+  return request(app)
+    .get(`/api/auth/oidc/stub/callback?${back.searchParams}`)
+    .set("Cookie", [flowCookie]);
+};
+
+// Search params of the login page an error redirect points at
+const loginRedirect = (res: any) => {
+  const location = new URL(res.headers.location);
+  expect(location.pathname).toBe("/login");
+  return location.searchParams;
+};
+
+describe("GET /api/auth/oidc/providers", () => {
+  test("lists the configured providers", async () => {
+    const res = await request(app).get("/api/auth/oidc/providers");
+
+    expect(res.status).toBe(200);
+    expect(res.body.providers).toContainEqual({ id: "stub", label: "Stub" });
+  });
+});
+
+describe("GET /api/auth/oidc/:provider/start", () => {
+  test("redirects to the provider with PKCE and sets the flow cookie", async () => {
+    const res = await request(app).get("/api/auth/oidc/stub/start");
+
+    expect(res.status).toBe(302);
+    const location = new URL(res.headers.location);
+    expect(location.origin).toBe(idp.issuer);
+    expect(location.searchParams.get("client_id")).toBe(STUB_CLIENT_ID);
+    expect(location.searchParams.get("code_challenge_method")).toBe("S256");
+    expect(location.searchParams.get("scope")).toContain("openid");
+
+    const flowCookie = cookieList(res).find((c) =>
+      c.startsWith("oidc-flow="),
+    );
+    expect(flowCookie).toContain("HttpOnly");
+    expect(flowCookie).toContain("Path=/api/auth/oidc");
+  });
+
+  test("returns 404 for an unknown provider", async () => {
+    const res = await request(app).get("/api/auth/oidc/nope/start");
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("GET /api/auth/oidc/:provider/callback", () => {
+  test("creates an account for a new verified email and signs in", async () => {
+    const res = await signIn();
+
+    expect(res.status).toBe(302);
+    expect(new URL(res.headers.location).pathname).toBe("/");
+    expect(cookieList(res).some((c) => c.startsWith("auth-token="))).toBe(
+      true,
+    );
+
+    const user = await prismaMock.user.findUnique({
+      where: { email: "walkin@example.com" },
+    });
+    expect(user).toMatchObject({ name: "Walk-in Customer", role: "USER" });
+
+    const identities = await prismaMock.identity.findMany();
+    expect(identities).toEqual([
+      expect.objectContaining({
+        userId: user.id,
+        provider: "stub",
+        subject: "stub-user-1",
+      }),
+    ]);
+  });
+
+  test("links an existing account with the same verified email", async () => {
+    const existing = await prismaMock.user.create({
+      data: {
+        email: "walkin@example.com",
+        name: "Existing",
+        password: await bcrypt.hash("password123", 10),
+        role: "STAFF",
+      },
+    });
+
+    const res = await signIn();
+
+    expect(new URL(res.headers.location).pathname).toBe("/");
+    expect(await prismaMock.user.count()).toBe(1);
+
+    const [identity] = await prismaMock.identity.findMany();
+    expect(identity.userId).toBe(existing.id);
+
+    const linked = await prismaMock.authEvent.findMany({
+      where: { type: "IDENTITY_LINKED" },
+    });
+    expect(linked).toHaveLength(1);
+  });
+
+  test("links an account registered with a mixed-case email", async () => {
+    const existing = await prismaMock.user.create({
+      data: {
+        email: "Walkin@Example.com",
+        name: "Existing",
+        password: "x",
+        role: "USER",
+      },
+    });
+    idp.user = { ...idp.user, email: "WALKIN@example.COM" };
+
+    const res = await signIn();
+
+    expect(new URL(res.headers.location).pathname).toBe("/");
+    expect(await prismaMock.user.count()).toBe(1);
+    const [identity] = await prismaMock.identity.findMany();
+    expect(identity.userId).toBe(existing.id);
+  });
+
+  test("refuses the login when another registration takes the email", async () => {
+    prismaMock.user.create.mockImplementationOnce(async () => {
+      throw Object.assign(new Error("Unique constraint failed"), {
+        code: "P2002",
+      });
+    });
+
+    const res = await signIn();
+
+    expect(loginRedirect(res).get("error")).toBe("account_conflict");
+    expect(await prismaMock.identity.count()).toBe(0);
+  });
+
+  test("a returning identity signs in even if the provider email changed", async () => {
+    await signIn();
+    idp.user = { ...idp.user, email: "renamed@example.com" };
+
+    const res = await signIn();
+
+    expect(new URL(res.headers.location).pathname).toBe("/");
+    expect(await prismaMock.user.count()).toBe(1);
+    expect(await prismaMock.identity.count()).toBe(1);
+  });
+
+  test("refuses an unverified email", async () => {
+    idp.user = { ...idp.user, email_verified: false };
+
+    const res = await signIn();
+
+    expect(loginRedirect(res).get("error")).toBe("email_not_verified");
+    expect(await prismaMock.user.count()).toBe(0);
+    expect(cookieList(res).some((c) => c.startsWith("auth-token="))).toBe(
+      false,
+    );
+  });
+
+  test("rejects a mismatched state", async () => {
+    const res = await signIn((params) => params.set("state", "forged"));
+
+    expect(loginRedirect(res).get("error")).toBe("invalid_state");
+  });
+
+  test("rejects a callback without the flow cookie", async () => {
+    const res = await request(app).get(
+      "/api/auth/oidc/stub/callback?code=abc&state=xyz",
+    );
+
+    expect(loginRedirect(res).get("error")).toBe("invalid_state");
+  });
+
+  test.each(["nonce", "audience", "signature"] as const)(
+    "rejects an ID token with a bad %s",
+    async (tamper) => {
+      idp.tamper = tamper;
+
+      const res = await signIn();
+
+      expect(loginRedirect(res).get("error")).toBe("provider_error");
+      expect(await prismaMock.user.count()).toBe(0);
+    },
+  );
+
+  test("sends users with 2FA to the login page with a challenge", async () => {
+    await prismaMock.user.create({
+      data: {
+        email: "walkin@example.com",
+        name: "Existing",
+        password: await bcrypt.hash("password123", 10),
+        role: "USER",
+        totpSecret: "JBSWY3DPEHPK3PXP",
+        totpEnabledAt: new Date(),
+      },
+    });
+
+    const res = await signIn();
+
+    expect(loginRedirect(res).get("challenge")).toEqual(expect.any(String));
+    expect(cookieList(res).some((c) => c.startsWith("auth-token="))).toBe(
+      false,
+    );
+  });
+
+  test("refuses disabled accounts", async () => {
+    await prismaMock.user.create({
+      data: {
+        email: "walkin@example.com",
+        name: "Existing",
+        password: await bcrypt.hash("password123", 10),
+        role: "USER",
+        disabledAt: new Date(),
+      },
+    });
+
+    const res = await signIn();
+
+    expect(loginRedirect(res).get("error")).toBe("account_disabled");
+  });
+});
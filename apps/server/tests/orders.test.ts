@@ -0,0 +1,307 @@
+/**
+ * Orders routes integration tests
+ *
+ * Covers multi-sweet checkout (price snapshots, all-or-nothing stock
+ * checks and rollback on contention), order history for customers, the
+ * all-orders view and the single-item orders created by purchases.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { app } from "../src/app";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+// Ensure clean state across tests
+beforeEach(() => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+});
+
+const createUser = async (email: string, role = "USER") => {
+  const user = await prismaMock.user.create({
+    data: { email, name: email.split("@")[0], password: "x", role },
+  });
+  return { user, cookie: `auth-token=${await sessionToken(user)}` };
+};
+
+const createSweets = async () => {
+  const category = await prismaMock.category.create({
+    data: { name: "Bengali", description: "" },
+  });
+  const create = (name: string, price: number, stock: number) =>
+    prismaMock.sweet.create({
+      data: { name, price, stock, categoryId: category.id, userId: "1" },
+    });
+
+  return {
+    rasgulla: await create("Rasgulla", 1.2, 10),
+    sandesh: await create("Sandesh", 2.35, 3),
+  };
+};
+
+const stockOf = async (id: string) =>
+  (await prismaMock.sweet.findUnique({ where: { id } })).stock;
+
+const checkout = (cookie: string, items: any[]) =>
+  request(app).post("/api/orders").set("Cookie", [cookie]).send({ items });
+
+describe("POST /api/orders", () => {
+  test("requires authentication", async () => {
+    const res = await request(app).post("/api/orders").send({ items: [] });
+    expect(res.status).toBe(401);
+  });
+
+  test("validates the items", async () => {
+    const { cookie } = await createUser("buyer@example.com");
+
+    const empty = await checkout(cookie, []);
+    expect(empty.status).toBe(400);
+
+    const badQuantity = await checkout(cookie, [
+      { sweetId: "1", quantity: 0 },
+    ]);
+    expect(badQuantity.status).toBe(400);
+  });
+
+  test("checks out several sweets and snapshots name and price", async () => {
+    const { user, cookie } = await createUser("buyer@example.com");
+    const { rasgulla, sandesh } = await createSweets();
+
+    const res = await checkout(cookie, [
+      { sweetId: rasgulla.id, quantity: 4 },
+      { sweetId: sandesh.id, quantity: 2 },
+    ]);
+
+    expect(res.status).toBe(201);
+    expect(res.body.order).toMatchObject({ userId: user.id, total: 9.5 });
+    expect(res.body.order.items).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          sweetId: rasgulla.id,
+          name: "Rasgulla",
+          unitPrice: 1.2,
+          quantity: 4,
+        }),
+        expect.objectContaining({
+          sweetId: sandesh.id,
+          name: "Sandesh",
+          unitPrice: 2.35,
+          quantity: 2,
+        }),
+      ]),
+    );
+
+    expect(await stockOf(rasgulla.id)).toBe(6);
+    expect(await stockOf(sandesh.id)).toBe(1);
+  });
+
+  test("adds up lines for the same sweet", async () => {
+    const { cookie } = await createUser("buyer@example.com");
+    const { sandesh } = await createSweets();
+
+    const res = await checkout(cookie, [
+      { sweetId: sandesh.id, quantity: 2 },
+      { sweetId: sandesh.id, quantity: 2 },
+    ]);
+
+    // 4 in total, but only 3 in stock
+    expect(res.status).toBe(400);
+    expect(res.body.shortages).toEqual([
+      { sweetId: sandesh.id, requested: 4, available: 3 },
+    ]);
+  });
+
+  test("changes nothing when one sweet is short", async () => {
+    const { cookie } = await createUser("buyer@example.com");
+    const { rasgulla, sandesh } = await createSweets();
+
+    const res = await checkout(cookie, [
+      { sweetId: rasgulla.id, quantity: 1 },
+      { sweetId: sandesh.id, quantity: 5 },
+    ]);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("Insufficient stock");
+    expect(await stockOf(rasgulla.id)).toBe(10);
+    expect(await prismaMock.order.count()).toBe(0);
+  });
+
+  test("returns 404 for an unknown sweet", async () => {
+    const { cookie } = await createUser("buyer@example.com");
+    const { rasgulla } = await createSweets();
+
+    const res = await checkout(cookie, [
+      { sweetId: rasgulla.id, quantity: 1 },
+      { sweetId: "missing", quantity: 1 },
+    ]);
+
+    expect(res.status).toBe(404);
+    expect(res.body.sweetIds).toEqual(["missing"]);
+    expect(await stockOf(rasgulla.id)).toBe(10);
+  });
+
+  test("rolls back earlier lines when a later one loses a race", async () => {
+    const { cookie } = await createUser("buyer@example.com");
+    const { rasgulla, sandesh } = await createSweets();
+
+    // The second decrement finds the stock already taken
+    const updateMany = prismaMock.sweet.updateMany.getMockImplementation();
+    prismaMock.sweet.updateMany
+      .mockImplementationOnce(updateMany)
+      .mockImplementationOnce(async () => ({ count: 0 }));
+
+    const res = await checkout(cookie, [
+      { sweetId: rasgulla.id, quantity: 2 },
+      { sweetId: sandesh.id, quantity: 1 },
+    ]);
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe("STOCK_CONFLICT");
+    expect(await stockOf(rasgulla.id)).toBe(10);
+    expect(await prismaMock.order.count()).toBe(0);
+  });
+
+  test("concurrent checkouts never oversell", async () => {
+    const { cookie } = await createUser("buyer@example.com");
+    const { rasgulla, sandesh } = await createSweets();
+
+    const order = [
+      { sweetId: rasgulla.id, quantity: 1 },
+      { sweetId: sandesh.id, quantity: 2 },
+    ];
+    const results = await Promise.all([
+      checkout(cookie, order),
+      checkout(cookie, order),
+    ]);
+
+    const statuses = results.map((r) => r.status).sort();
+    expect(statuses[0]).toBe(201);
+    expect([400, 409]).toContain(statuses[1]);
+    expect(await stockOf(sandesh.id)).toBe(1);
+    expect(await stockOf(rasgulla.id)).toBe(9);
+  });
+});
+
+describe("order history", () => {
+  test("customers only see their own orders", async () => {
+    const alice = await createUser("alice@example.com");
+    const bob = await createUser("bob@example.com");
+    const { rasgulla } = await createSweets();
+
+    await checkout(alice.cookie, [{ sweetId: rasgulla.id, quantity: 1 }]);
+    await checkout(bob.cookie, [{ sweetId: rasgulla.id, quantity: 2 }]);
+
+    const res = await request(app)
+      .get("/api/orders")
+      .set("Cookie", [alice.cookie]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(1);
+    expect(res.body.orders[0]).toMatchObject({ userId: alice.user.id });
+  });
+
+  test("keeps the price paid after the sweet is repriced", async () => {
+    const { cookie } = await createUser("buyer@example.com");
+    const { rasgulla } = await createSweets();
+
+    const placed = await checkout(cookie, [
+      { sweetId: rasgulla.id, quantity: 1 },
+    ]);
+    await prismaMock.sweet.update({
+      where: { id: rasgulla.id },
+      data: { price: 3 },
+    });
+
+    const res = await request(app)
+      .get(`/api/orders/${placed.body.order.id}`)
+      .set("Cookie", [cookie]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.order.items[0].unitPrice).toBe(1.2);
+    expect(res.body.order.total).toBe(1.2);
+  });
+
+  test("hides other customers' orders", async () => {
+    const alice = await createUser("alice@example.com");
+    const bob = await createUser("bob@example.com");
+    const { rasgulla } = await createSweets();
+
+    const placed = await checkout(alice.cookie, [
+      { sweetId: rasgulla.id, quantity: 1 },
+    ]);
+
+    const res = await request(app)
+      .get(`/api/orders/${placed.body.order.id}`)
+      .set("Cookie", [bob.cookie]);
+
+    expect(res.status).toBe(404);
+  });
+
+  test("admins can see every order", async () => {
+    const alice = await createUser("alice@example.com");
+    const admin = await createUser("admin@example.com", "ADMIN");
+    const { rasgulla } = await createSweets();
+
+    const placed = await checkout(alice.cookie, [
+      { sweetId: rasgulla.id, quantity: 1 },
+    ]);
+    await checkout(admin.cookie, [{ sweetId: rasgulla.id, quantity: 1 }]);
+
+    const all = await request(app)
+      .get("/api/orders/all")
+      .set("Cookie", [admin.cookie]);
+    expect(all.status).toBe(200);
+    expect(all.body.total).toBe(2);
+
+    const filtered = await request(app)
+      .get(`/api/orders/all?userId=${alice.user.id}`)
+      .set("Cookie", [admin.cookie]);
+    expect(filtered.body.total).toBe(1);
+
+    const one = await request(app)
+      .get(`/api/orders/${placed.body.order.id}`)
+      .set("Cookie", [admin.cookie]);
+    expect(one.status).toBe(200);
+  });
+
+  test("the all-orders view requires order.read", async () => {
+    const staff = await createUser("staff@example.com", "STAFF");
+
+    const res = await request(app)
+      .get("/api/orders/all")
+      .set("Cookie", [staff.cookie]);
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("POST /api/sweets/:id/purchase", () => {
+  test("records a single-item order", async () => {
+    const { user, cookie } = await createUser("buyer@example.com");
+    const { sandesh } = await createSweets();
+
+    const res = await request(app)
+      .post(`/api/sweets/${sandesh.id}/purchase`)
+      .set("Cookie", [cookie])
+      .send({ quantity: 2 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.sweet).toHaveProperty("stock", 1);
+    expect(res.body.order).toMatchObject({ userId: user.id, total: 4.7 });
+    expect(res.body.order.items).toHaveLength(1);
+
+    const history = await request(app)
+      .get("/api/orders")
+      .set("Cookie", [cookie]);
+    expect(history.body.total).toBe(1);
+  });
+});
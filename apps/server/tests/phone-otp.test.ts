@@ -0,0 +1,295 @@
+/**
+ * Phone number + OTP login tests
+ *
+ * Covers requesting a login code by SMS, signing in with it, code expiry,
+ * single use and attempt limits, and the per-phone request limits. SMS is
+ * captured with a stub transport.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import bcrypt from "bcryptjs";
+import { app } from "../src/app";
+import {
+  MemoryAttemptStore,
+  setAttemptStore,
+} from "../src/lib/login-throttle";
+import { normalizePhone, verifyLoginCode } from "../src/lib/phone-otp";
+import { setSmsTransport, type SmsMessage } from "../src/lib/sms";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+const PHONE = "+919876543210";
+
+let sent: SmsMessage[] = [];
+
+// Ensure clean state across tests
+beforeEach(() => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+  setAttemptStore(new MemoryAttemptStore());
+  sent = [];
+  setSmsTransport({
+    send: async (message) => {
+      sent.push(message);
+    },
+  });
+});
+
+const createUser = async (data: Record<string, unknown> = {}) =>
+  prismaMock.user.create({
+    data: {
+      email: "walkin@example.com",
+      name: "Walk-in Customer",
+      password: await bcrypt.hash("password123", 10),
+      role: "USER",
+      phone: PHONE,
+      ...data,
+    },
+  });
+
+// Request a code and return it as read from the captured SMS
+const requestCode = async (phone = PHONE) => {
+  const res = await request(app).post("/api/auth/otp/request").send({ phone });
+  expect(res.status).toBe(200);
+  return sent[sent.length - 1]?.text.match(/\d{6}/)?.[0] as string;
+};
+
+// A six-digit code guaranteed not to match `code`
+const wrongCode = (code: string) => (code === "000000" ? "111111" : "000000");
+
+describe("normalizePhone", () => {
+  test("normalises Indian numbers and keeps E.164 numbers", () => {
+    expect(normalizePhone("98765 43210")).toBe(PHONE);
+    expect(normalizePhone("098765-43210")).toBe(PHONE);
+    expect(normalizePhone("+91 98765 43210")).toBe(PHONE);
+    expect(normalizePhone("+44 7700 900123")).toBe("+447700900123");
+    expect(normalizePhone("12345")).toBeNull();
+  });
+});
+
+describe("POST /api/auth/otp/request", () => {
+  test("texts a code to a registered number and stores only its hash", async () => {
+    await createUser();
+
+    const code = await requestCode("98765 43210");
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe(PHONE);
+    expect(code).toMatch(/^\d{6}$/);
+
+    const [otp] = await prismaMock.phoneOtp.findMany();
+    expect(otp.codeHash).not.toContain(code);
+  });
+
+  test("answers the same for unknown and disabled numbers without texting", async () => {
+    await createUser({ disabledAt: new Date() });
+
+    const unknown = await request(app)
+      .post("/api/auth/otp/request")
+      .send({ phone: "+919999999999" });
+    const disabled = await request(app)
+      .post("/api/auth/otp/request")
+      .send({ phone: PHONE });
+
+    expect(unknown.status).toBe(200);
+    expect(disabled.body).toEqual(unknown.body);
+    expect(sent).toHaveLength(0);
+  });
+
+  test("rejects an invalid phone number", async () => {
+    const res = await request(app)
+      .post("/api/auth/otp/request")
+      .send({ phone: "not a number" });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toHaveProperty("phone");
+  });
+
+  test("enforces a resend cooldown", async () => {
+    await createUser();
+    await requestCode();
+
+    const res = await request(app)
+      .post("/api/auth/otp/request")
+      .send({ phone: PHONE });
+
+    expect(res.status).toBe(429);
+    expect(Number(res.headers["retry-after"])).toBeGreaterThan(0);
+    expect(sent).toHaveLength(1);
+  });
+
+  test("caps the codes per number per hour", async () => {
+    const user = await createUser();
+
+    // Five earlier codes, each outside the resend cooldown
+    for (let i = 0; i < 5; i++)
+      await prismaMock.phoneOtp.create({
+        data: {
+          userId: user.id,
+          phone: PHONE,
+          codeHash: "x",
+          attempts: 0,
+          expiresAt: new Date(),
+          usedAt: new Date(),
+        },
+      });
+    (await prismaMock.phoneOtp.findMany()).forEach(
+      (otp: any) => (otp.createdAt = new Date(Date.now() - 10 * 60 * 1000)),
+    );
+
+    const res = await request(app)
+      .post("/api/auth/otp/request")
+      .send({ phone: PHONE });
+
+    expect(res.status).toBe(429);
+    expect(sent).toHaveLength(0);
+  });
+});
+
+describe("POST /api/auth/otp/verify", () => {
+  test("signs in with the code and sets the auth cookies", async () => {
+    const user = await createUser();
+    const code = await requestCode();
+
+    const res = await request(app)
+      .post("/api/auth/otp/verify")
+      .send({ phone: "9876543210", code });
+
+    expect(res.status).toBe(200);
+    expect(res.body.user).toHaveProperty("id", user.id);
+    expect(res.body.user).not.toHaveProperty("password");
+
+    const cookies = ([] as string[]).concat(res.headers["set-cookie"] ?? []);
+    expect(cookies.some((c) => c.startsWith("auth-token="))).toBe(true);
+    expect(cookies.some((c) => c.startsWith("refresh-token="))).toBe(true);
+
+    const events = await prismaMock.authEvent.findMany({
+      where: { type: "LOGIN" },
+    });
+    expect(events[0].metadata).toEqual({ method: "phone_otp" });
+  });
+
+  test("a code can only be used once", async () => {
+    await createUser();
+    const code = await requestCode();
+
+    await request(app).post("/api/auth/otp/verify").send({ phone: PHONE, code });
+    const again = await request(app)
+      .post("/api/auth/otp/verify")
+      .send({ phone: PHONE, code });
+
+    expect(again.status).toBe(401);
+  });
+
+  test("rejects an expired code", async () => {
+    await createUser();
+    const code = await requestCode();
+
+    await prismaMock.phoneOtp.updateMany({
+      where: { phone: PHONE },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    });
+
+    const res = await request(app)
+      .post("/api/auth/otp/verify")
+      .send({ phone: PHONE, code });
+
+    expect(res.status).toBe(401);
+  });
+
+  test("a newer code replaces the earlier one", async () => {
+    await createUser();
+    const first = await requestCode();
+
+    await prismaMock.phoneOtp.updateMany({
+      where: { phone: PHONE },
+      data: { createdAt: new Date(Date.now() - 2 * 60 * 1000) },
+    });
+    const second = await requestCode();
+
+    if (first !== second) {
+      const stale = await request(app)
+        .post("/api/auth/otp/verify")
+        .send({ phone: PHONE, code: first });
+      expect(stale.status).toBe(401);
+    }
+
+    const res = await request(app)
+      .post("/api/auth/otp/verify")
+      .send({ phone: PHONE, code: second });
+    expect(res.status).toBe(200);
+  });
+
+  test("burns the code after too many wrong guesses", async () => {
+    await createUser();
+    const code = await requestCode();
+
+    for (let i = 0; i < 5; i++) {
+      const res = await request(app)
+        .post("/api/auth/otp/verify")
+        .send({ phone: PHONE, code: wrongCode(code) });
+      expect(res.status).toBe(401);
+    }
+
+    // The right code no longer works (checked directly, since five
+    // failures also lock the number in the login throttle)
+    expect(await verifyLoginCode(PHONE, code)).toBeNull();
+  });
+
+  test("a code sent to the old number stops working once it changes", async () => {
+    const user = await createUser();
+    const code = await requestCode();
+
+    const change = await request(app)
+      .patch("/api/auth/me")
+      .set("Cookie", [`auth-token=${await sessionToken(user)}`])
+      .send({ phone: "+919000000000", currentPassword: "password123" });
+    expect(change.status).toBe(200);
+
+    const res = await request(app)
+      .post("/api/auth/otp/verify")
+      .send({ phone: PHONE, code });
+
+    expect(res.status).toBe(401);
+  });
+
+  test("refuses disabled accounts", async () => {
+    const user = await createUser();
+    const code = await requestCode();
+    await prismaMock.user.update({
+      where: { id: user.id },
+      data: { disabledAt: new Date() },
+    });
+
+    const res = await request(app)
+      .post("/api/auth/otp/verify")
+      .send({ phone: PHONE, code });
+
+    expect(res.status).toBe(403);
+  });
+
+  test("asks for the second factor when 2FA is enabled", async () => {
+    await createUser({ totpSecret: "JBSWY3DPEHPK3PXP", totpEnabledAt: new Date() });
+    const code = await requestCode();
+
+    const res = await request(app)
+      .post("/api/auth/otp/verify")
+      .send({ phone: PHONE, code });
+
+    expect(res.status).toBe(200);
+    expect(res.body.twoFactorRequired).toBe(true);
+    expect(res.body.challenge).toEqual(expect.any(String));
+    expect(res.headers["set-cookie"] ?? []).not.toEqual(
+      expect.arrayContaining([expect.stringMatching(/^auth-token=/)]),
+    );
+  });
+});
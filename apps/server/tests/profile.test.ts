@@ -0,0 +1,241 @@
+/**
+ * Self-service profile tests
+ *
+ * Covers updating the current user's name and email, changing the password
+ * (which signs out other sessions) and deleting the account, which
+ * anonymizes the user instead of removing the row.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import bcrypt from "bcryptjs";
+import { app } from "../src/app";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+// Ensure clean state across tests
+beforeEach(() => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+});
+
+const createUser = async (email = "me@example.com", role = "USER") =>
+  prismaMock.user.create({
+    data: {
+      email,
+      name: "Original Name",
+      password: await bcrypt.hash("password123", 10),
+      role,
+    },
+  });
+
+const cookieFor = async (user: any) => `auth-token=${await sessionToken(user)}`;
+
+describe("PATCH /api/auth/me", () => {
+  test("updates the name without a password", async () => {
+    const user = await createUser();
+
+    const res = await request(app)
+      .patch("/api/auth/me")
+      .set("Cookie", [await cookieFor(user)])
+      .send({ name: "New Name" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.user.name).toBe("New Name");
+    expect(res.body.user).not.toHaveProperty("password");
+  });
+
+  test("requires the current password to change email", async () => {
+    const user = await createUser();
+    const cookie = await cookieFor(user);
+
+    const missing = await request(app)
+      .patch("/api/auth/me")
+      .set("Cookie", [cookie])
+      .send({ email: "changed@example.com" });
+
+    expect(missing.status).toBe(400);
+    expect(missing.body.errors).toHaveProperty("currentPassword");
+
+    const res = await request(app)
+      .patch("/api/auth/me")
+      .set("Cookie", [cookie])
+      .send({ email: "changed@example.com", currentPassword: "password123" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.user.email).toBe("changed@example.com");
+  });
+
+  test("returns 409 when the email is taken", async () => {
+    const user = await createUser();
+    await createUser("taken@example.com");
+
+    const res = await request(app)
+      .patch("/api/auth/me")
+      .set("Cookie", [await cookieFor(user)])
+      .send({ email: "taken@example.com", currentPassword: "password123" });
+
+    expect(res.status).toBe(409);
+  });
+
+  test("sets and removes the phone number with the current password", async () => {
+    const user = await createUser();
+    const cookie = await cookieFor(user);
+
+    const missing = await request(app)
+      .patch("/api/auth/me")
+      .set("Cookie", [cookie])
+      .send({ phone: "98765 43210" });
+    expect(missing.status).toBe(400);
+    expect(missing.body.errors).toHaveProperty("currentPassword");
+
+    const set = await request(app)
+      .patch("/api/auth/me")
+      .set("Cookie", [cookie])
+      .send({ phone: "98765 43210", currentPassword: "password123" });
+    expect(set.status).toBe(200);
+    expect(set.body.user.phone).toBe("+919876543210");
+
+    const removed = await request(app)
+      .patch("/api/auth/me")
+      .set("Cookie", [cookie])
+      .send({ phone: null, currentPassword: "password123" });
+    expect(removed.status).toBe(200);
+    expect(removed.body.user.phone).toBeNull();
+  });
+
+  test("returns 409 when the phone number is taken", async () => {
+    const user = await createUser();
+    const other = await createUser("taken@example.com");
+    await prismaMock.user.update({
+      where: { id: other.id },
+      data: { phone: "+919876543210" },
+    });
+
+    const res = await request(app)
+      .patch("/api/auth/me")
+      .set("Cookie", [await cookieFor(user)])
+      .send({ phone: "+919876543210", currentPassword: "password123" });
+
+    expect(res.status).toBe(409);
+  });
+
+  test("rejects an empty update", async () => {
+    const user = await createUser();
+
+    const res = await request(app)
+      .patch("/api/auth/me")
+      .set("Cookie", [await cookieFor(user)])
+      .send({});
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("POST /api/auth/change-password", () => {
+  test("rejects a wrong current password", async () => {
+    const user = await createUser();
+
+    const res = await request(app)
+      .post("/api/auth/change-password")
+      .set("Cookie", [await cookieFor(user)])
+      .send({ currentPassword: "wrong-password", newPassword: "newpass123" });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toHaveProperty("currentPassword");
+  });
+
+  test("changes the password and revokes other sessions", async () => {
+    const user = await createUser();
+    const current = await cookieFor(user);
+    const other = await cookieFor(user);
+
+    const res = await request(app)
+      .post("/api/auth/change-password")
+      .set("Cookie", [current])
+      .send({ currentPassword: "password123", newPassword: "newpass123" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.revokedSessions).toBe(1);
+
+    const stillIn = await request(app)
+      .get("/api/auth/me")
+      .set("Cookie", [current]);
+    expect(stillIn.status).toBe(200);
+
+    const signedOut = await request(app)
+      .get("/api/auth/me")
+      .set("Cookie", [other]);
+    expect(signedOut.status).toBe(401);
+
+    const login = await request(app)
+      .post("/api/auth/login")
+      .send({ email: user.email, password: "newpass123" });
+    expect(login.status).toBe(200);
+  });
+});
+
+describe("DELETE /api/auth/me", () => {
+  test("anonymizes the user, keeps their sweets and signs them out", async () => {
+    const user = await createUser();
+    const cookie = await cookieFor(user);
+    await prismaMock.sweet.create({
+      data: { name: "Ladoo", price: 10, stock: 5, userId: user.id },
+    });
+
+    const res = await request(app)
+      .delete("/api/auth/me")
+      .set("Cookie", [cookie])
+      .send({ password: "password123" });
+
+    expect(res.status).toBe(200);
+
+    const stored = await prismaMock.user.findUnique({
+      where: { id: user.id },
+    });
+    expect(stored.name).toBe("Deleted user");
+    expect(stored.email).not.toBe("me@example.com");
+    expect(stored.deletedAt).toBeInstanceOf(Date);
+
+    const sweets = await prismaMock.sweet.findMany();
+    expect(sweets[0].userId).toBe(user.id);
+
+    const me = await request(app).get("/api/auth/me").set("Cookie", [cookie]);
+    expect(me.status).toBe(401);
+
+    const login = await request(app)
+      .post("/api/auth/login")
+      .send({ email: "me@example.com", password: "password123" });
+    expect(login.status).toBe(401);
+  });
+
+  test("requires the password", async () => {
+    const user = await createUser();
+
+    const res = await request(app)
+      .delete("/api/auth/me")
+      .set("Cookie", [await cookieFor(user)])
+      .send({ password: "wrong-password" });
+
+    expect(res.status).toBe(400);
+  });
+
+  test("refuses to delete the last admin", async () => {
+    const admin = await createUser("admin@example.com", "ADMIN");
+
+    const res = await request(app)
+      .delete("/api/auth/me")
+      .set("Cookie", [await cookieFor(admin)])
+      .send({ password: "password123" });
+
+    expect(res.status).toBe(409);
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Stock movement ledger tests
+ *
+ * Checks that every route that changes stock (create, purchase, restock,
+ * update and manual movements) records a movement, that the ledger adds
+ * up to `Sweet.stock`, and the history endpoint.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { app } from "../src/app";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+let admin: any;
+let adminCookie: string;
+let categoryId: string;
+
+// Ensure clean state across tests
+beforeEach(async () => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+
+  admin = await prismaMock.user.create({
+    data: {
+      email: "admin@example.com",
+      name: "Admin",
+      password: "x",
+      role: "ADMIN",
+    },
+  });
+  adminCookie = `auth-token=${await sessionToken(admin)}`;
+
+  const category = await prismaMock.category.create({
+    data: { name: "Halwa", description: "" },
+  });
+  categoryId = category.id;
+});
+
+const cookieFor = async (role: string) => {
+  const user = await prismaMock.user.create({
+    data: { email: `${role}@example.com`, name: role, password: "x", role },
+  });
+  return `auth-token=${await sessionToken(user)}`;
+};
+
+// Create a sweet through the API so its opening stock is recorded
+const createSweet = async (stock: number) => {
+  const res = await request(app)
+    .post("/api/sweets")
+    .set("Cookie", [adminCookie])
+    .send({ name: "Gajar Halwa", price: 2, stock, categoryId });
+  return res.body.sweet;
+};
+
+const movementsOf = (sweetId: string) =>
+  prismaMock.stockMovement.findMany({ where: { sweetId } });
+
+// The ledger adds up to the sweet's stock
+const expectBalanced = async (sweetId: string) => {
+  const sweet = await prismaMock.sweet.findUnique({ where: { id: sweetId } });
+  const movements = await movementsOf(sweetId);
+  const sum = movements.reduce((total: number, m: any) => total + m.delta, 0);
+  expect(sum).toBe(sweet.stock);
+};
+
+describe("stock changes are recorded", () => {
+  test("creating a sweet records its opening stock", async () => {
+    const sweet = await createSweet(12);
+
+    expect(await movementsOf(sweet.id)).toEqual([
+      expect.objectContaining({
+        type: "RESTOCK",
+        delta: 12,
+        balance: 12,
+        userId: admin.id,
+      }),
+    ]);
+  });
+
+  test("a purchase records a SALE referencing the order", async () => {
+    const sweet = await createSweet(5);
+
+    const res = await request(app)
+      .post(`/api/sweets/${sweet.id}/purchase`)
+      .set("Cookie", [adminCookie])
+      .send({ quantity: 2 });
+
+    const sale = (await movementsOf(sweet.id)).find(
+      (m: any) => m.type === "SALE",
+    );
+    expect(sale).toMatchObject({
+      delta: -2,
+      balance: 3,
+      reference: res.body.order.id,
+    });
+    await expectBalanced(sweet.id);
+  });
+
+  test("a restock records a RESTOCK with its reason and reference", async () => {
+    const sweet = await createSweet(1);
+
+    const res = await request(app)
+      .post(`/api/sweets/${sweet.id}/restock`)
+      .set("Cookie", [adminCookie])
+      .send({ quantity: 4, reason: "Morning batch", reference: "INV-42" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.sweet.stock).toBe(5);
+    expect(await movementsOf(sweet.id)).toContainEqual(
+      expect.objectContaining({
+        type: "RESTOCK",
+        delta: 4,
+        balance: 5,
+        reason: "Morning batch",
+        reference: "INV-42",
+      }),
+    );
+    await expectBalanced(sweet.id);
+  });
+
+  test("setting stock on update records the difference as an ADJUSTMENT", async () => {
+    const sweet = await createSweet(10);
+
+    const res = await request(app)
+      .put(`/api/sweets/${sweet.id}`)
+      .set("Cookie", [adminCookie])
+      .send({ stock: 7, stockReason: "Stock take", name: "Carrot Halwa" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.sweet).toMatchObject({ stock: 7, name: "Carrot Halwa" });
+    expect(await movementsOf(sweet.id)).toContainEqual(
+      expect.objectContaining({
+        type: "ADJUSTMENT",
+        delta: -3,
+        balance: 7,
+        reason: "Stock take",
+      }),
+    );
+    await expectBalanced(sweet.id);
+  });
+
+  test("an update that races another stock change returns 409", async () => {
+    const sweet = await createSweet(10);
+
+    // A sale lands between the read and the conditional update
+    prismaMock.sweet.updateMany.mockImplementationOnce(async () => ({
+      count: 0,
+    }));
+
+    const res = await request(app)
+      .put(`/api/sweets/${sweet.id}`)
+      .set("Cookie", [adminCookie])
+      .send({ stock: 7, name: "Renamed" });
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe("STOCK_CONFLICT");
+
+    const after = await prismaMock.sweet.findUnique({
+      where: { id: sweet.id },
+    });
+    expect(after).toMatchObject({ stock: 10, name: "Gajar Halwa" });
+  });
+
+  test("an update that leaves stock alone records nothing", async () => {
+    const sweet = await createSweet(10);
+
+    await request(app)
+      .put(`/api/sweets/${sweet.id}`)
+      .set("Cookie", [adminCookie])
+      .send({ name: "Renamed", stock: 10 });
+
+    expect(await movementsOf(sweet.id)).toHaveLength(1);
+  });
+});
+
+describe("POST /api/sweets/:id/movements", () => {
+  const record = (sweetId: string, body: any, cookie = adminCookie) =>
+    request(app)
+      .post(`/api/sweets/${sweetId}/movements`)
+      .set("Cookie", [cookie])
+      .send(body);
+
+  test("records waste and returns", async () => {
+    const sweet = await createSweet(10);
+
+    const waste = await record(sweet.id, {
+      type: "WASTE",
+      delta: -3,
+      reason: "Dropped tray",
+    });
+    expect(waste.status).toBe(201);
+    expect(waste.body.sweet.stock).toBe(7);
+
+    const returned = await record(sweet.id, { type: "RETURN", delta: 1 });
+    expect(returned.body.movement).toMatchObject({ balance: 8 });
+
+    await expectBalanced(sweet.id);
+  });
+
+  test("validates the direction and reason", async () => {
+    const sweet = await createSweet(10);
+
+    expect((await record(sweet.id, { type: "WASTE", delta: 2 })).status).toBe(
+      400,
+    );
+    expect(
+      (await record(sweet.id, { type: "RETURN", delta: -2 })).status,
+    ).toBe(400);
+    expect(
+      (await record(sweet.id, { type: "ADJUSTMENT", delta: 2 })).status,
+    ).toBe(400);
+    expect(
+      (await record(sweet.id, { type: "SALE", delta: -1 })).status,
+    ).toBe(400);
+  });
+
+  test("refuses to take stock below zero", async () => {
+    const sweet = await createSweet(2);
+
+    const res = await record(sweet.id, { type: "WASTE", delta: -3 });
+
+    expect(res.status).toBe(400);
+    expect(await movementsOf(sweet.id)).toHaveLength(1);
+  });
+
+  test("requires the stock.restock permission", async () => {
+    const sweet = await createSweet(2);
+
+    const res = await record(
+      sweet.id,
+      { type: "RETURN", delta: 1 },
+      await cookieFor("USER"),
+    );
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("GET /api/sweets/:id/movements", () => {
+  test("lists the sweet's movements with the acting user", async () => {
+    const sweet = await createSweet(5);
+    await request(app)
+      .post(`/api/sweets/${sweet.id}/restock`)
+      .set("Cookie", [adminCookie])
+      .send({ quantity: 3 });
+
+    const res = await request(app)
+      .get(`/api/sweets/${sweet.id}/movements`)
+      .set("Cookie", [await cookieFor("STAFF")]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(2);
+    expect(res.body.movements.map((m: any) => m.delta).sort()).toEqual([3, 5]);
+  });
+
+  test("filters by type", async () => {
+    const sweet = await createSweet(5);
+    await request(app)
+      .post(`/api/sweets/${sweet.id}/purchase`)
+      .set("Cookie", [adminCookie])
+      .send({ quantity: 1 });
+
+    const res = await request(app)
+      .get(`/api/sweets/${sweet.id}/movements?type=SALE`)
+      .set("Cookie", [adminCookie]);
+
+    expect(res.body.movements).toEqual([
+      expect.objectContaining({ type: "SALE", delta: -1 }),
+    ]);
+  });
+
+  test("is hidden from customers", async () => {
+    const sweet = await createSweet(5);
+
+    const res = await request(app)
+      .get(`/api/sweets/${sweet.id}/movements`)
+      .set("Cookie", [await cookieFor("USER")]);
+
+    expect(res.status).toBe(403);
+  });
+
+  test("returns 404 for an unknown sweet", async () => {
+    const res = await request(app)
+      .get("/api/sweets/missing/movements")
+      .set("Cookie", [adminCookie]);
+
+    expect(res.status).toBe(404);
+  });
+});
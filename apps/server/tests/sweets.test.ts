@@ -12,10 +12,10 @@ jest.mock("@/lib/prisma", () => ({
   default: require("./__mocks__/prisma").default,
 }));
 
-import request from "supertest";
+import request from "./helpers/request";
 import { describe, test, expect, beforeEach } from "@jest/globals";
-import jwt from "jsonwebtoken";
 import { app } from "../src/app";
+import { sessionToken } from "./helpers/session";
 
 // Access the mock Prisma client and utilities
 const prismaMockModule = require("./__mocks__/prisma");
@@ -26,8 +26,6 @@ beforeEach(() => {
   if (typeof prismaMock.__resetMocks === "function") prismaMock.__resetMocks();
 });
 
-const SECRET = process.env.JWT_SECRET || "test-secret";
-
 describe("POST /api/sweets", () => {
   test("returns 401 for unauthenticated users", async () => {
     const res = await request(app).post("/api/sweets").send({});
@@ -45,7 +43,7 @@ describe("POST /api/sweets", () => {
         role: "USER",
       },
     });
-    const token = jwt.sign({ sub: user.id, email: user.email }, SECRET);
+    const token = await sessionToken(user);
 
     const res = await request(app)
       .post("/api/sweets")
@@ -69,7 +67,7 @@ describe("POST /api/sweets", () => {
         role: "ADMIN",
       },
     });
-    const token = jwt.sign({ sub: admin.id, email: admin.email }, SECRET);
+    const token = await sessionToken(admin);
 
     const res = await request(app)
       .post("/api/sweets")
@@ -100,10 +98,7 @@ describe("POST /api/sweets", () => {
         role: "USER",
       },
     });
-    const token = require("jsonwebtoken").sign(
-      { sub: user.id, email: user.email },
-      process.env.JWT_SECRET || "test-secret",
-    );
+    const token = await sessionToken(user);
 
     const res = await request(app)
       .get("/api/sweets")
@@ -140,10 +135,7 @@ describe("POST /api/sweets", () => {
         role: "USER",
       },
     });
-    const token = require("jsonwebtoken").sign(
-      { sub: user.id, email: user.email },
-      process.env.JWT_SECRET || "test-secret",
-    );
+    const token = await sessionToken(user);
 
     const res = await request(app)
       .get("/api/sweets/search")
@@ -177,10 +169,7 @@ describe("POST /api/sweets", () => {
         role: "USER",
       },
     });
-    const token = require("jsonwebtoken").sign(
-      { sub: user.id, email: user.email },
-      process.env.JWT_SECRET || "test-secret",
-    );
+    const token = await sessionToken(user);
 
     const res = await request(app)
       .get("/api/sweets/search")
@@ -214,10 +203,7 @@ describe("POST /api/sweets", () => {
         role: "USER",
       },
     });
-    const token = require("jsonwebtoken").sign(
-      { sub: user.id, email: user.email },
-      process.env.JWT_SECRET || "test-secret",
-    );
+    const token = await sessionToken(user);
 
     const res = await request(app)
       .get("/api/sweets/search")
@@ -257,10 +243,7 @@ describe("POST /api/sweets", () => {
             role: "USER",
           },
         });
-        const token = require("jsonwebtoken").sign(
-          { sub: user.id, email: user.email },
-          process.env.JWT_SECRET || "test-secret",
-        );
+        const token = await sessionToken(user);
         const res = await request(app)
           .put("/api/sweets/1")
           .set("Cookie", [`auth-token=${token}`])
@@ -268,7 +251,7 @@ describe("POST /api/sweets", () => {
         expect(res.status).toBe(403);
       });
 
-      test("only creator admin can update", async () => {
+      test("any admin can update a sweet another admin created", async () => {
         const cat = await prismaMock.category.create({
           data: { name: "UpCat", description: "" },
         });
@@ -298,27 +281,16 @@ describe("POST /api/sweets", () => {
           },
         });
 
-        const tokenOther = require("jsonwebtoken").sign(
-          { sub: admin2.id, email: admin2.email },
-          process.env.JWT_SECRET || "test-secret",
-        );
-        const resForbidden = await request(app)
-          .put(`/api/sweets/${sweet.id}`)
-          .set("Cookie", [`auth-token=${tokenOther}`])
-          .send({ name: "New" });
-        expect(resForbidden.status).toBe(403);
-
-        const tokenOwner = require("jsonwebtoken").sign(
-          { sub: admin1.id, email: admin1.email },
-          process.env.JWT_SECRET || "test-secret",
-        );
+        const tokenOther = await sessionToken(admin2);
         const resOk = await request(app)
           .put(`/api/sweets/${sweet.id}`)
-          .set("Cookie", [`auth-token=${tokenOwner}`])
+          .set("Cookie", [`auth-token=${tokenOther}`])
           .send({ name: "New" });
         expect(resOk.status).toBe(200);
         expect(resOk.body).toHaveProperty("sweet");
         expect(resOk.body.sweet).toHaveProperty("name", "New");
+        // The creator is kept as a record, not changed by edits
+        expect(resOk.body.sweet).toHaveProperty("userId", admin1.id);
       });
     });
 
@@ -337,17 +309,14 @@ describe("POST /api/sweets", () => {
             role: "USER",
           },
         });
-        const token = require("jsonwebtoken").sign(
-          { sub: user.id, email: user.email },
-          process.env.JWT_SECRET || "test-secret",
-        );
+        const token = await sessionToken(user);
         const res = await request(app)
           .delete("/api/sweets/1")
           .set("Cookie", [`auth-token=${token}`]);
         expect(res.status).toBe(403);
       });
 
-      test("only creator admin can delete", async () => {
+      test("any admin can delete a sweet another admin created", async () => {
         const cat = await prismaMock.category.create({
           data: { name: "DelCat", description: "" },
         });
@@ -377,22 +346,10 @@ describe("POST /api/sweets", () => {
           },
         });
 
-        const tokenOther = require("jsonwebtoken").sign(
-          { sub: admin2.id, email: admin2.email },
-          process.env.JWT_SECRET || "test-secret",
-        );
-        const resForbidden = await request(app)
-          .delete(`/api/sweets/${sweet.id}`)
-          .set("Cookie", [`auth-token=${tokenOther}`]);
-        expect(resForbidden.status).toBe(403);
-
-        const tokenOwner = require("jsonwebtoken").sign(
-          { sub: admin1.id, email: admin1.email },
-          process.env.JWT_SECRET || "test-secret",
-        );
+        const tokenOther = await sessionToken(admin2);
         const resOk = await request(app)
           .delete(`/api/sweets/${sweet.id}`)
-          .set("Cookie", [`auth-token=${tokenOwner}`]);
+          .set("Cookie", [`auth-token=${tokenOther}`]);
         expect(resOk.status).toBe(200);
         expect(resOk.body).toHaveProperty("deleted", true);
       });
@@ -422,10 +379,7 @@ describe("POST /api/sweets", () => {
           data: { name: "BuyMe", price: 1, stock: 5, categoryId: cat.id },
         });
 
-        const token = require("jsonwebtoken").sign(
-          { sub: buyer.id, email: buyer.email },
-          process.env.JWT_SECRET || "test-secret",
-        );
+        const token = await sessionToken(buyer);
 
         const res = await request(app)
           .post(`/api/sweets/${sweet.id}/purchase`)
@@ -453,10 +407,7 @@ describe("POST /api/sweets", () => {
           data: { name: "LowStock", price: 1, stock: 1, categoryId: cat.id },
         });
 
-        const token = require("jsonwebtoken").sign(
-          { sub: buyer.id, email: buyer.email },
-          process.env.JWT_SECRET || "test-secret",
-        );
+        const token = await sessionToken(buyer);
 
         const res = await request(app)
           .post(`/api/sweets/${sweet.id}/purchase`)
@@ -466,6 +417,128 @@ describe("POST /api/sweets", () => {
         expect(res.status).toBe(400);
         expect(res.body).toHaveProperty("error");
       });
+
+      // Creates a buyer and a sweet with `stock` units
+      const setupPurchase = async (email: string, stock: number) => {
+        const cat = await prismaMock.category.create({
+          data: { name: `Cat ${email}`, description: "" },
+        });
+        const buyer = await prismaMock.user.create({
+          data: { email, name: "Buyer", password: "x", role: "USER" },
+        });
+        const sweet = await prismaMock.sweet.create({
+          data: { name: "Ladoo", price: 1, stock, categoryId: cat.id },
+        });
+        return { sweet, token: await sessionToken(buyer) };
+      };
+
+      test("concurrent purchases never oversell", async () => {
+        const { sweet, token } = await setupPurchase("race@example.com", 3);
+
+        const buy = () =>
+          request(app)
+            .post(`/api/sweets/${sweet.id}/purchase`)
+            .set("Cookie", [`auth-token=${token}`])
+            .send({ quantity: 2 });
+
+        const results = await Promise.all([buy(), buy()]);
+        const statuses = results.map((r) => r.status).sort();
+
+        expect(statuses[0]).toBe(200);
+        expect([400, 409]).toContain(statuses[1]);
+
+        const after = await prismaMock.sweet.findUnique({
+          where: { id: sweet.id },
+        });
+        expect(after.stock).toBe(1);
+      });
+
+      test("returns 409 when the stock changes before the update", async () => {
+        const { sweet, token } = await setupPurchase("conflict@example.com", 2);
+
+        // Another purchase lands between the read and the conditional update
+        prismaMock.sweet.updateMany.mockImplementationOnce(async () => ({
+          count: 0,
+        }));
+
+        const res = await request(app)
+          .post(`/api/sweets/${sweet.id}/purchase`)
+          .set("Cookie", [`auth-token=${token}`])
+          .send({ quantity: 2 });
+
+        expect(res.status).toBe(409);
+        expect(res.body).toHaveProperty("code", "STOCK_CONFLICT");
+      });
+
+      test("replays a retried purchase with the same Idempotency-Key", async () => {
+        const { sweet, token } = await setupPurchase("retry@example.com", 5);
+
+        const buy = (key: string, quantity = 2) =>
+          request(app)
+            .post(`/api/sweets/${sweet.id}/purchase`)
+            .set("Cookie", [`auth-token=${token}`])
+            .set("Idempotency-Key", key)
+            .send({ quantity });
+
+        const first = await buy("till-1-0001");
+        const retry = await buy("till-1-0001");
+
+        expect(first.status).toBe(200);
+        expect(retry.status).toBe(200);
+        expect(retry.headers["idempotent-replayed"]).toBe("true");
+        expect(retry.body).toEqual(first.body);
+
+        const after = await prismaMock.sweet.findUnique({
+          where: { id: sweet.id },
+        });
+        expect(after.stock).toBe(3);
+
+        // A new key is a new purchase
+        const next = await buy("till-1-0002");
+        expect(next.body.sweet).toHaveProperty("stock", 1);
+      });
+
+      test("rejects an Idempotency-Key reused for a different purchase", async () => {
+        const { sweet, token } = await setupPurchase("reuse@example.com", 5);
+
+        const buy = (quantity: number) =>
+          request(app)
+            .post(`/api/sweets/${sweet.id}/purchase`)
+            .set("Cookie", [`auth-token=${token}`])
+            .set("Idempotency-Key", "till-2-0001")
+            .send({ quantity });
+
+        expect((await buy(1)).status).toBe(200);
+
+        const res = await buy(3);
+        expect(res.status).toBe(422);
+        expect(res.body).toHaveProperty("code", "IDEMPOTENCY_KEY_MISMATCH");
+      });
+
+      test("does not remember a failed purchase", async () => {
+        const { sweet, token } = await setupPurchase("later@example.com", 1);
+
+        const buy = () =>
+          request(app)
+            .post(`/api/sweets/${sweet.id}/purchase`)
+            .set("Cookie", [`auth-token=${token}`])
+            .set("Idempotency-Key", "till-3-0001")
+            .send({ quantity: 2 });
+
+        prismaMock.sweet.updateMany.mockImplementationOnce(async () => ({
+          count: 0,
+        }));
+        await prismaMock.sweet.update({
+          where: { id: sweet.id },
+          data: { stock: 2 },
+        });
+
+        expect((await buy()).status).toBe(409);
+
+        const retry = await buy();
+        expect(retry.status).toBe(200);
+        expect(retry.body.sweet).toHaveProperty("stock", 0);
+      });
     });
 
     describe("POST /api/sweets/:id/restock", () => {
@@ -485,10 +558,7 @@ describe("POST /api/sweets", () => {
             role: "USER",
           },
         });
-        const token = require("jsonwebtoken").sign(
-          { sub: user.id, email: user.email },
-          process.env.JWT_SECRET || "test-secret",
-        );
+        const token = await sessionToken(user);
         const res = await request(app)
           .post("/api/sweets/1/restock")
           .set("Cookie", [`auth-token=${token}`])
@@ -496,7 +566,7 @@ describe("POST /api/sweets", () => {
         expect(res.status).toBe(403);
       });
 
-      test("only creator admin can restock", async () => {
+      test("staff can restock sweets they did not create", async () => {
         const cat = await prismaMock.category.create({
           data: { name: "RestockCat", description: "" },
         });
@@ -508,12 +578,12 @@ describe("POST /api/sweets", () => {
             role: "ADMIN",
           },
         });
-        const admin2 = await prismaMock.user.create({
+        const staff = await prismaMock.user.create({
           data: {
-            email: "ra2@example.com",
-            name: "RA2",
+            email: "rs1@example.com",
+            name: "RS1",
             password: "x",
-            role: "ADMIN",
+            role: "STAFF",
           },
         });
         const sweet = await prismaMock.sweet.create({
@@ -526,32 +596,373 @@ describe("POST /api/sweets", () => {
           },
         });
 
-        const tokenOther = require("jsonwebtoken").sign(
-          { sub: admin2.id, email: admin2.email },
-          process.env.JWT_SECRET || "test-secret",
-        );
-        const resForbidden = await request(app)
-          .post(`/api/sweets/${sweet.id}/restock`)
-          .set("Cookie", [`auth-token=${tokenOther}`])
-          .send({ quantity: 5 });
-        expect(resForbidden.status).toBe(403);
-
-        const tokenOwner = require("jsonwebtoken").sign(
-          { sub: admin1.id, email: admin1.email },
-          process.env.JWT_SECRET || "test-secret",
-        );
+        const tokenStaff = await sessionToken(staff);
         const resOk = await request(app)
           .post(`/api/sweets/${sweet.id}/restock`)
-          .set("Cookie", [`auth-token=${tokenOwner}`])
+          .set("Cookie", [`auth-token=${tokenStaff}`])
           .send({ quantity: 5 });
         expect(resOk.status).toBe(200);
         expect(resOk.body).toHaveProperty("sweet");
         expect(resOk.body.sweet).toHaveProperty("stock", 6);
       });
     });
+
+    describe("POST /api/sweets/:id/transfer", () => {
+      test("hands the sweet to another user", async () => {
+        const cat = await prismaMock.category.create({
+          data: { name: "TransferCat", description: "" },
+        });
+        const leaving = await prismaMock.user.create({
+          data: {
+            email: "leaving@example.com",
+            name: "Leaving",
+            password: "x",
+            role: "ADMIN",
+          },
+        });
+        const manager = await prismaMock.user.create({
+          data: {
+            email: "manager-t@example.com",
+            name: "Manager",
+            password: "x",
+            role: "MANAGER",
+          },
+        });
+        const sweet = await prismaMock.sweet.create({
+          data: {
+            name: "Jalebi",
+            price: 3,
+            stock: 2,
+            categoryId: cat.id,
+            userId: leaving.id,
+          },
+        });
+
+        const res = await request(app)
+          .post(`/api/sweets/${sweet.id}/transfer`)
+          .set("Cookie", [`auth-token=${await sessionToken(manager)}`])
+          .send({ email: manager.email });
+
+        expect(res.status).toBe(200);
+        expect(res.body.sweet).toHaveProperty("userId", manager.id);
+      });
+
+      test("returns 400 for an unknown user", async () => {
+        const cat = await prismaMock.category.create({
+          data: { name: "TransferCat2", description: "" },
+        });
+        const admin = await prismaMock.user.create({
+          data: {
+            email: "t-admin@example.com",
+            name: "Admin",
+            password: "x",
+            role: "ADMIN",
+          },
+        });
+        const sweet = await prismaMock.sweet.create({
+          data: {
+            name: "Rasgulla",
+            price: 3,
+            stock: 2,
+            categoryId: cat.id,
+            userId: admin.id,
+          },
+        });
+
+        const res = await request(app)
+          .post(`/api/sweets/${sweet.id}/transfer`)
+          .set("Cookie", [`auth-token=${await sessionToken(admin)}`])
+          .send({ userId: "missing" });
+
+        expect(res.status).toBe(400);
+      });
+
+      // A sweet created by an admin, and a user of each other role
+      const setUp = async () => {
+        const cat = await prismaMock.category.create({
+          data: { name: "TransferCat3", description: "" },
+        });
+        const [admin, manager, staff, customer] = await Promise.all(
+          ["ADMIN", "MANAGER", "STAFF", "USER"].map((role) =>
+            prismaMock.user.create({
+              data: {
+                email: `${role.toLowerCase()}-owner@example.com`,
+                name: role,
+                password: "x",
+                role,
+              },
+            }),
+          ),
+        );
+        const sweet = await prismaMock.sweet.create({
+          data: {
+            name: "Imarti",
+            price: 3,
+            stock: 2,
+            categoryId: cat.id,
+            userId: admin.id,
+          },
+        });
+        return { admin, manager, staff, customer, sweet };
+      };
+
+      const transferAs = async (user: any, sweet: any, to: any) =>
+        request(app)
+          .post(`/api/sweets/${sweet.id}/transfer`)
+          .set("Cookie", [`auth-token=${await sessionToken(user)}`])
+          .send({ userId: to.id });
+
+      test("refuses users without sweet.update", async () => {
+        const { staff, customer, sweet } = await setUp();
+
+        for (const user of [staff, customer]) {
+          const res = await transferAs(user, sweet, user);
+          expect(res.status).toBe(403);
+          expect(res.body.error).toBe("Missing permission: sweet.update");
+        }
+
+        const unchanged = await prismaMock.sweet.findUnique({
+          where: { id: sweet.id },
+        });
+        expect(unchanged.userId).toBe(sweet.userId);
+      });
+
+      test("refuses disabled and deleted users", async () => {
+        const { admin, manager, staff, sweet } = await setUp();
+        await prismaMock.user.update({
+          where: { id: manager.id },
+          data: { disabledAt: new Date() },
+        });
+        await prismaMock.user.update({
+          where: { id: staff.id },
+          data: { deletedAt: new Date() },
+        });
+
+        for (const to of [manager, staff]) {
+          const res = await transferAs(admin, sweet, to);
+          expect(res.status).toBe(400);
+          expect(res.body.error).toBe("Unknown user");
+        }
+      });
+
+      test("accepts an API key with the sweet.update scope", async () => {
+        const { admin, manager, sweet } = await setUp();
+        const minted = await request(app)
+          .post("/api/api-keys")
+          .set("Cookie", [`auth-token=${await sessionToken(admin)}`])
+          .send({ name: "Back office", scopes: ["sweet.update"] });
+
+        const res = await request(app)
+          .post(`/api/sweets/${sweet.id}/transfer`)
+          .set("Authorization", `Bearer ${minted.body.key}`)
+          .send({ userId: manager.id });
+
+        expect(res.status).toBe(200);
+        expect(res.body.sweet).toHaveProperty("userId", manager.id);
+      });
+
+      test("returns 404 for an archived sweet", async () => {
+        const { admin, manager, sweet } = await setUp();
+        await prismaMock.sweet.update({
+          where: { id: sweet.id },
+          data: { deletedAt: new Date() },
+        });
+
+        const res = await transferAs(admin, sweet, manager);
+
+        expect(res.status).toBe(404);
+      });
+
+      test("the listing shows the new owner for the owner filter", async () => {
+        const { admin, manager, sweet } = await setUp();
+
+        await transferAs(admin, sweet, manager);
+        const res = await request(app)
+          .get("/api/sweets")
+          .set("Cookie", [`auth-token=${await sessionToken(admin)}`]);
+
+        const listed = res.body.sweets.find((s: any) => s.id === sweet.id);
+        expect(listed).toMatchObject({
+          userId: manager.id,
+          user: { id: manager.id, name: "MANAGER", email: manager.email },
+        });
+      });
+    });
+
+    describe("permissions", () => {
+      const createSweetAs = async (role: string) => {
+        const owner = await prismaMock.user.create({
+          data: {
+            email: `${role.toLowerCase()}-perm@example.com`,
+            name: role,
+            password: "x",
+            role,
+          },
+        });
+        const cat = await prismaMock.category.create({
+          data: { name: `PermCat-${role}`, description: "" },
+        });
+        const sweet = await prismaMock.sweet.create({
+          data: {
+            name: "Barfi",
+            price: 10,
+            stock: 5,
+            categoryId: cat.id,
+            userId: owner.id,
+          },
+        });
+        return { owner, cat, sweet };
+      };
+
+      test("staff cannot create, reprice or delete sweets", async () => {
+        const { owner, cat, sweet } = await createSweetAs("STAFF");
+        const cookie = `auth-token=${await sessionToken(owner)}`;
+
+        const create = await request(app)
+          .post("/api/sweets")
+          .set("Cookie", [cookie])
+          .send({ name: "Peda", price: 5, stock: 1, categoryId: cat.id });
+        expect(create.status).toBe(403);
+        expect(create.body.error).toBe("Missing permission: sweet.create");
+
+        const reprice = await request(app)
+          .put(`/api/sweets/${sweet.id}`)
+          .set("Cookie", [cookie])
+          .send({ price: 1 });
+        expect(reprice.status).toBe(403);
+
+        const remove = await request(app)
+          .delete(`/api/sweets/${sweet.id}`)
+          .set("Cookie", [cookie]);
+        expect(remove.status).toBe(403);
+      });
+
+      test("managers can create and reprice sweets", async () => {
+        const { owner, cat, sweet } = await createSweetAs("MANAGER");
+        const cookie = `auth-token=${await sessionToken(owner)}`;
+
+        const create = await request(app)
+          .post("/api/sweets")
+          .set("Cookie", [cookie])
+          .send({ name: "Peda", price: 5, stock: 1, categoryId: cat.id });
+        expect(create.status).toBe(201);
+
+        const reprice = await request(app)
+          .put(`/api/sweets/${sweet.id}`)
+          .set("Cookie", [cookie])
+          .send({ price: 12 });
+        expect(reprice.status).toBe(200);
+        expect(reprice.body.sweet).toHaveProperty("price", 12);
+      });
+
+      test("/me lists the role's permissions", async () => {
+        const { owner } = await createSweetAs("STAFF");
+
+        const res = await request(app)
+          .get("/api/auth/me")
+          .set("Cookie", [`auth-token=${await sessionToken(owner)}`]);
+
+        expect(res.body.user.permissions).toEqual(["stock.restock"]);
+      });
+
+      // One permission-gated route of each router, a role allowed through
+      // and the roles refused with 403
+      const gated = [
+        {
+          route: "GET /api/sweets/archived",
+          permission: "sweet.delete",
+          allowed: "MANAGER",
+          denied: ["USER", "STAFF"],
+        },
+        {
+          route: "GET /api/inventory/low-stock",
+          permission: "stock.restock",
+          allowed: "STAFF",
+          denied: ["USER"],
+        },
+        {
+          route: "GET /api/category/archived",
+          permission: "category.manage",
+          allowed: "MANAGER",
+          denied: ["USER", "STAFF"],
+        },
+        {
+          route: "POST /api/category",
+          body: { name: "Halwa" },
+          permission: "category.manage",
+          allowed: "MANAGER",
+          denied: ["USER", "STAFF"],
+        },
+        {
+          route: "GET /api/invitations",
+          permission: "user.manage",
+          allowed: "ADMIN",
+          denied: ["USER", "STAFF", "MANAGER"],
+        },
+        {
+          route: "GET /api/users",
+          permission: "user.manage",
+          allowed: "ADMIN",
+          denied: ["USER", "STAFF", "MANAGER"],
+        },
+        {
+          route: "GET /api/orders/all",
+          permission: "order.read",
+          allowed: "ADMIN",
+          denied: ["USER", "STAFF", "MANAGER"],
+        },
+        {
+          route: "GET /api/audit/auth",
+          permission: "audit.read",
+          allowed: "ADMIN",
+          denied: ["USER", "STAFF", "MANAGER"],
+        },
+        {
+          route: "GET /api/api-keys",
+          permission: "apiKey.manage",
+          allowed: "ADMIN",
+          denied: ["USER", "STAFF", "MANAGER"],
+        },
+      ];
+
+      const requestAs = async (role: string, route: string, body?: object) => {
+        const user = await prismaMock.user.create({
+          data: {
+            email: `${role.toLowerCase()}-gated@example.com`,
+            name: role,
+            password: "x",
+            role,
+          },
+        });
+        const [method, url] = route.split(" ");
+        return request(app)
+          [method === "POST" ? "post" : "get"](url)
+          .set("Cookie", [`auth-token=${await sessionToken(user)}`])
+          .send(body);
+      };
+
+      test.each(gated)(
+        "$route allows $allowed",
+        async ({ route, body, allowed }) => {
+          const res = await requestAs(allowed, route, body);
+          expect([200, 201]).toContain(res.status);
+        },
+      );
+
+      test.each(gated)(
+        "$route refuses roles without $permission",
+        async ({ route, body, permission, denied }) => {
+          for (const role of denied) {
+            const res = await requestAs(role, route, body);
+            expect(res.status).toBe(403);
+            expect(res.body.error).toBe(`Missing permission: ${permission}`);
+          }
+        },
+      );
+    });
     // Validate Zod error formatting on invalid create payload
     test("POST invalid payload returns detailed errors", async () => {
-      const token = jwt.sign({ sub: admin.id, email: admin.email }, SECRET);
+      const token = await sessionToken(admin);
 
       const res = await request(app)
         .post("/api/sweets")
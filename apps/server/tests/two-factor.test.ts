@@ -0,0 +1,266 @@
+/**
+ * Two-factor authentication integration tests
+ *
+ * Covers TOTP enrollment, the two-step login, recovery codes and the
+ * mandatory-2FA setting for admins. Codes are computed with the same TOTP
+ * implementation the server uses.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import bcrypt from "bcryptjs";
+import { app } from "../src/app";
+import {
+  MemoryAttemptStore,
+  setAttemptStore,
+} from "../src/lib/login-throttle";
+import { totp } from "../src/lib/totp";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+// Ensure clean state across tests
+beforeEach(() => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+  setAttemptStore(new MemoryAttemptStore());
+});
+
+const createUser = async (role = "USER") =>
+  prismaMock.user.create({
+    data: {
+      email: `${role.toLowerCase()}@example.com`,
+      name: "Tester",
+      password: await bcrypt.hash("password123", 10),
+      role,
+    },
+  });
+
+// A six-digit code guaranteed not to match the current TOTP
+const wrongCode = (secret: string) =>
+  totp(secret) === "000000" ? "111111" : "000000";
+
+// Enroll `user` in 2FA and return the secret and recovery codes
+const enroll = async (user: any) => {
+  const cookie = `auth-token=${await sessionToken(user)}`;
+
+  const setup = await request(app)
+    .post("/api/auth/2fa/setup")
+    .set("Cookie", [cookie]);
+  const { secret } = setup.body;
+
+  // Use the previous step so a later code from the current step is fresh
+  const enable = await request(app)
+    .post("/api/auth/2fa/enable")
+    .set("Cookie", [cookie])
+    .send({ code: totp(secret, Date.now() - 30 * 1000) });
+
+  return { cookie, secret, recoveryCodes: enable.body.recoveryCodes };
+};
+
+describe("2FA enrollment", () => {
+  test("setup returns a secret, provisioning URI and QR code", async () => {
+    const user = await createUser();
+
+    const res = await request(app)
+      .post("/api/auth/2fa/setup")
+      .set("Cookie", [`auth-token=${await sessionToken(user)}`]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.secret).toMatch(/^[A-Z2-7]+$/);
+    expect(res.body.otpauthUrl).toContain("otpauth://totp/");
+    expect(res.body.otpauthUrl).toContain(`secret=${res.body.secret}`);
+    expect(res.body.qrCode).toMatch(/^data:image\/png;base64,/);
+  });
+
+  test("enable rejects a wrong code and accepts a valid one", async () => {
+    const user = await createUser();
+    const cookie = `auth-token=${await sessionToken(user)}`;
+
+    const setup = await request(app)
+      .post("/api/auth/2fa/setup")
+      .set("Cookie", [cookie]);
+
+    const wrong = await request(app)
+      .post("/api/auth/2fa/enable")
+      .set("Cookie", [cookie])
+      .send({ code: wrongCode(setup.body.secret) });
+    expect(wrong.status).toBe(400);
+
+    const res = await request(app)
+      .post("/api/auth/2fa/enable")
+      .set("Cookie", [cookie])
+      .send({ code: totp(setup.body.secret) });
+
+    expect(res.status).toBe(200);
+    expect(res.body.recoveryCodes).toHaveLength(10);
+
+    const me = await request(app).get("/api/auth/me").set("Cookie", [cookie]);
+    expect(me.body.user.twoFactorEnabled).toBe(true);
+    expect(me.body.user).not.toHaveProperty("totpSecret");
+    expect(me.body.user).not.toHaveProperty("password");
+  });
+
+  test("status reports remaining recovery codes", async () => {
+    const user = await createUser();
+    const { cookie } = await enroll(user);
+
+    const res = await request(app).get("/api/auth/2fa").set("Cookie", [cookie]);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      enabled: true,
+      required: false,
+      recoveryCodesRemaining: 10,
+    });
+  });
+
+  test("disable requires the password and a current code", async () => {
+    const user = await createUser();
+    const { cookie, secret } = await enroll(user);
+
+    const wrongPassword = await request(app)
+      .post("/api/auth/2fa/disable")
+      .set("Cookie", [cookie])
+      .send({ password: "wrong-password", code: totp(secret) });
+    expect(wrongPassword.status).toBe(400);
+
+    const res = await request(app)
+      .post("/api/auth/2fa/disable")
+      .set("Cookie", [cookie])
+      .send({ password: "password123", code: totp(secret) });
+    expect(res.status).toBe(200);
+
+    const login = await request(app)
+      .post("/api/auth/login")
+      .send({ email: user.email, password: "password123" });
+    expect(login.body.user).toBeDefined();
+  });
+});
+
+describe("2FA login", () => {
+  const passwordStep = (email: string) =>
+    request(app)
+      .post("/api/auth/login")
+      .send({ email, password: "password123" });
+
+  test("password step returns a challenge instead of cookies", async () => {
+    const user = await createUser();
+    await enroll(user);
+
+    const res = await passwordStep(user.email);
+
+    expect(res.status).toBe(200);
+    expect(res.body.twoFactorRequired).toBe(true);
+    expect(typeof res.body.challenge).toBe("string");
+    expect(res.body.user).toBeUndefined();
+    expect(res.headers["set-cookie"]).toBeUndefined();
+  });
+
+  test("completes with a TOTP code and rejects its replay", async () => {
+    const user = await createUser();
+    const { secret } = await enroll(user);
+    const { challenge } = (await passwordStep(user.email)).body;
+    const code = totp(secret);
+
+    const res = await request(app)
+      .post("/api/auth/login/2fa")
+      .send({ challenge, code });
+
+    expect(res.status).toBe(200);
+    expect(res.body.user.email).toBe(user.email);
+    expect(String(res.headers["set-cookie"])).toContain("auth-token=");
+
+    const replay = await request(app)
+      .post("/api/auth/login/2fa")
+      .send({ challenge, code });
+    expect(replay.status).toBe(401);
+  });
+
+  test("accepts each recovery code only once", async () => {
+    const user = await createUser();
+    const { recoveryCodes } = await enroll(user);
+    const { challenge } = (await passwordStep(user.email)).body;
+
+    const first = await request(app)
+      .post("/api/auth/login/2fa")
+      .send({ challenge, recoveryCode: recoveryCodes[0].toLowerCase() });
+    expect(first.status).toBe(200);
+
+    const again = await request(app)
+      .post("/api/auth/login/2fa")
+      .send({ challenge, recoveryCode: recoveryCodes[0] });
+    expect(again.status).toBe(401);
+  });
+
+  test("rejects an invalid challenge", async () => {
+    const res = await request(app)
+      .post("/api/auth/login/2fa")
+      .send({ challenge: "not-a-challenge", code: "123456" });
+
+    expect(res.status).toBe(401);
+  });
+
+  test("wrong codes count towards the login lockout", async () => {
+    const user = await createUser();
+    const { secret } = await enroll(user);
+    const { challenge } = (await passwordStep(user.email)).body;
+
+    for (let i = 0; i < 5; i++)
+      await request(app)
+        .post("/api/auth/login/2fa")
+        .send({ challenge, code: wrongCode(secret) });
+
+    const res = await request(app)
+      .post("/api/auth/login/2fa")
+      .send({ challenge, code: totp(secret) });
+    expect(res.status).toBe(423);
+  });
+});
+
+describe("Mandatory 2FA for admins", () => {
+  beforeEach(() => {
+    process.env.REQUIRE_ADMIN_2FA = "true";
+  });
+
+  afterEach(() => {
+    delete process.env.REQUIRE_ADMIN_2FA;
+  });
+
+  test("blocks admin routes until 2FA is enabled", async () => {
+    const admin = await createUser("ADMIN");
+    const cookie = `auth-token=${await sessionToken(admin)}`;
+
+    const blocked = await request(app)
+      .get("/api/invitations")
+      .set("Cookie", [cookie]);
+    expect(blocked.status).toBe(403);
+    expect(blocked.body.code).toBe("TWO_FACTOR_SETUP_REQUIRED");
+
+    await enroll(admin);
+
+    const allowed = await request(app)
+      .get("/api/invitations")
+      .set("Cookie", [cookie]);
+    expect(allowed.status).toBe(200);
+  });
+
+  test("admins cannot disable 2FA", async () => {
+    const admin = await createUser("ADMIN");
+    const { cookie, secret } = await enroll(admin);
+
+    const res = await request(app)
+      .post("/api/auth/2fa/disable")
+      .set("Cookie", [cookie])
+      .send({ password: "password123", code: totp(secret) });
+
+    expect(res.status).toBe(403);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Units of measure tests
+ *
+ * Covers sweets sold by weight: decimal stock, buying and restocking in
+ * another unit of mass, per-unit precision, pricing per kg and per 100 g
+ * and decimal quantities in the cart and low-stock alerts.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { app } from "../src/app";
+import { convertQuantity, priceCents } from "../src/lib/units";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+let admin: any;
+let adminCookie: string;
+let category: any;
+
+// Ensure clean state across tests: an admin and a category
+beforeEach(async () => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+
+  admin = await prismaMock.user.create({
+    data: {
+      email: "admin@example.com",
+      name: "Admin",
+      password: "x",
+      role: "ADMIN",
+    },
+  });
+  adminCookie = `auth-token=${await sessionToken(admin)}`;
+
+  category = await prismaMock.category.create({
+    data: { name: "Halwa", description: "" },
+  });
+});
+
+const post = (url: string, body: any) =>
+  request(app).post(url).set("Cookie", [adminCookie]).send(body);
+
+const createSweet = (body: any) =>
+  prismaMock.sweet.create({
+    data: { categoryId: category.id, userId: admin.id, ...body },
+  });
+
+describe("convertQuantity", () => {
+  test("converts between units of mass", () => {
+    expect(convertQuantity(250, "GRAM", "KILOGRAM")).toBe(0.25);
+    expect(convertQuantity(1.5, "KILOGRAM", "GRAM")).toBe(1500);
+    expect(convertQuantity(2, undefined, "PIECE")).toBe(2);
+  });
+
+  test("refuses other kinds of unit and lost precision", () => {
+    expect(convertQuantity(250, "GRAM", "PIECE")).toBeNull();
+    expect(convertQuantity(0.5, "PIECE", "PIECE")).toBeNull();
+    expect(convertQuantity(0.0005, "KILOGRAM", "GRAM")).toBeNull();
+  });
+
+  test("prices per kg and per 100 g", () => {
+    expect(priceCents(12, 0.25, "KILOGRAM")).toBe(300);
+    expect(priceCents(4, 250, "GRAM")).toBe(1000);
+  });
+});
+
+describe("creating sweets", () => {
+  test("accepts decimal stock for sweets sold by the kg", async () => {
+    const res = await post("/api/sweets", {
+      name: "Sohan Halwa",
+      unit: "KILOGRAM",
+      price: 12,
+      stock: 2.5,
+      categoryId: category.id,
+    });
+
+    expect(res.status).toBe(201);
+    expect(res.body.sweet).toMatchObject({ unit: "KILOGRAM", stock: 2.5 });
+  });
+
+  test("refuses fractions of a piece", async () => {
+    const res = await post("/api/sweets", {
+      name: "Ladoo",
+      price: 1,
+      stock: 1.5,
+      categoryId: category.id,
+    });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors.stock).toBeDefined();
+  });
+});
+
+describe("buying by weight", () => {
+  test("buys 250 g of a sweet sold by the kg", async () => {
+    const sweet = await createSweet({
+      name: "Sohan Halwa",
+      unit: "KILOGRAM",
+      price: 12,
+      stock: 2.5,
+    });
+
+    const res = await post(`/api/sweets/${sweet.id}/purchase`, {
+      quantity: 250,
+      unit: "GRAM",
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.sweet.stock).toBe(2.25);
+    expect(Number(res.body.order.total)).toBe(3);
+    expect(res.body.order.items[0]).toMatchObject({
+      unit: "KILOGRAM",
+      quantity: 0.25,
+    });
+  });
+
+  test("prices sweets sold by the gram per 100 g", async () => {
+    const sweet = await createSweet({
+      name: "Karachi Halwa",
+      unit: "GRAM",
+      price: 4,
+      stock: 1000,
+    });
+
+    const res = await post("/api/orders", {
+      items: [{ sweetId: sweet.id, quantity: 0.25, unit: "KILOGRAM" }],
+    });
+
+    expect(res.status).toBe(201);
+    expect(Number(res.body.order.total)).toBe(10);
+    expect(res.body.order.items[0].quantity).toBe(250);
+  });
+
+  test("refuses quantities that do not fit the sweet's unit", async () => {
+    const sweet = await createSweet({ name: "Ladoo", price: 1, stock: 10 });
+
+    const half = await post(`/api/sweets/${sweet.id}/purchase`, {
+      quantity: 0.5,
+    });
+    expect(half.status).toBe(400);
+    expect(half.body.sweetIds).toEqual([sweet.id]);
+
+    const grams = await post(`/api/sweets/${sweet.id}/purchase`, {
+      quantity: 100,
+      unit: "GRAM",
+    });
+    expect(grams.status).toBe(400);
+    expect(
+      (await prismaMock.sweet.findUnique({ where: { id: sweet.id } })).stock,
+    ).toBe(10);
+  });
+
+  test("refuses more than is in stock after converting", async () => {
+    const sweet = await createSweet({
+      name: "Sohan Halwa",
+      unit: "KILOGRAM",
+      price: 12,
+      stock: 0.5,
+    });
+
+    const res = await post(`/api/sweets/${sweet.id}/purchase`, {
+      quantity: 600,
+      unit: "GRAM",
+    });
+
+    expect(res.status).toBe(400);
+    expect(res.body.shortages).toEqual([
+      { sweetId: sweet.id, requested: 0.6, available: 0.5 },
+    ]);
+  });
+});
+
+describe("restocking by weight", () => {
+  test("converts the restocked quantity to the sweet's unit", async () => {
+    const sweet = await createSweet({
+      name: "Karachi Halwa",
+      unit: "GRAM",
+      price: 4,
+      stock: 200,
+    });
+
+    const res = await post(`/api/sweets/${sweet.id}/restock`, {
+      quantity: 1.5,
+      unit: "KILOGRAM",
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.sweet.stock).toBe(1700);
+
+    const half = await post(`/api/sweets/${sweet.id}/restock`, {
+      quantity: 0.5,
+    });
+    expect(half.status).toBe(400);
+  });
+});
+
+describe("cart", () => {
+  test("adds quantities in different units together", async () => {
+    const sweet = await createSweet({
+      name: "Sohan Halwa",
+      unit: "KILOGRAM",
+      price: 12,
+      stock: 2,
+    });
+
+    await post("/api/cart/items", {
+      sweetId: sweet.id,
+      quantity: 250,
+      unit: "GRAM",
+    });
+    const res = await post("/api/cart/items", {
+      sweetId: sweet.id,
+      quantity: 0.5,
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.cart.items[0]).toMatchObject({
+      unit: "KILOGRAM",
+      quantity: 0.75,
+      status: "available",
+    });
+    expect(res.body.cart.total).toBe(9);
+  });
+});
+
+test("decimal stock opens low-stock alerts", async () => {
+  const sweet = await createSweet({
+    name: "Sohan Halwa",
+    unit: "KILOGRAM",
+    price: 12,
+    stock: 1,
+    lowStockThreshold: 0.5,
+  });
+
+  await post(`/api/sweets/${sweet.id}/purchase`, {
+    quantity: 600,
+    unit: "GRAM",
+  });
+
+  const alerts = await request(app)
+    .get("/api/inventory/alerts")
+    .set("Cookie", [adminCookie]);
+  expect(alerts.body.alerts).toEqual([
+    expect.objectContaining({ sweetId: sweet.id, stock: 0.4 }),
+  ]);
+});
@@ -0,0 +1,263 @@
+/**
+ * User administration integration tests
+ *
+ * Verifies the admin-only user management endpoints. Prisma is mocked and
+ * the login throttle uses a fresh in-memory store per test.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import bcrypt from "bcryptjs";
+import { app } from "../src/app";
+import {
+  MemoryAttemptStore,
+  setAttemptStore,
+} from "../src/lib/login-throttle";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+// Ensure clean state across tests
+beforeEach(() => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+  setAttemptStore(new MemoryAttemptStore());
+});
+
+describe("POST /api/users/:id/unlock", () => {
+  const lockOut = async (email: string) => {
+    for (let i = 0; i < 5; i++)
+      await request(app)
+        .post("/api/auth/login")
+        .send({ email, password: "wrong-password" });
+  };
+
+  test("returns 403 for non-admin users", async () => {
+    const user = await prismaMock.user.create({
+      data: { email: "u@example.com", name: "User", password: "x", role: "USER" },
+    });
+    const token = await sessionToken(user);
+
+    const res = await request(app)
+      .post(`/api/users/${user.id}/unlock`)
+      .set("Cookie", [`auth-token=${token}`]);
+
+    expect(res.status).toBe(403);
+  });
+
+  test("lets a locked-out user log in again", async () => {
+    const locked = await prismaMock.user.create({
+      data: {
+        email: "locked@example.com",
+        name: "Locked",
+        password: await bcrypt.hash("password123", 10),
+        role: "USER",
+      },
+    });
+    const admin = await prismaMock.user.create({
+      data: { email: "a@example.com", name: "Admin", password: "x", role: "ADMIN" },
+    });
+
+    await lockOut(locked.email);
+    const before = await request(app)
+      .post("/api/auth/login")
+      .send({ email: locked.email, password: "password123" });
+    expect(before.status).toBe(423);
+
+    const res = await request(app)
+      .post(`/api/users/${locked.id}/unlock`)
+      .set("Cookie", [`auth-token=${await sessionToken(admin)}`]);
+    expect(res.status).toBe(200);
+
+    const after = await request(app)
+      .post("/api/auth/login")
+      .send({ email: locked.email, password: "password123" });
+    expect(after.status).toBe(200);
+  });
+
+  test("lifts a lockout from wrong phone login codes", async () => {
+    const phone = "+919876543210";
+    const locked = await prismaMock.user.create({
+      data: {
+        email: "phone@example.com",
+        name: "Phone",
+        password: "x",
+        role: "USER",
+        phone,
+      },
+    });
+    const admin = await prismaMock.user.create({
+      data: { email: "a3@example.com", name: "Admin", password: "x", role: "ADMIN" },
+    });
+    const verify = () =>
+      request(app)
+        .post("/api/auth/otp/verify")
+        .send({ phone, code: "000000" });
+
+    for (let i = 0; i < 5; i++) await verify();
+    expect((await verify()).status).toBe(423);
+
+    const res = await request(app)
+      .post(`/api/users/${locked.id}/unlock`)
+      .set("Cookie", [`auth-token=${await sessionToken(admin)}`]);
+    expect(res.status).toBe(200);
+
+    // Wrong again, but no longer locked
+    expect((await verify()).status).toBe(401);
+  });
+
+  test("returns 404 for unknown users", async () => {
+    const admin = await prismaMock.user.create({
+      data: { email: "a2@example.com", name: "Admin", password: "x", role: "ADMIN" },
+    });
+
+    const res = await request(app)
+      .post("/api/users/missing/unlock")
+      .set("Cookie", [`auth-token=${await sessionToken(admin)}`]);
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("User management", () => {
+  const createUser = (email: string, role = "USER", extra: any = {}) =>
+    prismaMock.user.create({
+      data: { email, name: email.split("@")[0], password: "x", role, ...extra },
+    });
+
+  const adminCookie = async () => {
+    const admin = await createUser("admin@example.com", "ADMIN");
+    return { admin, cookie: `auth-token=${await sessionToken(admin)}` };
+  };
+
+  test("GET /api/users lists users without credentials", async () => {
+    const { cookie } = await adminCookie();
+    await createUser("alice@example.com");
+
+    const res = await request(app).get("/api/users").set("Cookie", [cookie]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(2);
+    expect(res.body.users[0]).not.toHaveProperty("password");
+    expect(res.body.users[0]).toHaveProperty("role");
+  });
+
+  test("GET /api/users searches by name or email and paginates", async () => {
+    const { cookie } = await adminCookie();
+    await createUser("alice@example.com");
+    await createUser("alicia@shop.test");
+    await createUser("bob@example.com");
+
+    const res = await request(app)
+      .get("/api/users?search=ALI&pageSize=1&page=2")
+      .set("Cookie", [cookie]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(2);
+    expect(res.body.users).toHaveLength(1);
+    expect(res.body.page).toBe(2);
+  });
+
+  test("GET /api/users requires user.manage", async () => {
+    const manager = await createUser("m@example.com", "MANAGER");
+
+    const res = await request(app)
+      .get("/api/users")
+      .set("Cookie", [`auth-token=${await sessionToken(manager)}`]);
+
+    expect(res.status).toBe(403);
+  });
+
+  test("PATCH /api/users/:id changes the role", async () => {
+    const { cookie } = await adminCookie();
+    const user = await createUser("staff@example.com");
+
+    const res = await request(app)
+      .patch(`/api/users/${user.id}`)
+      .set("Cookie", [cookie])
+      .send({ role: "STAFF" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.user.role).toBe("STAFF");
+    expect(res.body.user.permissions).toContain("stock.restock");
+  });
+
+  test("disabling a user signs them out and blocks login", async () => {
+    const { cookie } = await adminCookie();
+    const user = await prismaMock.user.create({
+      data: {
+        email: "disable@example.com",
+        name: "Disable Me",
+        password: await bcrypt.hash("password123", 10),
+        role: "USER",
+      },
+    });
+    const userCookie = `auth-token=${await sessionToken(user)}`;
+
+    const res = await request(app)
+      .patch(`/api/users/${user.id}`)
+      .set("Cookie", [cookie])
+      .send({ disabled: true });
+    expect(res.status).toBe(200);
+    expect(res.body.user.disabledAt).toBeTruthy();
+
+    const me = await request(app)
+      .get("/api/auth/me")
+      .set("Cookie", [userCookie]);
+    expect(me.status).toBe(401);
+
+    const login = await request(app)
+      .post("/api/auth/login")
+      .send({ email: user.email, password: "password123" });
+    expect(login.status).toBe(403);
+    expect(login.body.code).toBe("ACCOUNT_DISABLED");
+  });
+
+  test("requireAuth rejects disabled users with a live session", async () => {
+    const user = await createUser("d@example.com", "USER", {
+      disabledAt: new Date(),
+    });
+
+    const res = await request(app)
+      .get("/api/auth/me")
+      .set("Cookie", [`auth-token=${await sessionToken(user)}`]);
+
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe("ACCOUNT_DISABLED");
+  });
+
+  test("admins cannot change their own role", async () => {
+    const { admin, cookie } = await adminCookie();
+
+    const res = await request(app)
+      .patch(`/api/users/${admin.id}`)
+      .set("Cookie", [cookie])
+      .send({ role: "USER" });
+
+    expect(res.status).toBe(400);
+  });
+
+  test("POST /api/users/:id/force-logout revokes every session", async () => {
+    const { cookie } = await adminCookie();
+    const user = await createUser("f@example.com");
+    const first = `auth-token=${await sessionToken(user)}`;
+    await sessionToken(user);
+
+    const res = await request(app)
+      .post(`/api/users/${user.id}/force-logout`)
+      .set("Cookie", [cookie]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.revokedSessions).toBe(2);
+
+    const me = await request(app).get("/api/auth/me").set("Cookie", [first]);
+    expect(me.status).toBe(401);
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * Sweet variant tests
+ *
+ * Covers pack-size variants: adding, editing and archiving them, listing
+ * them with a "from" price, and buying, restocking and carting whole packs
+ * against each variant's own stock.
+ */
+// Mock Prisma at the top to avoid ESM import issues
+jest.mock("@/lib/prisma", () => ({
+  __esModule: true,
+  default: require("./__mocks__/prisma").default,
+}));
+
+import request from "./helpers/request";
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { app } from "../src/app";
+import { sessionToken } from "./helpers/session";
+
+// Access the mock Prisma client and its reset helper
+const prismaMockModule = require("./__mocks__/prisma");
+const prismaMock = prismaMockModule.default;
+
+let adminCookie: string;
+let sweet: any;
+
+// Ensure clean state across tests: a sweet sold by the kg
+beforeEach(async () => {
+  if (typeof prismaMockModule.__resetMocks === "function")
+    prismaMockModule.__resetMocks();
+
+  const admin = await prismaMock.user.create({
+    data: {
+      email: "admin@example.com",
+      name: "Admin",
+      password: "x",
+      role: "ADMIN",
+    },
+  });
+  adminCookie = `auth-token=${await sessionToken(admin)}`;
+
+  const category = await prismaMock.category.create({
+    data: { name: "Rasgulla", description: "" },
+  });
+  sweet = await prismaMock.sweet.create({
+    data: {
+      name: "Rasgulla",
+      unit: "KILOGRAM",
+      price: 8,
+      stock: 3,
+      categoryId: category.id,
+      userId: admin.id,
+    },
+  });
+});
+
+const as = (cookie: string) => ({
+  get: (url: string) => request(app).get(url).set("Cookie", [cookie]),
+  post: (url: string, body: any = {}) =>
+    request(app).post(url).set("Cookie", [cookie]).send(body),
+  put: (url: string, body: any = {}) =>
+    request(app).put(url).set("Cookie", [cookie]).send(body),
+  delete: (url: string) => request(app).delete(url).set("Cookie", [cookie]),
+});
+
+const addVariant = async (body: any) =>
+  (
+    await as(adminCookie).post(`/api/sweets/${sweet.id}/variants`, {
+      label: "500 g box",
+      size: 0.5,
+      price: 4.5,
+      sku: "RAS-500",
+      stock: 10,
+      ...body,
+    })
+  ).body.variant;
+
+const stockOf = async (variant: any) =>
+  (await prismaMock.sweetVariant.findUnique({ where: { id: variant.id } }))
+    .stock;
+
+describe("POST /api/sweets/:id/variants", () => {
+  test("adds a pack size with its opening stock", async () => {
+    const res = await as(adminCookie).post(`/api/sweets/${sweet.id}/variants`, {
+      label: "1 kg box",
+      size: 1,
+      price: 8.5,
+      sku: "RAS-1000",
+      stock: 4,
+    });
+
+    expect(res.status).toBe(201);
+    expect(res.body.variant).toMatchObject({ label: "1 kg box", stock: 4 });
+    expect(
+      await prismaMock.stockMovement.findMany({
+        where: { variantId: res.body.variant.id },
+      }),
+    ).toEqual([
+      expect.objectContaining({ type: "RESTOCK", delta: 4, balance: 4 }),
+    ]);
+  });
+
+  test("refuses a size that does not fit the sweet's unit", async () => {
+    const res = await as(adminCookie).post(`/api/sweets/${sweet.id}/variants`, {
+      label: "Tiny",
+      size: 0.0005,
+      price: 1,
+      sku: "RAS-TINY",
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  test("refuses a SKU that is already in use", async () => {
+    await addVariant({});
+
+    const res = await as(adminCookie).post(`/api/sweets/${sweet.id}/variants`, {
+      label: "Another box",
+      size: 0.5,
+      price: 4,
+      sku: "RAS-500",
+    });
+
+    expect(res.status).toBe(409);
+  });
+
+  test("requires sweet.update", async () => {
+    const staff = await prismaMock.user.create({
+      data: { email: "s@example.com", name: "S", password: "x", role: "STAFF" },
+    });
+
+    const res = await as(`auth-token=${await sessionToken(staff)}`).post(
+      `/api/sweets/${sweet.id}/variants`,
+      { label: "Box", size: 1, price: 1, sku: "RAS-1" },
+    );
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("listings", () => {
+  test("include variants, smallest first, and the lowest price", async () => {
+    await addVariant({ label: "1 kg box", size: 1, price: 8.5, sku: "A" });
+    await addVariant({ label: "250 g box", size: 0.25, price: 2.5, sku: "B" });
+
+    const res = await as(adminCookie).get("/api/sweets");
+
+    const [listed] = res.body.sweets;
+    expect(listed.variants.map((variant: any) => variant.label)).toEqual([
+      "250 g box",
+      "1 kg box",
+    ]);
+    expect(listed.fromPrice).toBe(2.5);
+  });
+
+  test("a sweet without variants is from its own price", async () => {
+    const res = await as(adminCookie).get("/api/sweets/search?name=ras");
+
+    expect(res.body.sweets[0]).toMatchObject({ variants: [], fromPrice: 8 });
+  });
+});
+
+describe("buying packs", () => {
+  test("takes stock from the variant, not the sweet", async () => {
+    const variant = await addVariant({});
+
+    const res = await as(adminCookie).post(
+      `/api/sweets/${sweet.id}/purchase`,
+      { quantity: 2, variantId: variant.id },
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.body.sweet.stock).toBe(3);
+    expect(await stockOf(variant)).toBe(8);
+    expect(Number(res.body.order.total)).toBe(9);
+    expect(res.body.order.items[0]).toMatchObject({
+      variantId: variant.id,
+      name: "Rasgulla (500 g box)",
+      unit: "PIECE",
+      quantity: 2,
+    });
+  });
+
+  test("refuses part packs and more packs than in stock", async () => {
+    const variant = await addVariant({ stock: 1 });
+
+    const half = await as(adminCookie).post(
+      `/api/sweets/${sweet.id}/purchase`,
+      { quantity: 0.5, variantId: variant.id },
+    );
+    expect(half.status).toBe(400);
+
+    const many = await as(adminCookie).post("/api/orders", {
+      items: [{ sweetId: sweet.id, variantId: variant.id, quantity: 2 }],
+    });
+    expect(many.status).toBe(400);
+    expect(many.body.shortages).toEqual([
+      { sweetId: sweet.id, variantId: variant.id, requested: 2, available: 1 },
+    ]);
+  });
+
+  test("refuses a variant of another sweet", async () => {
+    const variant = await addVariant({});
+    const other = await prismaMock.sweet.create({
+      data: { name: "Cham Cham", price: 1, stock: 5, categoryId: "1" },
+    });
+
+    const res = await as(adminCookie).post(
+      `/api/sweets/${other.id}/purchase`,
+      { quantity: 1, variantId: variant.id },
+    );
+
+    expect(res.status).toBe(404);
+    expect(res.body.variantIds).toEqual([variant.id]);
+  });
+
+  test("keeps loose and packed items apart in the cart", async () => {
+    const variant = await addVariant({});
+
+    await as(adminCookie).post("/api/cart/items", {
+      sweetId: sweet.id,
+      quantity: 1,
+    });
+    const cart = await as(adminCookie).post("/api/cart/items", {
+      sweetId: sweet.id,
+      variantId: variant.id,
+      quantity: 3,
+    });
+
+    expect(cart.body.cart.items).toEqual([
+      expect.objectContaining({ variantId: null, quantity: 1, unitPrice: 8 }),
+      expect.objectContaining({
+        variantId: variant.id,
+        name: "Rasgulla (500 g box)",
+        quantity: 3,
+        unitPrice: 4.5,
+      }),
+    ]);
+    expect(cart.body.cart.total).toBe(21.5);
+
+    const checkout = await as(adminCookie).post("/api/cart/checkout");
+    expect(checkout.status).toBe(201);
+    expect(
+      (await prismaMock.sweet.findUnique({ where: { id: sweet.id } })).stock,
+    ).toBe(2);
+    expect(await stockOf(variant)).toBe(7);
+  });
+});
+
+describe("restocking packs", () => {
+  test("adds whole packs to the variant", async () => {
+    const variant = await addVariant({ stock: 0 });
+
+    const res = await as(adminCookie).post(`/api/sweets/${sweet.id}/restock`, {
+      quantity: 6,
+      variantId: variant.id,
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.variant.stock).toBe(6);
+    expect(res.body.sweet.stock).toBe(3);
+
+    const part = await as(adminCookie).post(
+      `/api/sweets/${sweet.id}/restock`,
+      { quantity: 1.5, variantId: variant.id },
+    );
+    expect(part.status).toBe(400);
+  });
+});
+
+describe("editing and archiving", () => {
+  test("updates a variant's label and price", async () => {
+    const variant = await addVariant({});
+
+    const res = await as(adminCookie).put(
+      `/api/sweets/${sweet.id}/variants/${variant.id}`,
+      { label: "Half kilo", price: 4.25 },
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.body.variant).toMatchObject({ label: "Half kilo", price: 4.25 });
+  });
+
+  test("archived variants leave listings and carts", async () => {
+    const variant = await addVariant({});
+    await as(adminCookie).post("/api/cart/items", {
+      sweetId: sweet.id,
+      variantId: variant.id,
+      quantity: 1,
+    });
+
+    const res = await as(adminCookie).delete(
+      `/api/sweets/${sweet.id}/variants/${variant.id}`,
+    );
+    expect(res.status).toBe(200);
+
+    expect(
+      (await as(adminCookie).get("/api/sweets")).body.sweets[0].variants,
+    ).toEqual([]);
+    expect((await as(adminCookie).get("/api/cart")).body.cart.items).toEqual(
+      [],
+    );
+
+    const purchase = await as(adminCookie).post(
+      `/api/sweets/${sweet.id}/purchase`,
+      { quantity: 1, variantId: variant.id },
+    );
+    expect(purchase.status).toBe(404);
+  });
+
+  test("variants of an archived sweet cannot be edited or archived", async () => {
+    const variant = await addVariant({});
+    await as(adminCookie).delete(`/api/sweets/${sweet.id}`);
+    const url = `/api/sweets/${sweet.id}/variants/${variant.id}`;
+
+    const edit = await as(adminCookie).put(url, { label: "Half kilo" });
+    expect(edit.status).toBe(404);
+
+    const archive = await as(adminCookie).delete(url);
+    expect(archive.status).toBe(404);
+
+    expect(
+      await prismaMock.sweetVariant.findUnique({ where: { id: variant.id } }),
+    ).toMatchObject({ label: "500 g box", deletedAt: null });
+  });
+});